@@ -0,0 +1,57 @@
+import { env } from "./environment.js";
+import { AccountProfile } from "../types/account-types.js";
+
+// アカウント名（＝データディレクトリの名前空間）に使用できる文字
+export const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// NOTE_ACCOUNTS 未設定時・既存設定のプロファイル名
+export const PRIMARY_ACCOUNT_NAME = env.NOTE_ACCOUNT || "default";
+
+/**
+ * アカウント名から環境変数のプレフィックスを作る
+ * 例: "writer-a" → "NOTE_ACCOUNT_WRITER_A_"
+ */
+export function getAccountEnvPrefix(name: string): string {
+  return `NOTE_ACCOUNT_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+}
+
+/**
+ * 環境変数からアカウントプロファイル一覧を読み込む
+ * - プライマリ: NOTE_EMAIL / NOTE_PASSWORD / NOTE_USER_ID / NOTE_SESSION_V5 / NOTE_XSRF_TOKEN
+ * - 追加分: NOTE_ACCOUNTS=name1,name2 と NOTE_ACCOUNT_<NAME>_EMAIL 等
+ */
+export function loadAccountProfiles(): AccountProfile[] {
+  const profiles: AccountProfile[] = [
+    {
+      name: PRIMARY_ACCOUNT_NAME,
+      email: env.NOTE_EMAIL,
+      password: env.NOTE_PASSWORD,
+      userId: env.NOTE_USER_ID,
+      sessionV5: env.NOTE_SESSION_V5,
+      xsrfToken: env.NOTE_XSRF_TOKEN,
+      namespace: env.NOTE_ACCOUNT,
+      isPrimary: true,
+    },
+  ];
+
+  const names = (process.env.NOTE_ACCOUNTS || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name !== "" && name !== PRIMARY_ACCOUNT_NAME);
+
+  for (const name of new Set(names)) {
+    const prefix = getAccountEnvPrefix(name);
+    profiles.push({
+      name,
+      email: process.env[`${prefix}EMAIL`] || "",
+      password: process.env[`${prefix}PASSWORD`] || "",
+      userId: process.env[`${prefix}USER_ID`] || "",
+      sessionV5: process.env[`${prefix}SESSION_V5`] || "",
+      xsrfToken: process.env[`${prefix}XSRF_TOKEN`] || "",
+      namespace: name,
+      isPrimary: false,
+    });
+  }
+
+  return profiles;
+}
@@ -1,5 +1,7 @@
-// APIのベースURL
-export const API_BASE_URL = "https://note.com/api";
+import { env } from "./environment.js";
+
+// APIのベースURL（NOTE_API_BASE_URL で差し替え可能）
+export const API_BASE_URL = env.NOTE_API_BASE_URL || "https://note.com/api";
 
 // 共通ヘッダー
 export const DEFAULT_HEADERS = {
@@ -24,6 +26,8 @@ export const API_ENDPOINTS = {
   NOTE_LIKES: "/v3/notes",
   NOTE_DRAFT: "/v3/notes/draft",
   NOTE_LIST: "/v2/note_list/contents",
+  // 埋め込みカードのキー発行（エディタでURLを貼り付けたときと同じAPI）
+  EMBED: "/v2/embed_by_external_api",
 
   // ユーザー
   CREATORS: "/v2/creators",
@@ -43,3 +47,18 @@ export const API_ENDPOINTS = {
 } as const;
 
 export type ApiEndpoint = keyof typeof API_ENDPOINTS;
+
+// レスポンスキャッシュの対象エンドポイントとTTL（秒）
+// GETかつ先頭から一致した最初のルールを適用。一致しないエンドポイントはキャッシュしない
+export const CACHE_TTL_RULES: { pattern: RegExp; ttlSeconds: number }[] = [
+  { pattern: /^\/v1\/stats\/pv/, ttlSeconds: 600 },
+  { pattern: /^\/v3\/searches/, ttlSeconds: 300 },
+  { pattern: /^\/v2\/searches/, ttlSeconds: 300 },
+  { pattern: /^\/v2\/creators\/[^/]+\/contents/, ttlSeconds: 600 },
+  { pattern: /^\/v2\/creators\/[^/?]+(\?|$)/, ttlSeconds: 1800 },
+  { pattern: /^\/v2\/categories/, ttlSeconds: 3600 },
+  { pattern: /^\/v2\/hashtags/, ttlSeconds: 3600 },
+  { pattern: /^\/v1\/magazines/, ttlSeconds: 600 },
+  { pattern: /^\/v2\/circle\//, ttlSeconds: 600 },
+  { pattern: /^\/v3\/memberships/, ttlSeconds: 600 },
+];
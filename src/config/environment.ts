@@ -47,6 +47,28 @@ export interface Environment {
   // アウトバウンドエンゲージメント上限
   AGENT_MAX_LIKES_PER_DAY: number;
   AGENT_MAX_FOLLOWS_PER_DAY: number;
+  // 永続ストレージ
+  NOTE_STORAGE_BACKEND: "json" | "sqlite";
+  NOTE_SQLITE_PATH: string;
+  NOTE_DATA_DIR: string;
+  NOTE_ACCOUNT: string;
+  // note API リクエスト制御
+  NOTE_API_RATE_LIMIT_PER_SEC: number;
+  NOTE_API_RATE_LIMIT_BURST: number;
+  NOTE_API_HOST_RATE_LIMITS: string;
+  NOTE_API_MAX_RETRIES: number;
+  NOTE_API_RETRY_BASE_MS: number;
+  NOTE_API_RETRY_MAX_MS: number;
+  NOTE_API_TIMEOUT_MS: number;
+  // note API レスポンスキャッシュ
+  NOTE_API_CACHE_MODE: "off" | "memory" | "disk";
+  NOTE_API_CACHE_MAX_ENTRIES: number;
+  // note APIの接続先（ローカルのフェイクサーバー等を使う場合に指定）
+  NOTE_API_BASE_URL: string;
+  // Obsidianの保管庫（Vault）のルート（内部リンク・埋め込みの解決に使う）
+  OBSIDIAN_VAULT_PATH: string;
+  // PVスナップショットを記録するcron式（off で無効）
+  PV_SNAPSHOT_CRON: string;
 }
 
 export const env: Environment = {
@@ -83,6 +105,25 @@ export const env: Environment = {
   // アウトバウンドエンゲージメント上限
   AGENT_MAX_LIKES_PER_DAY: parseInt(process.env.AGENT_MAX_LIKES_PER_DAY || "20", 10),
   AGENT_MAX_FOLLOWS_PER_DAY: parseInt(process.env.AGENT_MAX_FOLLOWS_PER_DAY || "5", 10),
+  // 永続ストレージ
+  NOTE_STORAGE_BACKEND: (process.env.NOTE_STORAGE_BACKEND === "sqlite" ? "sqlite" : "json") as "json" | "sqlite",
+  NOTE_SQLITE_PATH: process.env.NOTE_SQLITE_PATH || "note-mcp.db",
+  NOTE_DATA_DIR: process.env.NOTE_DATA_DIR || "",
+  NOTE_ACCOUNT: process.env.NOTE_ACCOUNT || "",
+  // note API リクエスト制御
+  NOTE_API_RATE_LIMIT_PER_SEC: parseFloat(process.env.NOTE_API_RATE_LIMIT_PER_SEC || "2"),
+  NOTE_API_RATE_LIMIT_BURST: parseInt(process.env.NOTE_API_RATE_LIMIT_BURST || "5", 10),
+  NOTE_API_HOST_RATE_LIMITS: process.env.NOTE_API_HOST_RATE_LIMITS || "",
+  NOTE_API_MAX_RETRIES: parseInt(process.env.NOTE_API_MAX_RETRIES || "3", 10),
+  NOTE_API_RETRY_BASE_MS: parseInt(process.env.NOTE_API_RETRY_BASE_MS || "500", 10),
+  NOTE_API_RETRY_MAX_MS: parseInt(process.env.NOTE_API_RETRY_MAX_MS || "30000", 10),
+  NOTE_API_TIMEOUT_MS: parseInt(process.env.NOTE_API_TIMEOUT_MS || "30000", 10),
+  // note API レスポンスキャッシュ
+  NOTE_API_CACHE_MODE: (["off", "memory"].includes(process.env.NOTE_API_CACHE_MODE || "") ? process.env.NOTE_API_CACHE_MODE : "disk") as "off" | "memory" | "disk",
+  NOTE_API_CACHE_MAX_ENTRIES: parseInt(process.env.NOTE_API_CACHE_MAX_ENTRIES || "500", 10),
+  NOTE_API_BASE_URL: (process.env.NOTE_API_BASE_URL || "").replace(/\/+$/, ""),
+  OBSIDIAN_VAULT_PATH: process.env.OBSIDIAN_VAULT_PATH || "",
+  PV_SNAPSHOT_CRON: process.env.PV_SNAPSHOT_CRON || "50 23 * * *",
 };
 
 // 認証状態の判定
@@ -0,0 +1,286 @@
+/**
+ * ローカルのnote API代替サーバー用のフィクスチャデータ
+ * 実APIのレスポンスから必要なフィールドだけを抜き出した形にしている
+ */
+
+export const FIXTURE_CREDENTIALS = {
+  email: "writer@example.com",
+  password: "password",
+  sessionV5: "fake-session-v5",
+  xsrfToken: "fake-xsrf-token",
+};
+
+export interface FixtureUser {
+  id: number;
+  urlname: string;
+  nickname: string;
+  name: string;
+  profile: string;
+  follower_count: number;
+  following_count: number;
+  note_count: number;
+  user_profile_image_path: string;
+}
+
+export interface FixtureNote {
+  id: number;
+  key: string;
+  name: string;
+  body: string;
+  status: "published" | "draft";
+  type: "TextNote";
+  price: number;
+  likeCount: number;
+  commentsCount: number;
+  readCount: number;
+  weeklyReadCount: number;
+  monthlyReadCount: number;
+  hashtags: string[];
+  publishAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  userId: number;
+  eyecatch: string | null;
+}
+
+export interface FixtureComment {
+  id: number;
+  noteId: number;
+  text: string;
+  userId: number;
+  createdAt: string;
+}
+
+export interface FixtureState {
+  users: FixtureUser[];
+  notes: FixtureNote[];
+  comments: FixtureComment[];
+  likes: { noteId: number; userId: number; createdAt: string }[];
+  magazines: {
+    id: number;
+    key: string;
+    name: string;
+    description: string;
+    userId: number;
+    noteIds: number[];
+    publishAt: string;
+  }[];
+  circle: {
+    id: number;
+    name: string;
+    description: string;
+    userId: number;
+    plans: { id: number; key: string; name: string; price: number; description: string }[];
+    memberKeys: string[];
+  };
+  hashtags: { name: string; count: number }[];
+  categories: { id: number; name: string; urlname: string }[];
+  nextId: number;
+}
+
+function isoDaysAgo(days: number): string {
+  return new Date(Date.UTC(2026, 0, 31) - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+const TOPICS = [
+  "朝の30分でできる文章トレーニング",
+  "noteの有料記事を始めて分かったこと",
+  "読まれるタイトルの付け方",
+  "毎日投稿を3ヶ月続けた結果",
+  "エッセイと解説記事の書き分け",
+  "アイキャッチ画像の作り方",
+  "マガジン運用のコツ",
+  "メンバーシップ開設の準備",
+  "ハッシュタグの選び方",
+  "コメント欄との付き合い方",
+  "記事の構成テンプレート",
+  "書けない日の過ごし方",
+];
+
+/**
+ * フィクスチャの初期状態を作る（呼び出しごとに新しいオブジェクトを返す）
+ */
+export function createFixtureState(): FixtureState {
+  const users: FixtureUser[] = [
+    {
+      id: 1001,
+      urlname: "fixture_writer",
+      nickname: "フィクスチャ書き手",
+      name: "フィクスチャ書き手",
+      profile: "ローカル検証用のアカウントです。",
+      follower_count: 1280,
+      following_count: 150,
+      note_count: TOPICS.length,
+      user_profile_image_path: "https://assets.example.com/profile/fixture_writer.png",
+    },
+    {
+      id: 1002,
+      urlname: "rival_writer",
+      nickname: "ライバル書き手",
+      name: "ライバル書き手",
+      profile: "競合分析用のアカウントです。",
+      follower_count: 5400,
+      following_count: 320,
+      note_count: 2,
+      user_profile_image_path: "https://assets.example.com/profile/rival_writer.png",
+    },
+  ];
+
+  const notes: FixtureNote[] = TOPICS.map((title, index) => {
+    const id = 5000 + index;
+    const readCount = 2000 - index * 120;
+    return {
+      id,
+      key: `nfixture${String(index + 1).padStart(4, "0")}`,
+      name: title,
+      body: `<p>${title}についてのフィクスチャ本文です。</p><h2>ポイント</h2><p>検証用のダミーテキスト。</p>`,
+      status: "published",
+      type: "TextNote",
+      price: index % 4 === 1 ? 300 : 0,
+      likeCount: 80 - index * 5,
+      commentsCount: index % 3,
+      readCount,
+      weeklyReadCount: Math.round(readCount * (index < 3 ? 0.2 : 0.05)),
+      monthlyReadCount: Math.round(readCount * 0.4),
+      hashtags: ["#note", index % 2 === 0 ? "#文章術" : "#ブログ"],
+      publishAt: isoDaysAgo(index * 3 + 1),
+      createdAt: isoDaysAgo(index * 3 + 2),
+      updatedAt: isoDaysAgo(index * 3 + 1),
+      userId: 1001,
+      eyecatch: index % 2 === 0 ? `https://assets.example.com/eyecatch/${id}.png` : null,
+    };
+  });
+
+  notes.push(
+    {
+      id: 5100,
+      key: "nfixturedraft01",
+      name: "書きかけの下書き",
+      body: "<p>まだ途中です。</p>",
+      status: "draft",
+      type: "TextNote",
+      price: 0,
+      likeCount: 0,
+      commentsCount: 0,
+      readCount: 0,
+      weeklyReadCount: 0,
+      monthlyReadCount: 0,
+      hashtags: [],
+      publishAt: null,
+      createdAt: isoDaysAgo(1),
+      updatedAt: isoDaysAgo(0),
+      userId: 1001,
+      eyecatch: null,
+    },
+    {
+      id: 6000,
+      key: "nrival0001",
+      name: "文章術の基本をまとめました",
+      body: "<p>競合記事のフィクスチャです。</p>",
+      status: "published",
+      type: "TextNote",
+      price: 0,
+      likeCount: 320,
+      commentsCount: 12,
+      readCount: 9800,
+      weeklyReadCount: 1200,
+      monthlyReadCount: 4100,
+      hashtags: ["#文章術"],
+      publishAt: isoDaysAgo(2),
+      createdAt: isoDaysAgo(3),
+      updatedAt: isoDaysAgo(2),
+      userId: 1002,
+      eyecatch: null,
+    },
+    {
+      id: 6001,
+      key: "nrival0002",
+      name: "有料記事の値付けについて",
+      body: "<p>競合の有料記事フィクスチャです。</p>",
+      status: "published",
+      type: "TextNote",
+      price: 500,
+      likeCount: 150,
+      commentsCount: 4,
+      readCount: 4300,
+      weeklyReadCount: 300,
+      monthlyReadCount: 1500,
+      hashtags: ["#note"],
+      publishAt: isoDaysAgo(10),
+      createdAt: isoDaysAgo(11),
+      updatedAt: isoDaysAgo(10),
+      userId: 1002,
+      eyecatch: null,
+    }
+  );
+
+  return {
+    users,
+    notes,
+    comments: [
+      {
+        id: 9001,
+        noteId: 5000,
+        text: "参考になりました！",
+        userId: 1002,
+        createdAt: isoDaysAgo(1),
+      },
+    ],
+    likes: [],
+    magazines: [
+      {
+        id: 7001,
+        key: "mfixture0001",
+        name: "文章術まとめ",
+        description: "文章術に関する記事をまとめたマガジン",
+        userId: 1001,
+        noteIds: [5000, 5002, 5004],
+        publishAt: isoDaysAgo(30),
+      },
+      {
+        id: 7002,
+        key: "mfixture0002",
+        name: "note運用ノウハウ",
+        description: "note運用のノウハウ",
+        userId: 1001,
+        noteIds: [5001, 5006],
+        publishAt: isoDaysAgo(20),
+      },
+    ],
+    circle: {
+      id: 8001,
+      name: "フィクスチャメンバーシップ",
+      description: "ローカル検証用のメンバーシップ",
+      userId: 1001,
+      plans: [
+        {
+          id: 8101,
+          key: "pfixturebasic",
+          name: "ベーシック",
+          price: 500,
+          description: "月2本の限定記事",
+        },
+        {
+          id: 8102,
+          key: "pfixturepremium",
+          name: "プレミアム",
+          price: 1500,
+          description: "全記事と月1回の相談",
+        },
+      ],
+      memberKeys: ["pfixturebasic"],
+    },
+    hashtags: [
+      { name: "文章術", count: 15230 },
+      { name: "note", count: 98000 },
+      { name: "ブログ", count: 42000 },
+      { name: "エッセイ", count: 61000 },
+    ],
+    categories: [
+      { id: 1, name: "エッセイ", urlname: "essay" },
+      { id: 2, name: "ビジネス", urlname: "business" },
+      { id: 3, name: "ライフスタイル", urlname: "lifestyle" },
+    ],
+    nextId: 10000,
+  };
+}
@@ -0,0 +1,890 @@
+import http from "http";
+import {
+  FIXTURE_CREDENTIALS,
+  FixtureNote,
+  FixtureState,
+  FixtureUser,
+  createFixtureState,
+} from "./fixtures.js";
+
+/**
+ * note APIのローカル代替サーバー
+ * API_ENDPOINTS とツールが呼び出すエンドポイントをフィクスチャデータで再現する。
+ * `/__fake/*` は検証用の制御エンドポイント（リクエスト履歴・状態リセット・障害注入）。
+ */
+
+// 自分のアカウントとして扱うフィクスチャユーザー
+const SELF_USER_ID = 1001;
+const STATS_PAGE_SIZE = 10;
+const CONTENTS_PAGE_SIZE = 10;
+
+interface RouteContext {
+  req: http.IncomingMessage;
+  url: URL;
+  params: Record<string, string>;
+  body: any;
+  state: FixtureState;
+  origin: string;
+}
+
+interface RouteResult {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string | string[]>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  auth?: boolean;
+  handler: (ctx: RouteContext) => RouteResult;
+}
+
+export interface FakeFault {
+  method?: string;
+  // このパスで始まるリクエストに適用（/api を含む）
+  path: string;
+  status: number;
+  // 何回障害を返すか（返し終わったら解除）
+  times: number;
+  retryAfter?: number;
+  body?: unknown;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  status: number;
+  authenticated: boolean;
+  at: string;
+}
+
+export interface FakeNoteApiOptions {
+  port?: number;
+  host?: string;
+  state?: FixtureState;
+}
+
+export interface FakeNoteApi {
+  server: http.Server;
+  // NOTE_API_BASE_URL に設定する値（例: http://127.0.0.1:4010/api）
+  baseUrl: string;
+  state: FixtureState;
+  requests: RecordedRequest[];
+  addFault(fault: FakeFault): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+function findUser(state: FixtureState, idOrUrlname: string | number): FixtureUser | undefined {
+  return state.users.find(
+    (user) => user.urlname === idOrUrlname || String(user.id) === String(idOrUrlname)
+  );
+}
+
+function findNote(state: FixtureState, idOrKey: string): FixtureNote | undefined {
+  return state.notes.find((note) => note.key === idOrKey || String(note.id) === idOrKey);
+}
+
+function userView(user: FixtureUser | undefined) {
+  if (!user) return {};
+  return {
+    ...user,
+    noteCount: user.note_count,
+    followerCount: user.follower_count,
+    followingCount: user.following_count,
+  };
+}
+
+function noteView(state: FixtureState, note: FixtureNote) {
+  const isDraft = note.status === "draft";
+  return {
+    id: note.id,
+    key: note.key,
+    type: note.type,
+    status: note.status,
+    name: isDraft ? "" : note.name,
+    body: isDraft ? "" : note.body,
+    price: note.price,
+    likeCount: note.likeCount,
+    like_count: note.likeCount,
+    commentsCount: note.commentsCount,
+    publishAt: note.publishAt,
+    createdAt: note.createdAt,
+    eyecatch: note.eyecatch,
+    hashtags: note.hashtags.map((name) => ({ hashtag: { name } })),
+    noteDraft: isDraft ? { name: note.name, body: note.body, updatedAt: note.updatedAt } : null,
+    user: userView(findUser(state, note.userId)),
+  };
+}
+
+function pageOf<T>(items: T[], page: number, size: number) {
+  const start = (Math.max(1, page) - 1) * size;
+  const contents = items.slice(start, start + size);
+  return { contents, isLastPage: start + size >= items.length };
+}
+
+function intParam(url: URL, name: string, fallback: number): number {
+  const value = parseInt(url.searchParams.get(name) || "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+function notFound(message = "not found"): RouteResult {
+  return { status: 404, body: { error: { code: "not_found", message } } };
+}
+
+function publishedNotes(state: FixtureState, userId?: number): FixtureNote[] {
+  return state.notes.filter(
+    (note) => note.status === "published" && (userId === undefined || note.userId === userId)
+  );
+}
+
+const routes: Route[] = [
+  // --- 認証 ---
+  {
+    method: "POST",
+    pattern: /^\/v1\/sessions\/sign_in$/,
+    handler: ({ body }) => {
+      if (
+        body?.login !== FIXTURE_CREDENTIALS.email ||
+        body?.password !== FIXTURE_CREDENTIALS.password
+      ) {
+        return { status: 401, body: { error: { message: "ログインに失敗しました" } } };
+      }
+      return {
+        status: 201,
+        headers: {
+          "Set-Cookie": [
+            `_note_session_v5=${FIXTURE_CREDENTIALS.sessionV5}; path=/; HttpOnly`,
+            `XSRF-TOKEN=${FIXTURE_CREDENTIALS.xsrfToken}; path=/`,
+          ],
+        },
+        body: { data: { key: "fixture_writer", token: FIXTURE_CREDENTIALS.sessionV5 } },
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/v2\/current_user$/,
+    auth: true,
+    handler: ({ state }) => ({
+      headers: { "X-XSRF-TOKEN": FIXTURE_CREDENTIALS.xsrfToken },
+      body: { data: userView(findUser(state, SELF_USER_ID)) },
+    }),
+  },
+
+  // --- 検索 ---
+  {
+    method: "GET",
+    pattern: /^\/v[23]\/searches$/,
+    handler: ({ url, state }) => {
+      const q = (url.searchParams.get("q") || "").toLowerCase();
+      const context = url.searchParams.get("context") || "all";
+      const size = intParam(url, "size", 10);
+      const start = intParam(url, "start", 0);
+      const match = (text: string) => q === "" || text.toLowerCase().includes(q);
+
+      const notes = publishedNotes(state).filter((note) => match(note.name) || match(note.body));
+      const users = state.users.filter((user) => match(user.nickname) || match(user.urlname));
+      const magazines = state.magazines.filter((magazine) => match(magazine.name));
+      const hashtags = state.hashtags.filter((tag) => match(tag.name));
+      const data: Record<string, unknown> = {};
+
+      if (context === "note" || context === "all") {
+        data.notes = {
+          contents: notes.slice(start, start + size).map((note) => noteView(state, note)),
+          total_count: notes.length,
+          is_last_page: start + size >= notes.length,
+        };
+      }
+      if (context === "user" || context === "all") {
+        data.users = users.slice(start, start + size).map(userView);
+        data.usersCount = users.length;
+      }
+      if (context === "magazine" || context === "all") {
+        data.magazines = magazines.slice(start, start + size).map((magazine) => ({
+          ...magazine,
+          notesCount: magazine.noteIds.length,
+          user: userView(findUser(state, magazine.userId)),
+        }));
+        data.magazinesCount = magazines.length;
+      }
+      if (context === "hashtag" || context === "all") {
+        data.hashtags = hashtags.slice(start, start + size);
+      }
+      return { body: { data } };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/v2\/search_histories$/,
+    handler: () => ({ body: { data: { keywords: ["文章術", "note 有料"] } } }),
+  },
+
+  // --- 記事 ---
+  {
+    method: "GET",
+    pattern: /^\/v3\/notes\/(?<id>[^/]+)\/likes$/,
+    handler: ({ params, state }) => {
+      const note = findNote(state, params.id);
+      if (!note) return notFound();
+      const likes = state.likes
+        .filter((like) => like.noteId === note.id)
+        .map((like) => ({
+          user: userView(findUser(state, like.userId)),
+          created_at: like.createdAt,
+        }));
+      return { body: { data: { likes, like_count: note.likeCount } } };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/v3\/notes\/(?<id>[^/]+)\/likes$/,
+    auth: true,
+    handler: ({ params, state }) => {
+      const note = findNote(state, params.id);
+      if (!note) return notFound();
+      if (!state.likes.some((like) => like.noteId === note.id && like.userId === SELF_USER_ID)) {
+        state.likes.push({
+          noteId: note.id,
+          userId: SELF_USER_ID,
+          createdAt: new Date().toISOString(),
+        });
+        note.likeCount++;
+      }
+      return { status: 201, body: { data: { result: true } } };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/v3\/notes\/(?<id>[^/]+)\/likes$/,
+    auth: true,
+    handler: ({ params, state }) => {
+      const note = findNote(state, params.id);
+      if (!note) return notFound();
+      const before = state.likes.length;
+      state.likes = state.likes.filter(
+        (like) => !(like.noteId === note.id && like.userId === SELF_USER_ID)
+      );
+      if (state.likes.length < before) note.likeCount--;
+      return { body: { data: { result: true } } };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/v3\/notes\/(?<id>[^/]+)\/publish$/,
+    auth: true,
+    handler: ({ params, body, state }) => {
+      const note = findNote(state, params.id);
+      if (!note) return notFound();
+      note.name = body?.title || note.name;
+      note.body = body?.body || note.body;
+      note.status = "published";
+      note.publishAt = new Date().toISOString();
+      return { status: 201, body: { data: noteView(state, note) } };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/v3\/notes\/(?<id>[^/]+)$/,
+    handler: ({ params, state }) => {
+      const note = findNote(state, params.id);
+      if (!note) return notFound();
+      return { body: { data: noteView(state, note) } };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/v1\/note\/(?<id>[^/]+)\/comments$/,
+    handler: ({ params, state }) => {
+      const note = findNote(state, params.id);
+      if (!note) return notFound();
+      const comments = state.comments
+        .filter((comment) => comment.noteId === note.id)
+        .map((comment) => ({
+          id: comment.id,
+          comment: comment.text,
+          created_at: comment.createdAt,
+          user: userView(findUser(state, comment.userId)),
+        }));
+      return { body: { data: { comments }, comments } };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/v1\/note\/(?<id>[^/]+)\/comments$/,
+    auth: true,
+    handler: ({ params, body, state }) => {
+      const note = findNote(state, params.id);
+      if (!note) return notFound();
+      const comment = {
+        id: state.nextId++,
+        noteId: note.id,
+        text: String(body?.text ?? ""),
+        userId: SELF_USER_ID,
+        createdAt: new Date().toISOString(),
+      };
+      state.comments.push(comment);
+      note.commentsCount++;
+      return { status: 201, body: { data: { id: comment.id, comment: comment.text } } };
+    },
+  },
+
+  // --- 下書き作成・保存 ---
+  {
+    method: "POST",
+    pattern: /^\/v1\/text_notes$/,
+    auth: true,
+    handler: ({ body, state }) => {
+      const id = state.nextId++;
+      const now = new Date().toISOString();
+      const note: FixtureNote = {
+        id,
+        key: `n${id.toString(16)}fake`,
+        name: body?.name || "無題",
+        body: body?.body || "",
+        status: "draft",
+        type: "TextNote",
+        price: 0,
+        likeCount: 0,
+        commentsCount: 0,
+        readCount: 0,
+        weeklyReadCount: 0,
+        monthlyReadCount: 0,
+        hashtags: [],
+        publishAt: null,
+        createdAt: now,
+        updatedAt: now,
+        userId: SELF_USER_ID,
+        eyecatch: null,
+      };
+      state.notes.push(note);
+      return { status: 201, body: { data: { id, key: note.key, status: note.status } } };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/v1\/text_notes\/draft_save$/,
+    auth: true,
+    handler: ({ url, body, state }) => {
+      const note = findNote(state, url.searchParams.get("id") || "");
+      if (!note) return notFound();
+      note.name = body?.name ?? note.name;
+      note.body = body?.body ?? note.body;
+      note.updatedAt = new Date().toISOString();
+      return {
+        status: 201,
+        body: { data: { result: true, note_days_count: 1, updated_at: note.updatedAt } },
+      };
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/v1\/text_notes\/(?<id>[^/]+)$/,
+    auth: true,
+    handler: ({ params, body, state }) => {
+      const note = findNote(state, params.id);
+      if (!note) return notFound();
+      note.name = body?.title ?? body?.name ?? note.name;
+      note.body = body?.body ?? note.body;
+      if (Array.isArray(body?.tags)) note.hashtags = body.tags;
+      if (body?.status === "published" && note.status !== "published") {
+        note.status = "published";
+        note.publishAt = new Date().toISOString();
+      }
+      note.updatedAt = new Date().toISOString();
+      return { body: { data: noteView(state, note) } };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/v2\/note_list\/contents$/,
+    auth: true,
+    handler: ({ url, state }) => {
+      const status = url.searchParams.get("status");
+      const own = state.notes.filter(
+        (note) =>
+          note.userId === SELF_USER_ID &&
+          (!status || (status === "draft" ? note.status === "draft" : note.status === "published"))
+      );
+      const { contents } = pageOf(own, intParam(url, "page", 1), intParam(url, "per_page", 20));
+      return {
+        body: {
+          data: { notes: contents.map((note) => noteView(state, note)), totalCount: own.length },
+        },
+      };
+    },
+  },
+
+  // --- 統計 ---
+  {
+    method: "GET",
+    pattern: /^\/v1\/stats\/pv$/,
+    auth: true,
+    handler: ({ url, state }) => {
+      const filter = url.searchParams.get("filter") || "all";
+      const countOf = (note: FixtureNote) =>
+        filter === "week"
+          ? note.weeklyReadCount
+          : filter === "month"
+            ? note.monthlyReadCount
+            : note.readCount;
+      const stats = publishedNotes(state, SELF_USER_ID)
+        .map((note) => ({
+          id: note.id,
+          key: note.key,
+          name: note.name,
+          type: note.type,
+          read_count: countOf(note),
+          like_count: note.likeCount,
+          comment_count: note.commentsCount,
+          user: { urlname: findUser(state, note.userId)?.urlname },
+        }))
+        .sort((a, b) => b.read_count - a.read_count);
+      const { contents, isLastPage } = pageOf(stats, intParam(url, "page", 1), STATS_PAGE_SIZE);
+      return {
+        body: {
+          data: {
+            note_stats: contents,
+            total_pv: stats.reduce((sum, stat) => sum + stat.read_count, 0),
+            total_like: stats.reduce((sum, stat) => sum + stat.like_count, 0),
+            total_comment: stats.reduce((sum, stat) => sum + stat.comment_count, 0),
+            last_page: isLastPage,
+          },
+        },
+      };
+    },
+  },
+
+  // --- クリエイター ---
+  {
+    method: "GET",
+    pattern: /^\/v2\/creators\/(?<urlname>[^/]+)\/contents$/,
+    handler: ({ url, params, state }) => {
+      const user = findUser(state, decodeURIComponent(params.urlname));
+      if (!user) return notFound("creator not found");
+      const notes = publishedNotes(state, user.id);
+      const { contents, isLastPage } = pageOf(notes, intParam(url, "page", 1), CONTENTS_PAGE_SIZE);
+      return {
+        body: {
+          data: {
+            contents: contents.map((note) => noteView(state, note)),
+            isLastPage,
+            totalCount: notes.length,
+            limit: CONTENTS_PAGE_SIZE,
+          },
+        },
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/v2\/creators\/(?<urlname>[^/]+)$/,
+    handler: ({ params, state }) => {
+      const user = findUser(state, decodeURIComponent(params.urlname));
+      if (!user) return notFound("creator not found");
+      return { body: { data: userView(user) } };
+    },
+  },
+
+  // --- マガジン ---
+  {
+    method: "GET",
+    pattern: /^\/v1\/magazines\/(?<id>[^/]+)$/,
+    handler: ({ params, state }) => {
+      const magazine = state.magazines.find(
+        (m) => m.key === params.id || String(m.id) === params.id
+      );
+      if (!magazine) return notFound("magazine not found");
+      const notes = magazine.noteIds
+        .map((id) => findNote(state, String(id)))
+        .filter((note): note is FixtureNote => Boolean(note))
+        .map((note) => noteView(state, note));
+      return {
+        body: {
+          data: {
+            ...magazine,
+            notes,
+            notesCount: notes.length,
+            user: userView(findUser(state, magazine.userId)),
+          },
+        },
+      };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/v1\/our\/magazines\/(?<id>[^/]+)\/notes$/,
+    auth: true,
+    handler: ({ params, body, state }) => {
+      const magazine = state.magazines.find(
+        (m) => m.key === params.id || String(m.id) === params.id
+      );
+      const note = findNote(state, String(body?.id ?? body?.note_id ?? body?.key ?? ""));
+      if (!magazine || !note) return notFound();
+      if (!magazine.noteIds.includes(note.id)) magazine.noteIds.push(note.id);
+      return { status: 201, body: { data: { result: true } } };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/v1\/our\/magazines\/(?<id>[^/]+)\/notes\/(?<noteId>[^/]+)$/,
+    auth: true,
+    handler: ({ params, state }) => {
+      const magazine = state.magazines.find(
+        (m) => m.key === params.id || String(m.id) === params.id
+      );
+      const note = findNote(state, params.noteId);
+      if (!magazine || !note) return notFound();
+      magazine.noteIds = magazine.noteIds.filter((id) => id !== note.id);
+      return { body: { data: { result: true } } };
+    },
+  },
+
+  // --- メンバーシップ ---
+  {
+    method: "GET",
+    pattern: /^\/v2\/circle$/,
+    auth: true,
+    handler: ({ state }) => ({
+      body: {
+        data: {
+          circle: { ...state.circle, owner: userView(findUser(state, state.circle.userId)) },
+        },
+      },
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/v2\/circle\/plans$/,
+    auth: true,
+    handler: ({ state }) => ({ body: { data: { plans: state.circle.plans } } }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/v2\/circle\/memberships\/summaries$/,
+    auth: true,
+    handler: ({ state }) => ({
+      body: {
+        data: {
+          summaries: state.circle.plans
+            .filter((plan) => state.circle.memberKeys.includes(plan.key))
+            .map((plan) => ({
+              id: plan.id,
+              key: plan.key,
+              name: plan.name,
+              price: plan.price,
+              circle: { name: state.circle.name },
+              owner: userView(findUser(state, state.circle.userId)),
+            })),
+        },
+      },
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/v3\/memberships\/(?<key>[^/]+)\/notes$/,
+    auth: true,
+    handler: ({ url, params, state }) => {
+      if (!state.circle.plans.some((plan) => plan.key === params.key)) {
+        return notFound("membership not found");
+      }
+      const notes = publishedNotes(state, state.circle.userId).filter((note) => note.price > 0);
+      const { contents } = pageOf(notes, intParam(url, "page", 1), intParam(url, "per", 20));
+      return {
+        body: {
+          data: { notes: contents.map((note) => noteView(state, note)), total: notes.length },
+        },
+      };
+    },
+  },
+
+  // --- カテゴリ・ハッシュタグ・その他 ---
+  {
+    method: "GET",
+    pattern: /^\/v2\/categories$/,
+    handler: ({ state }) => ({ body: { data: { categories: state.categories } } }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/v1\/categories\/(?<name>[^/]+)$/,
+    handler: ({ params, state }) => {
+      const category = state.categories.find((c) => c.urlname === params.name);
+      if (!category) return notFound("category not found");
+      const notes = publishedNotes(state).slice(0, CONTENTS_PAGE_SIZE);
+      return { body: { data: { category, notes: notes.map((note) => noteView(state, note)) } } };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/v2\/hashtags$/,
+    handler: ({ state }) => ({
+      body: {
+        data: {
+          hashtags: state.hashtags.map((tag) => ({
+            hashtag: tag,
+            name: tag.name,
+            count: tag.count,
+          })),
+        },
+      },
+    }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/v2\/hashtags\/(?<tag>[^/]+)$/,
+    handler: ({ params, state }) => {
+      const name = decodeURIComponent(params.tag).replace(/^#/, "");
+      const tag = state.hashtags.find((candidate) => candidate.name === name);
+      if (!tag) return notFound("hashtag not found");
+      return { body: { data: { hashtag: tag } } };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/v2\/contests$/,
+    handler: () => ({ body: { data: { contests: [] } } }),
+  },
+  {
+    method: "GET",
+    pattern: /^\/v3\/notice_counts$/,
+    auth: true,
+    handler: () => ({ body: { data: { unread_count: 2, news_unread_count: 0 } } }),
+  },
+
+  // --- 埋め込みカード ---
+  {
+    method: "GET",
+    pattern: /^\/v2\/embed_by_external_api$/,
+    auth: true,
+    handler: ({ url, state }) => {
+      const src = url.searchParams.get("url");
+      if (!src || !findNote(state, url.searchParams.get("embeddable_key") || "")) {
+        return { status: 422, body: { error: { message: "埋め込みを作成できません" } } };
+      }
+      return {
+        body: {
+          data: {
+            key: `emb${String(state.nextId++).padStart(12, "0")}`,
+            url: src,
+            service: url.searchParams.get("service"),
+          },
+        },
+      };
+    },
+  },
+
+  // --- 画像アップロード ---
+  {
+    method: "POST",
+    pattern: /^\/v3\/images\/upload\/presigned_post$/,
+    auth: true,
+    handler: ({ origin, state }) => {
+      const id = state.nextId++;
+      return {
+        body: {
+          data: {
+            url: `${origin}/__fake/assets/${id}.png`,
+            action: `${origin}/__fake/s3`,
+            post: { key: `uploads/${id}.png`, policy: "fake-policy", "x-amz-signature": "fake" },
+          },
+        },
+      };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/v1\/presigns$/,
+    auth: true,
+    handler: ({ origin, state }) => {
+      const id = state.nextId++;
+      return {
+        body: {
+          data: {
+            url: `${origin}/__fake/s3/${id}.png`,
+            s3_url: `${origin}/__fake/assets/${id}.png`,
+          },
+        },
+      };
+    },
+  },
+];
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function parseBody(raw: Buffer, contentType: string | undefined): any {
+  if (raw.length === 0) return null;
+  if (contentType?.includes("application/json")) {
+    try {
+      return JSON.parse(raw.toString("utf-8"));
+    } catch {
+      return null;
+    }
+  }
+  return raw;
+}
+
+function isAuthenticated(req: http.IncomingMessage): boolean {
+  return (req.headers.cookie || "").includes("_note_session_v5=");
+}
+
+/**
+ * フェイクサーバーを作成して起動する
+ */
+export async function startFakeNoteApi(options: FakeNoteApiOptions = {}): Promise<FakeNoteApi> {
+  const host = options.host ?? "127.0.0.1";
+  let state = options.state ?? createFixtureState();
+  let faults: FakeFault[] = [];
+  const requests: RecordedRequest[] = [];
+
+  const send = (res: http.ServerResponse, result: RouteResult) => {
+    const status = result.status ?? 200;
+    for (const [name, value] of Object.entries(result.headers ?? {})) {
+      res.setHeader(name, value);
+    }
+    if (result.body === undefined) {
+      res.writeHead(status);
+      res.end();
+      return;
+    }
+    res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+    res.end(JSON.stringify(result.body));
+  };
+
+  const handleControl = (method: string, pathname: string, body: any): RouteResult => {
+    if (method === "GET" && pathname === "/__fake/requests") {
+      return { body: { requests } };
+    }
+    if (method === "POST" && pathname === "/__fake/reset") {
+      api.reset();
+      return { body: { status: "reset" } };
+    }
+    if (method === "POST" && pathname === "/__fake/faults") {
+      if (!body?.path || !body?.status) {
+        return { status: 400, body: { error: "path と status は必須です" } };
+      }
+      api.addFault({ times: 1, ...body });
+      return { status: 201, body: { faults } };
+    }
+    // 画像アップロード先のS3・アセット
+    if (pathname.startsWith("/__fake/s3")) {
+      return { status: 204 };
+    }
+    if (method === "GET" && pathname.startsWith("/__fake/assets/")) {
+      return { headers: { "Content-Type": "image/png" }, body: undefined };
+    }
+    return notFound();
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const method = (req.method || "GET").toUpperCase();
+    const url = new URL(req.url || "/", `http://${req.headers.host || host}`);
+    const origin = `http://${req.headers.host || host}`;
+    const authenticated = isAuthenticated(req);
+    let body: any = null;
+    try {
+      body = parseBody(await readBody(req), req.headers["content-type"]);
+    } catch {
+      // ボディ読み込みエラーは空として扱う
+    }
+
+    const record = (status: number) =>
+      requests.push({
+        method,
+        path: url.pathname + url.search,
+        status,
+        authenticated,
+        at: new Date().toISOString(),
+      });
+
+    if (url.pathname.startsWith("/__fake/")) {
+      const result = handleControl(method, url.pathname, body);
+      send(res, result);
+      return;
+    }
+
+    const fault = faults.find(
+      (candidate) =>
+        (!candidate.method || candidate.method === method) &&
+        url.pathname.startsWith(candidate.path)
+    );
+    if (fault) {
+      fault.times--;
+      faults = faults.filter((candidate) => candidate.times > 0);
+      const headers: Record<string, string> = {};
+      if (fault.retryAfter !== undefined) headers["Retry-After"] = String(fault.retryAfter);
+      record(fault.status);
+      send(res, {
+        status: fault.status,
+        headers,
+        body: fault.body ?? { error: { message: "injected fault" } },
+      });
+      return;
+    }
+
+    if (!url.pathname.startsWith("/api/")) {
+      record(404);
+      send(res, notFound());
+      return;
+    }
+    const apiPath = url.pathname.slice("/api".length);
+
+    for (const route of routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(apiPath);
+      if (!match) continue;
+
+      if (route.auth && !authenticated) {
+        record(401);
+        send(res, { status: 401, body: { error: { message: "ログインが必要です" } } });
+        return;
+      }
+      try {
+        const result = route.handler({ req, url, params: match.groups ?? {}, body, state, origin });
+        record(result.status ?? 200);
+        send(res, result);
+      } catch (error) {
+        record(500);
+        send(res, { status: 500, body: { error: { message: String(error) } } });
+      }
+      return;
+    }
+
+    record(404);
+    send(res, notFound(`${method} ${apiPath} はフェイクサーバーに実装されていません`));
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, host, resolve));
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : options.port;
+
+  const api: FakeNoteApi = {
+    server,
+    baseUrl: `http://${host}:${port}/api`,
+    get state() {
+      return state;
+    },
+    requests,
+    addFault(fault: FakeFault) {
+      faults.push({ ...fault, method: fault.method?.toUpperCase() });
+    },
+    reset() {
+      state = createFixtureState();
+      faults = [];
+      requests.length = 0;
+    },
+    close() {
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+  return api;
+}
@@ -0,0 +1,42 @@
+/**
+ * note APIのローカル代替サーバーを起動するコマンド（オフライン検証・CI用）
+ *
+ * 使い方:
+ *   npm run fake-api                 # http://127.0.0.1:4010/api で起動
+ *   npm run fake-api -- --port 5000  # ポートを指定
+ *
+ * MCPサーバー側は NOTE_API_BASE_URL に表示されたURLを設定して起動する。
+ */
+import { startFakeNoteApi } from "./fake-api/server.js";
+import { FIXTURE_CREDENTIALS } from "./fake-api/fixtures.js";
+
+function parsePort(): number {
+  const index = process.argv.indexOf("--port");
+  const value = index >= 0 ? process.argv[index + 1] : process.env.FAKE_NOTE_API_PORT;
+  const port = parseInt(value || "4010", 10);
+  return Number.isNaN(port) ? 4010 : port;
+}
+
+async function main(): Promise<void> {
+  const api = await startFakeNoteApi({ port: parsePort() });
+  console.error(`フェイクnote APIを起動しました: ${api.baseUrl}`);
+  console.error("MCPサーバーには以下の環境変数を設定してください:");
+  console.error(`  NOTE_API_BASE_URL=${api.baseUrl}`);
+  console.error(`  NOTE_EMAIL=${FIXTURE_CREDENTIALS.email}`);
+  console.error(`  NOTE_PASSWORD=${FIXTURE_CREDENTIALS.password}`);
+  console.error("  NOTE_USER_ID=fixture_writer");
+
+  const shutdown = () => {
+    api.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(
+    "フェイクnote APIの起動に失敗しました:",
+    error instanceof Error ? error.message : error
+  );
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+/**
+ * 既存のJSONストア（memory-data.json 等）をSQLiteストレージへ取り込むコマンド
+ *
+ * 使い方:
+ *   npm run storage:migrate            # 未移行のキーのみ取り込む
+ *   npm run storage:migrate -- --force # 移行先の既存データを上書きする
+ */
+import { createStorageBackend, getSqlitePath, migrateJsonStores } from "./utils/memory-store.js";
+
+function main(): void {
+  const force = process.argv.includes("--force");
+  const target = createStorageBackend("sqlite");
+
+  try {
+    console.error(`SQLiteストレージへ移行します: ${getSqlitePath()}`);
+    const results = migrateJsonStores(target, { force });
+
+    for (const result of results) {
+      if (result.status === "imported") {
+        console.error(`✅ ${result.key}: ${result.entries}件を取り込みました`);
+      } else if (result.status === "skipped") {
+        console.error(`⏭️ ${result.key}: スキップ（${result.reason}）`);
+      } else {
+        console.error(`- ${result.key}: ファイルなし`);
+      }
+    }
+
+    const imported = results.filter((r) => r.status === "imported").length;
+    console.error(`移行完了: ${imported}/${results.length}件のストアを取り込みました`);
+    if (imported > 0) {
+      console.error("NOTE_STORAGE_BACKEND=sqlite を設定してサーバーを再起動してください。");
+    }
+  } finally {
+    target.close();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error("移行に失敗しました:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -7,9 +7,11 @@ import { randomUUID } from "crypto";
 import { refreshSessionWithPlaywright } from "./utils/playwright-session.js";
 import {
   getActiveSessionCookie,
+  loginToNote,
   setActiveSessionCookie,
   setActiveXsrfToken,
 } from "./utils/auth.js";
+import { recordSessionEstablished, recordSessionFailure } from "./utils/session-manager.js";
 import { env } from "./config/environment.js";
 
 // ツール・プロンプト登録
@@ -18,6 +20,7 @@ import { registerPrompts } from "./prompts/prompts.js";
 
 // スケジューラ
 import { setMcpBaseUrl, startAllSchedules, stopAllSchedules } from "./utils/scheduler.js";
+import { startVaultWatchers, stopVaultWatchers } from "./utils/vault-watcher.js";
 
 // MCP サーバーインスタンスを作成
 const server = new McpServer({
@@ -34,7 +37,23 @@ async function main() {
     console.error("Starting note API MCP Server...");
 
     // 認証情報の取得: Playwrightで最新Cookieを取得
-    if (env.NOTE_EMAIL && env.NOTE_PASSWORD) {
+    // NOTE_API_BASE_URL 指定時（フェイクサーバー等）はブラウザを使わず、APIのログインで取得する
+    if (env.NOTE_API_BASE_URL) {
+      console.error(`note APIの接続先: ${env.NOTE_API_BASE_URL}`);
+      if (env.NOTE_EMAIL && env.NOTE_PASSWORD) {
+        if (await loginToNote()) {
+          recordSessionEstablished("login", "startup");
+        } else {
+          recordSessionFailure("startup", "APIログインに失敗しました");
+        }
+      } else if (env.NOTE_SESSION_V5) {
+        setActiveSessionCookie(`_note_session_v5=${env.NOTE_SESSION_V5}`);
+        if (env.NOTE_XSRF_TOKEN) {
+          setActiveXsrfToken(env.NOTE_XSRF_TOKEN);
+        }
+        recordSessionEstablished("env", "startup");
+      }
+    } else if (env.NOTE_EMAIL && env.NOTE_PASSWORD) {
       console.error("Playwrightで最新のセッションCookieを取得します...");
       try {
         const result = await refreshSessionWithPlaywright({
@@ -43,9 +62,11 @@ async function main() {
         });
         if (result.sessionCookie) setActiveSessionCookie(result.sessionCookie);
         if (result.xsrfToken) setActiveXsrfToken(result.xsrfToken);
+        recordSessionEstablished("playwright", "startup");
         console.error("✅ 最新のセッションCookieを取得しました。");
       } catch (playwrightError: any) {
         console.error("⚠️ Playwright headlessログインに失敗:", playwrightError.message);
+        recordSessionFailure("startup", playwrightError);
         // フォールバック: .envの既存Cookieがあればそれを使用
         if (env.NOTE_SESSION_V5) {
           console.error("フォールバック: .envの既存セッションCookieを使用します。");
@@ -53,6 +74,7 @@ async function main() {
           if (env.NOTE_XSRF_TOKEN) {
             setActiveXsrfToken(env.NOTE_XSRF_TOKEN);
           }
+          recordSessionEstablished("env", "startup");
         } else {
           console.error("❌ セッション取得に失敗しました。認証が必要な機能は使用できません。");
         }
@@ -63,6 +85,7 @@ async function main() {
       if (env.NOTE_XSRF_TOKEN) {
         setActiveXsrfToken(env.NOTE_XSRF_TOKEN);
       }
+      recordSessionEstablished("env", "startup");
     } else {
       // 何もない場合、Playwrightで手動ログインを試行
       console.error("認証情報が設定されていません。Playwrightでブラウザログインを試行します...");
@@ -73,9 +96,11 @@ async function main() {
         });
         if (result.sessionCookie) setActiveSessionCookie(result.sessionCookie);
         if (result.xsrfToken) setActiveXsrfToken(result.xsrfToken);
+        recordSessionEstablished("playwright", "startup");
         console.error("✅ Playwrightでのログインに成功しました。");
       } catch (playwrightError: any) {
         console.error("❌ Playwrightログインエラー:", playwrightError.message);
+        recordSessionFailure("startup", playwrightError);
       }
     }
 
@@ -321,12 +346,19 @@ async function main() {
         if (schedResult.started > 0) {
           console.error(`✅ スケジューラ起動: ${schedResult.started}件のジョブを開始`);
         }
+
+        // Obsidianの保管庫の監視を起動
+        const watchResult = startVaultWatchers();
+        if (watchResult.started > 0) {
+          console.error(`✅ 保管庫の監視を開始: ${watchResult.started}件のフォルダ`);
+        }
       });
 
       // グレースフルシャットダウン
       const shutdown = async () => {
         console.error("Shutting down HTTP server...");
         stopAllSchedules();
+        stopVaultWatchers();
         for (const sid of Object.keys(transports)) {
           try {
             await transports[sid].close();
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
+import {
+  listAccountProfiles,
+  getDefaultAccountName,
+  setDefaultAccount,
+} from "../utils/account-context.js";
+import { hasActiveSession } from "../utils/auth.js";
+import { getSessionStatus } from "../utils/session-manager.js";
+import { getDataDir } from "../utils/data-dir.js";
+import { AccountProfile, AccountSummary } from "../types/account-types.js";
+
+/**
+ * note向けツール共通の account 引数
+ */
+export const accountSchema = z
+  .string()
+  .optional()
+  .describe("使用するアカウント名（省略時はデフォルトアカウント。list-accountsで確認）");
+
+function maskEmail(email: string): string {
+  const [local, domain] = email.split("@");
+  if (!domain) return email ? "***" : "";
+  return `${local.slice(0, 2)}***@${domain}`;
+}
+
+function summarizeAccount(profile: AccountProfile): AccountSummary {
+  return {
+    name: profile.name,
+    userId: profile.userId,
+    email: maskEmail(profile.email),
+    hasCredentials: Boolean(profile.email && profile.password),
+    hasSession: hasActiveSession(profile.name) || profile.sessionV5 !== "",
+    isDefault: profile.name === getDefaultAccountName(),
+    isPrimary: profile.isPrimary,
+    namespace: profile.namespace,
+  };
+}
+
+export function registerAccountTools(server: McpServer) {
+  // --- list-accounts ---
+  server.tool(
+    "list-accounts",
+    "登録済みのnoteアカウント一覧とデフォルトアカウントを取得する。",
+    {},
+    async () => {
+      try {
+        const accounts = listAccountProfiles().map(summarizeAccount);
+        return createSuccessResponse({
+          defaultAccount: getDefaultAccountName(),
+          accounts,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(`アカウント一覧の取得に失敗しました: ${message}`);
+      }
+    }
+  );
+
+  // --- switch-account ---
+  server.tool(
+    "switch-account",
+    "デフォルトアカウントを切り替える。account引数を省略したツール呼び出し・スケジューラ・記憶やログの保存先が切り替わる（サーバー再起動で元に戻る）。",
+    {
+      account: z.string().describe("切り替え先のアカウント名"),
+    },
+    async ({ account }) => {
+      try {
+        const previous = getDefaultAccountName();
+        const profile = setDefaultAccount(account);
+        return createSuccessResponse({
+          status: "switched",
+          previousAccount: previous,
+          account: summarizeAccount(profile),
+          dataDir: getDataDir(profile.namespace),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(`アカウントの切り替えに失敗しました: ${message}`);
+      }
+    }
+  );
+
+  // --- get-session-status ---
+  server.tool(
+    "get-session-status",
+    "noteセッションの状態（取得方法・経過時間・更新回数・直近の更新結果）を取得する。認証エラー時の自動更新の状況確認に使う。",
+    {
+      account: z
+        .string()
+        .optional()
+        .describe("対象のアカウント名（省略時は登録済みの全アカウント）"),
+    },
+    async ({ account }) => {
+      try {
+        const names = account ? [account] : listAccountProfiles().map((profile) => profile.name);
+        return createSuccessResponse({
+          defaultAccount: getDefaultAccountName(),
+          sessions: names.map(getSessionStatus),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(`セッション状態の取得に失敗しました: ${message}`);
+      }
+    }
+  );
+}
@@ -4,7 +4,7 @@ import {
   createSuccessResponse,
   createErrorResponse,
 } from "../utils/error-handler.js";
-import { readJsonStore, writeJsonStore } from "../utils/memory-store.js";
+import { readJsonStore, updateJsonStoreAsync } from "../utils/memory-store.js";
 import {
   AgentMode,
   AgentGoal,
@@ -170,19 +170,22 @@ export function registerAgentTools(server: McpServer) {
       customInstructions,
     }) => {
       try {
-        const current = getAgentGoal();
-
-        if (weeklyPVTarget !== undefined)
-          current.weeklyPVTarget = weeklyPVTarget;
-        if (monthlyArticleTarget !== undefined)
-          current.monthlyArticleTarget = monthlyArticleTarget;
-        if (promotionFrequency !== undefined)
-          current.promotionFrequency = promotionFrequency;
-        if (focusTopics !== undefined) current.focusTopics = focusTopics;
-        if (customInstructions !== undefined)
-          current.customInstructions = customInstructions;
-
-        writeJsonStore(AGENT_GOAL_FILE, current);
+        const current = await updateJsonStoreAsync<AgentGoal>(
+          AGENT_GOAL_FILE,
+          getAgentGoal(),
+          (goal) => {
+            if (weeklyPVTarget !== undefined)
+              goal.weeklyPVTarget = weeklyPVTarget;
+            if (monthlyArticleTarget !== undefined)
+              goal.monthlyArticleTarget = monthlyArticleTarget;
+            if (promotionFrequency !== undefined)
+              goal.promotionFrequency = promotionFrequency;
+            if (focusTopics !== undefined) goal.focusTopics = focusTopics;
+            if (customInstructions !== undefined)
+              goal.customInstructions = customInstructions;
+            return goal;
+          }
+        );
 
         return createSuccessResponse({
           status: "updated",
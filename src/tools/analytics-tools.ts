@@ -1,13 +1,31 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { createSuccessResponse, handleApiError } from "../utils/error-handler.js";
-import { fetchAllStats, computeTrends, categorizeArticles } from "../utils/analytics-helpers.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  handleApiError,
+} from "../utils/error-handler.js";
+import {
+  fetchAllStats,
+  computeTrends,
+  categorizeArticles,
+  takePvSnapshot,
+} from "../utils/analytics-helpers.js";
+import {
+  computeHistoryTrend,
+  detectPvSpikes,
+  getArticlePvHistory,
+  getArticleUrl,
+  readPvHistory,
+} from "../utils/pv-history.js";
+import { runWithAccount } from "../utils/account-context.js";
 import { PDCAReport } from "../types/analytics-types.js";
+import { accountSchema } from "./account-tools.js";
 
 export function registerAnalyticsTools(server: McpServer) {
   server.tool(
     "analyze-content-performance",
-    "コンテンツパフォーマンスをPDCA形式で分析する。週間・月間・全期間のPVデータからトレンドを算出し、上昇/安定/下降に分類したレポートを生成する。",
+    "コンテンツパフォーマンスをPDCA形式で分析する。週間・月間・全期間のPVデータからトレンドを算出し（日次のPVスナップショットがある記事はその推移から判定）、上昇/安定/下降に分類したレポートを生成する。",
     {
       period: z
         .enum(["week", "month", "all"])
@@ -103,4 +121,106 @@ export function registerAnalyticsTools(server: McpServer) {
       }
     }
   );
+
+  // --- take-pv-snapshot ---
+  server.tool(
+    "take-pv-snapshot",
+    "記事ごとのPV・スキ・コメント数（累計）を今日のスナップショットとして記録する。HTTPモードでは内蔵スケジューラが毎日記録する（同じ日に再実行した場合は上書き）",
+    {
+      account: accountSchema,
+    },
+    async ({ account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const result = await takePvSnapshot();
+          return createSuccessResponse({ status: "recorded", ...result });
+        } catch (error) {
+          return handleApiError(error, "PVスナップショットの記録");
+        }
+      })
+  );
+
+  // --- get-article-pv-history ---
+  server.tool(
+    "get-article-pv-history",
+    "記事のPV・スキ・コメント数の推移を日次スナップショットから取得する。各日の前回からの増分とトレンドも返す",
+    {
+      noteId: z.string().describe("記事ID（数値のID）"),
+      days: z
+        .number()
+        .int()
+        .min(1)
+        .default(30)
+        .describe("取得する日数（最新のスナップショットから遡る）"),
+      account: accountSchema,
+    },
+    async ({ noteId, days, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const result = getArticlePvHistory(noteId, days);
+          if (!result) {
+            return createErrorResponse(
+              `記事 ${noteId} のスナップショットがありません。take-pv-snapshot で記録してください`
+            );
+          }
+
+          const { article, points } = result;
+          const deltas = points.filter((point) => point.readDelta !== null);
+          return createSuccessResponse({
+            noteId: article.noteId,
+            title: article.title,
+            url: getArticleUrl(article),
+            trend: computeHistoryTrend(article.snapshots),
+            summary: {
+              from: points[0]?.date,
+              to: points[points.length - 1]?.date,
+              snapshots: points.length,
+              readGain: deltas.reduce((sum, point) => sum + point.readDelta!, 0),
+              likeGain: deltas.reduce((sum, point) => sum + point.likeDelta!, 0),
+              commentGain: deltas.reduce((sum, point) => sum + point.commentDelta!, 0),
+            },
+            points,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`PV推移の取得に失敗しました: ${message}`);
+        }
+      })
+  );
+
+  // --- detect-pv-spikes ---
+  server.tool(
+    "detect-pv-spikes",
+    "日次スナップショットから、PVの増分が直前期間の中央値を大きく上回った記事（スパイク）を検出する",
+    {
+      days: z.number().int().min(1).default(7).describe("直近何日分を対象にするか"),
+      threshold: z
+        .number()
+        .positive()
+        .default(3)
+        .describe("直前期間の中央値の何倍でスパイクとみなすか"),
+      minDailyReads: z
+        .number()
+        .min(0)
+        .default(10)
+        .describe("スパイクとみなす1日あたりPV増分の下限"),
+      account: accountSchema,
+    },
+    async ({ days, threshold, minDailyReads, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const history = readPvHistory();
+          const spikes = detectPvSpikes({ days, threshold, minDailyReads }, history);
+          return createSuccessResponse({
+            trackedArticles: Object.keys(history.articles).length,
+            lastSnapshotAt: history.lastSnapshotAt,
+            total: spikes.length,
+            spikes,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`スパイクの検出に失敗しました: ${message}`);
+        }
+      })
+  );
 }
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
+import {
+  getRequestMetrics,
+  getRequestPolicy,
+  resetRequestMetrics,
+} from "../utils/request-pipeline.js";
+import { getCacheStats, listCacheEntries, purgeCache } from "../utils/response-cache.js";
+
+export function registerApiTools(server: McpServer) {
+  // --- get-api-metrics ---
+  server.tool(
+    "get-api-metrics",
+    "note APIリクエストの統計（ホスト別のリクエスト数・再試行数と理由・タイムアウト・レート制限の待機時間）と現在の制御設定を取得する。",
+    {
+      reset: z.boolean().default(false).describe("取得後に統計をリセットする"),
+    },
+    async ({ reset }) => {
+      try {
+        const hosts = getRequestMetrics();
+        if (reset) {
+          resetRequestMetrics();
+        }
+        return createSuccessResponse({
+          policy: getRequestPolicy(),
+          hosts,
+          reset,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(`APIリクエスト統計の取得に失敗しました: ${message}`);
+      }
+    }
+  );
+
+  // --- get-api-cache ---
+  server.tool(
+    "get-api-cache",
+    "note APIレスポンスキャッシュの状態（ヒット率・エントリ一覧と有効期限）を取得する。",
+    {
+      account: z.string().optional().describe("対象のアカウント名（省略時は全アカウント）"),
+      limit: z.number().default(50).describe("返すエントリの最大数（新しい順）"),
+    },
+    async ({ account, limit }) => {
+      try {
+        const entries = listCacheEntries(account);
+        return createSuccessResponse({
+          stats: getCacheStats(),
+          totalEntries: entries.length,
+          entries: entries.slice(0, limit),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(`キャッシュ情報の取得に失敗しました: ${message}`);
+      }
+    }
+  );
+
+  // --- purge-api-cache ---
+  server.tool(
+    "purge-api-cache",
+    "note APIレスポンスキャッシュを削除する。条件を省略すると全アカウントの全エントリを削除する。",
+    {
+      account: z.string().optional().describe("対象のアカウント名（省略時は全アカウント）"),
+      endpointPrefix: z
+        .string()
+        .optional()
+        .describe("このパスで始まるエンドポイントのみ削除（例: /v1/stats/pv）"),
+      expiredOnly: z.boolean().default(false).describe("期限切れのエントリのみ削除"),
+    },
+    async ({ account, endpointPrefix, expiredOnly }) => {
+      try {
+        const removed = purgeCache({ account, endpointPrefix, expiredOnly });
+        return createSuccessResponse({
+          status: "purged",
+          removed,
+          stats: getCacheStats(),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(`キャッシュの削除に失敗しました: ${message}`);
+      }
+    }
+  );
+}
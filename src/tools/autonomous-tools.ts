@@ -2,7 +2,7 @@ import { z } from "zod";
 import { randomUUID } from "crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
-import { readJsonStore, appendToJsonArray } from "../utils/memory-store.js";
+import { readJsonStore, appendToJsonArrayAsync } from "../utils/memory-store.js";
 import { readEditorialVoice } from "../utils/voice-reader.js";
 import { fetchAllStats, computeTrends, categorizeArticles } from "../utils/analytics-helpers.js";
 import { noteApiRequest } from "../utils/api-client.js";
@@ -25,8 +25,12 @@ export function registerAutonomousTools(server: McpServer) {
         .boolean()
         .default(false)
         .describe("trueでAPI呼び出しスキップ"),
+      bypassCache: z
+        .boolean()
+        .default(false)
+        .describe("trueでキャッシュを使わずnoteから最新データを取得"),
     },
-    async ({ period, dryRun }) => {
+    async ({ period, dryRun, bypassCache }) => {
       try {
         const steps: WorkflowStepResult[] = [];
         const insights: string[] = [];
@@ -59,9 +63,9 @@ export function registerAutonomousTools(server: McpServer) {
         } else {
           try {
             const [weekly, monthly, all] = await Promise.all([
-              fetchAllStats("week"),
-              fetchAllStats("month"),
-              fetchAllStats("all"),
+              fetchAllStats("week", { bypassCache }),
+              fetchAllStats("month", { bypassCache }),
+              fetchAllStats("all", { bypassCache }),
             ]);
 
             const weeklyMap = new Map(weekly.map((s) => [s.noteId, s.readCount]));
@@ -197,7 +201,7 @@ export function registerAutonomousTools(server: McpServer) {
             source: "run-autonomous-cycle",
             tags: ["autonomous-cycle", period],
           };
-          appendToJsonArray(MEMORY_FILE, entry);
+          await appendToJsonArrayAsync(MEMORY_FILE, entry);
           memoryRecorded = { id: entry.id, timestamp: entry.timestamp };
 
           steps.push({
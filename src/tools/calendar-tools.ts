@@ -19,12 +19,16 @@ export function registerCalendarTools(server: McpServer) {
         .number()
         .default(3)
         .describe("週あたりの目標投稿数"),
+      bypassCache: z
+        .boolean()
+        .default(false)
+        .describe("trueでキャッシュを使わずnoteから最新データを取得"),
     },
-    async ({ period, postsPerWeek }) => {
+    async ({ period, postsPerWeek, bypassCache }) => {
       try {
         // 並列データ取得
         const [monthlyStats, hashtagData] = await Promise.all([
-          fetchAllStats("month"),
+          fetchAllStats("month", { bypassCache }),
           noteApiRequest("/v2/hashtags").catch(() => null),
         ]);
 
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
+import { getNoteUserId, runWithAccount } from "../utils/account-context.js";
+import {
+  crawlCreatorCatalogue,
+  getCreatorCatalogue,
+  listCreatorCatalogues,
+} from "../utils/catalogue-crawler.js";
+import { CreatorCatalogue } from "../types/analytics-types.js";
+import { accountSchema } from "./account-tools.js";
+
+function summarizeCatalogue(catalogue: CreatorCatalogue) {
+  return {
+    username: catalogue.username,
+    totalArticles: Object.keys(catalogue.articles).length,
+    totalCount: catalogue.totalCount,
+    crawl: catalogue.crawl,
+    lastRefreshAt: catalogue.lastRefreshAt,
+  };
+}
+
+export function registerCatalogueTools(server: McpServer) {
+  // --- crawl-creator-catalogue ---
+  server.tool(
+    "crawl-creator-catalogue",
+    "クリエイターの全記事の一覧をページ送りで取得してローカルに保存する。全件取得は途中で失敗・中断しても次回は続きのページから再開し、完了後は新着・変更のあった記事のみ更新する。analyze-revenue・monitor-competitors などはこのカタログから記事を読み込む",
+    {
+      username: z
+        .string()
+        .optional()
+        .describe("クリエイターのユーザー名（urlname）。省略時は自分のアカウント"),
+      mode: z
+        .enum(["auto", "full", "refresh"])
+        .default("auto")
+        .describe(
+          "auto: 全件取得が未完了か前回の完了から7日を過ぎていれば全件取得し、それ以外は新着を更新 / full: 全ページを取得し直し、一覧から消えた記事を削除 / refresh: 新着・変更のある記事か、公開から refreshDays 以内の記事があるページまで取得"
+        ),
+      maxPages: z
+        .number()
+        .int()
+        .min(1)
+        .max(500)
+        .default(50)
+        .describe("1回の実行で取得するページ数の上限（1ページ10記事。超えた分は次回に再開）"),
+      refreshDays: z
+        .number()
+        .int()
+        .min(0)
+        .default(30)
+        .describe("更新時、公開からこの日数以内の記事は変更がなくてもスキ数などを取り直す"),
+      account: accountSchema,
+    },
+    async ({ username, mode, maxPages, refreshDays, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const target = username || getNoteUserId();
+          if (!target) {
+            return createErrorResponse(
+              "ユーザー名を指定するか、アカウントのnoteユーザーIDを設定してください"
+            );
+          }
+
+          const result = await crawlCreatorCatalogue(target, { mode, maxPages, refreshDays });
+          if (result.error && result.pagesFetched === 0) {
+            return createErrorResponse(
+              `記事カタログの取得に失敗しました: ${result.error}（再実行すると続きから取得します）`
+            );
+          }
+          return createSuccessResponse(result);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`記事カタログの取得に失敗しました: ${message}`);
+        }
+      })
+  );
+
+  // --- get-creator-catalogue-status ---
+  server.tool(
+    "get-creator-catalogue-status",
+    "保存済みの記事カタログの記事数・取得状況（完了・中断中のページ・最終更新日時）を確認する",
+    {
+      username: z
+        .string()
+        .optional()
+        .describe("クリエイターのユーザー名（省略時は保存済みのすべてのカタログ）"),
+      account: accountSchema,
+    },
+    async ({ username, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          if (username) {
+            const catalogue = getCreatorCatalogue(username);
+            if (!catalogue) {
+              return createSuccessResponse({
+                username,
+                crawled: false,
+                message: "記事カタログは未取得です。crawl-creator-catalogue で取得してください",
+              });
+            }
+            return createSuccessResponse({ crawled: true, ...summarizeCatalogue(catalogue) });
+          }
+
+          return createSuccessResponse({
+            catalogues: listCreatorCatalogues().map(summarizeCatalogue),
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`記事カタログの状態の取得に失敗しました: ${message}`);
+        }
+      })
+  );
+}
@@ -2,10 +2,25 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { noteApiRequest } from "../utils/api-client.js";
 import { formatNote } from "../utils/formatters.js";
-import { createSuccessResponse, handleApiError } from "../utils/error-handler.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  handleApiError,
+} from "../utils/error-handler.js";
 import { env } from "../config/environment.js";
-import { fetchUserArticles } from "../utils/analytics-helpers.js";
-import { CompetitorReport } from "../types/analytics-types.js";
+import { getNoteUserId } from "../utils/account-context.js";
+import { loadCreatorArticles } from "../utils/catalogue-crawler.js";
+import {
+  compareWeekOverWeek,
+  getCompetitorHistory,
+  listCompetitorHistories,
+  markCompetitorAlerts,
+  notifyCompetitorAlerts,
+  trackCompetitor,
+} from "../utils/competitor-tracker.js";
+import { getDefaultReportFormat, REPORT_FORMATS } from "../utils/notifier.js";
+import { shiftDateKey, toDateKey } from "../utils/pv-history.js";
+import { CompetitorReport, CompetitorTracking } from "../types/analytics-types.js";
 
 /**
  * 記事群からハッシュタグを抽出する
@@ -27,10 +42,22 @@ function extractHashtags(articles: any[]): string[] {
     .map(([name]) => name);
 }
 
+/**
+ * 分析期間内に公開された記事数
+ */
+function countPublishedSince(articles: any[], days: number): number {
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  return articles.filter((article) => {
+    const publishedAt = Date.parse(article.publishAt || article.publish_at || "");
+    return !Number.isNaN(publishedAt) && publishedAt >= cutoff;
+  }).length;
+}
+
 export function registerCompetitorTools(server: McpServer) {
+  // --- monitor-competitors ---
   server.tool(
     "monitor-competitors",
-    "競合クリエイターの投稿頻度・エンゲージメント・ハッシュタグ傾向を分析し、自分のアカウントと比較するギャップ分析を実行する。",
+    "競合クリエイターの投稿頻度・エンゲージメント・ハッシュタグ傾向を分析し、自分のアカウントと比較するギャップ分析を実行する。記事は保存済みの全記事カタログ（crawl-creator-catalogue）から読み込み、未取得・古い場合は取得・更新する。実行ごとに競合のスナップショットを記録して前週と比較し、新しいハッシュタグ・バズ記事を検出する。エンゲージメントの急増・新しいバズ記事はWebhookで通知する",
     {
       competitors: z
         .array(z.string())
@@ -40,19 +67,58 @@ export function registerCompetitorTools(server: McpServer) {
       period: z
         .enum(["week", "month"])
         .default("month")
-        .describe("分析期間"),
+        .describe("分析期間（投稿頻度の集計期間）"),
+      bypassCache: z
+        .boolean()
+        .default(false)
+        .describe("trueで記事カタログの新着を必ず更新する"),
+      engagementThreshold: z
+        .number()
+        .min(1)
+        .default(1.5)
+        .describe(
+          "直近7日間の記事の平均スキ数が1週間前の何倍でエンゲージメント急増として通知するか"
+        ),
+      viralMultiplier: z
+        .number()
+        .min(1)
+        .default(3)
+        .describe("記事のスキ数が競合の記事の中央値の何倍でバズ記事とみなすか"),
+      notify: z
+        .boolean()
+        .default(true)
+        .describe(
+          "エンゲージメントの急増・新しいバズ記事をWebhookで通知する（送信先が未設定なら通知しない）"
+        ),
+      notifyFormat: z
+        .enum(REPORT_FORMATS)
+        .optional()
+        .describe("通知の送信フォーマット（デフォルト: 環境変数 WEBHOOK_FORMAT）"),
+      webhookUrl: z
+        .string()
+        .optional()
+        .describe("通知先WebhookのURL（省略時は環境変数 WEBHOOK_URL）"),
     },
-    async ({ competitors, period }) => {
+    async ({
+      competitors,
+      period,
+      bypassCache,
+      engagementThreshold,
+      viralMultiplier,
+      notify,
+      notifyFormat,
+      webhookUrl,
+    }) => {
       try {
-        const maxPages = period === "week" ? 1 : 2;
+        const periodDays = period === "week" ? 7 : 30;
 
         // 自分のデータを取得
         let myArticles: any[] = [];
-        if (env.NOTE_USER_ID) {
-          myArticles = await fetchUserArticles(env.NOTE_USER_ID, maxPages);
+        if (getNoteUserId()) {
+          myArticles = await loadCreatorArticles(getNoteUserId(), { bypassCache });
         }
 
-        const myFormatted = myArticles.map((a) => formatNote(a, env.NOTE_USER_ID, true, true));
+        const myFormatted = myArticles.map((a) => formatNote(a, getNoteUserId(), true, true));
         const myHashtags = extractHashtags(myArticles);
         const myAvgLikes =
           myFormatted.length > 0
@@ -61,6 +127,7 @@ export function registerCompetitorTools(server: McpServer) {
 
         // 競合のデータを順次取得（レート制限対策）
         const reports: CompetitorReport[] = [];
+        const trackings: { username: string; tracking: CompetitorTracking }[] = [];
 
         for (const username of competitors) {
           await new Promise((resolve) => setTimeout(resolve, 500));
@@ -77,8 +144,8 @@ export function registerCompetitorTools(server: McpServer) {
 
             await new Promise((resolve) => setTimeout(resolve, 500));
 
-            // 記事取得
-            const articles = await fetchUserArticles(username, maxPages);
+            // 記事取得（新しい順）
+            const articles = await loadCreatorArticles(username, { bypassCache });
             const formatted = articles.map((a) => formatNote(a, username, true, true));
             const hashtags = extractHashtags(articles);
 
@@ -90,9 +157,19 @@ export function registerCompetitorTools(server: McpServer) {
             // ギャップ分析: 競合がカバーして自分がカバーしていないハッシュタグ
             const gaps = hashtags.filter((tag) => !myHashtags.includes(tag));
 
+            // 記事を取得できた場合のみスナップショットを記録する
+            let tracking: CompetitorTracking | undefined;
+            if (articles.length > 0) {
+              tracking = trackCompetitor(username, articles, {
+                engagementThreshold,
+                viralMultiplier,
+              });
+              trackings.push({ username, tracking });
+            }
+
             reports.push({
               username,
-              postingFrequency: articles.length,
+              postingFrequency: countPublishedSince(articles, periodDays),
               averageLikes: avgLikes,
               topHashtags: hashtags,
               recentArticles: formatted.slice(0, 5).map((n) => ({
@@ -101,6 +178,8 @@ export function registerCompetitorTools(server: McpServer) {
                 url: n.url,
               })),
               gaps,
+              totalArticles: articles.length,
+              tracking,
             });
           } catch (error) {
             if (env.DEBUG) {
@@ -117,20 +196,88 @@ export function registerCompetitorTools(server: McpServer) {
           }
         }
 
+        let alertSent = false;
+        if (notify) {
+          try {
+            alertSent = await notifyCompetitorAlerts(trackings, {
+              format: notifyFormat ?? getDefaultReportFormat(),
+              webhookUrl,
+            });
+          } catch (error) {
+            console.error(
+              "[competitors] 競合アラートの送信に失敗しました:",
+              error instanceof Error ? error.message : error
+            );
+          }
+        }
+        // 送信できたアラートだけ記録する（未送信・送信失敗のものは次回の実行で再通知する）
+        if (alertSent) {
+          markCompetitorAlerts(trackings);
+        }
+
         return createSuccessResponse({
           myProfile: {
-            username: env.NOTE_USER_ID || "（未設定）",
+            username: getNoteUserId() || "（未設定）",
             articlesAnalyzed: myFormatted.length,
+            postingFrequency: countPublishedSince(myArticles, periodDays),
             averageLikes: myAvgLikes,
             topHashtags: myHashtags,
           },
           competitors: reports,
           period,
           analysisDate: new Date().toISOString().split("T")[0],
+          alertSent,
         });
       } catch (error) {
         return handleApiError(error, "競合分析");
       }
     }
   );
+  // --- get-competitor-history ---
+  server.tool(
+    "get-competitor-history",
+    "monitor-competitors で記録した競合のスナップショットの推移（投稿数・平均スキ数・上位ハッシュタグ）と前週との比較を取得する",
+    {
+      username: z
+        .string()
+        .optional()
+        .describe("競合のユーザー名（省略時は記録済みの競合の最新の状態の一覧）"),
+      days: z.number().int().min(1).max(400).default(56).describe("取得する日数"),
+    },
+    async ({ username, days }) => {
+      try {
+        if (!username) {
+          return createSuccessResponse({
+            competitors: listCompetitorHistories().map((history) => ({
+              username: history.username,
+              snapshots: history.snapshots.length,
+              latest: history.snapshots[history.snapshots.length - 1] || null,
+              weekOverWeek: compareWeekOverWeek(history.snapshots),
+            })),
+          });
+        }
+
+        const history = getCompetitorHistory(username);
+        if (!history || history.snapshots.length === 0) {
+          return createSuccessResponse({
+            username,
+            tracked: false,
+            message: "記録がありません。monitor-competitors を実行すると記録を開始します",
+          });
+        }
+
+        const cutoff = shiftDateKey(toDateKey(), -days);
+        return createSuccessResponse({
+          username,
+          tracked: true,
+          snapshots: history.snapshots.filter((s) => s.date >= cutoff),
+          weekOverWeek: compareWeekOverWeek(history.snapshots),
+          viralArticlesDetected: history.viralArticleIds.length,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(`競合の記録の取得に失敗しました: ${message}`);
+      }
+    }
+  );
 }
@@ -2,7 +2,7 @@ import { z } from "zod";
 import { randomUUID } from "crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
-import { readJsonStore, appendToJsonArray } from "../utils/memory-store.js";
+import { readJsonStore, appendToJsonArrayAsync } from "../utils/memory-store.js";
 import { fetchAllStats, computeTrends } from "../utils/analytics-helpers.js";
 import { MemoryEntry, PDCACycleEntry } from "../types/analytics-types.js";
 
@@ -19,8 +19,12 @@ export function registerFeedbackTools(server: McpServer) {
         .boolean()
         .default(false)
         .describe("trueでAPI呼び出しスキップ"),
+      bypassCache: z
+        .boolean()
+        .default(false)
+        .describe("trueでキャッシュを使わずnoteから最新データを取得"),
     },
-    async ({ dryRun }) => {
+    async ({ dryRun, bypassCache }) => {
       try {
         // Step 1: 記憶取得
         const allMemories = readJsonStore<MemoryEntry[]>(MEMORY_FILE, []);
@@ -65,9 +69,9 @@ export function registerFeedbackTools(server: McpServer) {
         if (!dryRun) {
           try {
             const [weekly, monthly, all] = await Promise.all([
-              fetchAllStats("week"),
-              fetchAllStats("month"),
-              fetchAllStats("all"),
+              fetchAllStats("week", { bypassCache }),
+              fetchAllStats("month", { bypassCache }),
+              fetchAllStats("all", { bypassCache }),
             ]);
 
             const weeklyMap = new Map(weekly.map((s) => [s.noteId, s.readCount]));
@@ -177,7 +181,7 @@ export function registerFeedbackTools(server: McpServer) {
             source: "run-feedback-loop",
             tags: ["feedback-loop", "decision"],
           };
-          appendToJsonArray(MEMORY_FILE, entry);
+          await appendToJsonArrayAsync(MEMORY_FILE, entry);
           memoryRecorded = { id: entry.id, timestamp: entry.timestamp };
         } catch {
           // 記憶保存失敗は続行
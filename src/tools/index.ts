@@ -7,22 +7,28 @@ import { registerMagazineTools } from "./magazine-tools.js";
 import { registerImageTools } from "./image-tools.js";
 import { registerObsidianTools } from "./obsidian-tools.js";
 import { registerPublishTools } from "./publish-tools.js";
+import { registerVaultWatchTools } from "./vault-watch-tools.js";
 import { registerNotionTools } from "./notion-tools.js";
+import { registerNotionSyncTools } from "./notion-sync-tools.js";
 import { registerAnalyticsTools } from "./analytics-tools.js";
 import { registerNotificationTools } from "./notification-tools.js";
 import { registerVoiceTools } from "./voice-tools.js";
 import { registerCompetitorTools } from "./competitor-tools.js";
+import { registerCatalogueTools } from "./catalogue-tools.js";
 import { registerCalendarTools } from "./calendar-tools.js";
 import { registerWorkflowTools } from "./workflow-tools.js";
 import { registerMemoryTools } from "./memory-tools.js";
 import { registerPdcaTools } from "./pdca-tools.js";
 import { registerAutonomousTools } from "./autonomous-tools.js";
 import { registerScheduleTools } from "./schedule-tools.js";
+import { registerPublishQueueTools } from "./publish-queue-tools.js";
 import { registerFeedbackTools } from "./feedback-tools.js";
 import { registerPromotionTools } from "./promotion-tools.js";
 import { registerRevenueTools } from "./revenue-tools.js";
 import { registerAgentTools } from "./agent-tools.js";
 import { registerXEngagementTools } from "./x-engagement-tools.js";
+import { registerAccountTools } from "./account-tools.js";
+import { registerApiTools } from "./api-tools.js";
 
 /**
  * すべてのツールをMCPサーバーに登録する
@@ -30,6 +36,8 @@ import { registerXEngagementTools } from "./x-engagement-tools.js";
  */
 export function registerAllTools(server: McpServer): void {
   // 各カテゴリのツールを登録
+  registerAccountTools(server);
+  registerApiTools(server);
   registerSearchTools(server);
   registerNoteTools(server);
   registerUserTools(server);
@@ -38,6 +46,7 @@ export function registerAllTools(server: McpServer): void {
   registerImageTools(server);
   registerObsidianTools(server);
   registerPublishTools(server);
+  registerVaultWatchTools(server);
 
   // Notion tools（NOTION_TOKEN 未設定時はスキップ）
   try {
@@ -46,12 +55,14 @@ export function registerAllTools(server: McpServer): void {
     const msg = error instanceof Error ? error.message : String(error);
     console.error(`[warning] Notion tools の登録をスキップしました: ${msg}`);
   }
+  registerNotionSyncTools(server);
 
   // 自律エージェント機能
   registerAnalyticsTools(server);
   registerNotificationTools(server);
   registerVoiceTools(server);
   registerCompetitorTools(server);
+  registerCatalogueTools(server);
   registerCalendarTools(server);
   registerWorkflowTools(server);
 
@@ -62,6 +73,7 @@ export function registerAllTools(server: McpServer): void {
   // 自律実行エンジン
   registerAutonomousTools(server);
   registerScheduleTools(server);
+  registerPublishQueueTools(server);
   registerFeedbackTools(server);
 
   // SNSクロスポスト・マネタイズ
@@ -2,7 +2,11 @@ import { z } from "zod";
 import { randomUUID } from "crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
-import { readJsonStore, writeJsonStore, appendToJsonArray } from "../utils/memory-store.js";
+import {
+  readJsonStore,
+  updateJsonStoreAsync,
+  appendToJsonArrayAsync,
+} from "../utils/memory-store.js";
 import { MemoryEntry } from "../types/analytics-types.js";
 
 const MEMORY_FILE = "memory-data.json";
@@ -30,7 +34,7 @@ export function registerMemoryTools(server: McpServer) {
           source: source ?? "manual",
           tags: tags ?? [],
         };
-        appendToJsonArray(MEMORY_FILE, entry);
+        await appendToJsonArrayAsync(MEMORY_FILE, entry);
         return createSuccessResponse({
           status: "recorded",
           id: entry.id,
@@ -151,14 +155,13 @@ export function registerMemoryTools(server: McpServer) {
         const cutoff = new Date();
         cutoff.setDate(cutoff.getDate() - days);
 
-        const memories = readJsonStore<MemoryEntry[]>(MEMORY_FILE, []);
-        const before = memories.length;
-        const remaining = memories.filter(
-          (m) => new Date(m.timestamp).getTime() >= cutoff.getTime()
-        );
+        let before = 0;
+        const remaining = await updateJsonStoreAsync<MemoryEntry[]>(MEMORY_FILE, [], (memories) => {
+          before = memories.length;
+          return memories.filter((m) => new Date(m.timestamp).getTime() >= cutoff.getTime());
+        });
         const deleted = before - remaining.length;
 
-        writeJsonStore(MEMORY_FILE, remaining);
         return createSuccessResponse({
           status: "cleaned",
           deletedCount: deleted,
@@ -3,6 +3,7 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { noteApiRequest } from "../utils/api-client.js";
 import { formatNote, formatComment, formatLike } from "../utils/formatters.js";
 import { convertMarkdownToNoteHtml } from "../utils/markdown-converter.js";
+import { collectEmbedUrls, issueEmbedKeys } from "../utils/note-embeds.js";
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -11,6 +12,24 @@ import {
 } from "../utils/error-handler.js";
 import { hasAuth, buildAuthHeaders, getPreviewAccessToken } from "../utils/auth.js";
 import { env } from "../config/environment.js";
+import { getNoteUserId, runWithAccount } from "../utils/account-context.js";
+import { accountSchema } from "./account-tools.js";
+import { publishAtSchema } from "./publish-queue-tools.js";
+import {
+  fetchDraftNote,
+  publishDraftNote,
+  saveDraftNote,
+  updateNote,
+} from "../utils/note-publisher.js";
+import { enqueuePublication, resolvePublishAt } from "../utils/publish-queue.js";
+import { readNoteFrontmatter, splitFrontmatter } from "../utils/frontmatter.js";
+import {
+  addNoteToMagazines,
+  buildPaidFields,
+  splitPaidBody,
+  toPaidSettings,
+  validatePaidSettings,
+} from "../utils/paid-content.js";
 import { randomUUID } from "crypto";
 import fs from "fs";
 import path from "path";
@@ -111,95 +130,116 @@ export function registerNoteTools(server: McpServer) {
   // 4. 記事下書き保存ツール（HTTPサーバー成功版を移植）
   server.tool(
     "post-draft-note",
-    "下書き状態の記事を新規作成または更新する",
+    "下書き状態の記事を新規作成または更新する。本文の <!-- paywall --> 行を有料ラインとし、Frontmatterの price / membershipOnly / magazine を有料設定として反映する",
     {
       title: z.string().describe("記事のタイトル"),
-      body: z.string().describe("記事の本文"),
+      body: z
+        .string()
+        .describe("記事の本文（先頭のFrontmatterと <!-- paywall --> 行は有料設定として扱う）"),
       tags: z.array(z.string()).optional().describe("タグ（最大10個）"),
-      id: z.string().optional().describe("既存の下書きID（既存の下書きを更新する場合）"),
+      id: z
+        .string()
+        .optional()
+        .describe("既存の下書きID（既存の下書きを更新する場合。省略時はFrontmatterの noteId）"),
+      account: accountSchema,
     },
-    async ({ title, body, tags, id }) => {
-      try {
-        if (!hasAuth()) {
-          return createAuthErrorResponse();
-        }
+    async ({ title, body, tags, id, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          if (!hasAuth()) {
+            return createAuthErrorResponse();
+          }
 
-        // 下書き保存用のカスタムヘッダーを構築
-        const buildCustomHeaders = () => {
-          const headers = buildAuthHeaders();
-          headers["content-type"] = "application/json";
-          headers["origin"] = "https://editor.note.com";
-          headers["referer"] = "https://editor.note.com/";
-          headers["x-requested-with"] = "XMLHttpRequest";
-          return headers;
-        };
+          // Frontmatterの公開メタデータと本文中の有料ラインを読み取る
+          const { data: frontmatterData, content } = splitFrontmatter(body || "");
+          const frontmatter = readNoteFrontmatter(frontmatterData);
+          const paid = toPaidSettings(frontmatter);
+          // Frontmatterに記事IDがあれば、その下書きを更新する
+          id = id || frontmatter.noteId;
+          const paidBody = splitPaidBody(content);
+          validatePaidSettings(paid, paidBody !== null);
+          const draftBody = paidBody ? paidBody.body : content;
+
+          // 下書き保存用のカスタムヘッダーを構築
+          const buildCustomHeaders = () => {
+            const headers = buildAuthHeaders();
+            headers["content-type"] = "application/json";
+            headers["origin"] = "https://editor.note.com";
+            headers["referer"] = "https://editor.note.com/";
+            headers["x-requested-with"] = "XMLHttpRequest";
+            return headers;
+          };
 
-        // 新規作成の場合、まず空の下書きを作成
-        if (!id) {
-          console.error("新規下書きを作成します...");
+          // 新規作成の場合、まず空の下書きを作成
+          if (!id) {
+            console.error("新規下書きを作成します...");
 
-          const createData = {
-            body: "<p></p>",
-            body_length: 0,
+            const createData = {
+              body: "<p></p>",
+              body_length: 0,
+              name: title || "無題",
+              index: false,
+              is_lead_form: false,
+            };
+
+            const headers = buildCustomHeaders();
+
+            const createResult = await noteApiRequest(
+              "/v1/text_notes",
+              "POST",
+              createData,
+              true,
+              headers
+            );
+
+            if (createResult.data?.id) {
+              id = createResult.data.id.toString();
+              const key = createResult.data.key || `n${id}`;
+              console.error(`下書き作成成功: ID=${id}, key=${key}`);
+            } else {
+              throw new Error("下書きの作成に失敗しました");
+            }
+          }
+
+          // 下書きを更新
+          console.error(`下書きを更新します (ID: ${id})`);
+
+          const updateData = {
+            body: draftBody,
+            body_length: draftBody.length,
             name: title || "無題",
             index: false,
             is_lead_form: false,
+            ...buildPaidFields(paid, paidBody),
           };
 
           const headers = buildCustomHeaders();
 
-          const createResult = await noteApiRequest(
-            "/v1/text_notes",
+          const data = await noteApiRequest(
+            `/v1/text_notes/draft_save?id=${id}&is_temp_saved=true`,
             "POST",
-            createData,
+            updateData,
             true,
             headers
           );
 
-          if (createResult.data?.id) {
-            id = createResult.data.id.toString();
-            const key = createResult.data.key || `n${id}`;
-            console.error(`下書き作成成功: ID=${id}, key=${key}`);
-          } else {
-            throw new Error("下書きの作成に失敗しました");
-          }
+          const noteKey = `n${id}`;
+          const warnings = await addNoteToMagazines(noteKey, paid.magazines);
+          return createSuccessResponse({
+            success: true,
+            message: "記事を下書き保存しました",
+            noteId: id,
+            noteKey: noteKey,
+            editUrl: `https://editor.note.com/notes/${noteKey}/edit/`,
+            paid: { ...paid, paywall: paidBody !== null },
+            warnings,
+            data: data,
+          });
+        } catch (error) {
+          console.error(`下書き保存処理でエラー: ${error}`);
+          return handleApiError(error, "記事下書き保存");
         }
-
-        // 下書きを更新
-        console.error(`下書きを更新します (ID: ${id})`);
-
-        const updateData = {
-          body: body || "",
-          body_length: (body || "").length,
-          name: title || "無題",
-          index: false,
-          is_lead_form: false,
-        };
-
-        const headers = buildCustomHeaders();
-
-        const data = await noteApiRequest(
-          `/v1/text_notes/draft_save?id=${id}&is_temp_saved=true`,
-          "POST",
-          updateData,
-          true,
-          headers
-        );
-
-        const noteKey = `n${id}`;
-        return createSuccessResponse({
-          success: true,
-          message: "記事を下書き保存しました",
-          noteId: id,
-          noteKey: noteKey,
-          editUrl: `https://editor.note.com/notes/${noteKey}/edit/`,
-          data: data,
-        });
-      } catch (error) {
-        console.error(`下書き保存処理でエラー: ${error}`);
-        return handleApiError(error, "記事下書き保存");
-      }
-    }
+      })
   );
 
   // 4.5. 画像付き下書き作成ツール（API経由で画像を本文に挿入）
@@ -446,8 +486,11 @@ export function registerNoteTools(server: McpServer) {
           return `__FIGURE_PLACEHOLDER_${figures.length - 1}__`;
         });
 
+        // URLだけの行は、下書きに対して発行したキーで埋め込みカードにする
+        const embeds = await issueEmbedKeys(collectEmbedUrls(bodyForConversion), id!);
+
         // Markdown→HTML変換
-        let htmlBody = convertMarkdownToNoteHtml(bodyForConversion);
+        let htmlBody = convertMarkdownToNoteHtml(bodyForConversion, { embedKeys: embeds.keys });
 
         // figureタグを復元
         figures.forEach((figure, index) => {
@@ -490,6 +533,7 @@ export function registerNoteTools(server: McpServer) {
             url,
           })),
           imageCount: uploadedImages.size,
+          warnings: embeds.warnings,
           data: data,
         });
       } catch (error) {
@@ -522,30 +566,13 @@ export function registerNoteTools(server: McpServer) {
 
         console.error(`記事編集リクエスト: ${noteId}`);
 
-        // 新しいPUT APIエンドポイントを使用
         try {
-          // noteIdから数値IDを抽出（get-noteで取得したidを使用）
-          let numericId: string;
-          if (noteId.startsWith("n")) {
-            // 文字列IDの場合、まず記事情報を取得して数値IDを取得
-            const noteInfo = await noteApiRequest(`/v3/notes/${noteId}`, "GET", null, true);
-            numericId = noteInfo.id?.toString() || noteId;
-          } else {
-            numericId = noteId;
-          }
-
-          const postData = {
-            title: title,
-            body: body,
+          const data = await updateNote(noteId, {
+            title,
+            body,
+            tags,
             status: isDraft ? "draft" : "published",
-            tags: tags || [],
-          };
-
-          const headers = buildAuthHeaders();
-
-          // 新しいPUT APIエンドポイント
-          const endpoint = `/api/v1/text_notes/${numericId}`;
-          const data = await noteApiRequest(endpoint, "PUT", postData, true, headers);
+          });
           console.error(`PUT API 編集成功: ${JSON.stringify(data, null, 2)}`);
 
           return createSuccessResponse({
@@ -574,73 +601,94 @@ export function registerNoteTools(server: McpServer) {
       title: z.string().optional().describe("公開時に変更する記事タイトル（省略可）"),
       body: z.string().optional().describe("公開時に変更する記事本文（省略可）"),
       tags: z.array(z.string()).optional().describe("公開時に設定するタグ（省略可）"),
+      price: z
+        .number()
+        .int()
+        .optional()
+        .describe("価格（円、0で無料。省略時は下書きの設定を引き継ぐ）"),
+      membershipOnly: z.boolean().optional().describe("メンバーシップ限定で公開する（省略可）"),
+      magazines: z
+        .array(z.string())
+        .optional()
+        .describe("公開後に追加するマガジンのキー（省略可）"),
+      publishAt: publishAtSchema,
+      account: accountSchema,
     },
-    async ({ noteId, title, body, tags }) => {
-      try {
-        if (!hasAuth()) {
-          return createAuthErrorResponse();
-        }
-
-        console.error(`記事公開リクエスト: ${noteId}`);
-
-        // 記事情報を先に取得
-        let currentNote;
+    async ({ noteId, title, body, tags, price, membershipOnly, magazines, publishAt, account }) =>
+      runWithAccount(account, async () => {
         try {
-          const params = new URLSearchParams({
-            draft: "true",
-            draft_reedit: "false",
-            ts: Date.now().toString(),
-          });
-
-          const noteData = await noteApiRequest(
-            `/v3/notes/${noteId}?${params.toString()}`,
-            "GET",
-            null,
-            true
-          );
-
-          currentNote = noteData.data || {};
-        } catch (getError) {
-          console.error(`記事情報取得エラー: ${getError}`);
-          return createErrorResponse(`指定された記事が存在しないか、アクセスできません: ${noteId}`);
-        }
-
-        // 公開APIリクエスト
-        try {
-          const postData = {
-            title: title || currentNote.title,
-            body: body || currentNote.body,
-            status: "published",
-            tags: tags || currentNote.tags || [],
-            publish_at: null,
-            eyecatch_image: currentNote.eyecatch_image || null,
-            price: currentNote.price || 0,
-            is_magazine_note: currentNote.is_magazine_note || false,
-          };
+          if (!hasAuth()) {
+            return createAuthErrorResponse();
+          }
 
-          const endpoint = `/v3/notes/${noteId}/publish`;
+          // 有料ラインの価格は省略時に下書きの設定を使うため、ここでは価格の範囲だけ確認する
+          const paid = { price, membershipOnly, magazines };
+          validatePaidSettings(paid, false);
+
+          // 予約公開: 公開キューに登録し、内蔵スケジューラが指定時刻に公開する
+          // キューには本文を保存しないため、本文の変更は登録前に下書きへ保存する
+          if (publishAt) {
+            const scheduledAt = resolvePublishAt(publishAt);
+            if (body) {
+              const draft = await fetchDraftNote(noteId);
+              const draftTitle = title || draft.title || draft.noteDraft?.name || "";
+              await saveDraftNote(String(draft.id || noteId), draftTitle, body);
+            }
+            const entry = enqueuePublication({
+              noteId,
+              publishAt: scheduledAt,
+              source: "publish-note",
+              title,
+              tags,
+              paid,
+            });
+            return createSuccessResponse({
+              success: true,
+              message: `記事の公開を予約しました（${entry.publishAt}）`,
+              scheduled: entry,
+            });
+          }
 
-          const data = await noteApiRequest(endpoint, "POST", postData, true);
-          console.error(`公開成功: ${JSON.stringify(data, null, 2)}`);
+          console.error(`記事公開リクエスト: ${noteId}`);
+
+          // 記事情報を先に取得
+          let currentNote;
+          try {
+            currentNote = await fetchDraftNote(noteId);
+          } catch (getError) {
+            console.error(`記事情報取得エラー: ${getError}`);
+            return createErrorResponse(
+              `指定された記事が存在しないか、アクセスできません: ${noteId}`
+            );
+          }
 
-          return createSuccessResponse({
-            success: true,
-            data: data,
-            message: "記事を公開しました",
-            noteId: noteId,
-            noteUrl: data.data?.url || `https://note.com/${env.NOTE_USER_ID}/n/${noteId}`,
-          });
+          // 公開APIリクエスト
+          try {
+            const { data, noteUrl, warnings } = await publishDraftNote(
+              noteId,
+              { title, body, tags, paid },
+              currentNote
+            );
+
+            return createSuccessResponse({
+              success: true,
+              data: data,
+              message: "記事を公開しました",
+              noteId: noteId,
+              noteUrl,
+              warnings,
+            });
+          } catch (error) {
+            console.error(`公開エラー: ${error}`);
+            return createErrorResponse(
+              `記事の公開に失敗しました: ${error}\n\nセッションの有効期限が切れている可能性があります。.envファイルのCookie情報を更新してください。`
+            );
+          }
         } catch (error) {
-          console.error(`公開エラー: ${error}`);
-          return createErrorResponse(
-            `記事の公開に失敗しました: ${error}\n\nセッションの有効期限が切れている可能性があります。.envファイルのCookie情報を更新してください。`
-          );
+          console.error(`記事公開処理全体でエラー: ${error}`);
+          return handleApiError(error, "記事公開");
         }
-      } catch (error) {
-        console.error(`記事公開処理全体でエラー: ${error}`);
-        return handleApiError(error, "記事公開");
-      }
-    }
+      })
   );
 
   // 7. コメント投稿ツール
@@ -728,108 +776,114 @@ export function registerNoteTools(server: McpServer) {
         .enum(["all", "draft", "public"])
         .default("all")
         .describe("記事の状態フィルター（all:すべて, draft:下書きのみ, public:公開済みのみ）"),
+      account: accountSchema,
     },
-    async ({ page, perPage, status }) => {
-      try {
-        if (!env.NOTE_USER_ID) {
-          return createErrorResponse(
-            "環境変数 NOTE_USER_ID が設定されていません。.envファイルを確認してください。"
-          );
-        }
+    async ({ page, perPage, status, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          if (!getNoteUserId()) {
+            return createErrorResponse(
+              "環境変数 NOTE_USER_ID が設定されていません。.envファイルを確認してください。"
+            );
+          }
 
-        const params = new URLSearchParams({
-          page: page.toString(),
-          per_page: perPage.toString(),
-          draft: "true",
-          draft_reedit: "false",
-          ts: Date.now().toString(),
-        });
+          const params = new URLSearchParams({
+            page: page.toString(),
+            per_page: perPage.toString(),
+            draft: "true",
+            draft_reedit: "false",
+            ts: Date.now().toString(),
+          });
 
-        if (status === "draft") {
-          params.set("status", "draft");
-        } else if (status === "public") {
-          params.set("status", "public");
-        }
+          if (status === "draft") {
+            params.set("status", "draft");
+          } else if (status === "public") {
+            params.set("status", "public");
+          }
 
-        const data = await noteApiRequest(
-          `/v2/note_list/contents?${params.toString()}`,
-          "GET",
-          null,
-          true
-        );
+          const data = await noteApiRequest(
+            `/v2/note_list/contents?${params.toString()}`,
+            "GET",
+            null,
+            true
+          );
 
-        if (env.DEBUG) {
-          console.error(`API Response: ${JSON.stringify(data, null, 2)}`);
-        }
+          if (env.DEBUG) {
+            console.error(`API Response: ${JSON.stringify(data, null, 2)}`);
+          }
 
-        let formattedNotes: any[] = [];
-        let totalCount = 0;
-
-        if (data.data && data.data.notes && Array.isArray(data.data.notes)) {
-          formattedNotes = data.data.notes.map((note: any) => {
-            const isDraft = note.status === "draft";
-            const noteKey = note.key || "";
-            const noteId = note.id || "";
-
-            const draftTitle = note.noteDraft?.name || "";
-            const title = note.name || draftTitle || "(無題)";
-
-            let excerpt = "";
-            if (note.body) {
-              excerpt = note.body.length > 100 ? note.body.substring(0, 100) + "..." : note.body;
-            } else if (note.peekBody) {
-              excerpt = note.peekBody;
-            } else if (note.noteDraft?.body) {
-              const textContent = note.noteDraft.body.replace(/<[^>]*>/g, "");
-              excerpt =
-                textContent.length > 100 ? textContent.substring(0, 100) + "..." : textContent;
-            }
+          let formattedNotes: any[] = [];
+          let totalCount = 0;
+
+          if (data.data && data.data.notes && Array.isArray(data.data.notes)) {
+            formattedNotes = data.data.notes.map((note: any) => {
+              const isDraft = note.status === "draft";
+              const noteKey = note.key || "";
+              const noteId = note.id || "";
+
+              const draftTitle = note.noteDraft?.name || "";
+              const title = note.name || draftTitle || "(無題)";
+
+              let excerpt = "";
+              if (note.body) {
+                excerpt = note.body.length > 100 ? note.body.substring(0, 100) + "..." : note.body;
+              } else if (note.peekBody) {
+                excerpt = note.peekBody;
+              } else if (note.noteDraft?.body) {
+                const textContent = note.noteDraft.body.replace(/<[^>]*>/g, "");
+                excerpt =
+                  textContent.length > 100 ? textContent.substring(0, 100) + "..." : textContent;
+              }
 
-            const publishedAt =
-              note.publishAt || note.publish_at || note.displayDate || note.createdAt || "日付不明";
-
-            return {
-              id: noteId,
-              key: noteKey,
-              title: title,
-              excerpt: excerpt,
-              publishedAt: publishedAt,
-              likesCount: note.likeCount || 0,
-              commentsCount: note.commentsCount || 0,
-              status: note.status || "unknown",
-              isDraft: isDraft,
-              format: note.format || "",
-              url: `https://note.com/${env.NOTE_USER_ID}/n/${noteKey}`,
-              editUrl: `https://editor.note.com/notes/${noteId}/edit/`,
-              hasDraftContent: note.noteDraft ? true : false,
-              lastUpdated: note.noteDraft?.updatedAt || note.createdAt || "",
-              user: {
-                id: note.user?.id || env.NOTE_USER_ID,
-                name: note.user?.name || note.user?.nickname || "",
-                urlname: note.user?.urlname || env.NOTE_USER_ID,
-              },
-            };
-          });
-        }
+              const publishedAt =
+                note.publishAt ||
+                note.publish_at ||
+                note.displayDate ||
+                note.createdAt ||
+                "日付不明";
+
+              return {
+                id: noteId,
+                key: noteKey,
+                title: title,
+                excerpt: excerpt,
+                publishedAt: publishedAt,
+                likesCount: note.likeCount || 0,
+                commentsCount: note.commentsCount || 0,
+                status: note.status || "unknown",
+                isDraft: isDraft,
+                format: note.format || "",
+                url: `https://note.com/${getNoteUserId()}/n/${noteKey}`,
+                editUrl: `https://editor.note.com/notes/${noteId}/edit/`,
+                hasDraftContent: note.noteDraft ? true : false,
+                lastUpdated: note.noteDraft?.updatedAt || note.createdAt || "",
+                user: {
+                  id: note.user?.id || getNoteUserId(),
+                  name: note.user?.name || note.user?.nickname || "",
+                  urlname: note.user?.urlname || getNoteUserId(),
+                },
+              };
+            });
+          }
 
-        totalCount = data.data?.totalCount || 0;
+          totalCount = data.data?.totalCount || 0;
 
-        return createSuccessResponse({
-          total: totalCount,
-          page: page,
-          perPage: perPage,
-          status: status,
-          totalPages: Math.ceil(totalCount / perPage),
-          hasNextPage: page * perPage < totalCount,
-          hasPreviousPage: page > 1,
-          draftCount: formattedNotes.filter((note: any) => note.isDraft).length,
-          publicCount: formattedNotes.filter((note: any) => !note.isDraft).length,
-          notes: formattedNotes,
-        });
-      } catch (error) {
-        return handleApiError(error, "記事一覧取得");
-      }
-    }
+          return createSuccessResponse({
+            total: totalCount,
+            page: page,
+            perPage: perPage,
+            status: status,
+            totalPages: Math.ceil(totalCount / perPage),
+            hasNextPage: page * perPage < totalCount,
+            hasPreviousPage: page > 1,
+            draftCount: formattedNotes.filter((note: any) => note.isDraft).length,
+            publicCount: formattedNotes.filter((note: any) => !note.isDraft).length,
+            notes: formattedNotes,
+          });
+        } catch (error) {
+          return handleApiError(error, "記事一覧取得");
+        }
+      })
   );
 
   // 9. 記事編集ページを開くツール
@@ -841,7 +895,7 @@ export function registerNoteTools(server: McpServer) {
     },
     async ({ noteId }) => {
       try {
-        if (!env.NOTE_USER_ID) {
+        if (!getNoteUserId()) {
           return createErrorResponse(
             "環境変数 NOTE_USER_ID が設定されていません。.envファイルを確認してください。"
           );
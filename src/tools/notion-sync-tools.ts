@@ -0,0 +1,156 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
+import { runWithAccount } from "../utils/account-context.js";
+import { getNotionSyncConfig, runNotionSync, saveNotionSyncConfig } from "../utils/notion-sync.js";
+import { getSchedulerStatus, reloadSchedules } from "../utils/scheduler.js";
+import { accountSchema } from "./account-tools.js";
+
+export function registerNotionSyncTools(server: McpServer) {
+  // --- configure-notion-sync ---
+  server.tool(
+    "configure-notion-sync",
+    "Configure two-way sync with a Notion database (editorial calendar). Pages whose status property equals readyValue are imported to note, and the note URL, publish status, PV and likes are written back to the page properties on a schedule",
+    {
+      databaseId: z
+        .string()
+        .optional()
+        .describe("Notion database ID to sync (required on first setup)"),
+      readyValue: z
+        .string()
+        .optional()
+        .describe("Status value of pages to import (default: Ready)"),
+      importedValue: z
+        .string()
+        .optional()
+        .describe("Status value to set after import (empty string to leave the status as is)"),
+      statusProperty: z.string().optional().describe("Status property name (default: Status)"),
+      noteUrlProperty: z
+        .string()
+        .optional()
+        .describe("URL / text property for the note URL (default: note URL)"),
+      publishStatusProperty: z
+        .string()
+        .optional()
+        .describe(
+          "Select / text property for the publish status: draft, scheduled or published (default: note Status)"
+        ),
+      pvProperty: z.string().optional().describe("Number property for PV (default: PV)"),
+      likesProperty: z.string().optional().describe("Number property for likes (default: Likes)"),
+      tags: z.array(z.string()).optional().describe("Tags to add to imported notes"),
+      saveAsDraft: z.boolean().optional().describe("Import as draft (default: true)"),
+      cron: z
+        .string()
+        .optional()
+        .describe("Sync schedule as a cron expression (default: */30 * * * *)"),
+      enabled: z.boolean().optional().describe("Enable scheduled sync (default: true)"),
+      account: accountSchema,
+    },
+    async ({
+      databaseId,
+      readyValue,
+      importedValue,
+      statusProperty,
+      noteUrlProperty,
+      publishStatusProperty,
+      pvProperty,
+      likesProperty,
+      tags,
+      saveAsDraft,
+      cron,
+      enabled,
+      account,
+    }) =>
+      runWithAccount(account, async () => {
+        try {
+          const config = saveNotionSyncConfig({
+            databaseId,
+            readyValue,
+            importedValue,
+            properties: Object.fromEntries(
+              Object.entries({
+                status: statusProperty,
+                noteUrl: noteUrlProperty,
+                publishStatus: publishStatusProperty,
+                pv: pvProperty,
+                likes: likesProperty,
+              }).filter(([, value]) => value !== undefined)
+            ),
+            tags,
+            saveAsDraft,
+            cron,
+            enabled,
+          });
+
+          // スケジューラ起動中（内蔵ジョブが登録済み）なら同期ジョブを反映する
+          const started = getSchedulerStatus().builtInJobs.length > 0;
+          const scheduler = started ? reloadSchedules() : undefined;
+
+          const { pages, ...settings } = config;
+          return createSuccessResponse({
+            status: "configured",
+            config: settings,
+            syncedPages: Object.keys(pages).length,
+            scheduler: scheduler ?? getSchedulerStatus(),
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`Failed to configure Notion sync: ${message}`);
+        }
+      })
+  );
+
+  // --- run-notion-sync ---
+  server.tool(
+    "run-notion-sync",
+    "Run the configured Notion database sync now",
+    {
+      account: accountSchema,
+    },
+    async ({ account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const result = await runNotionSync();
+          return createSuccessResponse({
+            status: result.failed > 0 ? "completed_with_errors" : "completed",
+            result,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`Failed to sync Notion database: ${message}`);
+        }
+      })
+  );
+
+  // --- get-notion-sync-status ---
+  server.tool(
+    "get-notion-sync-status",
+    "Get the Notion database sync settings, the last result and the synced pages",
+    {
+      account: accountSchema,
+    },
+    async ({ account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const config = getNotionSyncConfig();
+          if (!config) {
+            return createSuccessResponse({
+              configured: false,
+              message: "Notion sync is not configured. Use configure-notion-sync to set it up",
+            });
+          }
+
+          const { pages, ...settings } = config;
+          return createSuccessResponse({
+            configured: true,
+            config: settings,
+            pages: Object.entries(pages).map(([pageId, page]) => ({ pageId, ...page })),
+            scheduler: getSchedulerStatus(),
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`Failed to get Notion sync status: ${message}`);
+        }
+      })
+  );
+}
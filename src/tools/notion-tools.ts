@@ -1,15 +1,13 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { NotionClient } from "../utils/notion-client.js";
-import { NotionBlockParser } from "../utils/notion-block-parser.js";
+import { NotionBlockParser, countBlocks } from "../utils/notion-block-parser.js";
 import { NotionToNoteFormatter } from "../utils/notion-to-note-formatter.js";
-import { NoteImageUploader, ImageData } from "../utils/note-image-uploader.js";
 import {
   ListNotionPagesArgs,
   GetNotionPageArgs,
   PreviewNotionToNoteArgs,
   ImportNotionToNoteArgs,
-  ImportResult,
   NotionErrorCode,
 } from "../types/notion-types.js";
 import { DEFAULT_PAGE_SIZE } from "../config/notion-config.js";
@@ -19,8 +17,9 @@ import {
   createAuthErrorResponse,
   handleApiError,
 } from "../utils/error-handler.js";
-import { hasAuth } from "../utils/auth.js";
-import { noteApiRequest } from "../utils/api-client.js";
+import { enqueuePublication, resolvePublishAt } from "../utils/publish-queue.js";
+import { importNotionToNote } from "../utils/notion-importer.js";
+import { publishAtSchema } from "./publish-queue-tools.js";
 
 /**
  * Notion関連のツールをMCPサーバーに登録する
@@ -87,11 +86,14 @@ export function registerNotionTools(server: McpServer): void {
             created_time: page.created_time,
             last_edited_time: page.last_edited_time,
           },
-          blocks: blocks.map((block) => ({
-            id: block.id,
-            type: block.type,
-            has_children: block.has_children,
-          })),
+          blocks: blocks.map(function summarize(block): Record<string, unknown> {
+            return {
+              id: block.id,
+              type: block.type,
+              has_children: block.has_children,
+              ...(block.children ? { children: block.children.map(summarize) } : {}),
+            };
+          }),
         });
       } catch (error: any) {
         return handleApiError(error, "Get Notion page");
@@ -121,14 +123,17 @@ export function registerNotionTools(server: McpServer): void {
 
         // 画像参照を抽出
         const imageReferences = formatter.extractImageReferences(markdown);
+        const unsupportedBlocks = blockParser.getUnsupportedBlocks();
+        const totalBlocks = countBlocks(blocks);
 
         return createSuccessResponse({
           title: page.title,
           markdown,
           imageReferences,
+          unsupportedBlocks,
           stats: {
-            totalBlocks: blocks.length,
-            convertedBlocks: irNodes.length,
+            totalBlocks,
+            convertedBlocks: totalBlocks - unsupportedBlocks.length,
             imageCount: imageReferences.length,
           },
         });
@@ -141,29 +146,66 @@ export function registerNotionTools(server: McpServer): void {
   // 4. import-notion-to-note ツール
   server.tool(
     "import-notion-to-note",
-    "Import a Notion page to note.com as a draft",
+    "Import a Notion page to note.com as a draft. A paragraph containing only <!-- paywall --> marks the paid boundary, and the page properties price / membershipOnly / magazine set the paid settings. A page imported before updates the same note, and is skipped if unchanged",
     {
       pageId: z.string().describe("Notion page ID to import"),
       tags: z.array(z.string()).optional().describe("Tags to add to the note (optional)"),
       saveAsDraft: z.boolean().optional().describe("Save as draft (default: true)").default(true),
+      publishAt: publishAtSchema,
+      force: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Update the note even if the page has not changed since the last import"),
     },
-    async ({ pageId, tags, saveAsDraft }) => {
+    async ({ pageId, tags, saveAsDraft, publishAt, force }) => {
       try {
+        // 予約公開時は下書きとしてインポートし、公開は公開キューに任せる
+        const scheduledAt = publishAt ? resolvePublishAt(publishAt) : undefined;
+
         const result = await importNotionToNote(
           notionClient,
           blockParser,
           formatter,
           pageId,
           tags || [],
-          saveAsDraft !== false
+          scheduledAt !== undefined || saveAsDraft !== false,
+          force
         );
 
         if (result.success) {
+          const scheduled =
+            scheduledAt && result.note_id
+              ? enqueuePublication({
+                  noteId: result.note_id,
+                  publishAt: scheduledAt,
+                  source: "import-notion-to-note",
+                  tags,
+                  // マガジンはインポート時に追加済みのため、価格・メンバーシップ設定だけを引き継ぐ
+                  paid: result.paid
+                    ? { price: result.paid.price, membershipOnly: result.paid.membershipOnly }
+                    : undefined,
+                })
+              : undefined;
+
+          const messages = {
+            created: "Successfully imported Notion page to note.com",
+            updated: "Successfully updated the note imported from the Notion page",
+            unchanged: "Skipped: the Notion page has not changed since the last import",
+          };
+          const message = messages[result.status || "created"];
+
           return createSuccessResponse({
             noteId: result.note_id,
+            status: result.status,
+            diff: result.diff,
             stats: result.stats,
             warnings: result.warnings,
-            message: "Successfully imported Notion page to note.com",
+            paid: result.paid,
+            scheduled,
+            message: scheduled
+              ? `${message} (publication scheduled at ${scheduled.publishAt})`
+              : message,
           });
         } else {
           return createErrorResponse(result.error || "Failed to import Notion page");
@@ -174,109 +216,3 @@ export function registerNotionTools(server: McpServer): void {
     }
   );
 }
-
-/**
- * Notionページをnote.comにインポートする内部関数
- */
-async function importNotionToNote(
-  notionClient: NotionClient,
-  blockParser: NotionBlockParser,
-  formatter: NotionToNoteFormatter,
-  pageId: string,
-  tags: string[],
-  saveAsDraft: boolean
-): Promise<ImportResult> {
-  const result: ImportResult = {
-    success: false,
-    stats: {
-      total_blocks: 0,
-      converted_blocks: 0,
-      skipped_blocks: 0,
-      images_total: 0,
-      images_success: 0,
-      images_failed: 0,
-    },
-    warnings: [],
-  };
-
-  try {
-    // note.comの認証チェック
-    if (!hasAuth()) {
-      throw new Error("note.comの認証情報が不足しています。");
-    }
-
-    // ページ情報とブロックを取得
-    const page = await notionClient.getPage(pageId);
-    const blocks = await notionClient.getBlocks(page.id, true);
-    result.stats.total_blocks = blocks.length;
-
-    // IRに変換
-    const irNodes = blockParser.parseBlocks(blocks);
-    result.stats.converted_blocks = irNodes.length;
-    result.stats.skipped_blocks = blocks.length - irNodes.length;
-
-    // Markdownに変換
-    formatter.resetImageCounter();
-    const markdown = formatter.formatToMarkdown(irNodes);
-
-    // 画像参照を抽出
-    const imageReferences = formatter.extractImageReferences(markdown);
-    result.stats.images_total = imageReferences.length;
-
-    // 画像をダウンロードしてBase64に変換
-    const images: ImageData[] = [];
-
-    for (const ref of imageReferences) {
-      try {
-        // IRから画像URLを取得
-        const imageNode = irNodes.find(
-          (node) =>
-            node.type === "image" && node.content && ref.includes(node.content.split("?")[0])
-        );
-
-        if (imageNode?.content) {
-          const { buffer, mimeType } = await notionClient.downloadImage(imageNode.content);
-          const base64 = buffer.toString("base64");
-
-          images.push({
-            fileName: ref,
-            base64,
-            mimeType,
-          });
-
-          result.stats.images_success++;
-        }
-      } catch (error: any) {
-        result.stats.images_failed++;
-        result.warnings.push(`Failed to download image ${ref}: ${error.message}`);
-      }
-    }
-
-    // 画像をアップロード
-    const uploadedImages = await NoteImageUploader.uploadImages(images);
-
-    // Markdown内の画像参照をHTMLに置換
-    const body = NoteImageUploader.replaceImageReferences(markdown, uploadedImages);
-
-    // note.comに投稿
-    const response = await noteApiRequest(
-      "/v3/notes",
-      "POST",
-      {
-        title: page.title,
-        body: body,
-        status: saveAsDraft ? "draft" : "published",
-        tags: tags,
-      },
-      true
-    );
-
-    result.success = true;
-    result.note_id = response.data?.id;
-
-    return result;
-  } catch (error: any) {
-    result.error = error.message || error;
-    return result;
-  }
-}
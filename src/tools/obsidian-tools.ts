@@ -2,6 +2,10 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import fs from "fs";
 import path from "path";
+import { MarkdownParser } from "../utils/markdown-parser.js";
+import { NoteHtmlRenderer } from "../utils/note-html-renderer.js";
+import { parseMarkdownArticle } from "../utils/note-editor-formatter.js";
+import { resolveObsidianMarkdown } from "../utils/obsidian-vault.js";
 
 /**
  * 画像プレースホルダーの形式
@@ -14,110 +18,35 @@ const IMAGE_PLACEHOLDER_SUFFIX = " -->";
  * Obsidian Markdownをnote用HTMLに変換する
  * 画像はプレースホルダーに置換される
  */
-function convertObsidianToNoteHtml(
+export function convertObsidianToNoteHtml(
   markdown: string,
   imageBasePath: string
 ): { html: string; images: { placeholder: string; localPath: string; fileName: string }[] } {
   const images: { placeholder: string; localPath: string; fileName: string }[] = [];
-  let html = markdown;
 
-  // Obsidianの画像記法を検出: ![[image.png]] または ![alt](path/to/image.png)
-  // パターン1: ![[filename.png]]
-  html = html.replace(/!\[\[([^\]]+)\]\]/g, (match, fileName) => {
-    const cleanFileName = fileName.trim();
-    const localPath = path.join(imageBasePath, cleanFileName);
-    const placeholder = `${IMAGE_PLACEHOLDER_PREFIX}${cleanFileName}${IMAGE_PLACEHOLDER_SUFFIX}`;
-
-    images.push({
-      placeholder,
-      localPath,
-      fileName: cleanFileName,
-    });
-
-    return placeholder;
-  });
-
-  // パターン2: ![alt](path/to/image.png)
-  html = html.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (match, alt, imagePath) => {
-    const cleanPath = imagePath.trim();
-    const fileName = path.basename(cleanPath);
-    const localPath = path.isAbsolute(cleanPath) ? cleanPath : path.join(imageBasePath, cleanPath);
-    const placeholder = `${IMAGE_PLACEHOLDER_PREFIX}${fileName}${IMAGE_PLACEHOLDER_SUFFIX}`;
-
-    images.push({
-      placeholder,
-      localPath,
-      fileName,
-    });
-
-    return placeholder;
-  });
-
-  // 基本的なMarkdown → HTML変換
-  // 見出し
-  html = html.replace(/^### (.+)$/gm, "<h3>$1</h3>");
-  html = html.replace(/^## (.+)$/gm, "<h2>$1</h2>");
-  html = html.replace(/^# (.+)$/gm, "<h1>$1</h1>");
-
-  // 太字・斜体
-  html = html.replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>");
-  html = html.replace(/\*(.+?)\*/g, "<em>$1</em>");
-
-  // インラインコード
-  html = html.replace(/`([^`]+)`/g, "<code>$1</code>");
-
-  // コードブロック
-  html = html.replace(/```(\w*)\n([\s\S]*?)```/g, (match, lang, code) => {
-    return `<pre><code class="language-${lang || "text"}">${escapeHtml(code.trim())}</code></pre>`;
+  const renderer = new NoteHtmlRenderer({
+    renderImage: (node) => {
+      const imagePath = (node.content || "").trim();
+      const fileName = path.basename(imagePath);
+      const localPath = path.isAbsolute(imagePath)
+        ? imagePath
+        : path.join(imageBasePath, imagePath);
+      const placeholder = `${IMAGE_PLACEHOLDER_PREFIX}${fileName}${IMAGE_PLACEHOLDER_SUFFIX}`;
+
+      images.push({
+        placeholder,
+        localPath,
+        fileName,
+      });
+
+      return placeholder;
+    },
   });
 
-  // リンク
-  html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
-
-  // 箇条書き
-  html = html.replace(/^- (.+)$/gm, "<li>$1</li>");
-  html = html.replace(/(<li>.*<\/li>\n?)+/g, (match) => `<ul>${match}</ul>`);
-
-  // 番号付きリスト
-  html = html.replace(/^\d+\. (.+)$/gm, "<li>$1</li>");
-
-  // 引用
-  html = html.replace(/^> (.+)$/gm, "<blockquote>$1</blockquote>");
-
-  // 水平線
-  html = html.replace(/^---$/gm, "<hr>");
-
-  // 段落（空行で区切られたテキスト）
-  const paragraphs = html.split(/\n\n+/);
-  html = paragraphs
-    .map((p) => {
-      const trimmed = p.trim();
-      if (!trimmed) return "";
-      // すでにHTMLタグで始まっている場合はそのまま
-      if (trimmed.startsWith("<")) return trimmed;
-      // プレースホルダーの場合はそのまま
-      if (trimmed.startsWith("<!--")) return trimmed;
-      // それ以外は段落タグで囲む
-      return `<p>${trimmed.replace(/\n/g, "<br>")}</p>`;
-    })
-    .filter((p) => p)
-    .join("\n");
-
+  const html = renderer.render(new MarkdownParser().parse(markdown));
   return { html, images };
 }
 
-/**
- * HTMLエスケープ
- */
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
-}
-
 /**
  * Obsidian連携ツールを登録する
  */
@@ -138,8 +67,14 @@ export function registerObsidianTools(server: McpServer): void {
         .string()
         .optional()
         .describe("画像ファイルの基準パス（デフォルト: Markdownファイルと同じディレクトリ）"),
+      vaultRoot: z
+        .string()
+        .optional()
+        .describe(
+          "Obsidianの保管庫のルート。内部リンク・埋め込みの解決に使う（デフォルト: OBSIDIAN_VAULT_PATH、なければ .obsidian フォルダのある親ディレクトリ）"
+        ),
     },
-    async ({ markdownPath, markdownContent, imageBasePath }) => {
+    async ({ markdownPath, markdownContent, imageBasePath, vaultRoot }) => {
       try {
         let markdown: string;
         let basePath: string;
@@ -157,21 +92,17 @@ export function registerObsidianTools(server: McpServer): void {
           throw new Error("markdownPathまたはmarkdownContentを指定してください");
         }
 
-        // タイトルを抽出（最初の# 見出し）
-        const titleMatch = markdown.match(/^# (.+)$/m);
-        const title = titleMatch ? titleMatch[1].trim() : "無題";
-
-        // タイトル行を本文から除去
-        let body = markdown;
-        if (titleMatch) {
-          body = markdown.replace(/^# .+\n?/, "");
-        }
+        // Frontmatter・タイトル・本文に分ける
+        const { title, body, frontmatter } = parseMarkdownArticle(markdown);
 
-        // Frontmatterを除去（---で囲まれた部分）
-        body = body.replace(/^---\n[\s\S]*?\n---\n?/, "");
+        // 内部リンク・埋め込みを保管庫を参照して展開する
+        const vault = await resolveObsidianMarkdown(body, {
+          sourcePath: markdownPath,
+          vaultRoot,
+        });
 
         // 変換実行
-        const { html, images } = convertObsidianToNoteHtml(body.trim(), basePath);
+        const { html, images } = convertObsidianToNoteHtml(vault.markdown, basePath);
 
         // 画像ファイルの存在確認
         const imageStatus = images.map((img) => ({
@@ -189,10 +120,14 @@ export function registerObsidianTools(server: McpServer): void {
                 {
                   success: true,
                   title,
+                  frontmatter,
                   html,
                   images: imageStatus,
                   imageCount: images.length,
                   missingImages: imageStatus.filter((i) => !i.exists).map((i) => i.fileName),
+                  links: vault.links,
+                  embeds: vault.embeds,
+                  warnings: vault.warnings,
                   note:
                     images.length > 0
                       ? "画像はプレースホルダーとして挿入されています。Playwrightスクリプトで実際の画像に置換してください。"
@@ -234,8 +169,14 @@ export function registerObsidianTools(server: McpServer): void {
       markdownPath: z.string().describe("Markdownファイルのパス"),
       imageBasePath: z.string().optional().describe("画像ファイルの基準パス"),
       tags: z.array(z.string()).optional().describe("タグ（最大10個）"),
+      vaultRoot: z
+        .string()
+        .optional()
+        .describe(
+          "Obsidianの保管庫のルート。内部リンク・埋め込みの解決に使う（デフォルト: OBSIDIAN_VAULT_PATH、なければ .obsidian フォルダのある親ディレクトリ）"
+        ),
     },
-    async ({ markdownPath, imageBasePath, tags }) => {
+    async ({ markdownPath, imageBasePath, tags, vaultRoot }) => {
       try {
         if (!fs.existsSync(markdownPath)) {
           throw new Error(`ファイルが見つかりません: ${markdownPath}`);
@@ -244,19 +185,17 @@ export function registerObsidianTools(server: McpServer): void {
         const markdown = fs.readFileSync(markdownPath, "utf-8");
         const basePath = imageBasePath || path.dirname(markdownPath);
 
-        // タイトルを抽出
-        const titleMatch = markdown.match(/^# (.+)$/m);
-        const title = titleMatch ? titleMatch[1].trim() : "無題";
+        // Frontmatter・タイトル・本文に分ける（引数のタグはFrontmatterより優先）
+        const { title, body, frontmatter } = parseMarkdownArticle(markdown);
 
-        // 本文を準備
-        let body = markdown;
-        if (titleMatch) {
-          body = markdown.replace(/^# .+\n?/, "");
-        }
-        body = body.replace(/^---\n[\s\S]*?\n---\n?/, "");
+        // 内部リンク・埋め込みを保管庫を参照して展開する
+        const vault = await resolveObsidianMarkdown(body, {
+          sourcePath: markdownPath,
+          vaultRoot,
+        });
 
         // 変換実行
-        const { html, images } = convertObsidianToNoteHtml(body.trim(), basePath);
+        const { html, images } = convertObsidianToNoteHtml(vault.markdown, basePath);
 
         // 画像情報を収集
         const imageInfo = images.map((img) => ({
@@ -276,12 +215,16 @@ export function registerObsidianTools(server: McpServer): void {
                   draft: {
                     title,
                     body: html,
-                    tags: tags || [],
+                    tags: tags ?? frontmatter.tags ?? [],
                   },
+                  frontmatter,
                   images: imageInfo,
                   imageCount: images.length,
                   allImagesExist: imageInfo.every((i) => i.exists),
                   missingImages: imageInfo.filter((i) => !i.exists).map((i) => i.fileName),
+                  links: vault.links,
+                  embeds: vault.embeds,
+                  warnings: vault.warnings,
                   nextStep:
                     images.length > 0
                       ? "1. post-draft-noteで下書きを作成\n2. playwright-insert-imagesで画像を挿入"
@@ -2,7 +2,7 @@ import { z } from "zod";
 import { randomUUID } from "crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
-import { readJsonStore, appendToJsonArray } from "../utils/memory-store.js";
+import { readJsonStore, appendToJsonArrayAsync } from "../utils/memory-store.js";
 import { fetchAllStats, computeTrends, categorizeArticles } from "../utils/analytics-helpers.js";
 import { PDCACycleEntry } from "../types/analytics-types.js";
 
@@ -68,7 +68,7 @@ export function registerPdcaTools(server: McpServer) {
           completedAt: now.toISOString(),
         };
 
-        appendToJsonArray(PDCA_FILE, entry);
+        await appendToJsonArrayAsync(PDCA_FILE, entry);
         return createSuccessResponse({
           status: "recorded",
           cycleId: entry.cycleId,
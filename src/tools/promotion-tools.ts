@@ -4,16 +4,23 @@ import { TwitterApi } from "twitter-api-v2";
 import fetch from "node-fetch";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
-import { readJsonStore, appendToJsonArray } from "../utils/memory-store.js";
+import { readJsonStore, appendToJsonArrayAsync } from "../utils/memory-store.js";
 import { readEditorialVoice } from "../utils/voice-reader.js";
 import { getXStrategy } from "../utils/x-strategy-reader.js";
 import { fetchAllStats, computeTrends, categorizeArticles } from "../utils/analytics-helpers.js";
 import { env } from "../config/environment.js";
 import { MemoryEntry, PromotionEntry, PostLogEntry } from "../types/analytics-types.js";
 import { canPostToday, getDailyPostCount, recordPost, getPostLog } from "../utils/agent-runner.js";
+import { analyzePromotionAttribution } from "../utils/promotion-attribution.js";
 
 const MEMORY_FILE = "memory-data.json";
 
+// 投稿ツール共通の投稿フォーマット名パラメータ（宣伝効果の測定に使う）
+const formatSchema = z
+  .string()
+  .optional()
+  .describe("使用した投稿フォーマット名（XStrategyのpostFormatsのname。宣伝効果の測定に使う）");
+
 function getTwitterClient(): TwitterApi | null {
   if (
     !env.TWITTER_API_KEY ||
@@ -306,12 +313,13 @@ export function registerPromotionTools(server: McpServer) {
         .describe("投稿先（twitter: X/Twitter API v2, threads: Meta Threads API, webhook: SNS_WEBHOOK_URL経由）"),
       text: z.string().describe("投稿テキスト（generate-promotionの出力を使用推奨）"),
       articleTitle: z.string().optional().describe("元記事タイトル（記憶記録用）"),
+      format: formatSchema,
       dryRun: z
         .boolean()
         .default(false)
         .describe("trueで実際の投稿をスキップ"),
     },
-    async ({ platform, text, articleTitle, dryRun }) => {
+    async ({ platform, text, articleTitle, format, dryRun }) => {
       try {
         let result: { posted: boolean; postId?: string; error?: string } = { posted: false };
 
@@ -410,6 +418,7 @@ export function registerPromotionTools(server: McpServer) {
               text,
               articleTitle: articleTitle || undefined,
               type: "single",
+              format,
             };
             recordPost(postEntry);
           } catch {
@@ -429,7 +438,7 @@ export function registerPromotionTools(server: McpServer) {
             source: "cross-post",
             tags: ["cross-post", platform, result.posted ? "success" : "failure"],
           };
-          appendToJsonArray(MEMORY_FILE, entry);
+          await appendToJsonArrayAsync(MEMORY_FILE, entry);
         } catch {
           // 記憶保存失敗は無視
         }
@@ -453,10 +462,46 @@ export function registerPromotionTools(server: McpServer) {
     }
   );
 
+  // --- analyze-promotion-attribution ---
+  server.tool(
+    "analyze-promotion-attribution",
+    "SNS宣伝（投稿ログ）ごとに記事のPV増分を推定し、プラットフォーム・投稿フォーマット・投稿形式別に集計する。投稿前の1日あたりPV増分を基準に、投稿日からの計測期間のPV増分との差を推定PV増分とする（日次のPVスナップショットが必要）",
+    {
+      days: z.number().default(30).describe("何日分の投稿を対象にするか（デフォルト: 30）"),
+      windowDays: z
+        .number()
+        .int()
+        .min(1)
+        .default(3)
+        .describe("投稿日から何日間をPV増分の計測期間にするか（デフォルト: 3）"),
+      baselineDays: z
+        .number()
+        .int()
+        .min(1)
+        .default(7)
+        .describe("投稿前の何日間を比較の基準にするか（デフォルト: 7）"),
+    },
+    async ({ days, windowDays, baselineDays }) => {
+      try {
+        const report = analyzePromotionAttribution({ days, windowDays, baselineDays });
+        return createSuccessResponse({
+          ...report,
+          message:
+            report.attributedPosts === 0
+              ? "推定できる投稿がありません。take-pv-snapshot で日次のPVを記録すると、以降の投稿の効果を推定できます"
+              : undefined,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(`宣伝効果の分析に失敗しました: ${message}`);
+      }
+    }
+  );
+
   // --- suggest-promotion-strategy ---
   server.tool(
     "suggest-promotion-strategy",
-    "パフォーマンスデータ・記憶・editorial-voiceから最適な宣伝戦略を提案する。どの記事を・いつ・どのSNSで宣伝すべきかをデータ駆動で判断。",
+    "パフォーマンスデータ・記憶・editorial-voiceから最適な宣伝戦略を提案する。どの記事を・いつ・どのSNSで宣伝すべきかをデータ駆動で判断（過去の宣伝ごとの推定PV増分がある場合は、PVを伸ばしたプラットフォーム・投稿フォーマットを優先）。",
     {},
     async () => {
       try {
@@ -489,9 +534,40 @@ export function registerPromotionTools(server: McpServer) {
         const now = new Date();
         const currentHour = now.getHours();
         const isGoldenHour = xStrategy.goldenHours.includes(currentHour);
-        const topFormats = xStrategy.postFormats
-          .sort((a, b) => b.engagementScore - a.engagementScore)
+
+        // 過去の宣伝ごとの推定PV増分（日次スナップショットのある投稿のみ）
+        const attribution = analyzePromotionAttribution({ days: 90 });
+        const measuredPlatforms = attribution.byPlatform.filter((p) => p.attributedPosts > 0);
+        const measuredFormats = attribution.byFormat.filter(
+          (f) => f.attributedPosts > 0 && xStrategy.postFormats.some((pf) => pf.name === f.key)
+        );
+        const bestPlatform =
+          measuredPlatforms[0] && measuredPlatforms[0].avgUplift > 0 ? measuredPlatforms[0] : undefined;
+        const bestFormat =
+          measuredFormats[0] && measuredFormats[0].avgUplift > 0 ? measuredFormats[0] : undefined;
+        const upliftByFormat = new Map(measuredFormats.map((f) => [f.key, f.avgUplift]));
+
+        // 推定PV増分のあるフォーマットを優先し、残りはエンゲージメントスコア順
+        const topFormats = [...xStrategy.postFormats]
+          .sort((a, b) => {
+            const upliftA = upliftByFormat.get(a.name);
+            const upliftB = upliftByFormat.get(b.name);
+            if (upliftA !== undefined && upliftB !== undefined) {
+              return upliftB - upliftA || b.engagementScore - a.engagementScore;
+            }
+            if (upliftA !== undefined || upliftB !== undefined) {
+              return upliftA !== undefined ? -1 : 1;
+            }
+            return b.engagementScore - a.engagementScore;
+          })
           .slice(0, 3);
+        const recommendedFormats = topFormats.map((f) => ({
+          name: f.name,
+          engagementScore: f.engagementScore,
+          template: f.template,
+          avgPvUplift: upliftByFormat.get(f.name),
+        }));
+        const suggestedPlatform = bestPlatform?.key ?? "twitter";
 
         // 宣伝候補記事の選定
         const promotionCandidates: {
@@ -501,7 +577,12 @@ export function registerPromotionTools(server: McpServer) {
           priority: "high" | "medium" | "low";
           suggestedPlatform: string;
           suggestedTiming: string;
-          recommendedFormats: { name: string; engagementScore: number; template: string }[];
+          recommendedFormats: {
+            name: string;
+            engagementScore: number;
+            template: string;
+            avgPvUplift?: number;
+          }[];
         }[] = [];
 
         // 上昇トレンド記事 = 勢いに乗せるべき
@@ -511,11 +592,11 @@ export function registerPromotionTools(server: McpServer) {
             url: article.url,
             reason: `上昇トレンド（週間PV: ${article.weeklyPV}）— 勢いに乗せて拡散`,
             priority: "high",
-            suggestedPlatform: "twitter",
+            suggestedPlatform,
             suggestedTiming: isGoldenHour
               ? `今が投稿チャンス（${currentHour}時はゴールデンアワー）`
               : `次のゴールデンアワー: ${xStrategy.goldenHours.find((h) => h > currentHour) ?? xStrategy.goldenHours[0]}時`,
-            recommendedFormats: topFormats.map((f) => ({ name: f.name, engagementScore: f.engagementScore, template: f.template })),
+            recommendedFormats,
           });
         }
 
@@ -528,11 +609,11 @@ export function registerPromotionTools(server: McpServer) {
               url: article.url,
               reason: `高PV記事（総PV: ${article.totalPV}）— まだSNS宣伝していない`,
               priority: "medium",
-              suggestedPlatform: "twitter",
+              suggestedPlatform,
               suggestedTiming: isGoldenHour
                 ? `今が投稿チャンス（${currentHour}時はゴールデンアワー）`
                 : `次のゴールデンアワー: ${xStrategy.goldenHours.find((h) => h > currentHour) ?? xStrategy.goldenHours[0]}時`,
-              recommendedFormats: topFormats.map((f) => ({ name: f.name, engagementScore: f.engagementScore, template: f.template })),
+              recommendedFormats,
             });
           }
         }
@@ -549,7 +630,28 @@ export function registerPromotionTools(server: McpServer) {
             successes: successPosts,
             failures: failurePosts,
           },
+          pvAttribution: {
+            measuredPosts: attribution.attributedPosts,
+            windowDays: attribution.windowDays,
+            byPlatform: measuredPlatforms,
+            byFormat: measuredFormats,
+          },
           recommendations: [
+            ...(bestPlatform
+              ? [
+                  `PVを最も伸ばしているのは${bestPlatform.key}での宣伝（1投稿あたり推定+${bestPlatform.avgUplift}PV）`,
+                ]
+              : []),
+            ...(bestFormat
+              ? [
+                  `PVを最も伸ばしている投稿フォーマットは「${bestFormat.key}」（1投稿あたり推定+${bestFormat.avgUplift}PV）`,
+                ]
+              : []),
+            ...(attribution.attributedPosts === 0
+              ? [
+                  "宣伝ごとのPV増分はまだ測定できていません。take-pv-snapshot で日次PVを記録し、投稿時に format を指定すると、PVを伸ばす宣伝を判定できます",
+                ]
+              : []),
             "記事公開直後（1時間以内）のツイートが最も効果的",
             `ターゲット「${voice.targetAudience}」が活発な時間帯を狙う`,
             "ハッシュタグは3-5個が最適（多すぎるとスパム判定リスク）",
@@ -571,7 +673,12 @@ export function registerPromotionTools(server: McpServer) {
             currentHour,
             isGoldenHour,
             nextGoldenHour: isGoldenHour ? currentHour : (xStrategy.goldenHours.find((h) => h > currentHour) ?? xStrategy.goldenHours[0]),
-            topFormats: topFormats.map((f) => ({ name: f.name, score: f.engagementScore, description: f.description })),
+            topFormats: topFormats.map((f) => ({
+              name: f.name,
+              score: f.engagementScore,
+              description: f.description,
+              avgPvUplift: upliftByFormat.get(f.name),
+            })),
             engagementThresholds: xStrategy.engagementThresholds,
             spamWarning: xStrategy.spamKeywords.slice(0, 5).join(", ") + " 等のキーワードを避けること",
           },
@@ -594,12 +701,13 @@ export function registerPromotionTools(server: McpServer) {
         .max(25)
         .describe("スレッドとして投稿するツイートの配列（2〜25件、各280文字以内）"),
       articleTitle: z.string().optional().describe("元記事タイトル（記録用）"),
+      format: formatSchema,
       dryRun: z
         .boolean()
         .default(false)
         .describe("trueで実際の投稿をスキップ"),
     },
-    async ({ tweets, articleTitle, dryRun }) => {
+    async ({ tweets, articleTitle, format, dryRun }) => {
       try {
         if (dryRun) {
           return createSuccessResponse({
@@ -646,6 +754,7 @@ export function registerPromotionTools(server: McpServer) {
             text: tweets[0],
             articleTitle: articleTitle || undefined,
             type: "thread",
+            format,
             threadTweetIds: tweetIds,
           };
           recordPost(postEntry);
@@ -663,7 +772,7 @@ export function registerPromotionTools(server: McpServer) {
             source: "post-thread",
             tags: ["cross-post", "twitter", "thread", "success"],
           };
-          appendToJsonArray(MEMORY_FILE, memEntry);
+          await appendToJsonArrayAsync(MEMORY_FILE, memEntry);
         } catch {
           // 記憶保存失敗は無視
         }
@@ -690,12 +799,13 @@ export function registerPromotionTools(server: McpServer) {
       text: z.string().max(280).describe("ツイート本文（280文字以内）"),
       imagePath: z.string().describe("画像ファイルパス（ローカル絶対パス）またはURL"),
       articleTitle: z.string().optional().describe("元記事タイトル（記録用）"),
+      format: formatSchema,
       dryRun: z
         .boolean()
         .default(false)
         .describe("trueで実際の投稿をスキップ"),
     },
-    async ({ text, imagePath, articleTitle, dryRun }) => {
+    async ({ text, imagePath, articleTitle, format, dryRun }) => {
       try {
         if (dryRun) {
           return createSuccessResponse({
@@ -761,6 +871,7 @@ export function registerPromotionTools(server: McpServer) {
             text,
             articleTitle: articleTitle || undefined,
             type: "image",
+            format,
             mediaIds: [mediaId],
           };
           recordPost(postEntry);
@@ -778,7 +889,7 @@ export function registerPromotionTools(server: McpServer) {
             source: "post-tweet-with-image",
             tags: ["cross-post", "twitter", "image", "success"],
           };
-          appendToJsonArray(MEMORY_FILE, memEntry);
+          await appendToJsonArrayAsync(MEMORY_FILE, memEntry);
         } catch {
           // 記憶保存失敗は無視
         }
@@ -850,7 +961,7 @@ export function registerPromotionTools(server: McpServer) {
             tags: ["engagement", "twitter", "metrics"],
             metadata: engagementData,
           };
-          appendToJsonArray(MEMORY_FILE, memEntry);
+          await appendToJsonArrayAsync(MEMORY_FILE, memEntry);
         } catch {
           // 記憶保存失敗は無視
         }
@@ -978,7 +1089,7 @@ export function registerPromotionTools(server: McpServer) {
             tags: ["engagement", "twitter", "summary", "analytics"],
             metadata: summary,
           };
-          appendToJsonArray(MEMORY_FILE, memEntry);
+          await appendToJsonArrayAsync(MEMORY_FILE, memEntry);
         } catch {
           // 記憶保存失敗は無視
         }
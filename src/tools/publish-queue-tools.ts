@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
+import { runWithAccount } from "../utils/account-context.js";
+import {
+  cancelPublication,
+  listPublications,
+  reschedulePublication,
+  resolvePublishAt,
+} from "../utils/publish-queue.js";
+import { getSchedulerStatus } from "../utils/scheduler.js";
+import { accountSchema } from "./account-tools.js";
+
+// 公開系ツール共通の予約公開日時パラメータ
+export const publishAtSchema = z
+  .string()
+  .optional()
+  .describe(
+    "予約公開日時（ISO 8601形式、例: 2026-05-01T20:00:00+09:00）または next-golden-hour（XStrategyのゴールデンアワーの次の時刻）。指定時は下書きのまま公開キューに登録し、内蔵スケジューラが公開する"
+  );
+
+export function registerPublishQueueTools(server: McpServer) {
+  // --- list-scheduled-publications ---
+  server.tool(
+    "list-scheduled-publications",
+    "予約公開キューの一覧を公開日時順に取得する。",
+    {
+      status: z
+        .enum(["pending", "publishing", "published", "failed", "cancelled"])
+        .optional()
+        .describe("絞り込むステータス（省略時はすべて）"),
+      account: accountSchema,
+    },
+    async ({ status, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const entries = listPublications(status);
+          return createSuccessResponse({
+            total: entries.length,
+            pending: entries.filter((entry) => entry.status === "pending").length,
+            entries,
+            scheduler: getSchedulerStatus(),
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`予約公開一覧の取得に失敗しました: ${message}`);
+        }
+      })
+  );
+
+  // --- reschedule-publication ---
+  server.tool(
+    "reschedule-publication",
+    "予約公開の日時を変更する。公開に失敗した予約も再試行待ちに戻せる。",
+    {
+      id: z.string().describe("予約ID（list-scheduled-publicationsで確認）"),
+      publishAt: z.string().describe("新しい公開日時（ISO 8601形式）または next-golden-hour"),
+      account: accountSchema,
+    },
+    async ({ id, publishAt, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const entry = reschedulePublication(id, resolvePublishAt(publishAt));
+          return createSuccessResponse({
+            status: "rescheduled",
+            entry,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`予約公開の変更に失敗しました: ${message}`);
+        }
+      })
+  );
+
+  // --- cancel-scheduled-publication ---
+  server.tool(
+    "cancel-scheduled-publication",
+    "予約公開を取り消す。記事は下書きのまま残る。",
+    {
+      id: z.string().describe("予約ID（list-scheduled-publicationsで確認）"),
+      account: accountSchema,
+    },
+    async ({ id, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const entry = cancelPublication(id);
+          return createSuccessResponse({
+            status: "cancelled",
+            entry,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`予約公開の取り消しに失敗しました: ${message}`);
+        }
+      })
+  );
+}
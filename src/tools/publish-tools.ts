@@ -1,387 +1,32 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { hasAuth } from "../utils/auth.js";
+import { getCurrentAccountProfile } from "../utils/account-context.js";
 import fs from "fs";
 import path from "path";
 import os from "os";
-import { chromium, Browser, Locator, Page } from "playwright";
+import { chromium } from "playwright";
+import { parseMarkdown } from "../utils/note-editor-formatter.js";
+import { readNoteFrontmatter, splitFrontmatter } from "../utils/frontmatter.js";
+import { toPaidSettings, validatePaidSettings } from "../utils/paid-content.js";
 import {
-  parseMarkdown,
-  formatToNoteEditor,
-  extractTitle,
-  removeTitle,
-  removeFrontmatter,
-  MarkdownElement,
-} from "../utils/note-editor-formatter.js";
-
-/**
- * 現在のカーソル位置に画像を挿入
- */
-async function insertImageAtCurrentPosition(
-  page: Page,
-  bodyBox: any,
-  imagePath: string
-): Promise<void> {
-  // 新しいパラグラフを作成
-  await page.keyboard.press("Enter");
-  await page.keyboard.press("Enter");
-  await page.waitForTimeout(500);
-
-  // 本文エリアの位置を再取得
-  const bodyBoxHandle = await bodyBox.boundingBox();
-
-  // 「+」ボタンを探す（本文エリアの左側）
-  const allBtns = await page.$$("button");
-  let plusBtnFound = false;
-
-  for (const btn of allBtns) {
-    const box = await btn.boundingBox();
-    if (!box) continue;
-
-    // 条件: 本文エリアの左側（x - 100 ~ x）、本文エリア内（y ~ y + 200）、幅60以下
-    if (
-      bodyBoxHandle &&
-      box.x > bodyBoxHandle.x - 100 &&
-      box.x < bodyBoxHandle.x &&
-      box.y > bodyBoxHandle.y &&
-      box.y < bodyBoxHandle.y + bodyBoxHandle.height &&
-      box.width < 60
-    ) {
-      await page.mouse.move(box.x + box.width / 2, box.y + box.height / 2);
-      await page.waitForTimeout(300);
-      await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
-      plusBtnFound = true;
-      await page.waitForTimeout(1500);
-      break;
-    }
-  }
-
-  // フォールバック: 本文エリアの左側を直接クリック
-  if (!plusBtnFound && bodyBoxHandle) {
-    const plusX = bodyBoxHandle.x - 30;
-    const plusY = bodyBoxHandle.y + 50;
-    await page.mouse.click(plusX, plusY);
-    await page.waitForTimeout(1500);
-    plusBtnFound = true;
-  }
-
-  if (!plusBtnFound) {
-    throw new Error("「+」ボタンが見つかりません");
-  }
-
-  // 「画像」メニュー項目をクリック
-  const imageMenuItem = page.locator('[role="menuitem"]:has-text("画像")').first();
-
-  const [chooser] = await Promise.all([
-    page.waitForEvent("filechooser", { timeout: 10000 }),
-    imageMenuItem.click(),
-  ]);
-
-  // ファイルを設定
-  await chooser.setFiles(imagePath);
-  await page.waitForTimeout(3000);
-
-  // トリミングダイアログがあれば保存
-  const dialog = page.locator('div[role="dialog"]');
-  try {
-    await dialog.waitFor({ state: "visible", timeout: 5000 });
-    const saveBtn = dialog.locator('button:has-text("保存")').first();
-    await saveBtn.waitFor({ state: "visible", timeout: 5000 });
-    await saveBtn.click();
-    await dialog.waitFor({ state: "hidden", timeout: 10000 }).catch(() => {});
-    await page.waitForTimeout(3000);
-  } catch (e) {}
-}
-
-async function setEyecatchImage(page: Page, imagePath: string): Promise<void> {
-  const selectors = [
-    'button[aria-label="画像を追加"]',
-    'button:has-text("画像を追加")',
-    'button[aria-label*="画像をアップロード"]',
-    'button:has-text("画像をアップロード")',
-    'button[aria-label*="アイキャッチ"]',
-    'button[aria-label*="サムネ"]',
-    'button[aria-label*="カバー"]',
-    '[role="button"][aria-label*="画像"]',
-    '[role="button"][aria-label*="アイキャッチ"]',
-    '[role="button"][aria-label*="サムネ"]',
-    '[role="button"][aria-label*="カバー"]',
-  ];
-
-  const uploadMenuSelector =
-    '[role="menuitem"]:has-text("画像をアップロード"), [role="option"]:has-text("画像をアップロード"), button:has-text("画像をアップロード"), div:has-text("画像をアップロード"):not(:has(*:has-text("画像をアップロード")))';
-  const fallbackMenuSelector =
-    '[role="menuitem"]:has-text("画像"), [role="option"]:has-text("画像"), button:has-text("画像"), div:has-text("画像"):not(:has(*:has-text("画像")))';
-
-  const openMenuAndGetFileChooser = async (): Promise<any | null> => {
-    const uploadMenuItem = page.locator(uploadMenuSelector).first();
-    const fallbackMenuItem = page.locator(fallbackMenuSelector).first();
-
-    let menuItem = uploadMenuItem;
-    try {
-      await menuItem.waitFor({ state: "visible", timeout: 5000 });
-    } catch {
-      menuItem = fallbackMenuItem;
-      try {
-        await menuItem.waitFor({ state: "visible", timeout: 5000 });
-      } catch {
-        await page.keyboard.press("Escape").catch(() => {});
-        return null;
-      }
-    }
-
-    try {
-      const [fc] = await Promise.all([
-        page.waitForEvent("filechooser", { timeout: 10000 }),
-        menuItem.click(),
-      ]);
-      return fc;
-    } catch {
-      return null;
-    }
-  };
-
-  let chooser: any = null;
-
-  for (const selector of selectors) {
-    const btn = page.locator(selector).first();
-    try {
-      await btn.waitFor({ state: "visible", timeout: 3000 });
-    } catch (e) {
-      continue;
-    }
-
-    await btn.click().catch(() => {});
-    await page.waitForTimeout(500);
-
-    chooser = await openMenuAndGetFileChooser();
-    if (chooser) {
-      break;
-    }
-  }
-
-  if (!chooser) {
-    const bodyBox = page.locator('div[contenteditable="true"][role="textbox"]').first();
-    const bodyBoxHandle = await bodyBox.boundingBox();
-    if (bodyBoxHandle) {
-      const candidates = await page.$$('button, [role="button"]');
-      for (const el of candidates) {
-        const box = await el.boundingBox();
-        if (!box) continue;
-
-        if (box.y >= bodyBoxHandle.y) continue;
-        if (box.y < Math.max(bodyBoxHandle.y - 500, 0)) continue;
-        if (box.x < bodyBoxHandle.x || box.x > bodyBoxHandle.x + bodyBoxHandle.width) continue;
-        if (box.width > 160 || box.height > 160) continue;
-
-        await page.mouse.move(box.x + box.width / 2, box.y + box.height / 2);
-        await page.waitForTimeout(200);
-        await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
-        await page.waitForTimeout(500);
-
-        chooser = await openMenuAndGetFileChooser();
-        if (chooser) {
-          break;
-        }
-
-        await page.keyboard.press("Escape").catch(() => {});
-      }
-
-      if (!chooser) {
-        const x = bodyBoxHandle.x + bodyBoxHandle.width / 2;
-        const y = Math.max(bodyBoxHandle.y - 120, 20);
-        await page.mouse.click(x, y).catch(() => {});
-        await page.waitForTimeout(500);
-        chooser = await openMenuAndGetFileChooser();
-      }
-    }
-  }
-
-  if (!chooser) {
-    throw new Error("アイキャッチ画像の追加ボタンが見つかりません");
-  }
-
-  await chooser.setFiles(imagePath);
-  await page.waitForTimeout(3000);
-
-  const dialog = page.locator('div[role="dialog"]');
-  try {
-    await dialog.waitFor({ state: "visible", timeout: 5000 });
-    const saveBtn = dialog.locator('button:has-text("保存")').first();
-    await saveBtn.waitFor({ state: "visible", timeout: 5000 });
-    await saveBtn.click();
-    await dialog.waitFor({ state: "hidden", timeout: 10000 }).catch(() => {});
-    await page.waitForTimeout(3000);
-  } catch (e) {
-    // トリミングダイアログなし
-  }
-}
-
-async function waitForFirstVisibleLocator(
-  page: Page,
-  selectors: string[],
-  timeoutMs: number
-): Promise<Locator> {
-  const perSelectorTimeout = Math.max(Math.floor(timeoutMs / selectors.length), 3000);
-  let lastError: Error | undefined;
-
-  for (const selector of selectors) {
-    const locator = page.locator(selector).first();
-    try {
-      await locator.waitFor({ state: "visible", timeout: perSelectorTimeout });
-      return locator;
-    } catch (error) {
-      lastError = error as Error;
-    }
-  }
-
-  throw new Error(
-    `タイトル入力欄が見つかりませんでした: ${selectors.join(", ")}\n${lastError?.message || ""}`
-  );
-}
-
-async function fillNoteTitle(page: Page, title: string): Promise<void> {
-  const titleSelectors = [
-    'textarea[placeholder*="タイトル"]',
-    'input[placeholder*="タイトル"]',
-    'textarea[aria-label*="タイトル"]',
-    'input[aria-label*="タイトル"]',
-    '[data-testid*="title"] textarea',
-    '[data-testid*="title"] input',
-    '[contenteditable="true"][data-placeholder*="タイトル"]',
-    'h1[contenteditable="true"]',
-    "textarea",
-    'input[type="text"]',
-  ];
-
-  const titleArea = await waitForFirstVisibleLocator(page, titleSelectors, 30000);
-  await titleArea.click();
-  try {
-    await titleArea.fill(title);
-  } catch {
-    const modifier = process.platform === "darwin" ? "Meta" : "Control";
-    await page.keyboard.press(`${modifier}+A`);
-    await page.keyboard.press("Backspace");
-    await page.keyboard.type(title);
-  }
-}
-
-/**
- * Playwrightでnoteエディタに記事を作成
- */
-async function createNoteWithPlaywright(
-  title: string,
-  markdown: string,
-  imageBasePath: string,
-  options: {
-    headless?: boolean;
-    saveAsDraft?: boolean;
-  } = {}
-): Promise<{ success: boolean; noteUrl?: string; error?: string }> {
-  const { headless = true, saveAsDraft = true } = options;
-
-  const NOTE_EMAIL = process.env.NOTE_EMAIL;
-  const NOTE_PASSWORD = process.env.NOTE_PASSWORD;
-
-  if (!NOTE_EMAIL || !NOTE_PASSWORD) {
-    return { success: false, error: "NOTE_EMAILとNOTE_PASSWORDが設定されていません" };
-  }
-
-  let browser: Browser | null = null;
-
-  try {
-    browser = await chromium.launch({
-      headless,
-      slowMo: 100,
-    });
-
-    const context = await browser.newContext({
-      viewport: { width: 1280, height: 900 },
-      locale: "ja-JP",
-    });
-
-    const page = await context.newPage();
-    page.setDefaultTimeout(60000);
-
-    // ログイン
-    await page.goto("https://note.com/login", { waitUntil: "networkidle" });
-    await page.waitForTimeout(2000);
-
-    const inputs = await page.$$('input:not([type="hidden"])');
-    if (inputs.length >= 2) {
-      await inputs[0].fill(NOTE_EMAIL);
-      await inputs[1].fill(NOTE_PASSWORD);
-    }
-
-    await page.click('button:has-text("ログイン")');
-    await page.waitForURL((url) => !url.href.includes("/login"), { timeout: 30000 });
-
-    // 新規記事作成
-    await page.goto("https://editor.note.com/new", { waitUntil: "domcontentloaded" });
-    await page.waitForTimeout(3000);
-
-    // タイトル入力
-    await fillNoteTitle(page, title);
-
-    // Markdownを解析
-    const elements = parseMarkdown(markdown);
-
-    let bodyElements = elements;
-    let eyecatchImagePath: string | null = null;
-    let eyecatchCaption: string | null = null;
-
-    const eyecatchIndex = elements.findIndex(
-      (element) => element.type === "image" && Boolean(element.imagePath)
-    );
-    if (eyecatchIndex !== -1) {
-      const eyecatchElement = elements[eyecatchIndex];
-      const imagePath = eyecatchElement.imagePath!;
-      eyecatchImagePath = imagePath.startsWith("/")
-        ? imagePath
-        : path.join(imageBasePath, imagePath);
-      eyecatchCaption = eyecatchElement.caption || null;
-
-      bodyElements = [...elements.slice(0, eyecatchIndex), ...elements.slice(eyecatchIndex + 1)];
-    }
-
-    if (eyecatchImagePath) {
-      await setEyecatchImage(page, eyecatchImagePath);
-
-      // アイキャッチ画像にキャプションがあれば本文の先頭に追加
-      if (eyecatchCaption) {
-        await page.waitForTimeout(500);
-        const bodyBox = page.locator('div[contenteditable="true"][role="textbox"]').first();
-        await bodyBox.click();
-        await page.keyboard.type(eyecatchCaption);
-        await page.keyboard.press("Enter");
-        await page.keyboard.press("Enter");
-      }
-    }
-
-    // エディタに書式付きで入力
-    await formatToNoteEditor(page, bodyElements, imageBasePath, insertImageAtCurrentPosition);
-
-    // 下書き保存
-    if (saveAsDraft) {
-      const saveBtn = page.locator('button:has-text("下書き保存")').first();
-      await saveBtn.waitFor({ state: "visible" });
-      if (await saveBtn.isEnabled()) {
-        await saveBtn.click();
-        await page.waitForTimeout(3000);
-      }
-    }
-
-    const noteUrl = page.url();
-
-    return { success: true, noteUrl };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  } finally {
-    if (browser) {
-      await browser.close();
-    }
-  }
-}
+  computeContentHash,
+  detectSourceChange,
+  saveSourceMapping,
+} from "../utils/source-mapping.js";
+import {
+  createNoteWithPlaywright,
+  fillNoteTitle,
+  findObsidianMapping,
+  finishObsidianNote,
+  insertImageAtCurrentPosition,
+  publishObsidianFile,
+  publishedAtToWrite,
+  resolveScheduledAt,
+  toSnapshot,
+} from "../utils/obsidian-publisher.js";
+import { NoteFrontmatter } from "../types/note-types.js";
+import { publishAtSchema } from "./publish-queue-tools.js";
 
 /**
  * 公開ツールを登録する
@@ -392,7 +37,7 @@ export function registerPublishTools(server: McpServer): void {
    */
   server.tool(
     "publish-from-obsidian",
-    "Obsidian記事をnoteに公開（エディタUI操作で書式を適用、画像を自動挿入）",
+    "Obsidian記事をnoteに公開（エディタUI操作で書式を適用、画像を自動挿入）。<!-- paywall --> 行とFrontmatterの price / membershipOnly / magazine を有料設定として反映する",
     {
       markdownPath: z.string().describe("Markdownファイルのパス"),
       imageBasePath: z
@@ -410,8 +55,29 @@ export function registerPublishTools(server: McpServer): void {
         .optional()
         .default(true)
         .describe("下書きとして保存（デフォルト: true）"),
+      publishAt: publishAtSchema,
+      force: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("前回の反映から内容が変わっていなくても記事を更新する（デフォルト: false）"),
+      vaultRoot: z
+        .string()
+        .optional()
+        .describe(
+          "Obsidianの保管庫のルート。内部リンク・埋め込みの解決に使う（デフォルト: OBSIDIAN_VAULT_PATH、なければ .obsidian フォルダのある親ディレクトリ）"
+        ),
     },
-    async ({ markdownPath, imageBasePath, tags, headless, saveAsDraft }) => {
+    async ({
+      markdownPath,
+      imageBasePath,
+      tags,
+      headless,
+      saveAsDraft,
+      publishAt,
+      force,
+      vaultRoot,
+    }) => {
       // 認証チェック
       if (!hasAuth()) {
         return {
@@ -432,85 +98,21 @@ export function registerPublishTools(server: McpServer): void {
       }
 
       try {
-        // ファイル存在確認
-        if (!fs.existsSync(markdownPath)) {
-          throw new Error(`ファイルが見つかりません: ${markdownPath}`);
-        }
-
-        const markdown = fs.readFileSync(markdownPath, "utf-8");
-        const basePath = imageBasePath || path.dirname(markdownPath);
-
-        // タイトルを抽出
-        const title = extractTitle(markdown);
-
-        // 本文を準備（タイトルとFrontmatterを除去）
-        let body = removeTitle(markdown);
-        body = removeFrontmatter(body).trim();
-
-        // Markdownを解析して画像を確認
-        const elements = parseMarkdown(body);
-        const imageElements = elements.filter((e) => e.type === "image");
-
-        // 画像の存在確認
-        const imageInfo = imageElements.map((img) => {
-          const fullPath = img.imagePath?.startsWith("/")
-            ? img.imagePath
-            : path.join(basePath, img.imagePath || "");
-          return {
-            fileName: img.imagePath,
-            localPath: fullPath,
-            exists: fs.existsSync(fullPath),
-          };
-        });
-
-        const missingImages = imageInfo.filter((i) => !i.exists);
-        if (missingImages.length > 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    error: "画像ファイルが見つかりません",
-                    missingImages: missingImages.map((i) => i.fileName),
-                    hint: "imageBasePathを確認してください",
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-
-        // Playwrightで記事を作成
-        const result = await createNoteWithPlaywright(title, body, basePath, {
+        const result = await publishObsidianFile({
+          markdownPath,
+          imageBasePath,
+          tags,
           headless,
           saveAsDraft,
+          publishAt,
+          force,
+          vaultRoot,
         });
-
-        if (!result.success) {
-          throw new Error(result.error);
-        }
-
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  message: saveAsDraft ? "下書きを作成しました" : "記事を作成しました",
-                  title,
-                  noteUrl: result.noteUrl,
-                  imageCount: imageElements.length,
-                  images: imageInfo.map((i) => i.fileName),
-                  tags: tags || [],
-                  note: "エディタのUI操作で書式（見出し、リスト、引用など）を適用しました",
-                },
-                null,
-                2
-              ),
+              text: JSON.stringify(result, null, 2),
             },
           ],
         };
@@ -597,8 +199,7 @@ export function registerPublishTools(server: McpServer): void {
       }
 
       try {
-        const NOTE_EMAIL = process.env.NOTE_EMAIL;
-        const NOTE_PASSWORD = process.env.NOTE_PASSWORD;
+        const { email: NOTE_EMAIL, password: NOTE_PASSWORD } = getCurrentAccountProfile();
 
         const browser = await chromium.launch({
           headless,
@@ -728,10 +329,10 @@ export function registerPublishTools(server: McpServer): void {
    */
   server.tool(
     "publish-from-obsidian-remote",
-    "Obsidian記事をnoteに公開（画像データをBase64で受信、リモートサーバー用）",
+    "Obsidian記事をnoteに公開（画像データをBase64で受信、リモートサーバー用）。Frontmatterの公開メタデータを反映し、書き戻す noteId / noteUrl を返す",
     {
       title: z.string().describe("記事タイトル"),
-      markdown: z.string().describe("Markdown本文（タイトルなし）"),
+      markdown: z.string().describe("Markdown本文（タイトルなし、Frontmatterを含めてよい）"),
       images: z
         .array(
           z.object({
@@ -753,8 +354,17 @@ export function registerPublishTools(server: McpServer): void {
         .optional()
         .default(true)
         .describe("下書きとして保存（デフォルト: true）"),
+      sourcePath: z
+        .string()
+        .optional()
+        .describe("Vault内のファイルパス（記事との対応を記録し、再実行時に同じ記事を更新する）"),
+      force: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("前回の反映から内容が変わっていなくても記事を更新する（デフォルト: false）"),
     },
-    async ({ title, markdown, images, tags, headless, saveAsDraft }) => {
+    async ({ title, markdown, images, tags, headless, saveAsDraft, sourcePath, force }) => {
       // 認証チェック
       if (!hasAuth()) {
         return {
@@ -798,8 +408,18 @@ export function registerPublishTools(server: McpServer): void {
           }
         }
 
+        // Frontmatterの公開メタデータ（引数の指定を優先）
+        const { data, content } = splitFrontmatter(markdown);
+        const frontmatter = readNoteFrontmatter(data);
+        const articleTags = tags ?? frontmatter.tags;
+        const scheduledAt = resolveScheduledAt(undefined, frontmatter);
+        const paid = toPaidSettings(frontmatter);
+        const eyecatchPath = frontmatter.eyecatch
+          ? imageMap.get(path.basename(frontmatter.eyecatch))
+          : undefined;
+
         // Markdownを解析して画像パスを一時ファイルパスに置換
-        let processedMarkdown = markdown;
+        let processedMarkdown = content.trim();
 
         // Obsidian形式の画像参照を置換: ![[filename.png]]
         processedMarkdown = processedMarkdown.replace(
@@ -828,18 +448,102 @@ export function registerPublishTools(server: McpServer): void {
           }
         );
 
-        // Playwrightで記事を作成
+        // 有料設定・予約公開はAPIで下書きに反映するため、下書きとして保存する
+        const hasPaywall = parseMarkdown(processedMarkdown).some((e) => e.type === "paywall");
+        validatePaidSettings(paid, hasPaywall);
+        const hasPaid = hasPaywall || Object.keys(paid).length > 0;
+        if (scheduledAt || hasPaid) {
+          saveAsDraft = true;
+        }
+
+        // 前回反映した内容と比べる（画像は一時ファイルのパスではなく内容で比べる）
+        const mapping = findObsidianMapping(sourcePath, frontmatter.noteId);
+        const target: NoteFrontmatter = {
+          ...frontmatter,
+          noteId: frontmatter.noteId ?? mapping?.noteId,
+          noteUrl: frontmatter.noteUrl ?? mapping?.noteUrl,
+        };
+        const contentHash = computeContentHash(
+          title,
+          content.trim(),
+          articleTags,
+          paid,
+          frontmatter.eyecatch,
+          (images || []).map((img) => [img.fileName, computeContentHash(img.base64)])
+        );
+        const snapshot = toSnapshot(title, content);
+        const change = detectSourceChange(mapping, contentHash, snapshot);
+
+        if (change.status === "unchanged" && !force) {
+          const finished = await finishObsidianNote(undefined, {
+            title,
+            frontmatter: target,
+            tags: articleTags,
+            paid: hasPaid ? paid : undefined,
+            scheduledAt,
+            contentUnchanged: true,
+          });
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    status: "unchanged",
+                    message: finished.scheduled
+                      ? `内容に変更がないため記事は更新せず、公開を予約しました（${finished.scheduled.publishAt}）`
+                      : "前回の反映から内容が変わっていないため、記事の更新をスキップしました",
+                    title,
+                    noteId: finished.noteKey,
+                    noteUrl: finished.noteUrl,
+                    scheduled: finished.scheduled,
+                    frontmatter: finished.noteKey
+                      ? { noteId: finished.noteKey, noteUrl: finished.noteUrl }
+                      : undefined,
+                    hint: "強制的に更新する場合は force: true を指定してください",
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        // Playwrightで記事を作成（公開済みの記事があれば同じ記事を更新）
         const result = await createNoteWithPlaywright(
           title,
           processedMarkdown,
           tempDir, // 一時ディレクトリを画像ベースパスとして使用
-          { headless, saveAsDraft }
+          { headless, saveAsDraft, noteId: target.noteId, eyecatchPath }
         );
 
         if (!result.success) {
           throw new Error(result.error);
         }
 
+        const finished = await finishObsidianNote(result.noteUrl, {
+          title,
+          frontmatter: target,
+          tags: articleTags,
+          paid: hasPaid ? paid : undefined,
+          scheduledAt,
+        });
+
+        // Vault内のパスがなければ記事IDで対応を記録する（Frontmatterの noteId で引ける）
+        if (finished.noteKey) {
+          saveSourceMapping({
+            kind: "obsidian",
+            sourceId: sourcePath ?? finished.noteKey,
+            noteId: finished.noteKey,
+            noteUrl: finished.noteUrl,
+            contentHash,
+            title,
+            snapshot,
+          });
+        }
+
         return {
           content: [
             {
@@ -847,12 +551,33 @@ export function registerPublishTools(server: McpServer): void {
               text: JSON.stringify(
                 {
                   success: true,
-                  message: saveAsDraft ? "下書きを作成しました" : "記事を作成しました",
+                  status: target.noteId ? "updated" : "created",
+                  message: target.noteId
+                    ? "既存の記事を更新しました"
+                    : saveAsDraft
+                      ? "下書きを作成しました"
+                      : "記事を作成しました",
                   title,
-                  noteUrl: result.noteUrl,
+                  noteId: finished.noteKey,
+                  noteUrl: finished.noteUrl,
+                  editUrl: result.noteUrl,
+                  updated: Boolean(target.noteId),
+                  diff: change.diff,
+                  scheduled: finished.scheduled,
+                  paid: hasPaid ? { ...paid, paywall: hasPaywall } : undefined,
+                  promoText: frontmatter.promoText,
+                  // 呼び出し元でMarkdownファイルのFrontmatterに書き戻す項目
+                  frontmatter: finished.noteKey
+                    ? {
+                        noteId: finished.noteKey,
+                        noteUrl: finished.noteUrl,
+                        publishedAt: publishedAtToWrite(saveAsDraft, frontmatter),
+                      }
+                    : undefined,
+                  warnings: finished.warnings,
                   imageCount: decodedImages.length,
                   images: decodedImages.map((i) => i.fileName),
-                  tags: tags || [],
+                  tags: articleTags || [],
                   note: "エディタのUI操作で書式（見出し、リスト、引用など）を適用しました",
                 },
                 null,
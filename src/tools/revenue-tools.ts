@@ -1,12 +1,17 @@
 import { z } from "zod";
 import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
-import { readJsonStore, appendToJsonArray } from "../utils/memory-store.js";
+import { readJsonStore, appendToJsonArrayAsync } from "../utils/memory-store.js";
 import { readEditorialVoice } from "../utils/voice-reader.js";
 import { fetchAllStats, computeTrends, categorizeArticles } from "../utils/analytics-helpers.js";
+import { loadCreatorArticles } from "../utils/catalogue-crawler.js";
+import { buildFunnelReport, funnelToCsv, FunnelView } from "../utils/funnel-analytics.js";
 import { noteApiRequest } from "../utils/api-client.js";
 import { env } from "../config/environment.js";
+import { getNoteUserId } from "../utils/account-context.js";
 import { MemoryEntry, PDCACycleEntry, WorkflowStepResult } from "../types/analytics-types.js";
 
 const MEMORY_FILE = "memory-data.json";
@@ -22,14 +27,18 @@ export function registerRevenueTools(server: McpServer) {
         .enum(["week", "month", "all"])
         .default("month")
         .describe("分析期間"),
+      bypassCache: z
+        .boolean()
+        .default(false)
+        .describe("trueでキャッシュを使わずnoteから最新データを取得"),
     },
-    async ({ period }) => {
+    async ({ period, bypassCache }) => {
       try {
         // PVデータ取得
         const [weekly, monthly, all] = await Promise.all([
-          fetchAllStats("week"),
-          fetchAllStats("month"),
-          fetchAllStats("all"),
+          fetchAllStats("week", { bypassCache }),
+          fetchAllStats("month", { bypassCache }),
+          fetchAllStats("all", { bypassCache }),
         ]);
 
         const weeklyMap = new Map(weekly.map((s) => [s.noteId, s.readCount]));
@@ -44,19 +53,16 @@ export function registerRevenueTools(server: McpServer) {
         let paidArticles: { title: string; pv: number; price: number; url: string }[] = [];
         let freeArticles: { title: string; pv: number; url: string }[] = [];
 
-        // ユーザーの記事一覧を取得
+        // ユーザーの記事一覧を取得（保存済みの全記事カタログ）
         try {
-          const userArticlesData = await noteApiRequest(
-            `/v2/creators/${encodeURIComponent(env.NOTE_USER_ID)}/contents?kind=note&page=1`,
-          );
-          const contents = userArticlesData?.data?.contents || [];
+          const contents = await loadCreatorArticles(getNoteUserId(), { bypassCache });
 
           if (Array.isArray(contents)) {
             for (const article of contents) {
               const noteId = String(article.id || "");
               const trendData = trends.find((t) => t.articleId === noteId);
               const pv = trendData?.totalPV ?? 0;
-              const url = trendData?.url ?? `https://note.com/${env.NOTE_USER_ID}/n/${article.key || ""}`;
+              const url = trendData?.url ?? `https://note.com/${getNoteUserId()}/n/${article.key || ""}`;
 
               const price = article.price || 0;
               const isFree = price === 0 || article.is_free === true;
@@ -188,10 +194,7 @@ export function registerRevenueTools(server: McpServer) {
             let paidCount = 0;
             let freeCount = 0;
             try {
-              const userArticles = await noteApiRequest(
-                `/v2/creators/${encodeURIComponent(env.NOTE_USER_ID)}/contents?kind=note&page=1`,
-              );
-              const contents = userArticles?.data?.contents || [];
+              const contents = await loadCreatorArticles(getNoteUserId());
               if (Array.isArray(contents)) {
                 for (const c of contents) {
                   if (c.price && c.price > 0) paidCount++;
@@ -289,7 +292,7 @@ export function registerRevenueTools(server: McpServer) {
             source: "run-monetization-workflow",
             tags: ["monetization", "workflow"],
           };
-          appendToJsonArray(MEMORY_FILE, entry);
+          await appendToJsonArrayAsync(MEMORY_FILE, entry);
         } catch {
           // 記憶保存失敗は無視
         }
@@ -310,14 +313,19 @@ export function registerRevenueTools(server: McpServer) {
   server.tool(
     "dashboard-summary",
     "noteアカウントの統合ダッシュボード。PV推移・成長率・トレンド記事・SNS状況・PDCA進捗・記憶数をまとめて1画面で確認。",
-    {},
-    async () => {
+    {
+      bypassCache: z
+        .boolean()
+        .default(false)
+        .describe("trueでキャッシュを使わずnoteから最新データを取得"),
+    },
+    async ({ bypassCache }) => {
       try {
         // PVデータ取得
         const [weekly, monthly, all] = await Promise.all([
-          fetchAllStats("week"),
-          fetchAllStats("month"),
-          fetchAllStats("all"),
+          fetchAllStats("week", { bypassCache }),
+          fetchAllStats("month", { bypassCache }),
+          fetchAllStats("all", { bypassCache }),
         ]);
 
         const weeklyTotalPV = weekly.reduce((s, n) => s + n.readCount, 0);
@@ -339,11 +347,8 @@ export function registerRevenueTools(server: McpServer) {
         let freeCount = 0;
         let followerCount: number | null = null;
         try {
-          const userArticles = await noteApiRequest(
-            `/v2/creators/${encodeURIComponent(env.NOTE_USER_ID)}/contents?kind=note&page=1`,
-          );
-          const contents = userArticles?.data?.contents || [];
-          totalArticles = userArticles?.data?.totalCount ?? contents.length;
+          const contents = await loadCreatorArticles(getNoteUserId(), { bypassCache });
+          totalArticles = contents.length;
           if (Array.isArray(contents)) {
             for (const c of contents) {
               if (c.price && c.price > 0) paidCount++;
@@ -355,7 +360,7 @@ export function registerRevenueTools(server: McpServer) {
         // フォロワー数
         try {
           const userData = await noteApiRequest(
-            `/v2/creators/${encodeURIComponent(env.NOTE_USER_ID)}`,
+            `/v2/creators/${encodeURIComponent(getNoteUserId())}`,
           );
           followerCount = userData?.data?.followerCount ?? null;
         } catch { /* 無視 */ }
@@ -388,7 +393,7 @@ export function registerRevenueTools(server: McpServer) {
         return createSuccessResponse({
           generatedAt: new Date().toISOString(),
           account: {
-            userId: env.NOTE_USER_ID,
+            userId: getNoteUserId(),
             totalArticles,
             paidArticles: paidCount,
             freeArticles: freeCount,
@@ -453,4 +458,91 @@ export function registerRevenueTools(server: McpServer) {
       }
     }
   );
+
+  // --- analyze-reader-funnel ---
+  server.tool(
+    "analyze-reader-funnel",
+    "記事ごと・タグごと・公開月ごとの読者ファネル（PV → スキ・コメント → フォロー → 有料購入・メンバーシップ加入）を集計する。フォロワー・加入者の増分は日次スナップショットから公開後の計測期間の増分を記事に按分する。JSONまたはCSVで出力できる。",
+    {
+      attributionDays: z
+        .number()
+        .int()
+        .min(1)
+        .default(7)
+        .describe("公開日から何日間のフォロワー・加入者の増分を記事に割り当てるか"),
+      fetchLikes: z
+        .boolean()
+        .default(true)
+        .describe("記事ごとにスキ一覧を取得する（falseの場合はPV統計のスキ数）"),
+      maxLikeRequests: z
+        .number()
+        .int()
+        .min(0)
+        .default(50)
+        .describe("スキ一覧を取得する記事数の上限（PVの多い順）"),
+      views: z
+        .array(z.enum(["article", "tag", "cohort"]))
+        .default(["article", "tag", "cohort"])
+        .describe("出力する集計（article: 記事別, tag: タグ別, cohort: 公開月別）"),
+      format: z.enum(["json", "csv"]).default("json").describe("出力形式"),
+      outputPath: z
+        .string()
+        .optional()
+        .describe("保存先のファイルパス（省略時は結果をそのまま返す）"),
+      bypassCache: z
+        .boolean()
+        .default(false)
+        .describe("trueでキャッシュを使わずnoteから最新データを取得"),
+    },
+    async ({
+      attributionDays,
+      fetchLikes,
+      maxLikeRequests,
+      views,
+      format,
+      outputPath,
+      bypassCache,
+    }) => {
+      try {
+        const report = await buildFunnelReport({
+          attributionDays,
+          fetchLikes,
+          maxLikeRequests,
+          bypassCache,
+        });
+        const selected = views as FunnelView[];
+        const output =
+          format === "csv"
+            ? funnelToCsv(report, selected)
+            : JSON.stringify(
+                {
+                  ...report,
+                  articles: selected.includes("article") ? report.articles : undefined,
+                  tags: selected.includes("tag") ? report.tags : undefined,
+                  cohorts: selected.includes("cohort") ? report.cohorts : undefined,
+                },
+                null,
+                2
+              );
+
+        if (outputPath) {
+          const resolved = path.resolve(outputPath);
+          fs.mkdirSync(path.dirname(resolved), { recursive: true });
+          fs.writeFileSync(resolved, output, "utf-8");
+          return createSuccessResponse({
+            status: "exported",
+            format,
+            outputPath: resolved,
+            totals: report.totals,
+            notes: report.notes,
+          });
+        }
+
+        return { content: [{ type: "text" as const, text: output }] };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return createErrorResponse(`読者ファネルの集計に失敗しました: ${message}`);
+      }
+    }
+  );
 }
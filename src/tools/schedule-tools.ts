@@ -2,7 +2,7 @@ import { z } from "zod";
 import { randomUUID } from "crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
-import { readJsonStore, writeJsonStore } from "../utils/memory-store.js";
+import { readJsonStore, updateJsonStoreAsync } from "../utils/memory-store.js";
 import { ScheduleEntry, AgentMode } from "../types/analytics-types.js";
 import {
   startAllSchedules,
@@ -35,8 +35,6 @@ export function registerScheduleTools(server: McpServer) {
     },
     async ({ action, id, name, cron, workflow, params, description, agentMode }) => {
       try {
-        const schedules = readJsonStore<ScheduleEntry[]>(SCHEDULE_FILE, []);
-
         switch (action) {
           case "add": {
             if (!name || !cron || (!workflow && !agentMode)) {
@@ -55,8 +53,10 @@ export function registerScheduleTools(server: McpServer) {
               createdAt: new Date().toISOString(),
               agentMode: agentMode as AgentMode | undefined,
             };
-            schedules.push(entry);
-            writeJsonStore(SCHEDULE_FILE, schedules);
+            await updateJsonStoreAsync<ScheduleEntry[]>(SCHEDULE_FILE, [], (schedules) => [
+              ...schedules,
+              entry,
+            ]);
             // スケジューラをリロード
             const reloaded = reloadSchedules();
             return createSuccessResponse({
@@ -70,21 +70,26 @@ export function registerScheduleTools(server: McpServer) {
             if (!id) {
               return createErrorResponse("update操作にはidが必須です。");
             }
-            const idx = schedules.findIndex((s) => s.id === id);
-            if (idx === -1) {
+            let updated: ScheduleEntry | undefined;
+            await updateJsonStoreAsync<ScheduleEntry[]>(SCHEDULE_FILE, [], (schedules) => {
+              updated = schedules.find((s) => s.id === id);
+              if (updated) {
+                if (name !== undefined) updated.name = name;
+                if (cron !== undefined) updated.cron = cron;
+                if (workflow !== undefined) updated.workflow = workflow;
+                if (params !== undefined) updated.params = params;
+                if (description !== undefined) updated.description = description;
+                if (agentMode !== undefined) updated.agentMode = agentMode as AgentMode;
+              }
+              return schedules;
+            });
+            if (!updated) {
               return createErrorResponse(`スケジュールID「${id}」が見つかりません。`);
             }
-            if (name !== undefined) schedules[idx].name = name;
-            if (cron !== undefined) schedules[idx].cron = cron;
-            if (workflow !== undefined) schedules[idx].workflow = workflow;
-            if (params !== undefined) schedules[idx].params = params;
-            if (description !== undefined) schedules[idx].description = description;
-            if (agentMode !== undefined) schedules[idx].agentMode = agentMode as AgentMode;
-            writeJsonStore(SCHEDULE_FILE, schedules);
             const reloaded = reloadSchedules();
             return createSuccessResponse({
               status: "updated",
-              schedule: schedules[idx],
+              schedule: updated,
               scheduler: reloaded,
             });
           }
@@ -93,12 +98,14 @@ export function registerScheduleTools(server: McpServer) {
             if (!id) {
               return createErrorResponse("remove操作にはidが必須です。");
             }
-            const removeIdx = schedules.findIndex((s) => s.id === id);
-            if (removeIdx === -1) {
+            let removed: ScheduleEntry | undefined;
+            await updateJsonStoreAsync<ScheduleEntry[]>(SCHEDULE_FILE, [], (schedules) => {
+              removed = schedules.find((s) => s.id === id);
+              return schedules.filter((s) => s.id !== id);
+            });
+            if (!removed) {
               return createErrorResponse(`スケジュールID「${id}」が見つかりません。`);
             }
-            const removed = schedules.splice(removeIdx, 1)[0];
-            writeJsonStore(SCHEDULE_FILE, schedules);
             const reloaded = reloadSchedules();
             return createSuccessResponse({
               status: "removed",
@@ -111,16 +118,21 @@ export function registerScheduleTools(server: McpServer) {
             if (!id) {
               return createErrorResponse("toggle操作にはidが必須です。");
             }
-            const toggleIdx = schedules.findIndex((s) => s.id === id);
-            if (toggleIdx === -1) {
+            let toggled: ScheduleEntry | undefined;
+            await updateJsonStoreAsync<ScheduleEntry[]>(SCHEDULE_FILE, [], (schedules) => {
+              toggled = schedules.find((s) => s.id === id);
+              if (toggled) {
+                toggled.enabled = !toggled.enabled;
+              }
+              return schedules;
+            });
+            if (!toggled) {
               return createErrorResponse(`スケジュールID「${id}」が見つかりません。`);
             }
-            schedules[toggleIdx].enabled = !schedules[toggleIdx].enabled;
-            writeJsonStore(SCHEDULE_FILE, schedules);
             const reloaded = reloadSchedules();
             return createSuccessResponse({
               status: "toggled",
-              schedule: schedules[toggleIdx],
+              schedule: toggled,
               scheduler: reloaded,
             });
           }
@@ -4,6 +4,8 @@ import { noteApiRequest } from "../utils/api-client.js";
 import { formatUser, formatNote } from "../utils/formatters.js";
 import { createSuccessResponse, handleApiError } from "../utils/error-handler.js";
 import { env } from "../config/environment.js";
+import { runWithAccount } from "../utils/account-context.js";
+import { accountSchema } from "./account-tools.js";
 
 export function registerUserTools(server: McpServer) {
   // 1. ユーザー詳細取得ツール
@@ -119,21 +121,23 @@ export function registerUserTools(server: McpServer) {
       filter: z.enum(["all", "day", "week", "month"]).default("all").describe("期間フィルター"),
       page: z.number().default(1).describe("ページ番号"),
       sort: z.enum(["pv", "date"]).default("pv").describe("ソート方法（pv: PV数順, date: 日付順）"),
+      account: accountSchema,
     },
-    async ({ filter, page, sort }) => {
-      try {
-        const data = await noteApiRequest(
-          `/v1/stats/pv?filter=${filter}&page=${page}&sort=${sort}`,
-          "GET",
-          null,
-          true
-        );
-
-        return createSuccessResponse(data);
-      } catch (error) {
-        return handleApiError(error, "統計情報取得");
-      }
-    }
+    async ({ filter, page, sort, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const data = await noteApiRequest(
+            `/v1/stats/pv?filter=${filter}&page=${page}&sort=${sort}`,
+            "GET",
+            null,
+            true
+          );
+
+          return createSuccessResponse(data);
+        } catch (error) {
+          return handleApiError(error, "統計情報取得");
+        }
+      })
   );
 
   // 5. その他の管理系ツール
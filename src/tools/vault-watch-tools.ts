@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createSuccessResponse, createErrorResponse } from "../utils/error-handler.js";
+import { runWithAccount } from "../utils/account-context.js";
+import { REPORT_FORMATS } from "../utils/notifier.js";
+import {
+  getVaultWatchConfig,
+  getVaultWatcherStatus,
+  saveVaultWatchConfig,
+  runVaultScan,
+  startVaultWatchers,
+} from "../utils/vault-watcher.js";
+import { accountSchema } from "./account-tools.js";
+
+export function registerVaultWatchTools(server: McpServer) {
+  // --- configure-vault-watch ---
+  server.tool(
+    "configure-vault-watch",
+    "Obsidianの保管庫の監視を設定する。Frontmatterに publish: draft を付けたノートは下書きとして保存し、publish: ready を付けたノートは公開キューに登録する。結果はFrontmatterの publishStatus に書き戻し、Webhookで通知する（HTTPモードで起動中に監視）",
+    {
+      folder: z
+        .string()
+        .optional()
+        .describe("監視するフォルダ（初回は必須。省略時は環境変数 OBSIDIAN_VAULT_PATH）"),
+      vaultRoot: z
+        .string()
+        .optional()
+        .describe("内部リンク・埋め込みの解決に使う保管庫のルート（空文字で自動検出に戻す）"),
+      enabled: z.boolean().optional().describe("監視を有効にする（デフォルト: true）"),
+      notifyFormat: z
+        .enum(REPORT_FORMATS)
+        .optional()
+        .describe("通知の送信フォーマット（デフォルト: 環境変数 WEBHOOK_FORMAT）"),
+      webhookUrl: z
+        .string()
+        .optional()
+        .describe("通知先WebhookのURL（省略時は環境変数 WEBHOOK_URL、空文字で設定を解除）"),
+      account: accountSchema,
+    },
+    async ({ folder, vaultRoot, enabled, notifyFormat, webhookUrl, account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const config = saveVaultWatchConfig({
+            folder,
+            vaultRoot,
+            enabled,
+            notify: { format: notifyFormat, webhookUrl },
+          });
+
+          // 監視中なら新しい設定で監視し直す
+          if (getVaultWatcherStatus().running) {
+            startVaultWatchers();
+          }
+
+          const { files, ...settings } = config;
+          return createSuccessResponse({
+            status: "configured",
+            config: settings,
+            processedFiles: Object.keys(files).length,
+            watcher: getVaultWatcherStatus(),
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`保管庫の監視の設定に失敗しました: ${message}`);
+        }
+      })
+  );
+
+  // --- run-vault-watch ---
+  server.tool(
+    "run-vault-watch",
+    "監視フォルダ内のノートを今すぐ確認し、publish フラグの付いた未処理のノートを処理する",
+    {
+      account: accountSchema,
+    },
+    async ({ account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const result = await runVaultScan();
+          return createSuccessResponse({
+            status: result.failed > 0 ? "completed_with_errors" : "completed",
+            result,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`保管庫の確認に失敗しました: ${message}`);
+        }
+      })
+  );
+
+  // --- get-vault-watch-status ---
+  server.tool(
+    "get-vault-watch-status",
+    "保管庫の監視設定と、処理したノートの状態を取得する",
+    {
+      account: accountSchema,
+    },
+    async ({ account }) =>
+      runWithAccount(account, async () => {
+        try {
+          const config = getVaultWatchConfig();
+          if (!config) {
+            return createSuccessResponse({
+              configured: false,
+              message: "保管庫の監視は設定されていません。configure-vault-watch で設定してください",
+            });
+          }
+
+          const { files, ...settings } = config;
+          return createSuccessResponse({
+            configured: true,
+            config: settings,
+            files: Object.entries(files).map(([path, file]) => ({ path, ...file })),
+            watcher: getVaultWatcherStatus(),
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return createErrorResponse(`保管庫の監視状態の取得に失敗しました: ${message}`);
+        }
+      })
+  );
+}
@@ -4,6 +4,7 @@ import { noteApiRequest } from "../utils/api-client.js";
 import { formatNote } from "../utils/formatters.js";
 import { createSuccessResponse, handleApiError } from "../utils/error-handler.js";
 import { env } from "../config/environment.js";
+import { getNoteUserId } from "../utils/account-context.js";
 import { fetchAllStats, computeTrends, categorizeArticles } from "../utils/analytics-helpers.js";
 import { WorkflowStepResult } from "../types/analytics-types.js";
 import { readEditorialVoiceOrNull } from "../utils/voice-reader.js";
@@ -162,7 +163,7 @@ export function registerWorkflowTools(server: McpServer) {
               steps.push({ step: "完成度チェック", status: "skipped", data: "dryRun: スキップ" });
             } else {
               const checks = drafts.slice(0, 10).map((d) => {
-                const formatted = formatNote(d, env.NOTE_USER_ID, false, true);
+                const formatted = formatNote(d, getNoteUserId(), false, true);
                 const hasTitle = Boolean(formatted.title && formatted.title.length > 0);
                 const hasBody = Boolean(formatted.body && formatted.body.length > 100);
                 const hasEyecatch = formatted.contentAnalysis?.hasEyecatch || false;
@@ -371,7 +372,7 @@ export function registerWorkflowTools(server: McpServer) {
 
                 // Step 2: 各下書きのチェック
                 const readinessChecks = draftList.slice(0, 5).map((d: any) => {
-                  const formatted = formatNote(d, env.NOTE_USER_ID, false, true);
+                  const formatted = formatNote(d, getNoteUserId(), false, true);
                   const checks = {
                     title: Boolean(formatted.title && formatted.title.length >= 5),
                     body: Boolean(formatted.body && formatted.body.length >= 300),
@@ -14,7 +14,7 @@ import {
 } from "../utils/interaction-store.js";
 import { scoreContent, checkShadowBan } from "../utils/engagement-analyzer.js";
 import { canPostToday, recordPost } from "../utils/agent-runner.js";
-import { appendToJsonArray } from "../utils/memory-store.js";
+import { appendToJsonArrayAsync } from "../utils/memory-store.js";
 import { OutboundTarget, PostLogEntry, MemoryEntry } from "../types/analytics-types.js";
 
 const MEMORY_FILE = "memory-data.json";
@@ -375,7 +375,7 @@ export function registerXEngagementTools(server: McpServer) {
             source: "check-shadowban",
             tags: ["shadowban", "warning", "engagement"],
           };
-          appendToJsonArray(MEMORY_FILE, entry);
+          await appendToJsonArrayAsync(MEMORY_FILE, entry);
         }
 
         return createSuccessResponse(result);
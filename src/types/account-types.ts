@@ -0,0 +1,52 @@
+/**
+ * noteアカウントのプロファイル
+ * 既存の NOTE_EMAIL 等から作られる「プライマリ」と、NOTE_ACCOUNTS で追加定義したものがある
+ */
+export interface AccountProfile {
+  name: string;
+  email: string;
+  password: string;
+  userId: string;
+  sessionV5: string;
+  xsrfToken: string;
+  // データディレクトリの名前空間（空文字はデータルート直下）
+  namespace: string;
+  // .env の NOTE_EMAIL 等に対応するプロファイルか
+  isPrimary: boolean;
+}
+
+export interface AccountSummary {
+  name: string;
+  userId: string;
+  email: string;
+  hasCredentials: boolean;
+  hasSession: boolean;
+  isDefault: boolean;
+  isPrimary: boolean;
+  namespace: string;
+}
+
+// セッションの取得・更新方法
+export type SessionSource = "env" | "login" | "playwright";
+
+export interface SessionRefreshResult {
+  success: boolean;
+  source: SessionSource | null;
+  // 更新のきっかけ（startup / no-session / 401 / 403 など）
+  reason: string;
+  at: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface SessionStatus {
+  account: string;
+  hasSession: boolean;
+  source: SessionSource | null;
+  establishedAt: string | null;
+  ageSeconds: number | null;
+  refreshCount: number;
+  consecutiveFailures: number;
+  refreshing: boolean;
+  lastRefresh: SessionRefreshResult | null;
+}
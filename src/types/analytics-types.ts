@@ -8,6 +8,96 @@ export interface TrendData {
   trend: "rising" | "stable" | "declining";
   likesCount: number;
   commentsCount: number;
+  // トレンドの判定根拠（history: 日次スナップショット, buckets: 週間・月間PVの比較）
+  trendSource?: "history" | "buckets";
+}
+
+// --- PV時系列 ---
+// 記事ごとの日次スナップショット（値はその日時点の累計）
+export interface PvSnapshot {
+  date: string;           // YYYY-MM-DD（ローカル日付）
+  readCount: number;
+  likeCount: number;
+  commentCount: number;
+}
+
+export interface PvHistoryArticle {
+  noteId: string;
+  title: string;
+  key: string;
+  user: string;
+  snapshots: PvSnapshot[];  // 日付の昇順
+}
+
+// アカウント全体の日次スナップショット（取得できなかった値は省略）
+export interface AccountSnapshot {
+  date: string;
+  followerCount?: number;
+  memberCount?: number;   // メンバーシップの加入者数
+}
+
+export interface PvHistory {
+  articles: Record<string, PvHistoryArticle>;
+  account?: AccountSnapshot[];  // 日付の昇順
+  lastSnapshotAt?: string;
+}
+
+// 前回のスナップショットからの増分（最初の点は null）
+export interface PvHistoryPoint extends PvSnapshot {
+  days: number | null;    // 前回のスナップショットからの日数
+  readDelta: number | null;
+  likeDelta: number | null;
+  commentDelta: number | null;
+}
+
+export interface PvSpike {
+  noteId: string;
+  title: string;
+  url: string;
+  date: string;
+  readDelta: number;
+  dailyReads: number;     // 1日あたりのPV増分
+  baseline: number;       // 直前期間の1日あたりPV増分の中央値
+  ratio: number | null;   // baseline が0の場合は null
+}
+
+// --- 読者ファネル ---
+// PV → スキ・コメント → フォロー → 有料購入・メンバーシップ加入（率はPVに対する%）
+export interface FunnelMetrics {
+  pv: number;
+  likes: number;
+  comments: number;
+  followerGain: number | null;  // 公開後の計測期間のフォロワー増分（同時期の記事で按分）
+  memberGain: number | null;    // 同じくメンバーシップ加入者の増分
+  purchases: number | null;     // 有料記事の購入数（APIが返す場合のみ）
+  likeRate: number | null;
+  commentRate: number | null;
+  followRate: number | null;
+  purchaseRate: number | null;
+}
+
+export interface ArticleFunnel extends FunnelMetrics {
+  noteId: string;
+  title: string;
+  url: string;
+  publishedAt: string | null;
+  tags: string[];
+  price: number;
+}
+
+export interface FunnelGroup extends FunnelMetrics {
+  key: string;            // タグ名・公開月（YYYY-MM）・total
+  articles: number;
+}
+
+export interface FunnelReport {
+  generatedAt: string;
+  attributionDays: number;
+  totals: FunnelGroup;
+  articles: ArticleFunnel[];
+  tags: FunnelGroup[];
+  cohorts: FunnelGroup[];
+  notes: string[];
 }
 
 export interface PDCAReport {
@@ -68,6 +158,95 @@ export interface CompetitorReport {
   topHashtags: string[];
   recentArticles: { title: string; likes: number; url: string }[];
   gaps: string[];
+  totalArticles?: number;  // カタログに記録済みの記事数
+  tracking?: CompetitorTracking;
+}
+
+// --- 競合の時系列記録 ---
+export interface CompetitorSnapshot {
+  date: string;             // YYYY-MM-DD（1日1件）
+  takenAt: string;
+  totalArticles: number;
+  averageLikes: number;
+  postsLast7Days: number;
+  recentAverageLikes: number | null;  // 直近7日間に公開した記事の平均スキ数
+  topHashtags: string[];
+}
+
+export interface CompetitorHistory {
+  username: string;
+  snapshots: CompetitorSnapshot[];
+  // 検出済みのバズ記事（同じ記事を繰り返し通知しないため）
+  viralArticleIds: string[];
+  lastEngagementJumpDate?: string;  // エンゲージメント急増を最後に検出した日
+}
+
+export interface CompetitorWeekOverWeek {
+  from: string;
+  to: string;
+  posts: { current: number; previous: number; change: number };
+  averageLikes: { current: number; previous: number; change: number };
+  recentAverageLikes: {
+    current: number | null;
+    previous: number | null;
+    ratio: number | null;
+  };
+  newTopHashtags: string[];
+  droppedTopHashtags: string[];
+}
+
+export interface CompetitorViralArticle {
+  noteId: string;
+  title: string;
+  url: string;
+  publishedAt: string;
+  likes: number;
+  baseline: number;   // 競合の記事のスキ数の中央値
+  ratio: number;
+  isNew: boolean;     // 今回初めて検出した記事
+}
+
+export interface CompetitorTracking {
+  snapshot: CompetitorSnapshot;
+  weekOverWeek: CompetitorWeekOverWeek | null;
+  newHashtags: string[];
+  viralArticles: CompetitorViralArticle[];
+  engagementJump: boolean;
+  isNewEngagementJump: boolean;  // 直近7日間に検出していない急増
+}
+
+// --- クリエイターの記事カタログ ---
+export type CatalogueCrawlMode = "full" | "refresh";
+
+export interface CreatorCatalogue {
+  username: string;
+  // 記事ID → 記事一覧APIの記事（本文・ユーザー情報を除く）
+  articles: Record<string, any>;
+  // 記事ID → 一覧の表示内容のハッシュ（差分更新の判定に使う）
+  fingerprints: Record<string, string>;
+  totalCount?: number;
+  crawl: {
+    status: "partial" | "complete";
+    nextPage?: number;    // 中断した全件取得を再開するページ
+    seenIds?: string[];   // 全件取得で見つかった記事ID（完了時に一覧から消えた記事を削除する）
+    startedAt: string;
+    completedAt?: string;
+    lastError?: string;
+  };
+  lastRefreshAt?: string;
+}
+
+export interface CatalogueCrawlResult {
+  username: string;
+  mode: CatalogueCrawlMode;
+  status: CreatorCatalogue["crawl"]["status"];
+  pagesFetched: number;
+  added: number;
+  updated: number;
+  removed: number;
+  totalArticles: number;
+  nextPage?: number;
+  error?: string;
 }
 
 export interface ContentPlanEntry {
@@ -126,6 +305,10 @@ export interface ScheduleEntry {
   agentMode?: AgentMode;
 }
 
+// --- 通知 ---
+// send-report・自動処理の通知で使うWebhookの送信フォーマット
+export type ReportFormat = "slack" | "discord" | "telegram" | "generic";
+
 // --- インタラクション記録 ---
 export interface InteractionEntry {
   id: string;
@@ -201,6 +384,7 @@ export interface PostLogEntry {
   text: string;
   articleTitle?: string;
   type: "single" | "thread" | "image";
+  format?: string;        // 使用した投稿フォーマット名（XStrategy.postFormats / FormatStats の formatName）
   mediaIds?: string[];
   threadTweetIds?: string[];
   engagementCheckedAt?: string;
@@ -221,6 +405,55 @@ export interface PromotionEntry {
   generatedAt: string;
 }
 
+// --- SNS宣伝の効果測定 ---
+export type PromotionAttributionStatus =
+  | "attributed"            // PV増分を推定済み
+  | "unmatched"             // 記事を特定できない
+  | "insufficient_history"  // 投稿前後のスナップショットが足りない
+  | "pending";              // 計測期間が終わっていない
+
+// 投稿1件ごとの推定PV増分
+export interface PromotionAttribution {
+  postId: string;
+  timestamp: string;
+  platform: PostLogEntry["platform"];
+  type: PostLogEntry["type"];
+  format?: string;
+  articleTitle?: string;
+  noteId?: string;
+  status: PromotionAttributionStatus;
+  baselineDailyReads?: number;  // 投稿前の1日あたりPV増分（中央値）
+  observedReads?: number;       // 計測期間のPV増分
+  expectedReads?: number;       // 投稿がなかった場合の見込み
+  uplift?: number;              // 推定PV増分（同じ記事の投稿が重なる場合は按分）
+  sharedWith?: number;          // 計測期間が重なった同じ記事の他の投稿数
+  engagement?: number;          // いいね + リポスト + リプライ
+}
+
+export interface PromotionAttributionSummary {
+  key: string;
+  posts: number;
+  attributedPosts: number;
+  totalUplift: number;
+  avgUplift: number;
+  avgEngagement: number | null;
+  // 投稿フォーマット別の集計のみ（FormatStats の記録がある場合）
+  avgEngagementRate?: number;
+  formatStatus?: FormatStats["status"];
+}
+
+export interface PromotionAttributionReport {
+  analyzedAt: string;
+  windowDays: number;
+  baselineDays: number;
+  totalPosts: number;
+  attributedPosts: number;
+  byPlatform: PromotionAttributionSummary[];
+  byFormat: PromotionAttributionSummary[];
+  byType: PromotionAttributionSummary[];
+  posts: PromotionAttribution[];
+}
+
 // --- X運用戦略ナレッジ ---
 export interface XStrategy {
   // Xアルゴリズム — アクション重み
@@ -73,3 +73,52 @@ export interface ToolResponse {
 export interface ErrorResponse extends ToolResponse {
   isError: true;
 }
+
+// note API リクエストの再試行理由
+export type RetryReason = "rate_limited" | "server_error" | "timeout" | "network_error";
+
+// ホストごとのリクエスト統計
+export interface HostRequestMetrics {
+  host: string;
+  requests: number;
+  attempts: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  retriesByReason: Record<RetryReason, number>;
+  timeouts: number;
+  statusCounts: Record<string, number>;
+  // レート制限で待機した合計時間
+  throttledMs: number;
+  // Retry-After / バックオフで待機した合計時間
+  backoffMs: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+// noteApiRequest の追加オプション
+export interface NoteApiRequestOptions {
+  // キャッシュを読まずにAPIから取得する（取得結果はキャッシュに保存）
+  bypassCache?: boolean;
+}
+
+export interface CacheEntrySummary {
+  account: string;
+  endpoint: string;
+  tier: "memory" | "disk";
+  storedAt: string;
+  expiresAt: string;
+  expired: boolean;
+  sizeBytes: number;
+}
+
+export interface CacheStats {
+  mode: "off" | "memory" | "disk";
+  memoryEntries: number;
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  bypasses: number;
+  stores: number;
+  invalidations: number;
+}
@@ -1,4 +1,5 @@
 import { NoteUser } from "./user-types.js";
+import { ReportFormat } from "./analytics-types.js";
 
 export interface Note {
   id?: string;
@@ -152,3 +153,117 @@ export interface FormattedLike {
       };
   createdAt: string;
 }
+
+// 有料記事の設定（Frontmatter の price / membershipOnly / magazine に対応）
+export interface NotePaidSettings {
+  price?: number;
+  membershipOnly?: boolean;
+  magazines?: string[];
+}
+
+// Obsidian・Markdown記事のFrontmatter（公開メタデータ）
+export interface NoteFrontmatter {
+  title?: string;
+  tags?: string[];
+  eyecatch?: string;
+  magazines?: string[];
+  price?: number;
+  membershipOnly?: boolean;
+  publishAt?: string;
+  // 公開後に書き戻す項目（noteId があれば再実行時に同じ記事を更新する）
+  noteId?: string;
+  noteUrl?: string;
+  publishedAt?: string;
+  // SNS告知などで使う正規の紹介文
+  promoText?: string;
+}
+
+// 予約公開キュー
+export type PublishQueueSource = "publish-note" | "publish-from-obsidian" | "import-notion-to-note";
+
+// publishing: 公開処理中（他のプロセス・スケジューラが同じ記事を重複して公開しないようにする）
+export type PublishQueueStatus = "pending" | "publishing" | "published" | "failed" | "cancelled";
+
+export interface PublishQueueEntry {
+  id: string;
+  account: string;
+  noteId: string;
+  title?: string;
+  tags?: string[];
+  publishAt: string;
+  status: PublishQueueStatus;
+  source: PublishQueueSource;
+  paid?: NotePaidSettings;
+  // 公開後に noteUrl / publishedAt を書き戻すMarkdownファイル
+  sourcePath?: string;
+  attempts: number;
+  lastError?: string;
+  noteUrl?: string;
+  publishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 記事の元原稿（Obsidianのファイル・Notionのページ）と公開済みのnote記事の対応
+export type SourceKind = "obsidian" | "notion";
+
+export interface SourceMapping {
+  id: string;
+  kind: SourceKind;
+  // Obsidianはファイルパス、NotionはページID
+  sourceId: string;
+  noteId: string;
+  noteUrl?: string;
+  // 前回反映した内容のハッシュ（変更検出に使う）
+  contentHash: string;
+  title: string;
+  // 差分表示に使う、前回反映した本文のMarkdown
+  snapshot: string;
+  // 記事を追加済みのマガジンのキー（更新時に同じマガジンへ重複して追加しない）
+  magazines?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 前回反映した内容との差分
+export interface SourceDiff {
+  added: number;
+  removed: number;
+  // "+ 行" / "- 行" 形式の変更行（上限を超えた分は truncated）
+  changes: string[];
+  truncated: boolean;
+}
+
+export type SourceChangeStatus = "new" | "unchanged" | "changed";
+
+// 保管庫の監視（Frontmatterの publish: draft / ready のノートを自動で下書き・公開する）
+export type VaultPublishFlag = "draft" | "ready";
+
+export type VaultWatchStatus = "drafted" | "updated" | "scheduled" | "unchanged" | "failed";
+
+export interface VaultWatchedFile {
+  // 処理したときの publish の値（値が変わったときだけ再処理する）
+  flag: VaultPublishFlag;
+  status: VaultWatchStatus;
+  // 処理後（Frontmatterへの書き戻し後）のファイルの更新日時
+  mtimeMs: number;
+  noteId?: string;
+  noteUrl?: string;
+  error?: string;
+  processedAt: string;
+}
+
+export interface VaultWatchConfig {
+  // 監視するフォルダ（サブフォルダを含む）
+  folder: string;
+  // 内部リンク・埋め込みの解決に使う保管庫のルート（省略時は自動で探す）
+  vaultRoot?: string;
+  enabled: boolean;
+  notify: {
+    format: ReportFormat;
+    // 省略時は環境変数 WEBHOOK_URL
+    webhookUrl?: string;
+  };
+  files: Record<string, VaultWatchedFile>;
+  lastScanAt?: string;
+}
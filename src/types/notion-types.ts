@@ -1,5 +1,7 @@
 // Notion → note.com Integration のための型定義
 
+import { NotePaidSettings, SourceDiff } from "./note-types.js";
+
 // 中間表現（IR）のノード型
 export interface NoteIRNode {
   type: NoteIRNodeType;
@@ -14,6 +16,11 @@ export interface NoteIRNode {
     icon?: string;
     hasColumnHeader?: boolean;
     hasRowHeader?: boolean;
+    // テーブルの列ごとの揃え（Markdownの区切り行から取得）
+    alignments?: TableAlignment[];
+    // 動画・ファイルがNotionにアップロードされたものか（URLに有効期限がある）
+    hosted?: boolean;
+    name?: string;
   };
   richText?: RichTextSpan[];
 }
@@ -34,8 +41,20 @@ export type NoteIRNodeType =
   | "tableCell"
   | "embed"
   | "bookmark"
+  | "footnotes"
+  | "paywall"
+  | "toggle"
+  | "columnList"
+  | "column"
+  | "syncedBlock"
+  | "equation"
+  | "linkToPage"
+  | "video"
+  | "file"
   | "unsupported";
 
+export type TableAlignment = "left" | "center" | "right" | null;
+
 // リッチテキストのスパン型
 export interface RichTextSpan {
   text: string;
@@ -47,6 +66,8 @@ export interface RichTextSpan {
     code?: boolean;
   };
   href?: string;
+  // 脚注参照の場合の脚注番号（1始まり）
+  footnote?: number;
 }
 
 // エラーコード列挙型
@@ -76,6 +97,12 @@ export interface ImportResult {
     images_failed: number;
   };
   warnings: string[];
+  unsupported_blocks?: UnsupportedBlockReport[];
+  paid?: NotePaidSettings;
+  // 新規作成・既存記事の更新・変更なしのスキップのどれか
+  status?: "created" | "updated" | "unchanged";
+  // 既存記事を更新した場合の前回インポートとの差分
+  diff?: SourceDiff;
   error?: string;
 }
 
@@ -95,9 +122,22 @@ export interface NotionBlock {
   created_time: string;
   last_edited_time: string;
   has_children: boolean;
+  // 子ブロック（getBlocks の recursive 指定時）
+  children?: NotionBlock[];
+  // 入れ子の深さの上限を超えたため子ブロックを取得していない
+  children_truncated?: boolean;
+  // 子ブロック（同期ブロックの元ブロックなど）を取得できなかった理由
+  children_error?: string;
   [key: string]: any; // type-specific properties
 }
 
+// 変換できなかった（または内容の一部を転載できなかった）ブロック
+export interface UnsupportedBlockReport {
+  id: string;
+  type: string;
+  reason: string;
+}
+
 export interface NotionImage {
   url: string;
   caption?: string;
@@ -116,11 +156,8 @@ export interface ListPagesParams {
   database_id?: string;
   page_size?: number;
   start_cursor?: string;
-  filter?: {
-    property?: string;
-    operator?: string;
-    value?: any;
-  };
+  // Notion APIのフィルタ条件（例: { property: "Status", status: { equals: "Ready" } }）
+  filter?: Record<string, any>;
   sorts?: Array<{
     property: string;
     direction: "ascending" | "descending";
@@ -145,4 +182,53 @@ export interface ImportNotionToNoteArgs {
   pageId: string;
   tags?: string[];
   saveAsDraft?: boolean;
+  publishAt?: string;
+  force?: boolean;
+}
+
+// Notionデータベース同期の設定（プロパティ名は同期先データベースの列名）
+export interface NotionSyncProperties {
+  status: string;
+  noteUrl: string;
+  publishStatus: string;
+  pv: string;
+  likes: string;
+}
+
+// 同期済みのページ（最後に書き戻した値と、書き戻し後のページの最終編集日時）
+export interface NotionSyncedPage {
+  noteId: string;
+  noteUrl?: string;
+  lastEditedTime?: string;
+  publishStatus?: NotePublishStatus;
+  pv?: number;
+  likes?: number;
+  syncedAt: string;
+}
+
+export type NotePublishStatus = "draft" | "scheduled" | "published";
+
+export interface NotionSyncConfig {
+  databaseId: string;
+  // ステータスプロパティがこの値のページを取り込む
+  readyValue: string;
+  // 取り込み後にステータスプロパティに設定する値（省略時は変更しない）
+  importedValue?: string;
+  properties: NotionSyncProperties;
+  tags: string[];
+  saveAsDraft: boolean;
+  cron: string;
+  enabled: boolean;
+  pages: Record<string, NotionSyncedPage>;
+  lastSyncAt?: string;
+  lastResult?: NotionSyncResult;
+}
+
+export interface NotionSyncResult {
+  imported: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  statsUpdated: number;
+  errors: string[];
 }
@@ -0,0 +1,33 @@
+// 永続ストレージの種別
+export type StorageBackendKind = "json" | "sqlite";
+
+/**
+ * 記憶・PDCA・ログ等を保存するストレージの共通インターフェース
+ * キーは従来のJSONファイル名（例: "memory-data.json"）をそのまま使う
+ */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  /** キーに対応する値を読み込む。存在しない場合はデフォルト値を返す */
+  read<T>(key: string, defaultValue: T): T;
+  /** キーに対応する値を丸ごと置き換える */
+  write<T>(key: string, data: T): void;
+  /** 配列として保存されているキーにエントリを1件追記する */
+  append<T>(key: string, entry: T): void;
+  /** 読み込み → 更新 → 書き込みを他の書き込みと競合しないよう排他的に行う */
+  update<T>(key: string, defaultValue: T, updater: (current: T) => T): T;
+  /** append の非同期版（他プロセスの書き込みの完了をイベントループを止めずに待つ） */
+  appendAsync<T>(key: string, entry: T): Promise<void>;
+  /** update の非同期版（他プロセスの書き込みの完了をイベントループを止めずに待つ） */
+  updateAsync<T>(key: string, defaultValue: T, updater: (current: T) => T): Promise<T>;
+  /** キーに値が保存されているか */
+  has(key: string): boolean;
+  /** リソースを解放する */
+  close(): void;
+}
+
+export interface StorageMigrationResult {
+  key: string;
+  status: "imported" | "skipped" | "missing";
+  entries?: number;
+  reason?: string;
+}
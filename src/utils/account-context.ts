@@ -0,0 +1,93 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { AccountProfile } from "../types/account-types.js";
+import {
+  ACCOUNT_NAME_PATTERN,
+  PRIMARY_ACCOUNT_NAME,
+  loadAccountProfiles,
+} from "../config/account-config.js";
+
+const profiles = new Map<string, AccountProfile>();
+for (const profile of loadAccountProfiles()) {
+  if (profile.namespace !== "" && !ACCOUNT_NAME_PATTERN.test(profile.namespace)) {
+    console.error(
+      `[accounts] アカウント名「${profile.name}」は英数字・ハイフン・アンダースコアのみ使用できるためスキップしました`
+    );
+    continue;
+  }
+  profiles.set(profile.name, profile);
+}
+
+// ツール呼び出し単位で使用アカウントを切り替えるためのコンテキスト
+const accountStorage = new AsyncLocalStorage<string>();
+
+let defaultAccountName = PRIMARY_ACCOUNT_NAME;
+
+/**
+ * 登録済みのアカウントプロファイル一覧を返す
+ */
+export function listAccountProfiles(): AccountProfile[] {
+  return Array.from(profiles.values());
+}
+
+/**
+ * 名前からアカウントプロファイルを取得する。未登録の場合はエラー
+ */
+export function getAccountProfile(name: string): AccountProfile {
+  const profile = profiles.get(name);
+  if (!profile) {
+    throw new Error(
+      `アカウント「${name}」は登録されていません。登録済み: ${Array.from(profiles.keys()).join(", ")}`
+    );
+  }
+  return profile;
+}
+
+/**
+ * デフォルトアカウント名を返す
+ */
+export function getDefaultAccountName(): string {
+  return defaultAccountName;
+}
+
+/**
+ * デフォルトアカウントを切り替える（プロセス内で有効、再起動で元に戻る）
+ */
+export function setDefaultAccount(name: string): AccountProfile {
+  const profile = getAccountProfile(name);
+  defaultAccountName = profile.name;
+  return profile;
+}
+
+/**
+ * 現在のコンテキストで使用するアカウント名を返す
+ * runWithAccount の内側ではその指定、外側ではデフォルトアカウント
+ */
+export function getCurrentAccountName(): string {
+  return accountStorage.getStore() ?? defaultAccountName;
+}
+
+/**
+ * 現在のコンテキストで使用するアカウントプロファイルを返す
+ */
+export function getCurrentAccountProfile(): AccountProfile {
+  return getAccountProfile(getCurrentAccountName());
+}
+
+/**
+ * 現在のアカウントのnoteユーザーID（urlname）を返す
+ */
+export function getNoteUserId(): string {
+  return getCurrentAccountProfile().userId;
+}
+
+/**
+ * 指定アカウントのコンテキストで処理を実行する
+ * account 未指定時は現在のコンテキストのまま実行する
+ */
+export function runWithAccount<T>(account: string | undefined, fn: () => T): T {
+  if (!account) {
+    return fn();
+  }
+  const profile = getAccountProfile(account);
+  return accountStorage.run(profile.name, fn);
+}
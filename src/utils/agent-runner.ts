@@ -4,7 +4,7 @@ import path from "path";
 import { fileURLToPath } from "url";
 import { env } from "../config/environment.js";
 import { AgentMode, AgentGoal, AgentCycleLog, PostLogEntry } from "../types/analytics-types.js";
-import { readJsonStore, appendToJsonArray } from "./memory-store.js";
+import { readJsonStore, appendToJsonArray, appendToJsonArrayAsync } from "./memory-store.js";
 import { readEditorialVoice } from "./voice-reader.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -273,7 +273,7 @@ export async function runAgentCycle(
       success: false,
       error: "AGENT_ENABLED is not set to true",
     };
-    appendToJsonArray(AGENT_LOG_FILE, log);
+    await appendToJsonArrayAsync(AGENT_LOG_FILE, log);
     return log;
   }
 
@@ -294,7 +294,7 @@ export async function runAgentCycle(
       success: false,
       error: `Daily budget exceeded: $${dailySpend.toFixed(2)} >= $${dailyBudget.toFixed(2)}`,
     };
-    appendToJsonArray(AGENT_LOG_FILE, log);
+    await appendToJsonArrayAsync(AGENT_LOG_FILE, log);
     return log;
   }
 
@@ -1,14 +1,18 @@
 import { noteApiRequest } from "./api-client.js";
 import { env } from "../config/environment.js";
-import { TrendData } from "../types/analytics-types.js";
+import { getNoteUserId, listAccountProfiles, runWithAccount } from "./account-context.js";
+import { computeHistoryTrend, PvStatInput, readPvHistory, recordPvSnapshot } from "./pv-history.js";
+import { AccountSnapshot, PvHistory, TrendData } from "../types/analytics-types.js";
+import { NoteApiRequestOptions } from "../types/api-types.js";
 
 /**
  * PV統計を全ページ取得する
  */
 export async function fetchAllStats(
-  filter: "week" | "month" | "all"
-): Promise<{ noteId: string; title: string; key: string; user: string; readCount: number }[]> {
-  const results: { noteId: string; title: string; key: string; user: string; readCount: number }[] = [];
+  filter: "week" | "month" | "all",
+  options: NoteApiRequestOptions = {}
+): Promise<PvStatInput[]> {
+  const results: PvStatInput[] = [];
   let page = 1;
   const maxPages = 20;
 
@@ -18,7 +22,9 @@ export async function fetchAllStats(
         `/v1/stats/pv?filter=${filter}&page=${page}`,
         "GET",
         null,
-        true
+        true,
+        undefined,
+        options
       );
 
       // APIレスポンス構造を探索（note.com APIはバージョンで異なる場合がある）
@@ -44,8 +50,10 @@ export async function fetchAllStats(
           noteId: String(stat.id || stat.note_id || stat.noteId || ""),
           title: stat.name || stat.title || "",
           key: stat.key || "",
-          user: stat.user?.urlname || env.NOTE_USER_ID || "",
+          user: stat.user?.urlname || getNoteUserId() || "",
           readCount: stat.read_count || stat.readCount || 0,
+          likeCount: stat.like_count || stat.likeCount || 0,
+          commentCount: stat.comment_count || stat.commentCount || 0,
         });
       }
 
@@ -63,19 +71,99 @@ export async function fetchAllStats(
   return results;
 }
 
+/**
+ * フォロワー数・メンバーシップ加入者数を取得する（取得できない値は省略）
+ */
+export async function fetchAccountCounts(
+  options: NoteApiRequestOptions = {}
+): Promise<Omit<AccountSnapshot, "date">> {
+  const counts: Omit<AccountSnapshot, "date"> = {};
+
+  try {
+    const userData = await noteApiRequest(
+      `/v2/creators/${encodeURIComponent(getNoteUserId())}`,
+      "GET",
+      null,
+      false,
+      undefined,
+      options
+    );
+    const followerCount = userData?.data?.followerCount ?? userData?.data?.follower_count;
+    if (typeof followerCount === "number") {
+      counts.followerCount = followerCount;
+    }
+  } catch (error) {
+    if (env.DEBUG) {
+      console.error("fetchAccountCounts: フォロワー数の取得に失敗:", error);
+    }
+  }
+
+  try {
+    const circleData = await noteApiRequest("/v2/circle", "GET", null, true, undefined, options);
+    const circle = circleData?.data?.circle || circleData?.data || {};
+    const memberCount = circle.member_count ?? circle.memberCount ?? circle.subscriptionCount;
+    if (typeof memberCount === "number") {
+      counts.memberCount = memberCount;
+    }
+  } catch {
+    // メンバーシップ未開設の場合は記録しない
+  }
+
+  return counts;
+}
+
+/**
+ * 全期間のPV統計とフォロワー数等を取得し、今日のスナップショットとして記録する
+ */
+export async function takePvSnapshot(): Promise<{ date: string; articles: number }> {
+  const stats = await fetchAllStats("all", { bypassCache: true });
+  if (stats.length === 0) {
+    throw new Error("PV統計を取得できませんでした（認証情報を確認してください）");
+  }
+  const account = await fetchAccountCounts({ bypassCache: true });
+  return recordPvSnapshot(stats, account);
+}
+
+/**
+ * 全アカウントのスナップショットを記録する（失敗したアカウントはエラーとして返す）
+ */
+export async function takeAllPvSnapshots(): Promise<
+  { account: string; date?: string; articles?: number; error?: string }[]
+> {
+  const results: { account: string; date?: string; articles?: number; error?: string }[] = [];
+  for (const profile of listAccountProfiles()) {
+    try {
+      const result = await runWithAccount(profile.name, () => takePvSnapshot());
+      results.push({ account: profile.name, ...result });
+    } catch (error) {
+      results.push({
+        account: profile.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
+
 /**
  * ユーザーの記事を複数ページ取得する
  */
 export async function fetchUserArticles(
   username: string,
-  maxPages: number = 3
+  maxPages: number = 3,
+  options: NoteApiRequestOptions = {}
 ): Promise<any[]> {
   const articles: any[] = [];
 
   for (let page = 1; page <= maxPages; page++) {
     try {
       const data = await noteApiRequest(
-        `/v2/creators/${encodeURIComponent(username)}/contents?kind=note&page=${page}`
+        `/v2/creators/${encodeURIComponent(username)}/contents?kind=note&page=${page}`,
+        "GET",
+        null,
+        false,
+        undefined,
+        options
       );
 
       const contents = data?.data?.contents || [];
@@ -102,11 +190,13 @@ export async function fetchUserArticles(
 
 /**
  * 週間・月間・全期間のPVデータからトレンドを算出する
+ * 日次スナップショットが十分にある記事は、PVの推移からトレンドを判定する
  */
 export function computeTrends(
   weeklyStats: Map<string, number>,
   monthlyStats: Map<string, number>,
-  allStats: Map<string, { title: string; key: string; user: string; readCount: number }>
+  allStats: Map<string, { title: string; key: string; user: string; readCount: number }>,
+  history: PvHistory = readPvHistory()
 ): TrendData[] {
   const trends: TrendData[] = [];
 
@@ -115,9 +205,15 @@ export function computeTrends(
     const monthlyPV = monthlyStats.get(noteId) || 0;
     const totalPV = allInfo.readCount;
 
+    const snapshots = history.articles[noteId]?.snapshots || [];
+    const latest = snapshots[snapshots.length - 1];
+    const historyTrend = computeHistoryTrend(snapshots);
+
     // トレンド判定: weeklyPV / (monthlyPV / 4) の比率
     let trend: "rising" | "stable" | "declining" = "stable";
-    if (monthlyPV > 0) {
+    if (historyTrend) {
+      trend = historyTrend;
+    } else if (monthlyPV > 0) {
       const weeklyExpected = monthlyPV / 4;
       const ratio = weeklyPV / weeklyExpected;
       if (ratio > 1.2) {
@@ -129,7 +225,7 @@ export function computeTrends(
       trend = "rising";
     }
 
-    const username = allInfo.user || env.NOTE_USER_ID || "unknown";
+    const username = allInfo.user || getNoteUserId() || "unknown";
     trends.push({
       articleId: noteId,
       title: allInfo.title,
@@ -138,8 +234,9 @@ export function computeTrends(
       monthlyPV,
       totalPV,
       trend,
-      likesCount: 0,
-      commentsCount: 0,
+      likesCount: latest?.likeCount || 0,
+      commentsCount: latest?.commentCount || 0,
+      trendSource: historyTrend ? "history" : "buckets",
     });
   }
 
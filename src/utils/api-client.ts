@@ -1,17 +1,66 @@
-import fetch from "node-fetch";
 import { API_BASE_URL, DEFAULT_HEADERS } from "../config/api-config.js";
 import { env } from "../config/environment.js";
-import { NoteApiResponse } from "../types/api-types.js";
-import { buildAuthHeaders, loginToNote, hasAuth } from "./auth.js";
+import { NoteApiRequestOptions, NoteApiResponse } from "../types/api-types.js";
+import { buildAuthHeaders, hasAuth } from "./auth.js";
+import { getCurrentAccountProfile } from "./account-context.js";
+import {
+  getSessionGeneration,
+  refreshSession,
+  refreshSessionAfterAuthError,
+} from "./session-manager.js";
+import { fetchWithRetry } from "./request-pipeline.js";
+import {
+  getCacheTtlSeconds,
+  getCachedResponse,
+  invalidateAccountCache,
+  recordCacheBypass,
+  storeCachedResponse,
+} from "./response-cache.js";
 
 // APIリクエスト用のヘルパー関数
+// レート制限・タイムアウト・429/5xxの再試行は request-pipeline で行う
+// 認証エラー（401/403）の場合はセッションを更新して1回だけ再試行する
+// 読み取り系のGETは response-cache のTTLキャッシュを通し、更新系の成功時はアカウントのキャッシュを破棄する
 export async function noteApiRequest(
   endpoint: string,
   method: string = "GET",
   body: any = null,
   requireAuth: boolean = false,
-  customHeaders?: { [key: string]: string }
+  customHeaders?: { [key: string]: string },
+  options: NoteApiRequestOptions = {}
 ): Promise<NoteApiResponse> {
+  const ttlSeconds = method === "GET" && !customHeaders ? getCacheTtlSeconds(endpoint) : null;
+  if (ttlSeconds !== null) {
+    if (options.bypassCache) {
+      recordCacheBypass();
+    } else {
+      const cached = getCachedResponse(endpoint);
+      if (cached) {
+        if (env.DEBUG) console.error(`Cache hit: ${endpoint}`);
+        return cached;
+      }
+    }
+  }
+
+  const data = await executeRequest(endpoint, method, body, requireAuth, customHeaders, true);
+
+  if (ttlSeconds !== null) {
+    storeCachedResponse(endpoint, data, ttlSeconds);
+  } else if (method !== "GET") {
+    invalidateAccountCache();
+  }
+  return data;
+}
+
+async function executeRequest(
+  endpoint: string,
+  method: string,
+  body: any,
+  requireAuth: boolean,
+  customHeaders: { [key: string]: string } | undefined,
+  allowSessionRefresh: boolean
+): Promise<NoteApiResponse> {
+  const sessionGeneration = getSessionGeneration();
   const headers: { [key: string]: string } = {
     ...DEFAULT_HEADERS,
   };
@@ -19,21 +68,17 @@ export async function noteApiRequest(
   // 認証ヘッダーを追加
   if (requireAuth || hasAuth()) {
     const authHeaders = buildAuthHeaders();
-    if (
-      requireAuth &&
-      Object.keys(authHeaders).length === 0 &&
-      env.NOTE_EMAIL &&
-      env.NOTE_PASSWORD
-    ) {
-      // 認証情報が必要で、メールアドレスとパスワードが設定されている場合はログイン試行
-      const loggedIn = await loginToNote();
+    const profile = getCurrentAccountProfile();
+    if (requireAuth && !authHeaders["Cookie"] && profile.email && profile.password) {
+      // 認証情報が必要で、セッションCookieがなくメールアドレスとパスワードが設定されている場合はログイン試行
+      const loggedIn = await refreshSession("no-session");
       if (loggedIn) {
         const newAuthHeaders = buildAuthHeaders();
         Object.assign(headers, newAuthHeaders);
       } else {
         throw new Error("認証が必要です。ログインに失敗しました。");
       }
-    } else if (requireAuth && Object.keys(authHeaders).length === 0) {
+    } else if (requireAuth && !authHeaders["Cookie"]) {
       throw new Error("認証情報が必要です。.envファイルに認証情報を設定してください。");
     } else {
       Object.assign(headers, authHeaders);
@@ -74,7 +119,7 @@ export async function noteApiRequest(
       }
     }
 
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, options);
+    const response = await fetchWithRetry(`${API_BASE_URL}${endpoint}`, options);
 
     if (!response.ok) {
       let errorText = "";
@@ -107,6 +152,18 @@ export async function noteApiRequest(
 
       // エラー種別ごとの詳細な説明
       if (response.status === 401 || response.status === 403) {
+        // セッションCookieで送ったリクエストのみ、セッションを更新して再試行
+        const usedSession = Boolean(headers["Cookie"]) && !customHeaders?.["Cookie"];
+        if (
+          allowSessionRefresh &&
+          usedSession &&
+          (await refreshSessionAfterAuthError(sessionGeneration, String(response.status)))
+        ) {
+          if (env.DEBUG) {
+            console.error(`Retrying ${endpoint} after session refresh`);
+          }
+          return executeRequest(endpoint, method, body, requireAuth, customHeaders, false);
+        }
         throw new Error(
           "認証エラー: noteへのアクセス権限がありません。認証情報を確認してください。"
         );
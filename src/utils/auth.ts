@@ -1,45 +1,87 @@
 import { env, authStatus } from "../config/environment.js";
 import { API_BASE_URL } from "../config/api-config.js";
 import fetch from "node-fetch";
+import { getCurrentAccountName, getCurrentAccountProfile } from "./account-context.js";
 
-// 動的セッション情報を保持する変数
-let activeSessionCookie: string | null = null;
-let activeXsrfToken: string | null = null;
-let activeUserKey: string | null = null;
-let activeGqlAuthToken: string | null = null;
+// 動的セッション情報（アカウントごとに保持）
+interface AccountSession {
+  sessionCookie: string | null;
+  xsrfToken: string | null;
+  userKey: string | null;
+}
+
+const accountSessions = new Map<string, AccountSession>();
+
+/**
+ * 現在のアカウントのセッション情報を返す（未作成なら空で作る）
+ */
+function currentSession(): AccountSession {
+  const name = getCurrentAccountName();
+  let session = accountSessions.get(name);
+  if (!session) {
+    session = { sessionCookie: null, xsrfToken: null, userKey: null };
+    accountSessions.set(name, session);
+  }
+  return session;
+}
 
 export function getActiveSessionCookie(): string | null {
-  return activeSessionCookie;
+  return currentSession().sessionCookie;
 }
 
 export function getActiveXsrfToken(): string | null {
-  return activeXsrfToken;
+  return currentSession().xsrfToken;
 }
 
 export function getActiveUserKey(): string | null {
-  return activeUserKey;
+  return currentSession().userKey;
 }
 
 export function setActiveUserKey(key: string): void {
-  activeUserKey = key;
+  currentSession().userKey = key;
 }
 
 export function setActiveSessionCookie(cookie: string): void {
-  activeSessionCookie = cookie;
+  currentSession().sessionCookie = cookie;
 }
 
 export function setActiveXsrfToken(token: string): void {
-  activeXsrfToken = token;
+  currentSession().xsrfToken = token;
+}
+
+/**
+ * 現在のアカウントの動的セッション情報を破棄する（再ログイン前に使用）
+ */
+export function clearActiveSession(): void {
+  const session = currentSession();
+  session.sessionCookie = null;
+  session.xsrfToken = null;
+}
+
+/**
+ * 指定アカウントが動的に取得したセッションCookieを保持しているか
+ */
+export function hasActiveSession(account: string): boolean {
+  return (accountSessions.get(account)?.sessionCookie ?? null) !== null;
 }
 
 export function hasAuth(): boolean {
   // GQLトークンはもう追跡しないので、セッションCookieの有無を主とする
-  return activeSessionCookie !== null || authStatus.anyAuth;
+  if (currentSession().sessionCookie !== null) {
+    return true;
+  }
+  const profile = getCurrentAccountProfile();
+  if (profile.isPrimary) {
+    return authStatus.anyAuth;
+  }
+  return profile.sessionV5 !== "" || (profile.email !== "" && profile.password !== "");
 }
 
-// noteへのログイン処理を行う関数
+// noteへのログイン処理を行う関数（現在のアカウントの認証情報を使用）
 export async function loginToNote(): Promise<boolean> {
-  if (!env.NOTE_EMAIL || !env.NOTE_PASSWORD) {
+  const profile = getCurrentAccountProfile();
+  const session = currentSession();
+  if (!profile.email || !profile.password) {
     console.error("メールアドレスまたはパスワードが設定されていません。");
     return false;
   }
@@ -61,7 +103,7 @@ export async function loginToNote(): Promise<boolean> {
           "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/96.0.4664.110 Safari/537.36",
         Accept: "application/json",
       },
-      body: JSON.stringify({ login: env.NOTE_EMAIL, password: env.NOTE_PASSWORD }),
+      body: JSON.stringify({ login: profile.email, password: profile.password }),
     });
 
     const responseText = await response.text();
@@ -82,11 +124,11 @@ export async function loginToNote(): Promise<boolean> {
     try {
       responseData = JSON.parse(responseText); // 関数スコープのresponseDataに代入
       if (responseData?.data?.key) {
-        setActiveUserKey(responseData.data.key);
+        session.userKey = responseData.data.key;
         if (env.DEBUG) console.error("User key set:", responseData.data.key);
       }
       if (responseData && responseData.data && responseData.data.token) {
-        activeSessionCookie = `_note_session_v5=${responseData.data.token}`;
+        session.sessionCookie = `_note_session_v5=${responseData.data.token}`;
         if (env.DEBUG)
           console.error("Session token found in response body:", responseData.data.token);
         console.error("Login successful. Session token obtained from response body.");
@@ -98,42 +140,42 @@ export async function loginToNote(): Promise<boolean> {
     // Set-Cookieヘッダーからの取得方法も残す
     const setCookieHeader = response.headers.get("set-cookie");
     if (setCookieHeader) {
-      // console.error(`>>> Before final log: activeXsrfToken = ${activeXsrfToken}`);
+      // console.error(`>>> Before final log: session.xsrfToken = ${session.xsrfToken}`);
       console.error("Set-Cookie header:", setCookieHeader);
       const cookies = Array.isArray(setCookieHeader) ? setCookieHeader : [setCookieHeader];
       cookies.forEach((cookieStr) => {
         if (cookieStr.includes("_note_session_v5=")) {
           // セッションCookieを保存
-          activeSessionCookie = cookieStr.split(";")[0];
-          console.error("Session cookie set:", activeSessionCookie);
+          session.sessionCookie = cookieStr.split(";")[0];
+          console.error("Session cookie set:", session.sessionCookie);
         } else if (cookieStr.includes("XSRF-TOKEN=")) {
           // XSRFトークンを保存（Cookieから）
           const tokenValue = cookieStr.split(";")[0].split("=")[1];
-          activeXsrfToken = decodeURIComponent(tokenValue);
-          console.error("XSRF token set from cookie:", activeXsrfToken);
+          session.xsrfToken = decodeURIComponent(tokenValue);
+          console.error("XSRF token set from cookie:", session.xsrfToken);
         }
       });
     }
 
     const responseXsrfToken = response.headers.get("x-xsrf-token");
     if (responseXsrfToken) {
-      activeXsrfToken = decodeURIComponent(responseXsrfToken);
-      if (env.DEBUG) console.error("XSRF Token from header:", activeXsrfToken);
-    } else if (env.DEBUG && !activeXsrfToken) {
+      session.xsrfToken = decodeURIComponent(responseXsrfToken);
+      if (env.DEBUG) console.error("XSRF Token from header:", session.xsrfToken);
+    } else if (env.DEBUG && !session.xsrfToken) {
       console.error("XSRF Token not found in initial login headers.");
     }
 
-    if (!activeSessionCookie) {
+    if (!session.sessionCookie) {
       console.error("Login succeeded but session cookie was not found.");
       return false;
     }
 
-    // console.error(`>>> Before 'Login successful' log: activeSessionCookie = ${activeSessionCookie}`);
+    // console.error(`>>> Before 'Login successful' log: session.sessionCookie = ${session.sessionCookie}`);
     console.error("Login successful. Session cookie obtained.");
 
     // セッションクッキーが取得できたら、current_userリクエストでXSRFトークンを取得する
-    // console.error(`>>> Checking condition for current_user API call: activeSessionCookie=${!!activeSessionCookie}, activeXsrfToken=${!!activeXsrfToken}`);
-    if (activeSessionCookie && !activeXsrfToken) {
+    // console.error(`>>> Checking condition for current_user API call: session.sessionCookie=${!!session.sessionCookie}, session.xsrfToken=${!!session.xsrfToken}`);
+    if (session.sessionCookie && !session.xsrfToken) {
       console.error("Trying to obtain XSRF token from current_user API...");
       try {
         const currentUserResponse = await fetch(`${API_BASE_URL}/v2/current_user`, {
@@ -142,16 +184,16 @@ export async function loginToNote(): Promise<boolean> {
             Accept: "application/json",
             "User-Agent":
               "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/96.0.4664.110 Safari/537.36",
-            Cookie: activeSessionCookie,
+            Cookie: session.sessionCookie,
           },
         });
 
         // XSRFトークンをヘッダーから取得
         const xsrfToken = currentUserResponse.headers.get("x-xsrf-token");
         if (xsrfToken) {
-          activeXsrfToken = decodeURIComponent(xsrfToken);
+          session.xsrfToken = decodeURIComponent(xsrfToken);
           console.error("XSRF token successfully obtained from current_user API.");
-          if (env.DEBUG) console.error("XSRF Token:", activeXsrfToken);
+          if (env.DEBUG) console.error("XSRF Token:", session.xsrfToken);
         } else {
           // Set-Cookieヘッダーからも確認
           const currentUserSetCookieHeader = currentUserResponse.headers.get("set-cookie");
@@ -162,30 +204,30 @@ export async function loginToNote(): Promise<boolean> {
               : [currentUserSetCookieHeader];
             cookies.forEach((cookieStr) => {
               if (cookieStr.includes("XSRF-TOKEN=")) {
-                activeXsrfToken = decodeURIComponent(cookieStr.split(";")[0].split("=")[1]);
+                session.xsrfToken = decodeURIComponent(cookieStr.split(";")[0].split("=")[1]);
                 console.error("XSRF token found in current_user response cookies.");
-                if (env.DEBUG) console.error("XSRF Token from cookie:", activeXsrfToken);
+                if (env.DEBUG) console.error("XSRF Token from cookie:", session.xsrfToken);
               }
             });
           }
 
-          // activeXsrfToken がここでセットされていれば、後続の処理に進む
+          // session.xsrfToken がここでセットされていれば、後続の処理に進む
         }
       } catch (error) {
         console.error("Error fetching current_user for XSRF token:", error);
       }
     }
-    // console.log(`>>> After current_user API call: activeXsrfToken = ${activeXsrfToken}`);
+    // console.log(`>>> After current_user API call: session.xsrfToken = ${session.xsrfToken}`);
 
     if (env.DEBUG) {
-      // console.error(`>>> Login state check: session=${!!activeSessionCookie}, xsrf=${!!activeXsrfToken} (value: ${activeXsrfToken})`);
+      // console.error(`>>> Login state check: session=${!!session.sessionCookie}, xsrf=${!!session.xsrfToken} (value: ${session.xsrfToken})`);
     }
 
     // Login success is primarily based on session cookie and XSRF token.
     // preview_access_token will be fetched by a dedicated function when needed.
-    if (activeSessionCookie && activeXsrfToken) {
+    if (session.sessionCookie && session.xsrfToken) {
       console.error("Session cookie and XSRF token successfully obtained/confirmed.");
-    } else if (activeSessionCookie) {
+    } else if (session.sessionCookie) {
       console.warn(
         "Session cookie obtained, but XSRF token is missing. Further operations might fail."
       );
@@ -194,7 +236,7 @@ export async function loginToNote(): Promise<boolean> {
       return false; // Explicitly return false if session cookie is not obtained
     }
 
-    return activeSessionCookie !== null;
+    return session.sessionCookie !== null;
   } catch (error) {
     console.error("Error during login:", error);
     return false;
@@ -205,15 +247,17 @@ export async function loginToNote(): Promise<boolean> {
 export function buildAuthHeaders(): { [key: string]: string } {
   const headers: { [key: string]: string } = {};
   const cookies = [];
+  const profile = getCurrentAccountProfile();
+  const session = currentSession();
 
   // 動的に取得したCookieがある場合は優先
-  if (activeSessionCookie) {
-    cookies.push(activeSessionCookie);
+  if (session.sessionCookie) {
+    cookies.push(session.sessionCookie);
     if (env.DEBUG) console.error("Using dynamically obtained session cookie for Cookie header");
     if (cookies.length > 0) {
       headers["Cookie"] = cookies.join("; ");
     }
-  } else if (process.env.NOTE_ALL_COOKIES) {
+  } else if (profile.isPrimary && process.env.NOTE_ALL_COOKIES) {
     // すべてのCookieを使用（参照記事の方式）
     // XSRF-TOKENはヘッダーで送るのでCookieからは除外
     const cookiesWithoutXsrf = process.env.NOTE_ALL_COOKIES.split("; ")
@@ -222,9 +266,9 @@ export function buildAuthHeaders(): { [key: string]: string } {
     headers["Cookie"] = cookiesWithoutXsrf;
     if (env.DEBUG)
       console.error("Using all cookies from .env file for Cookie header (XSRF-TOKEN excluded)");
-  } else if (env.NOTE_SESSION_V5) {
+  } else if (profile.sessionV5) {
     // .envファイルのセッションCookieを使用
-    cookies.push(`_note_session_v5=${env.NOTE_SESSION_V5}`);
+    cookies.push(`_note_session_v5=${profile.sessionV5}`);
     if (env.DEBUG) console.error("Using session cookie from .env file for Cookie header");
     if (cookies.length > 0) {
       headers["Cookie"] = cookies.join("; ");
@@ -233,11 +277,11 @@ export function buildAuthHeaders(): { [key: string]: string } {
 
   // XSRFトークンの設定 (ヘッダー用)
   // 動的に取得したトークンを優先（ログインで取得した新しいトークンを使用）
-  if (activeXsrfToken) {
-    headers["X-XSRF-TOKEN"] = activeXsrfToken;
+  if (session.xsrfToken) {
+    headers["X-XSRF-TOKEN"] = session.xsrfToken;
     if (env.DEBUG) console.error("Using dynamically obtained XSRF token for X-XSRF-TOKEN header");
-  } else if (env.NOTE_XSRF_TOKEN) {
-    headers["X-XSRF-TOKEN"] = env.NOTE_XSRF_TOKEN;
+  } else if (profile.xsrfToken) {
+    headers["X-XSRF-TOKEN"] = profile.xsrfToken;
     if (env.DEBUG) console.error("Using XSRF token from .env file for X-XSRF-TOKEN header");
   }
 
@@ -250,7 +294,8 @@ export function buildAuthHeaders(): { [key: string]: string } {
 
 // preview_access_tokenを取得する関数
 export async function getPreviewAccessToken(noteId: string): Promise<string | null> {
-  if (!activeSessionCookie || !activeXsrfToken) {
+  const session = currentSession();
+  if (!session.sessionCookie || !session.xsrfToken) {
     console.error("Cannot get preview_access_token: Session cookie or XSRF token is missing.");
     return null;
   }
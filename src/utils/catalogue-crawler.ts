@@ -0,0 +1,322 @@
+import { createHash } from "crypto";
+import { noteApiRequest } from "./api-client.js";
+import { readJsonStore, updateJsonStore } from "./memory-store.js";
+import { getCurrentAccountName } from "./account-context.js";
+import { env } from "../config/environment.js";
+import {
+  CatalogueCrawlMode,
+  CatalogueCrawlResult,
+  CreatorCatalogue,
+} from "../types/analytics-types.js";
+
+/**
+ * クリエイターの全記事カタログ（記事一覧APIの全ページ）
+ *
+ * 全件取得はページごとに進捗を保存し、途中で失敗しても次回は続きのページから再開する。
+ * 全件取得後の更新は新しい順に取得し、新着・変更のある記事がなく、公開から refreshDays を
+ * 過ぎた記事だけのページに達した時点で打ち切る。それより古い記事のスキ数などは、
+ * fullIntervalDays ごとの全件取得で取り直し、一覧から消えた記事もその際に削除する。
+ */
+
+const CATALOGUE_FILE = "creator-catalogues.json";
+
+// 1ページあたりの記事数（これより少なければ最終ページ）
+const PAGE_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// カタログに保存しない項目（本文・ユーザー情報は記事数に比例して大きくなるため）
+const OMITTED_FIELDS = ["body", "user", "noteDraft"];
+
+export interface CrawlOptions {
+  // auto: 全件取得が未完了なら全件取得（続きから再開）、完了済みなら新着の更新
+  mode?: CatalogueCrawlMode | "auto";
+  // 1回の実行で取得するページ数の上限（超えた分は次回に再開）
+  maxPages?: number;
+  // 更新時、公開からこの日数以内の記事があるページは変更がなくても取得を続ける
+  refreshDays?: number;
+  // auto で前回の全件取得の完了からこの日数を過ぎていれば全件取得する
+  fullIntervalDays?: number;
+}
+
+export interface LoadCatalogueOptions {
+  // 最終更新からこの分数を過ぎていれば新着を更新する
+  maxAgeMinutes?: number;
+  // true の場合は経過時間に関わらず更新する
+  bypassCache?: boolean;
+}
+
+// 同じクリエイターの取得の重複実行を防ぐ（アカウント名:ユーザー名 → 実行中の取得）
+const inFlight = new Map<string, Promise<CatalogueCrawlResult>>();
+
+type CatalogueMap = Record<string, CreatorCatalogue>;
+
+/**
+ * 保存済みのカタログを返す（未取得の場合は null）
+ */
+export function getCreatorCatalogue(username: string): CreatorCatalogue | null {
+  return readJsonStore<CatalogueMap>(CATALOGUE_FILE, {})[username] || null;
+}
+
+/**
+ * 保存済みのカタログの一覧
+ */
+export function listCreatorCatalogues(): CreatorCatalogue[] {
+  return Object.values(readJsonStore<CatalogueMap>(CATALOGUE_FILE, {}));
+}
+
+function stripContent(content: any): any {
+  const stored = { ...content };
+  for (const field of OMITTED_FIELDS) {
+    delete stored[field];
+  }
+  return stored;
+}
+
+/**
+ * 記事一覧に表示される内容のハッシュ（タイトル・価格・スキ数などが変わると変わる）
+ */
+function fingerprintOf(content: any): string {
+  const fields = [
+    content.name,
+    content.price,
+    content.likeCount,
+    content.commentsCount,
+    content.publishAt,
+    JSON.stringify(content.hashtags || []),
+    content.eyecatch,
+  ];
+  return createHash("sha1").update(JSON.stringify(fields)).digest("hex");
+}
+
+async function fetchPage(
+  username: string,
+  page: number
+): Promise<{ contents: any[]; isLastPage: boolean; totalCount?: number }> {
+  const data = await noteApiRequest(
+    `/v2/creators/${encodeURIComponent(username)}/contents?kind=note&page=${page}`,
+    "GET",
+    null,
+    false,
+    undefined,
+    { bypassCache: true }
+  );
+  const contents = Array.isArray(data?.data?.contents) ? data.data.contents : [];
+  return {
+    contents,
+    isLastPage: data?.data?.isLastPage ?? contents.length < PAGE_SIZE,
+    totalCount: typeof data?.data?.totalCount === "number" ? data.data.totalCount : undefined,
+  };
+}
+
+function updateCatalogue(
+  username: string,
+  fn: (catalogue: CreatorCatalogue) => CreatorCatalogue
+): CreatorCatalogue {
+  let updated: CreatorCatalogue | undefined;
+  updateJsonStore<CatalogueMap>(CATALOGUE_FILE, {}, (catalogues) => {
+    const current: CreatorCatalogue = catalogues[username] || {
+      username,
+      articles: {},
+      fingerprints: {},
+      crawl: { status: "partial", nextPage: 1, startedAt: new Date().toISOString() },
+    };
+    updated = fn(current);
+    catalogues[username] = updated;
+    return catalogues;
+  });
+  return updated!;
+}
+
+/**
+ * auto の場合の取得方法（全件取得が未完了、または前回の完了から fullIntervalDays を過ぎていれば全件取得）
+ */
+function resolveMode(
+  existing: CreatorCatalogue | null,
+  fullIntervalDays: number
+): CatalogueCrawlMode {
+  if (existing?.crawl.status !== "complete") return "full";
+  const completedAt = Date.parse(existing.crawl.completedAt || "");
+  if (Number.isNaN(completedAt)) return "full";
+  return Date.now() - completedAt > fullIntervalDays * DAY_MS ? "full" : "refresh";
+}
+
+/**
+ * ページ内の記事に公開から days 日以内のものがあるか
+ */
+function hasRecentArticle(contents: any[], days: number): boolean {
+  const cutoff = Date.now() - days * DAY_MS;
+  return contents.some((content) => Date.parse(content.publishAt || "") >= cutoff);
+}
+
+async function runCrawl(username: string, options: CrawlOptions): Promise<CatalogueCrawlResult> {
+  const maxPages = options.maxPages ?? 50;
+  const refreshDays = options.refreshDays ?? 30;
+  const existing = getCreatorCatalogue(username);
+  const requested = options.mode ?? "auto";
+  const mode: CatalogueCrawlMode =
+    requested === "auto" ? resolveMode(existing, options.fullIntervalDays ?? 7) : requested;
+
+  // 全件取得は中断したページから再開する（完了済みのカタログを明示的に取り直す場合は1ページ目から）
+  let page = 1;
+  // 1回の実行で1ページ目から最後まで取得した場合だけ、見つからなかった記事を削除できる
+  let fromFirstPage = false;
+  if (mode === "full") {
+    const resuming = existing?.crawl.status === "partial" && existing.crawl.nextPage;
+    page = resuming ? existing!.crawl.nextPage! : 1;
+    fromFirstPage = !resuming;
+    updateCatalogue(username, (catalogue) => ({
+      ...catalogue,
+      crawl: {
+        status: "partial",
+        nextPage: page,
+        seenIds: resuming ? catalogue.crawl.seenIds : [],
+        startedAt: resuming ? catalogue.crawl.startedAt : new Date().toISOString(),
+      },
+    }));
+  }
+
+  let pagesFetched = 0;
+  let added = 0;
+  let updated = 0;
+  let removed = 0;
+  let error: string | undefined;
+  let catalogue = existing;
+
+  while (pagesFetched < maxPages) {
+    if (pagesFetched > 0) {
+      // レート制限対策
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    let result: Awaited<ReturnType<typeof fetchPage>>;
+    try {
+      result = await fetchPage(username, page);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      if (env.DEBUG) {
+        console.error(`crawlCreatorCatalogue ${username} page=${page} error:`, err);
+      }
+      break;
+    }
+    pagesFetched++;
+
+    let pageAdded = 0;
+    let pageUpdated = 0;
+    const isLast = result.isLastPage || result.contents.length === 0;
+    catalogue = updateCatalogue(username, (current) => {
+      const ids: string[] = [];
+      for (const content of result.contents) {
+        const id = String(content.id || "");
+        if (!id) continue;
+        ids.push(id);
+        const fingerprint = fingerprintOf(content);
+        if (!current.articles[id]) {
+          pageAdded++;
+        } else if (current.fingerprints[id] !== fingerprint) {
+          pageUpdated++;
+        }
+        current.articles[id] = stripContent(content);
+        current.fingerprints[id] = fingerprint;
+      }
+      if (result.totalCount !== undefined) {
+        current.totalCount = result.totalCount;
+      }
+      if (mode === "full") {
+        const seenIds = current.crawl.seenIds ? [...current.crawl.seenIds, ...ids] : undefined;
+        // 削除するのは、取得した記事数が総数と一致した場合だけ（再開した取得や、取得中に
+        // 記事が増減してページがずれた取得では、取得できなかった記事を削除済みとみなさない）
+        const seen = new Set(seenIds);
+        if (isLast && fromFirstPage && seenIds && seen.size === result.totalCount) {
+          for (const id of Object.keys(current.articles)) {
+            if (seen.has(id)) continue;
+            delete current.articles[id];
+            delete current.fingerprints[id];
+            removed++;
+          }
+        }
+        current.crawl = isLast
+          ? {
+              status: "complete",
+              startedAt: current.crawl.startedAt,
+              completedAt: new Date().toISOString(),
+            }
+          : { ...current.crawl, nextPage: page + 1, seenIds };
+      }
+      current.lastRefreshAt = new Date().toISOString();
+      return current;
+    });
+    added += pageAdded;
+    updated += pageUpdated;
+
+    // 更新は新着・変更のある記事か、公開から refreshDays 以内の記事があるページまで
+    const refreshDone =
+      pageAdded === 0 && pageUpdated === 0 && !hasRecentArticle(result.contents, refreshDays);
+    if (isLast || (mode === "refresh" && refreshDone)) break;
+    page++;
+  }
+
+  if (error) {
+    catalogue = updateCatalogue(username, (current) => ({
+      ...current,
+      crawl: { ...current.crawl, lastError: error },
+    }));
+  }
+
+  const crawl = catalogue?.crawl;
+  return {
+    username,
+    mode,
+    status: crawl?.status ?? "partial",
+    pagesFetched,
+    added,
+    updated,
+    removed,
+    totalArticles: Object.keys(catalogue?.articles || {}).length,
+    nextPage: crawl?.status === "partial" ? crawl.nextPage : undefined,
+    error,
+  };
+}
+
+/**
+ * クリエイターの記事カタログを取得・更新する（同じクリエイターの実行中の取得があればその結果を待つ）
+ */
+export function crawlCreatorCatalogue(
+  username: string,
+  options: CrawlOptions = {}
+): Promise<CatalogueCrawlResult> {
+  const key = `${getCurrentAccountName()}:${username}`;
+  const running = inFlight.get(key);
+  if (running) return running;
+
+  const crawl = runCrawl(username, options).finally(() => inFlight.delete(key));
+  inFlight.set(key, crawl);
+  return crawl;
+}
+
+/**
+ * カタログの記事を新しい順に返す
+ * 未取得・全件取得が未完了の場合は全件取得し、最終更新から maxAgeMinutes を過ぎていれば新着を更新する。
+ * 取得に失敗した場合も保存済みの記事を返す
+ */
+export async function loadCreatorArticles(
+  username: string,
+  options: LoadCatalogueOptions = {}
+): Promise<any[]> {
+  const maxAgeMinutes = options.maxAgeMinutes ?? 60;
+  const existing = getCreatorCatalogue(username);
+  const lastRefresh = existing?.lastRefreshAt ? Date.parse(existing.lastRefreshAt) : 0;
+  const stale = Date.now() - lastRefresh > maxAgeMinutes * 60 * 1000;
+
+  if (!existing || existing.crawl.status === "partial" || stale || options.bypassCache) {
+    const result = await crawlCreatorCatalogue(username);
+    if (result.error && env.DEBUG) {
+      console.error(`loadCreatorArticles ${username}: ${result.error}`);
+    }
+  }
+
+  const catalogue = getCreatorCatalogue(username);
+  return Object.values(catalogue?.articles || {}).sort((a, b) =>
+    String(b.publishAt || "").localeCompare(String(a.publishAt || ""))
+  );
+}
@@ -0,0 +1,337 @@
+import { readJsonStore, updateJsonStore } from "./memory-store.js";
+import { isReportConfigured, sendReport } from "./notifier.js";
+import { daysBetween, median, shiftDateKey, toDateKey } from "./pv-history.js";
+import {
+  CompetitorHistory,
+  CompetitorSnapshot,
+  CompetitorTracking,
+  CompetitorViralArticle,
+  CompetitorWeekOverWeek,
+  ReportFormat,
+} from "../types/analytics-types.js";
+
+/**
+ * 競合クリエイターの日次スナップショット（monitor-competitors の実行ごとに記録）
+ *
+ * エンゲージメントの比較には、公開から7日以内の記事の平均スキ数を使う。
+ * 公開からの経過日数が揃うため、1週間前のスナップショットの同じ値と比較できる。
+ */
+
+const COMPETITOR_HISTORY_FILE = "competitor-history.json";
+
+// 保持するスナップショットの日数
+const MAX_HISTORY_DAYS = 400;
+
+// バズ記事の判定に必要な比較対象の記事数
+const MIN_BASELINE_ARTICLES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrackingOptions {
+  // 直近7日間の記事の平均スキ数が1週間前の何倍でエンゲージメント急増とみなすか
+  engagementThreshold?: number;
+  // スキ数の中央値の何倍でバズ記事とみなすか
+  viralMultiplier?: number;
+  // バズ記事とみなすスキ数の下限
+  minViralLikes?: number;
+  // 直近何日間に公開した記事をバズ記事の判定対象にするか
+  viralDays?: number;
+}
+
+type HistoryMap = Record<string, CompetitorHistory>;
+
+function likesOf(article: any): number {
+  return article.likeCount ?? article.like_count ?? 0;
+}
+
+function publishedAtOf(article: any): number {
+  return Date.parse(article.publishAt || article.publish_at || "");
+}
+
+/**
+ * 記事のハッシュタグ名（先頭の # は除く）
+ */
+function hashtagsOf(article: any): string[] {
+  const hashtags = article.hashtags || article.hashtag_notes || [];
+  return hashtags
+    .map((tag: any) => (typeof tag === "string" ? tag : tag?.hashtag?.name || tag?.name || ""))
+    .map((name: string) => name.replace(/^#/, ""))
+    .filter((name: string) => name);
+}
+
+function topHashtagsOf(articles: any[]): string[] {
+  const counts = new Map<string, number>();
+  for (const article of articles) {
+    for (const tag of hashtagsOf(article)) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([name]) => name);
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * 競合の記事の履歴を返す（未記録の場合は null）
+ */
+export function getCompetitorHistory(username: string): CompetitorHistory | null {
+  return readJsonStore<HistoryMap>(COMPETITOR_HISTORY_FILE, {})[username] || null;
+}
+
+/**
+ * 記録済みの競合の一覧
+ */
+export function listCompetitorHistories(): CompetitorHistory[] {
+  return Object.values(readJsonStore<HistoryMap>(COMPETITOR_HISTORY_FILE, {}));
+}
+
+/**
+ * 記事カタログからスナップショットを作成する
+ */
+export function buildCompetitorSnapshot(
+  articles: any[],
+  now: Date = new Date()
+): CompetitorSnapshot {
+  const recent = articles.filter((article) => {
+    const publishedAt = publishedAtOf(article);
+    return !Number.isNaN(publishedAt) && now.getTime() - publishedAt < 7 * DAY_MS;
+  });
+
+  return {
+    date: toDateKey(now),
+    takenAt: now.toISOString(),
+    totalArticles: articles.length,
+    averageLikes: Math.round(average(articles.map(likesOf)) * 10) / 10,
+    postsLast7Days: recent.length,
+    recentAverageLikes:
+      recent.length > 0 ? Math.round(average(recent.map(likesOf)) * 10) / 10 : null,
+    topHashtags: topHashtagsOf(articles),
+  };
+}
+
+/**
+ * 最新のスナップショットを1週間以上前のスナップショットと比較する（比較対象がない場合は null）
+ */
+export function compareWeekOverWeek(
+  snapshots: CompetitorSnapshot[]
+): CompetitorWeekOverWeek | null {
+  if (snapshots.length < 2) return null;
+
+  const current = snapshots[snapshots.length - 1];
+  const previous = [...snapshots].reverse().find((s) => daysBetween(s.date, current.date) >= 7);
+  if (!previous) return null;
+
+  const ratio =
+    current.recentAverageLikes !== null && previous.recentAverageLikes
+      ? Math.round((current.recentAverageLikes / previous.recentAverageLikes) * 100) / 100
+      : null;
+
+  return {
+    from: previous.date,
+    to: current.date,
+    posts: {
+      current: current.postsLast7Days,
+      previous: previous.postsLast7Days,
+      change: current.postsLast7Days - previous.postsLast7Days,
+    },
+    averageLikes: {
+      current: current.averageLikes,
+      previous: previous.averageLikes,
+      change: Math.round((current.averageLikes - previous.averageLikes) * 10) / 10,
+    },
+    recentAverageLikes: {
+      current: current.recentAverageLikes,
+      previous: previous.recentAverageLikes,
+      ratio,
+    },
+    newTopHashtags: current.topHashtags.filter((tag) => !previous.topHashtags.includes(tag)),
+    droppedTopHashtags: previous.topHashtags.filter((tag) => !current.topHashtags.includes(tag)),
+  };
+}
+
+/**
+ * since 以降に公開した記事で初めて使われたハッシュタグ
+ */
+export function detectNewHashtags(articles: any[], since: Date): string[] {
+  const before = new Set<string>();
+  const after = new Set<string>();
+  for (const article of articles) {
+    const publishedAt = publishedAtOf(article);
+    if (Number.isNaN(publishedAt)) continue;
+    for (const tag of hashtagsOf(article)) {
+      (publishedAt >= since.getTime() ? after : before).add(tag);
+    }
+  }
+  return [...after].filter((tag) => !before.has(tag));
+}
+
+/**
+ * 直近に公開した記事のうち、スキ数が他の記事の中央値を大きく上回る記事
+ */
+export function detectViralArticles(
+  username: string,
+  articles: any[],
+  options: TrackingOptions = {},
+  knownIds: string[] = []
+): CompetitorViralArticle[] {
+  const multiplier = options.viralMultiplier ?? 3;
+  const minLikes = options.minViralLikes ?? 10;
+  const viralDays = options.viralDays ?? 30;
+  const cutoff = Date.now() - viralDays * DAY_MS;
+  const viral: CompetitorViralArticle[] = [];
+
+  for (const article of articles) {
+    const publishedAt = publishedAtOf(article);
+    if (Number.isNaN(publishedAt) || publishedAt < cutoff) continue;
+
+    const likes = likesOf(article);
+    if (likes < minLikes) continue;
+
+    const others = articles.filter((other) => other !== article).map(likesOf);
+    if (others.length < MIN_BASELINE_ARTICLES) continue;
+    const baseline = median(others);
+    if (baseline > 0 && likes < baseline * multiplier) continue;
+
+    const noteId = String(article.id || "");
+    viral.push({
+      noteId,
+      title: article.name || article.title || "",
+      url: `https://note.com/${username}/n/${article.key || ""}`,
+      publishedAt: new Date(publishedAt).toISOString(),
+      likes,
+      baseline,
+      ratio: baseline > 0 ? Math.round((likes / baseline) * 10) / 10 : likes,
+      isNew: !knownIds.includes(noteId),
+    });
+  }
+
+  return viral.sort((a, b) => b.ratio - a.ratio);
+}
+
+/**
+ * 競合のスナップショットを記録し、前週との比較・新しいハッシュタグ・バズ記事を返す
+ * （同じ日に再実行した場合はその日のスナップショットを上書きする）
+ * 検出したバズ記事・エンゲージメントの急増は、markCompetitorAlerts で記録するまで新規として扱う
+ */
+export function trackCompetitor(
+  username: string,
+  articles: any[],
+  options: TrackingOptions = {}
+): CompetitorTracking {
+  const engagementThreshold = options.engagementThreshold ?? 1.5;
+  const snapshot = buildCompetitorSnapshot(articles);
+  const cutoff = shiftDateKey(snapshot.date, -MAX_HISTORY_DAYS);
+  let tracking: CompetitorTracking | undefined;
+
+  updateJsonStore<HistoryMap>(COMPETITOR_HISTORY_FILE, {}, (histories) => {
+    const history: CompetitorHistory = histories[username] || {
+      username,
+      snapshots: [],
+      viralArticleIds: [],
+    };
+    const earlier = history.snapshots.filter((s) => s.date !== snapshot.date && s.date >= cutoff);
+    history.snapshots = [...earlier, snapshot].sort((a, b) => a.date.localeCompare(b.date));
+
+    // 新しいハッシュタグは前回のスナップショット以降（初回は直近7日間）に公開した記事から探す
+    const previous = earlier[earlier.length - 1];
+    const since = previous ? new Date(previous.takenAt) : new Date(Date.now() - 7 * DAY_MS);
+
+    const viralArticles = detectViralArticles(username, articles, options, history.viralArticleIds);
+
+    const weekOverWeek = compareWeekOverWeek(history.snapshots);
+    const engagementJump =
+      weekOverWeek?.recentAverageLikes.ratio != null &&
+      weekOverWeek.recentAverageLikes.ratio >= engagementThreshold;
+    // 急増が続いている間は、最初に検出した日から7日間は再通知しない
+    const isNewEngagementJump =
+      engagementJump &&
+      (!history.lastEngagementJumpDate ||
+        daysBetween(history.lastEngagementJumpDate, snapshot.date) >= 7);
+
+    tracking = {
+      snapshot,
+      weekOverWeek,
+      newHashtags: detectNewHashtags(articles, since),
+      viralArticles,
+      engagementJump,
+      isNewEngagementJump,
+    };
+
+    histories[username] = history;
+    return histories;
+  });
+
+  return tracking!;
+}
+
+/**
+ * 新規のバズ記事・エンゲージメントの急増を通知済みとして記録し、次回以降は新規として扱わない
+ * 通知の送信に失敗した場合は記録せず、次回の実行で再び通知する
+ */
+export function markCompetitorAlerts(
+  trackings: { username: string; tracking: CompetitorTracking }[]
+): void {
+  updateJsonStore<HistoryMap>(COMPETITOR_HISTORY_FILE, {}, (histories) => {
+    for (const { username, tracking } of trackings) {
+      const history = histories[username];
+      if (!history) continue;
+      const newIds = tracking.viralArticles
+        .filter((a) => a.isNew && !history.viralArticleIds.includes(a.noteId))
+        .map((a) => a.noteId);
+      history.viralArticleIds = [...history.viralArticleIds, ...newIds];
+      if (tracking.isNewEngagementJump) {
+        history.lastEngagementJumpDate = tracking.snapshot.date;
+      }
+    }
+    return histories;
+  });
+}
+
+/**
+ * 新たにエンゲージメントの急増・バズ記事を検出した競合をWebhookで通知する
+ * 通知対象がない・送信先が未設定の場合は何もせず false を返す。送信失敗はエラー
+ */
+export async function notifyCompetitorAlerts(
+  trackings: { username: string; tracking: CompetitorTracking }[],
+  notify: { format: ReportFormat; webhookUrl?: string }
+): Promise<boolean> {
+  const sections: string[] = [];
+  for (const { username, tracking } of trackings) {
+    const newViral = tracking.viralArticles.filter((a) => a.isNew);
+    if (!tracking.isNewEngagementJump && newViral.length === 0) continue;
+
+    const lines = [`■ ${username}`];
+    const recent = tracking.weekOverWeek?.recentAverageLikes;
+    if (tracking.isNewEngagementJump && recent) {
+      lines.push(
+        `直近7日間の記事の平均スキ数: ${recent.previous} → ${recent.current}（${recent.ratio}倍）`
+      );
+    }
+    for (const article of newViral) {
+      lines.push(
+        `バズ記事: ${article.title}（スキ${article.likes}、通常の${article.ratio}倍）${article.url}`
+      );
+    }
+    if (tracking.newHashtags.length > 0) {
+      lines.push(`新しいハッシュタグ: ${tracking.newHashtags.join(", ")}`);
+    }
+    sections.push(lines.join("\n"));
+  }
+
+  if (sections.length === 0 || !isReportConfigured(notify.format, notify.webhookUrl)) {
+    return false;
+  }
+
+  await sendReport({
+    title: "競合アラート",
+    body: sections.join("\n\n"),
+    webhookUrl: notify.webhookUrl,
+    format: notify.format,
+  });
+  return true;
+}
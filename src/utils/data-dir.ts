@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { env } from "../config/environment.js";
+import { ACCOUNT_NAME_PATTERN } from "../config/account-config.js";
+import { getCurrentAccountProfile } from "./account-context.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// src/utils/ → src/ → project root
+const PROJECT_ROOT = path.resolve(__dirname, "../../");
+
+/**
+ * プロジェクトルートのパスを返す
+ */
+export function getProjectRoot(): string {
+  return PROJECT_ROOT;
+}
+
+/**
+ * アカウント名前空間として使える文字列か検証する（パス区切り等を含む名前を拒否）
+ */
+export function assertValidNamespace(namespace: string): void {
+  if (!ACCOUNT_NAME_PATTERN.test(namespace)) {
+    throw new Error(
+      `アカウント名「${namespace}」は使用できません。英数字・ハイフン・アンダースコアのみ指定できます。`
+    );
+  }
+}
+
+/**
+ * 現在のアカウントの名前空間を返す（未設定時は空文字）
+ */
+export function getAccountNamespace(): string {
+  return getCurrentAccountProfile().namespace;
+}
+
+/**
+ * データディレクトリのルートを返す
+ * NOTE_DATA_DIR 未設定時はプロジェクトルート（相対パスはプロジェクトルート基準）
+ */
+export function getDataRoot(): string {
+  if (!env.NOTE_DATA_DIR) {
+    return PROJECT_ROOT;
+  }
+  return path.resolve(PROJECT_ROOT, env.NOTE_DATA_DIR);
+}
+
+/**
+ * アカウント別のデータディレクトリを返す
+ * 名前空間が指定されている場合は `<データルート>/accounts/<名前空間>` を使う
+ */
+export function getDataDir(namespace: string = getAccountNamespace()): string {
+  if (!namespace) {
+    return getDataRoot();
+  }
+  assertValidNamespace(namespace);
+  return path.join(getDataRoot(), "accounts", namespace);
+}
+
+/**
+ * データディレクトリ内のファイルパスを返す（絶対パスはそのまま返す）
+ */
+export function resolveDataPath(filename: string, namespace?: string): string {
+  if (path.isAbsolute(filename)) {
+    return filename;
+  }
+  return path.join(getDataDir(namespace), filename);
+}
+
+/**
+ * データディレクトリを作成する（存在する場合は何もしない）
+ */
+export function ensureDataDir(namespace?: string): string {
+  const dir = getDataDir(namespace);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
@@ -1,5 +1,5 @@
 import { FormatStats, PostLogEntry } from "../types/analytics-types.js";
-import { readJsonStore, writeJsonStore } from "./memory-store.js";
+import { readJsonStore, updateJsonStore } from "./memory-store.js";
 import { getXStrategy } from "./x-strategy-reader.js";
 
 const FORMAT_STATS_FILE = "format-stats.json";
@@ -14,39 +14,40 @@ export function updateFormatStats(
   formatName: string,
   metrics: NonNullable<PostLogEntry["metrics"]>
 ): void {
-  const allStats = readJsonStore<FormatStats[]>(FORMAT_STATS_FILE, []);
-  let stats = allStats.find((s) => s.formatName === formatName);
-
-  if (!stats) {
-    stats = {
-      formatName,
-      totalPosts: 0,
-      totalLikes: 0,
-      totalRetweets: 0,
-      totalReplies: 0,
-      totalImpressions: 0,
-      avgEngagementRate: 0,
-      lastUsed: new Date().toISOString(),
-      status: "active",
-    };
-    allStats.push(stats);
-  }
+  updateJsonStore<FormatStats[]>(FORMAT_STATS_FILE, [], (allStats) => {
+    let stats = allStats.find((s) => s.formatName === formatName);
+
+    if (!stats) {
+      stats = {
+        formatName,
+        totalPosts: 0,
+        totalLikes: 0,
+        totalRetweets: 0,
+        totalReplies: 0,
+        totalImpressions: 0,
+        avgEngagementRate: 0,
+        lastUsed: new Date().toISOString(),
+        status: "active",
+      };
+      allStats.push(stats);
+    }
 
-  stats.totalPosts += 1;
-  stats.totalLikes += metrics.likes;
-  stats.totalRetweets += metrics.retweets;
-  stats.totalReplies += metrics.replies;
-  stats.totalImpressions += metrics.impressions;
-  stats.lastUsed = new Date().toISOString();
-
-  // エンゲージメント率を再計算
-  if (stats.totalImpressions > 0) {
-    const totalEngagements =
-      stats.totalLikes + stats.totalRetweets + stats.totalReplies;
-    stats.avgEngagementRate = totalEngagements / stats.totalImpressions;
-  }
+    stats.totalPosts += 1;
+    stats.totalLikes += metrics.likes;
+    stats.totalRetweets += metrics.retweets;
+    stats.totalReplies += metrics.replies;
+    stats.totalImpressions += metrics.impressions;
+    stats.lastUsed = new Date().toISOString();
+
+    // エンゲージメント率を再計算
+    if (stats.totalImpressions > 0) {
+      const totalEngagements =
+        stats.totalLikes + stats.totalRetweets + stats.totalReplies;
+      stats.avgEngagementRate = totalEngagements / stats.totalImpressions;
+    }
 
-  writeJsonStore(FORMAT_STATS_FILE, allStats);
+    return allStats;
+  });
 }
 
 /**
@@ -68,35 +69,36 @@ export function autoOptimizeFormats(): {
 } {
   const strategy = getXStrategy();
   const { deprecateThreshold, boostThreshold } = strategy.formatOptimization;
-  const allStats = readJsonStore<FormatStats[]>(FORMAT_STATS_FILE, []);
-
-  if (allStats.length === 0) {
-    return { deprecated: [], boosted: [] };
-  }
-
-  // 全体平均エンゲージメント率
-  const avgRate =
-    allStats.reduce((sum, s) => sum + s.avgEngagementRate, 0) / allStats.length;
-
   const deprecated: string[] = [];
   const boosted: string[] = [];
 
-  for (const stats of allStats) {
-    if (avgRate > 0 && stats.totalPosts >= 3) {
-      const ratio = stats.avgEngagementRate / avgRate;
-      if (ratio <= deprecateThreshold) {
-        stats.status = "deprecated";
-        deprecated.push(stats.formatName);
-      } else if (ratio >= boostThreshold) {
-        stats.status = "boosted";
-        boosted.push(stats.formatName);
-      } else {
-        stats.status = "active";
+  updateJsonStore<FormatStats[]>(FORMAT_STATS_FILE, [], (allStats) => {
+    if (allStats.length === 0) {
+      return allStats;
+    }
+
+    // 全体平均エンゲージメント率
+    const avgRate =
+      allStats.reduce((sum, s) => sum + s.avgEngagementRate, 0) / allStats.length;
+
+    for (const stats of allStats) {
+      if (avgRate > 0 && stats.totalPosts >= 3) {
+        const ratio = stats.avgEngagementRate / avgRate;
+        if (ratio <= deprecateThreshold) {
+          stats.status = "deprecated";
+          deprecated.push(stats.formatName);
+        } else if (ratio >= boostThreshold) {
+          stats.status = "boosted";
+          boosted.push(stats.formatName);
+        } else {
+          stats.status = "active";
+        }
       }
     }
-  }
 
-  writeJsonStore(FORMAT_STATS_FILE, allStats);
+    return allStats;
+  });
+
   return { deprecated, boosted };
 }
 
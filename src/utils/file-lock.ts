@@ -0,0 +1,148 @@
+import fs from "fs";
+
+// ロック取得を諦めるまでの時間（withFileLock）
+// 待機中はイベントループを止める（HTTPサーバー・cron・保管庫の監視も止まる）ため短くする。
+// ロックは1回の読み込み〜書き込みの間だけ保持されるので、通常は数ミリ秒で解放される
+const LOCK_TIMEOUT_MS = 1_000;
+// withFileLockAsync の待機はイベントループを止めないため長めに待つ
+const ASYNC_LOCK_TIMEOUT_MS = 10_000;
+// この時間を超えて残っているロックは異常終了の残骸とみなす
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_INTERVAL_MS = 10;
+
+// 同一プロセス内で保持中のロック（再入可能にするための参照カウント）
+const heldLocks = new Map<string, number>();
+
+const sleepBuffer = new Int32Array(new SharedArrayBuffer(4));
+
+function sleepSync(ms: number): void {
+  Atomics.wait(sleepBuffer, 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error?.code === "EPERM";
+  }
+}
+
+/**
+ * ロックファイルが放置されたものか判定する
+ * 保持プロセスが存在しない、または一定時間以上更新されていない場合に stale とする
+ */
+function isStaleLock(lockPath: string): boolean {
+  try {
+    const stat = fs.statSync(lockPath);
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+      return true;
+    }
+    const pid = parseInt(fs.readFileSync(lockPath, "utf-8").split(":")[0], 10);
+    return Number.isFinite(pid) && pid !== process.pid && !isProcessAlive(pid);
+  } catch {
+    // 判定中に消えた場合は次の試行で取得できる
+    return false;
+  }
+}
+
+/**
+ * ロックファイルの排他作成を試みる（放置されたロックは除去して取り直す）
+ * @returns 取得できた場合は true
+ */
+function tryAcquireLock(lockPath: string): boolean {
+  while (true) {
+    try {
+      const fd = fs.openSync(lockPath, "wx");
+      fs.writeSync(fd, `${process.pid}:${new Date().toISOString()}`);
+      fs.closeSync(fd);
+      return true;
+    } catch (error: any) {
+      if (error?.code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    if (!isStaleLock(lockPath)) {
+      return false;
+    }
+    try {
+      fs.unlinkSync(lockPath);
+    } catch {
+      // 他プロセスが先に除去した場合は無視
+    }
+  }
+}
+
+function acquireLock(lockPath: string): void {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (!tryAcquireLock(lockPath)) {
+    if (Date.now() >= deadline) {
+      throw new Error(`ファイルロックの取得がタイムアウトしました: ${lockPath}`);
+    }
+    sleepSync(LOCK_RETRY_INTERVAL_MS);
+  }
+}
+
+async function acquireLockAsync(lockPath: string): Promise<void> {
+  const deadline = Date.now() + ASYNC_LOCK_TIMEOUT_MS;
+  while (!tryAcquireLock(lockPath)) {
+    if (Date.now() >= deadline) {
+      throw new Error(`ファイルロックの取得がタイムアウトしました: ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_INTERVAL_MS));
+  }
+}
+
+function releaseLock(lockPath: string): void {
+  try {
+    fs.unlinkSync(lockPath);
+  } catch {
+    // 既に除去されている場合は無視
+  }
+}
+
+/**
+ * 取得済みのロックの下で処理を実行し、最も外側の呼び出しが終わったらロックを解放する
+ */
+function runWithHeldLock<T>(lockPath: string, fn: () => T): T {
+  heldLocks.set(lockPath, (heldLocks.get(lockPath) ?? 0) + 1);
+
+  try {
+    return fn();
+  } finally {
+    const remaining = (heldLocks.get(lockPath) ?? 1) - 1;
+    if (remaining === 0) {
+      heldLocks.delete(lockPath);
+      releaseLock(lockPath);
+    } else {
+      heldLocks.set(lockPath, remaining);
+    }
+  }
+}
+
+/**
+ * 対象ファイルに対するプロセス間のアドバイザリロックを取得して処理を実行する
+ * ロックは `<対象ファイル>.lock` を排他作成することで表現する
+ * 他プロセスのロックの解放を待つ間はイベントループを止めるため、非同期の処理からは
+ * withFileLockAsync を使う
+ */
+export function withFileLock<T>(targetPath: string, fn: () => T): T {
+  const lockPath = `${targetPath}.lock`;
+  if (!heldLocks.has(lockPath)) {
+    acquireLock(lockPath);
+  }
+  return runWithHeldLock(lockPath, fn);
+}
+
+/**
+ * withFileLock の非同期版（ロックの解放をタイマーで待ち、イベントループを止めない）
+ * fn は同期処理に限る（ロックの保持中に他の処理へ切り替わらないようにするため）
+ */
+export async function withFileLockAsync<T>(targetPath: string, fn: () => T): Promise<T> {
+  const lockPath = `${targetPath}.lock`;
+  if (!heldLocks.has(lockPath)) {
+    await acquireLockAsync(lockPath);
+  }
+  return runWithHeldLock(lockPath, fn);
+}
@@ -0,0 +1,232 @@
+import fs from "fs";
+import { NoteFrontmatter } from "../types/note-types.js";
+
+/**
+ * Markdown先頭のFrontmatter（YAML）を読み書きするユーティリティ
+ *
+ * 対応する値：
+ * - 文字列（引用符は外す）・数値・真偽値
+ * - 配列（[a, b] 形式と、次の行以降の "- a" 形式）
+ *
+ * 公開メタデータとして読み取る項目は NoteFrontmatter を参照。
+ * magazine / magazines、promo / promoText はどちらの名前でも指定できる。
+ */
+
+export type FrontmatterValue = string | number | boolean | string[];
+
+export interface FrontmatterResult {
+  data: Record<string, FrontmatterValue>;
+  content: string;
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const KEY_VALUE_PATTERN = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/;
+const LIST_ITEM_PATTERN = /^\s*-\s+(.*)$/;
+
+/**
+ * Frontmatterと本文を分離する（Frontmatterがない場合は data が空）
+ */
+export function splitFrontmatter(markdown: string): FrontmatterResult {
+  const match = markdown.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { data: {}, content: markdown };
+  }
+  return {
+    data: parseFrontmatterBlock(match[1]),
+    content: markdown.slice(match[0].length),
+  };
+}
+
+/**
+ * Frontmatterの値だけを取得する
+ */
+export function parseFrontmatter(markdown: string): Record<string, FrontmatterValue> {
+  return splitFrontmatter(markdown).data;
+}
+
+/**
+ * Frontmatterの値を公開メタデータとして読み取る（型が合わない項目はエラー）
+ */
+export function readNoteFrontmatter(data: Record<string, FrontmatterValue>): NoteFrontmatter {
+  const frontmatter: NoteFrontmatter = {
+    title: readString(data, "title"),
+    eyecatch: readString(data, "eyecatch"),
+    publishAt: readString(data, "publishAt"),
+    noteId: readString(data, "noteId"),
+    noteUrl: readString(data, "noteUrl"),
+    publishedAt: readString(data, "publishedAt"),
+    promoText: readString(data, "promoText") ?? readString(data, "promo"),
+  };
+
+  const tags = toStringList(data.tags).map((tag) => tag.replace(/^#/, ""));
+  if (tags.length > 0) frontmatter.tags = tags;
+
+  const magazines = toStringList(data.magazines ?? data.magazine);
+  if (magazines.length > 0) frontmatter.magazines = magazines;
+
+  if (data.price !== undefined) {
+    const price = Number(data.price);
+    if (typeof data.price === "boolean" || Array.isArray(data.price) || Number.isNaN(price)) {
+      throw new Error(`Frontmatterのpriceには数値を指定してください: ${data.price}`);
+    }
+    frontmatter.price = price;
+  }
+
+  if (data.membershipOnly !== undefined) {
+    if (typeof data.membershipOnly !== "boolean") {
+      throw new Error(
+        `FrontmatterのmembershipOnlyには true / false を指定してください: ${data.membershipOnly}`
+      );
+    }
+    frontmatter.membershipOnly = data.membershipOnly;
+  }
+
+  return Object.fromEntries(
+    Object.entries(frontmatter).filter(([, value]) => value !== undefined)
+  ) as NoteFrontmatter;
+}
+
+/**
+ * Frontmatterの項目を追加・更新したMarkdownを返す（他の項目と本文はそのまま残す）
+ * 値が undefined の項目は変更せず、null の項目は削除する
+ */
+export function setFrontmatterFields(
+  markdown: string,
+  fields: Record<string, FrontmatterValue | null | undefined>
+): string {
+  const entries = Object.entries(fields).filter(
+    (entry): entry is [string, FrontmatterValue | null] => entry[1] !== undefined
+  );
+  if (entries.length === 0) return markdown;
+
+  const match = markdown.match(FRONTMATTER_PATTERN);
+  const lines = match ? match[1].split(/\r?\n/) : [];
+  const content = match ? markdown.slice(match[0].length) : markdown;
+  let changed = false;
+
+  for (const [key, value] of entries) {
+    const index = lines.findIndex((candidate) => candidate.match(KEY_VALUE_PATTERN)?.[1] === key);
+    if (value === null) {
+      if (index === -1) continue;
+    } else if (index === -1) {
+      lines.push(`${key}: ${formatValue(value)}`);
+      changed = true;
+      continue;
+    }
+    // 既存の "- a" 形式の配列の行もまとめて置き換える
+    let end = index + 1;
+    while (end < lines.length && LIST_ITEM_PATTERN.test(lines[end])) end++;
+    lines.splice(index, end - index, ...(value === null ? [] : [`${key}: ${formatValue(value)}`]));
+    changed = true;
+  }
+
+  if (!changed) return markdown;
+  return `---\n${lines.join("\n")}\n---\n${content}`;
+}
+
+/**
+ * Markdownファイルのfrontmatterに項目を書き戻す
+ */
+export function writeFrontmatterFields(
+  filePath: string,
+  fields: Record<string, FrontmatterValue | null | undefined>
+): void {
+  const markdown = fs.readFileSync(filePath, "utf-8");
+  const updated = setFrontmatterFields(markdown, fields);
+  if (updated !== markdown) {
+    fs.writeFileSync(filePath, updated, "utf-8");
+  }
+}
+
+/**
+ * 値を文字列の配列として取り出す（単一の値は要素1つの配列にする）
+ */
+export function toStringList(value: FrontmatterValue | undefined): string[] {
+  if (value === undefined || value === "") return [];
+  return (Array.isArray(value) ? value : [String(value)]).filter((item) => item !== "");
+}
+
+function readString(data: Record<string, FrontmatterValue>, key: string): string | undefined {
+  const value = data[key];
+  if (value === undefined || value === "") return undefined;
+  if (Array.isArray(value)) {
+    throw new Error(`Frontmatterの${key}には文字列を指定してください`);
+  }
+  return String(value);
+}
+
+function formatValue(value: FrontmatterValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatString).join(", ")}]`;
+  }
+  return typeof value === "string" ? formatString(value) : String(value);
+}
+
+/**
+ * YAMLとして解釈が変わる文字を含む文字列だけ引用符で囲む
+ */
+function formatString(value: string): string {
+  if (
+    value === "" ||
+    /^[\s\-?:,\[\]{}#&*!|>'"%@`]|[:#,\[\]]\s|\s$|^(?:true|false|-?\d+(?:\.\d+)?)$/.test(value)
+  ) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+function parseFrontmatterBlock(block: string): Record<string, FrontmatterValue> {
+  const data: Record<string, FrontmatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem && listKey) {
+      const items = Array.isArray(data[listKey]) ? (data[listKey] as string[]) : [];
+      items.push(unquote(listItem[1].trim()));
+      data[listKey] = items;
+      continue;
+    }
+
+    const keyValue = line.match(KEY_VALUE_PATTERN);
+    if (!keyValue) continue;
+
+    const [, key, rawValue] = keyValue;
+    const value = rawValue.trim();
+    if (value === "") {
+      // 次の行以降に "- a" 形式の項目があれば配列、なければ未指定として扱う
+      delete data[key];
+      listKey = key;
+      continue;
+    }
+
+    listKey = null;
+    data[key] = parseScalarOrInlineList(value);
+  }
+
+  return data;
+}
+
+function parseScalarOrInlineList(value: string): FrontmatterValue {
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .map((item) => unquote(item.trim()))
+      .filter((item) => item !== "");
+  }
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return unquote(value);
+}
+
+function unquote(value: string): string {
+  const match = value.match(/^(["'])([\s\S]*)\1$/);
+  return match ? match[2] : value;
+}
@@ -0,0 +1,341 @@
+import { noteApiRequest } from "./api-client.js";
+import { env } from "../config/environment.js";
+import { getNoteUserId } from "./account-context.js";
+import { fetchAllStats } from "./analytics-helpers.js";
+import { loadCreatorArticles } from "./catalogue-crawler.js";
+import {
+  daysBetween,
+  getAccountDelta,
+  readPvHistory,
+  shiftDateKey,
+  toDateKey,
+} from "./pv-history.js";
+import {
+  ArticleFunnel,
+  FunnelGroup,
+  FunnelMetrics,
+  FunnelReport,
+  PvHistory,
+} from "../types/analytics-types.js";
+
+/**
+ * 記事ごと・タグごと・公開月ごとの読者ファネル（PV → スキ・コメント → フォロー → 有料購入・加入）
+ *
+ * フォロワー・メンバーシップ加入者はアカウント全体の値しか取得できないため、
+ * 日次スナップショットの増分を、公開後の計測期間（attributionDays）が重なる記事で按分する。
+ */
+
+export interface FunnelOptions {
+  // 公開日から何日間のフォロワー・加入者の増分を記事に割り当てるか
+  attributionDays?: number;
+  // 記事ごとにスキ一覧（get-likes と同じAPI）を取得するか（false の場合はPV統計のスキ数）
+  fetchLikes?: boolean;
+  // スキ一覧を取得する記事数の上限（PVの多い順）
+  maxLikeRequests?: number;
+  bypassCache?: boolean;
+}
+
+export type FunnelView = "article" | "tag" | "cohort";
+
+/**
+ * PVに対する割合（%、小数第1位）
+ */
+function rateOf(count: number | null, pv: number): number | null {
+  if (count === null || pv <= 0) return null;
+  return Math.round((count / pv) * 1000) / 10;
+}
+
+function sumNullable(values: (number | null)[]): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) : null;
+}
+
+function withRates(
+  metrics: Omit<FunnelMetrics, "likeRate" | "commentRate" | "followRate" | "purchaseRate">
+): FunnelMetrics {
+  return {
+    ...metrics,
+    likeRate: rateOf(metrics.likes, metrics.pv),
+    commentRate: rateOf(metrics.comments, metrics.pv),
+    followRate: rateOf(metrics.followerGain, metrics.pv),
+    purchaseRate: rateOf(metrics.purchases, metrics.pv),
+  };
+}
+
+/**
+ * 記事のスキ数をスキ一覧から取得する（取得できない場合は null）
+ * 総数がなく1ページ目の件数で代用した場合は partial: true（実際のスキ数以下の値）
+ */
+async function fetchLikeCount(
+  noteId: string,
+  bypassCache: boolean
+): Promise<{ count: number; partial: boolean } | null> {
+  try {
+    const data = await noteApiRequest(`/v3/notes/${noteId}/likes`, "GET", null, false, undefined, {
+      bypassCache,
+    });
+    if (typeof data?.data?.like_count === "number") {
+      return { count: data.data.like_count, partial: false };
+    }
+    const likes = data?.data?.likes;
+    return Array.isArray(likes) ? { count: likes.length, partial: true } : null;
+  } catch (error) {
+    if (env.DEBUG) {
+      console.error(`fetchLikeCount ${noteId} error:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * 記事のタグ名（hashtags は { hashtag: { name } } または文字列の配列）
+ */
+function tagsOf(content: any): string[] {
+  const hashtags = Array.isArray(content?.hashtags) ? content.hashtags : [];
+  return hashtags
+    .map((tag: any) => (typeof tag === "string" ? tag : tag?.hashtag?.name || tag?.name || ""))
+    .map((name: string) => name.replace(/^#/, ""))
+    .filter((name: string) => name);
+}
+
+/**
+ * 有料記事の購入数（APIのレスポンスに含まれる場合のみ）
+ */
+function purchasesOf(content: any): number | null {
+  const count = content?.purchaseCount ?? content?.purchase_count ?? content?.salesCount;
+  return typeof count === "number" ? count : null;
+}
+
+/**
+ * 公開日からの計測期間のフォロワー・加入者の増分を、計測期間が重なる記事数で按分する
+ */
+function attributeAccountGains(
+  articles: ArticleFunnel[],
+  attributionDays: number,
+  history: PvHistory
+): void {
+  const published = articles.filter((article) => article.publishedAt);
+  for (const article of published) {
+    const from = toDateKey(new Date(article.publishedAt!));
+    const to = shiftDateKey(from, attributionDays - 1);
+    const sharing = published.filter(
+      (other) =>
+        Math.abs(daysBetween(from, toDateKey(new Date(other.publishedAt!)))) < attributionDays
+    ).length;
+
+    const followerGain = getAccountDelta("followerCount", from, to, history);
+    const memberGain = getAccountDelta("memberCount", from, to, history);
+    article.followerGain = followerGain === null ? null : Math.round(followerGain / sharing);
+    article.memberGain = memberGain === null ? null : Math.round(memberGain / sharing);
+    article.followRate = rateOf(article.followerGain, article.pv);
+  }
+}
+
+/**
+ * 記事のファネルをキーごとに集計する（PVの降順）
+ */
+function groupFunnels(
+  articles: ArticleFunnel[],
+  keysOf: (article: ArticleFunnel) => string[]
+): FunnelGroup[] {
+  const groups = new Map<string, ArticleFunnel[]>();
+  for (const article of articles) {
+    for (const key of keysOf(article)) {
+      groups.set(key, [...(groups.get(key) || []), article]);
+    }
+  }
+
+  return Array.from(groups, ([key, group]) => summarizeFunnels(key, group)).sort(
+    (a, b) => b.pv - a.pv
+  );
+}
+
+function summarizeFunnels(key: string, articles: ArticleFunnel[]): FunnelGroup {
+  return {
+    key,
+    articles: articles.length,
+    ...withRates({
+      pv: articles.reduce((sum, a) => sum + a.pv, 0),
+      likes: articles.reduce((sum, a) => sum + a.likes, 0),
+      comments: articles.reduce((sum, a) => sum + a.comments, 0),
+      followerGain: sumNullable(articles.map((a) => a.followerGain)),
+      memberGain: sumNullable(articles.map((a) => a.memberGain)),
+      purchases: sumNullable(articles.map((a) => a.purchases)),
+    }),
+  };
+}
+
+/**
+ * 現在のアカウントの読者ファネルを作成する
+ */
+export async function buildFunnelReport(options: FunnelOptions = {}): Promise<FunnelReport> {
+  const attributionDays = options.attributionDays ?? 7;
+  const fetchLikes = options.fetchLikes ?? true;
+  const maxLikeRequests = options.maxLikeRequests ?? 50;
+  const bypassCache = options.bypassCache ?? false;
+
+  const [stats, contents] = await Promise.all([
+    fetchAllStats("all", { bypassCache }),
+    loadCreatorArticles(getNoteUserId(), { bypassCache }),
+  ]);
+  const statsById = new Map(stats.map((stat) => [stat.noteId, stat]));
+  const history = readPvHistory();
+  const notes: string[] = [];
+
+  const articles: ArticleFunnel[] = contents.map((content) => {
+    const noteId = String(content.id || "");
+    const stat = statsById.get(noteId);
+    const username = content.user?.urlname || stat?.user || getNoteUserId();
+    return {
+      noteId,
+      title: content.name || content.title || stat?.title || "",
+      url: `https://note.com/${username}/n/${content.key || stat?.key || ""}`,
+      publishedAt: content.publishAt || content.publish_at || content.createdAt || null,
+      tags: tagsOf(content),
+      price: content.price || 0,
+      ...withRates({
+        pv: stat?.readCount ?? 0,
+        likes: stat?.likeCount || content.likeCount || content.like_count || 0,
+        comments: stat?.commentCount || content.commentsCount || content.comment_count || 0,
+        followerGain: null,
+        memberGain: null,
+        purchases: (content.price || 0) > 0 ? purchasesOf(content) : null,
+      }),
+    };
+  });
+
+  // 記事一覧にないがPV統計にある記事（カタログの取得が未完了の記事など）
+  const listed = new Set(articles.map((article) => article.noteId));
+  for (const stat of stats) {
+    if (listed.has(stat.noteId)) continue;
+    articles.push({
+      noteId: stat.noteId,
+      title: stat.title,
+      url: `https://note.com/${stat.user || getNoteUserId()}/n/${stat.key}`,
+      publishedAt: null,
+      tags: [],
+      price: 0,
+      ...withRates({
+        pv: stat.readCount,
+        likes: stat.likeCount,
+        comments: stat.commentCount,
+        followerGain: null,
+        memberGain: null,
+        purchases: null,
+      }),
+    });
+  }
+  articles.sort((a, b) => b.pv - a.pv);
+
+  // スキ数はスキ一覧から取得する（PVの多い記事から上限まで）
+  if (fetchLikes) {
+    for (const article of articles.slice(0, maxLikeRequests)) {
+      const likes = await fetchLikeCount(article.noteId, bypassCache);
+      // 1ページ目の件数はPV統計のスキ数を上回る場合のみ使う
+      if (likes !== null && (!likes.partial || likes.count > article.likes)) {
+        article.likes = likes.count;
+        article.likeRate = rateOf(likes.count, article.pv);
+      }
+    }
+    if (articles.length > maxLikeRequests) {
+      notes.push(
+        `スキ一覧はPV上位${maxLikeRequests}記事のみ取得しました（他の記事はPV統計のスキ数）`
+      );
+    }
+  }
+
+  attributeAccountGains(articles, attributionDays, history);
+  if (articles.every((article) => article.followerGain === null)) {
+    notes.push(
+      "フォロワーの増分は日次スナップショット（take-pv-snapshot）のある期間に公開した記事のみ算出します"
+    );
+  }
+  if (articles.every((article) => article.purchases === null)) {
+    notes.push("有料記事の購入数はnoteのAPIから取得できなかったため未集計です");
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    attributionDays,
+    totals: summarizeFunnels("total", articles),
+    articles,
+    tags: groupFunnels(articles, (article) => article.tags),
+    cohorts: groupFunnels(articles, (article) =>
+      article.publishedAt ? [toDateKey(new Date(article.publishedAt)).slice(0, 7)] : []
+    ).sort((a, b) => b.key.localeCompare(a.key)),
+    notes,
+  };
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * ファネルをCSVに変換する（view 列で記事・タグ・公開月を区別する）
+ */
+export function funnelToCsv(report: FunnelReport, views: FunnelView[]): string {
+  const header = [
+    "view",
+    "key",
+    "title",
+    "url",
+    "publishedAt",
+    "tags",
+    "price",
+    "articles",
+    "pv",
+    "likes",
+    "comments",
+    "followerGain",
+    "memberGain",
+    "purchases",
+    "likeRate",
+    "commentRate",
+    "followRate",
+    "purchaseRate",
+  ];
+  const metricsOf = (m: FunnelMetrics) => [
+    m.pv,
+    m.likes,
+    m.comments,
+    m.followerGain,
+    m.memberGain,
+    m.purchases,
+    m.likeRate,
+    m.commentRate,
+    m.followRate,
+    m.purchaseRate,
+  ];
+
+  const rows: (string | number | null)[][] = [];
+  if (views.includes("article")) {
+    for (const a of report.articles) {
+      rows.push([
+        "article",
+        a.noteId,
+        a.title,
+        a.url,
+        a.publishedAt,
+        a.tags.join(" "),
+        a.price,
+        1,
+        ...metricsOf(a),
+      ]);
+    }
+  }
+  if (views.includes("tag")) {
+    for (const g of report.tags) {
+      rows.push(["tag", g.key, null, null, null, null, null, g.articles, ...metricsOf(g)]);
+    }
+  }
+  if (views.includes("cohort")) {
+    for (const g of report.cohorts) {
+      rows.push(["cohort", g.key, null, null, null, null, null, g.articles, ...metricsOf(g)]);
+    }
+  }
+
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,180 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { StorageBackend } from "../types/storage-types.js";
+import { withFileLock, withFileLockAsync } from "./file-lock.js";
+import { getProjectRoot, resolveDataPath } from "./data-dir.js";
+
+/**
+ * データディレクトリ（NOTE_DATA_DIR + アカウント名前空間）基準のJSONファイルパスを返す
+ */
+export function getStorePath(filename: string): string {
+  return resolveDataPath(filename);
+}
+
+function getBackupPath(filePath: string): string {
+  return `${filePath}.bak`;
+}
+
+function ensureDir(filePath: string): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+function parseJsonFile<T>(filePath: string): { ok: true; value: T } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(fs.readFileSync(filePath, "utf-8")) as T };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * 一時ファイルに書き出してから rename で置き換える（書き込み途中のファイルを他プロセスに見せない）
+ * 置き換え前の内容は .bak として残し、破損時の復旧に使う
+ */
+function writeFileAtomic(filePath: string, content: string): void {
+  const tmpPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    const fd = fs.openSync(tmpPath, "w");
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    if (fs.existsSync(filePath) && parseJsonFile(filePath).ok) {
+      fs.copyFileSync(filePath, getBackupPath(filePath));
+    }
+    fs.renameSync(tmpPath, filePath);
+  } catch (error) {
+    if (fs.existsSync(tmpPath)) {
+      fs.unlinkSync(tmpPath);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 利用者が手で編集する設定ファイルをプロジェクトルートから読み込む（バックアップ復旧は行わない）
+ * ファイルが存在しないまたはパースエラー時はデフォルト値を返す
+ */
+export function readJsonFile<T>(filename: string, defaultValue: T): T {
+  const filePath = path.resolve(getProjectRoot(), filename);
+  if (!fs.existsSync(filePath)) {
+    return defaultValue;
+  }
+  const parsed = parseJsonFile<T>(filePath);
+  return parsed.ok ? parsed.value : defaultValue;
+}
+
+/**
+ * キーごとに1つのJSONファイルへ保存するストレージ（従来形式）
+ * - 書き込みは一時ファイル + rename によるアトミック置換
+ * - 追記・更新は `<ファイル>.lock` によるプロセス間ロック下で行う
+ * - 破損したファイルは .bak から復旧する
+ */
+export class JsonFileStorage implements StorageBackend {
+  readonly kind = "json" as const;
+
+  read<T>(key: string, defaultValue: T): T {
+    const filePath = getStorePath(key);
+    if (!fs.existsSync(filePath)) {
+      return defaultValue;
+    }
+    const parsed = parseJsonFile<T>(filePath);
+    if (parsed.ok) {
+      return parsed.value;
+    }
+    return this.recover(key, defaultValue);
+  }
+
+  write<T>(key: string, data: T): void {
+    const filePath = getStorePath(key);
+    ensureDir(filePath);
+    withFileLock(filePath, () => {
+      writeFileAtomic(filePath, JSON.stringify(data, null, 2) + "\n");
+    });
+  }
+
+  append<T>(key: string, entry: T): void {
+    this.update<T[]>(key, [], (current) => {
+      current.push(entry);
+      return current;
+    });
+  }
+
+  update<T>(key: string, defaultValue: T, updater: (current: T) => T): T {
+    const filePath = getStorePath(key);
+    ensureDir(filePath);
+    return withFileLock(filePath, () => {
+      const next = updater(this.read(key, defaultValue));
+      writeFileAtomic(filePath, JSON.stringify(next, null, 2) + "\n");
+      return next;
+    });
+  }
+
+  async appendAsync<T>(key: string, entry: T): Promise<void> {
+    await this.updateAsync<T[]>(key, [], (current) => {
+      current.push(entry);
+      return current;
+    });
+  }
+
+  updateAsync<T>(key: string, defaultValue: T, updater: (current: T) => T): Promise<T> {
+    const filePath = getStorePath(key);
+    ensureDir(filePath);
+    return withFileLockAsync(filePath, () => {
+      const next = updater(this.read(key, defaultValue));
+      writeFileAtomic(filePath, JSON.stringify(next, null, 2) + "\n");
+      return next;
+    });
+  }
+
+  has(key: string): boolean {
+    return fs.existsSync(getStorePath(key));
+  }
+
+  close(): void {
+    // ファイルハンドルは保持しないため何もしない
+  }
+
+  /**
+   * 破損したファイルを .bak から復旧する
+   * バックアップも使えない場合は破損ファイルを退避してデフォルト値を返す
+   */
+  private recover<T>(key: string, defaultValue: T): T {
+    const filePath = getStorePath(key);
+    const backupPath = getBackupPath(filePath);
+
+    return withFileLock(filePath, () => {
+      // ロック待ちの間に他プロセスが修復済みの場合はそれを使う
+      const current = parseJsonFile<T>(filePath);
+      if (current.ok) {
+        return current.value;
+      }
+
+      const backup = fs.existsSync(backupPath)
+        ? parseJsonFile<T>(backupPath)
+        : { ok: false as const };
+      if (backup.ok) {
+        console.error(
+          `[memory-store] ${key} が破損していたため ${path.basename(backupPath)} から復旧しました`
+        );
+        writeFileAtomic(filePath, fs.readFileSync(backupPath, "utf-8"));
+        return backup.value;
+      }
+
+      if (fs.existsSync(filePath)) {
+        const quarantinePath = `${filePath}.corrupt-${Date.now()}`;
+        fs.renameSync(filePath, quarantinePath);
+        console.error(
+          `[memory-store] ${key} が破損しておりバックアップもありません。${path.basename(quarantinePath)} に退避しました`
+        );
+      }
+      return defaultValue;
+    });
+  }
+}
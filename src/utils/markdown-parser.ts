@@ -0,0 +1,744 @@
+import path from "path";
+import { NoteIRNode, RichTextSpan, TableAlignment } from "../types/notion-types.js";
+import { PAYWALL_MARKER_PATTERN } from "./paid-content.js";
+
+/**
+ * Markdown（Obsidian記法を含む）を中間表現（IR）に変換するパーサー
+ *
+ * note用HTMLへの変換・noteエディタのUI操作・Obsidian変換はすべてこのパーサーの
+ * 出力（NoteIRNode）を入力とし、同じMarkdownが常に同じ構造として扱われるようにする。
+ *
+ * 対応する記法：
+ * - 見出し（# 〜 ######）
+ * - 段落（段落内の単一改行は改行として保持）
+ * - 箇条書き・番号付きリスト（インデントによる入れ子）
+ * - 引用（> の後のスペースあり/なし両対応。> > で入れ子の引用）
+ * - コールアウト（> [!tip] タイトル。種類に応じたアイコン付きの引用になる）
+ * - コードブロック（``` / ~~~）
+ * - 水平線（---, ***, ___）
+ * - 画像（![[file]] / ![[file|caption]] / ![alt](path) / ai-summaryブロック）
+ * - 埋め込み（1行にURLだけを書いた行。noteの埋め込みカードになる）
+ * - タスクリスト（- [ ] / - [x]）
+ * - テーブル（GFM形式、区切り行の : で列の揃えを指定）
+ * - 脚注（本文の [^label] と行頭の [^label]: 定義。参照順に番号を振り、末尾にまとめる）
+ * - 有料ライン（<!-- paywall --> だけの行。ここから下が有料エリア）
+ * - インライン：太字、斜体、取り消し線、ハイライト（太字扱い）、コード、リンク、内部リンク
+ */
+
+type Annotations = RichTextSpan["annotations"];
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const HR_PATTERN = /^(?:-{3,}|\*{3,}|_{3,})$/;
+const FENCE_PATTERN = /^(`{3,}|~{3,})\s*([^`\s]*)/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const CALLOUT_PATTERN = /^\[!([\w-]+)\][+-]?\s*(.*)$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_ITEM_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const TABLE_DELIMITER_PATTERN = /^\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?$/;
+const FOOTNOTE_DEFINITION_PATTERN = /^\s{0,3}\[\^([^\]\s]+)\]:\s*(.*)$/;
+const OBSIDIAN_IMAGE_PATTERN = /^!\[\[([^\]|]+)(?:\|([^\]]*))?\]\]$/;
+const MARKDOWN_IMAGE_PATTERN = /^!\[([^\]]*)\]\(([^)\s]+)(?:\s+"([^"]*)")?\)$/;
+const AI_SUMMARY_START_PATTERN = /^<!--\s*ai-summary:start\b/;
+const AI_SUMMARY_END_PATTERN = /^<!--\s*ai-summary:end\b/;
+const HTML_COMMENT_PATTERN = /^<!--[\s\S]*-->$/;
+const EMBED_URL_PATTERN = /^<?(https?:\/\/[^\s<>]+)>?$/;
+// ![[image.png|300]] のようなサイズ指定はキャプションとして扱わない
+const IMAGE_SIZE_PATTERN = /^\d+(?:x\d+)?$/;
+
+// インラインの強調記法（長いものから順に判定する）
+const INLINE_MARKERS: { marker: string; annotation: keyof Annotations }[] = [
+  { marker: "**", annotation: "bold" },
+  { marker: "==", annotation: "bold" },
+  { marker: "~~", annotation: "strikethrough" },
+  { marker: "*", annotation: "italic" },
+];
+
+// コールアウトの種類ごとのアイコン（別名はObsidianに合わせる。未知の種類は note と同じ）
+const CALLOUT_ICONS: Record<string, string> = {
+  note: "📝",
+  abstract: "📋",
+  summary: "📋",
+  tldr: "📋",
+  info: "ℹ️",
+  todo: "☑️",
+  tip: "💡",
+  hint: "💡",
+  important: "💡",
+  success: "✅",
+  check: "✅",
+  done: "✅",
+  question: "❓",
+  help: "❓",
+  faq: "❓",
+  warning: "⚠️",
+  caution: "⚠️",
+  attention: "⚠️",
+  failure: "❌",
+  fail: "❌",
+  missing: "❌",
+  danger: "⛔",
+  error: "⛔",
+  bug: "🐛",
+  example: "📚",
+  quote: "💬",
+  cite: "💬",
+};
+
+interface ListItemMatch {
+  indent: number;
+  type: "bulletList" | "numberedList" | "todoList";
+  text: string;
+  checked?: boolean;
+}
+
+export class MarkdownParser {
+  // 脚注の定義（ラベル → 本文）と、本文で参照された順のラベル
+  private footnoteDefinitions = new Map<string, string>();
+  private footnoteOrder: string[] = [];
+
+  /**
+   * Markdown全体をIRノードの配列に変換
+   */
+  parse(markdown: string): NoteIRNode[] {
+    if (!markdown) return [];
+
+    const lines = this.extractFootnoteDefinitions(markdown.replace(/\r\n?/g, "\n").split("\n"));
+    const nodes: NoteIRNode[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const trimmed = lines[i].trim();
+
+      if (!trimmed) {
+        i++;
+        continue;
+      }
+
+      // ai-summaryブロック（画像＋キャプション）
+      if (AI_SUMMARY_START_PATTERN.test(trimmed)) {
+        const result = this.parseAiSummary(lines, i);
+        if (result.node) nodes.push(result.node);
+        i = result.next;
+        continue;
+      }
+
+      // 有料ライン
+      if (PAYWALL_MARKER_PATTERN.test(trimmed)) {
+        nodes.push({ type: "paywall" });
+        i++;
+        continue;
+      }
+
+      // その他のHTMLコメントは出力しない
+      if (HTML_COMMENT_PATTERN.test(trimmed)) {
+        i++;
+        continue;
+      }
+
+      if (FENCE_PATTERN.test(trimmed)) {
+        const result = this.parseCodeBlock(lines, i);
+        nodes.push(result.node);
+        i = result.next;
+        continue;
+      }
+
+      const headingMatch = trimmed.match(HEADING_PATTERN);
+      if (headingMatch) {
+        nodes.push({
+          type: "heading",
+          attributes: { level: headingMatch[1].length },
+          richText: this.parseInline(headingMatch[2]),
+        });
+        i++;
+        continue;
+      }
+
+      if (HR_PATTERN.test(trimmed)) {
+        nodes.push({ type: "divider" });
+        i++;
+        continue;
+      }
+
+      if (QUOTE_PATTERN.test(trimmed)) {
+        const result = this.parseQuote(lines, i);
+        if (result.node) nodes.push(result.node);
+        i = result.next;
+        continue;
+      }
+
+      if (this.matchListItem(lines[i])) {
+        const result = this.parseList(lines, i);
+        nodes.push(result.node);
+        i = result.next;
+        continue;
+      }
+
+      if (this.isTableStart(lines, i)) {
+        const result = this.parseTable(lines, i);
+        nodes.push(result.node);
+        i = result.next;
+        continue;
+      }
+
+      const embedMatch = trimmed.match(EMBED_URL_PATTERN);
+      if (embedMatch) {
+        nodes.push({ type: "embed", content: embedMatch[1] });
+        i++;
+        continue;
+      }
+
+      if (this.isImageLine(trimmed)) {
+        const result = this.parseImage(lines, i);
+        nodes.push(result.node);
+        i = result.next;
+        continue;
+      }
+
+      const result = this.parseParagraph(lines, i);
+      nodes.push(result.node);
+      i = result.next;
+    }
+
+    const footnotes = this.buildFootnotes();
+    if (footnotes) {
+      nodes.push(footnotes);
+    }
+
+    return nodes;
+  }
+
+  /**
+   * インライン記法をリッチテキストのスパン列に変換
+   */
+  parseInline(text: string, annotations: Annotations = {}, href?: string): RichTextSpan[] {
+    const spans: RichTextSpan[] = [];
+    let buffer = "";
+    let i = 0;
+
+    const flush = () => {
+      if (buffer) {
+        spans.push({ text: buffer, annotations: { ...annotations }, href });
+        buffer = "";
+      }
+    };
+
+    while (i < text.length) {
+      const rest = text.slice(i);
+
+      // バックスラッシュエスケープ
+      const escapeMatch = rest.match(/^\\([!-/:-@[-`{-~])/);
+      if (escapeMatch) {
+        buffer += escapeMatch[1];
+        i += escapeMatch[0].length;
+        continue;
+      }
+
+      // インラインコード（中身は記法として解釈しない）
+      const codeMatch = rest.match(/^`([^`\n]+)`/);
+      if (codeMatch) {
+        flush();
+        spans.push({ text: codeMatch[1], annotations: { ...annotations, code: true }, href });
+        i += codeMatch[0].length;
+        continue;
+      }
+
+      // 行内の画像記法はブロックとして扱えないため原文のまま残す
+      const inlineImageMatch = rest.match(/^!\[\[[^\]]+\]\]|^!\[[^\]]*\]\([^)]+\)/);
+      if (inlineImageMatch) {
+        buffer += inlineImageMatch[0];
+        i += inlineImageMatch[0].length;
+        continue;
+      }
+
+      // 脚注参照 [^label]（定義がないものは原文のまま残す）
+      const footnoteMatch = rest.match(/^\[\^([^\]\s]+)\]/);
+      if (footnoteMatch && this.footnoteDefinitions.has(footnoteMatch[1])) {
+        flush();
+        const number = this.getFootnoteNumber(footnoteMatch[1]);
+        spans.push({ text: `[${number}]`, annotations: { ...annotations }, footnote: number });
+        i += footnoteMatch[0].length;
+        continue;
+      }
+
+      // Obsidian内部リンク [[link]] / [[link|display]] は表示テキストのみ残す
+      const wikiLinkMatch = rest.match(/^\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/);
+      if (wikiLinkMatch) {
+        buffer += wikiLinkMatch[2] ?? wikiLinkMatch[1];
+        i += wikiLinkMatch[0].length;
+        continue;
+      }
+
+      // リンク [text](url)
+      const linkMatch = rest.match(/^\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/);
+      if (linkMatch) {
+        flush();
+        spans.push(...this.parseInline(linkMatch[1], annotations, linkMatch[2]));
+        i += linkMatch[0].length;
+        continue;
+      }
+
+      const emphasis = this.matchEmphasis(text, i);
+      if (emphasis) {
+        flush();
+        spans.push(
+          ...this.parseInline(emphasis.inner, { ...annotations, [emphasis.annotation]: true }, href)
+        );
+        i = emphasis.next;
+        continue;
+      }
+
+      buffer += text[i];
+      i++;
+    }
+
+    flush();
+    return spans;
+  }
+
+  /**
+   * 強調記法（**, ==, ~~, *）の開始位置であれば中身と終了位置を返す
+   */
+  private matchEmphasis(
+    text: string,
+    start: number
+  ): { inner: string; annotation: keyof Annotations; next: number } | null {
+    for (const { marker, annotation } of INLINE_MARKERS) {
+      if (!text.startsWith(marker, start)) continue;
+
+      const close = text.indexOf(marker, start + marker.length);
+      if (close === -1) continue;
+
+      const inner = text.slice(start + marker.length, close);
+      // 空・前後が空白の場合は記法とみなさない（例: 2 * 3 * 4）
+      if (!inner || /^\s|\s$/.test(inner)) continue;
+
+      return { inner, annotation, next: close + marker.length };
+    }
+    return null;
+  }
+
+  /**
+   * ai-summaryブロックを解析
+   * <!-- ai-summary:start id="img1" ... -->
+   * ![[image.png]]
+   * *キャプションテキスト*
+   * <!-- ai-summary:end id="img1" -->
+   */
+  private parseAiSummary(
+    lines: string[],
+    start: number
+  ): { node: NoteIRNode | null; next: number } {
+    let i = start + 1;
+    let imagePath: string | null = null;
+    let caption = "";
+
+    while (i < lines.length && !AI_SUMMARY_END_PATTERN.test(lines[i].trim())) {
+      const current = lines[i].trim();
+      const image = this.matchImage(current);
+      if (image) {
+        imagePath = image.path;
+      }
+
+      const captionMatch = current.match(/^\*(.+)\*$/);
+      if (captionMatch) {
+        caption = captionMatch[1].trim();
+      }
+      i++;
+    }
+
+    // ai-summary:end 行をスキップ
+    if (i < lines.length) i++;
+
+    if (!imagePath) {
+      return { node: null, next: i };
+    }
+    return {
+      node: { type: "image", content: imagePath, attributes: { caption } },
+      next: i,
+    };
+  }
+
+  /**
+   * コードブロックを解析（閉じられていない場合は末尾までをコードとして扱う）
+   */
+  private parseCodeBlock(lines: string[], start: number): { node: NoteIRNode; next: number } {
+    const fenceMatch = lines[start].trim().match(FENCE_PATTERN)!;
+    const fence = fenceMatch[1];
+    const codeLines: string[] = [];
+    let i = start + 1;
+
+    while (i < lines.length) {
+      // 開始と同じ文字で同じ長さ以上のフェンスのみで閉じる
+      const closeMatch = lines[i].trim().match(/^(`{3,}|~{3,})$/);
+      if (closeMatch && closeMatch[1][0] === fence[0] && closeMatch[1].length >= fence.length) {
+        i++;
+        break;
+      }
+      codeLines.push(lines[i]);
+      i++;
+    }
+
+    return {
+      node: {
+        type: "code",
+        content: codeLines.join("\n").replace(/^\n+|\s+$/g, ""),
+        attributes: { language: fenceMatch[2] || "" },
+      },
+      next: i,
+    };
+  }
+
+  /**
+   * 連続する引用行を1つの引用にまとめる
+   */
+  private parseQuote(lines: string[], start: number): { node: NoteIRNode | null; next: number } {
+    const innerLines: string[] = [];
+    let i = start;
+
+    while (i < lines.length) {
+      const match = lines[i].trim().match(QUOTE_PATTERN);
+      if (!match) break;
+      innerLines.push(match[1].trim());
+      i++;
+    }
+
+    return { node: this.buildQuote(innerLines), next: i };
+  }
+
+  /**
+   * 引用記号を1段外した行から引用ノードを作る（空行は除外）
+   * 先頭の入れ子でない行を引用の本文とし、入れ子の引用（> >）は子の引用、
+   * 入れ子の引用の後に続く行は子の段落にする
+   */
+  private buildQuote(innerLines: string[]): NoteIRNode | null {
+    const textLines: string[] = [];
+    const children: NoteIRNode[] = [];
+    let paragraphLines: string[] = [];
+    let i = 0;
+
+    const flushParagraph = () => {
+      if (paragraphLines.length > 0) {
+        children.push({ type: "paragraph", richText: this.parseInline(paragraphLines.join("\n")) });
+        paragraphLines = [];
+      }
+    };
+
+    while (i < innerLines.length) {
+      const line = innerLines[i];
+      if (QUOTE_PATTERN.test(line)) {
+        flushParagraph();
+        const nested = this.parseQuote(innerLines, i);
+        if (nested.node) children.push(nested.node);
+        i = nested.next;
+        continue;
+      }
+      if (line) {
+        (children.length > 0 ? paragraphLines : textLines).push(line);
+      }
+      i++;
+    }
+    flushParagraph();
+
+    if (textLines.length === 0 && children.length === 0) {
+      return null;
+    }
+
+    const calloutMatch = textLines[0]?.match(CALLOUT_PATTERN);
+    const node: NoteIRNode = calloutMatch
+      ? this.buildCallout(calloutMatch, textLines.slice(1))
+      : { type: "quote", richText: this.parseInline(textLines.join("\n")) };
+    return children.length > 0 ? { ...node, children } : node;
+  }
+
+  /**
+   * コールアウト（> [!type] タイトル）を、太字のタイトルと本文を持つ callout ノードにする
+   * タイトルを省略した場合は種類名をタイトルにする。折りたたみ指定（+ / -）は無視する
+   */
+  private buildCallout(match: RegExpMatchArray, bodyLines: string[]): NoteIRNode {
+    const kind = match[1].toLowerCase();
+    const title = match[2].trim() || kind.charAt(0).toUpperCase() + kind.slice(1);
+    const richText = this.parseInline(title, { bold: true });
+    if (bodyLines.length > 0) {
+      richText.push({ text: "\n", annotations: {} }, ...this.parseInline(bodyLines.join("\n")));
+    }
+    return {
+      type: "callout",
+      attributes: { icon: CALLOUT_ICONS[kind] ?? CALLOUT_ICONS.note },
+      richText,
+    };
+  }
+
+  /**
+   * リストを解析（より深いインデントの項目は直前の項目の子リストになる）
+   */
+  private parseList(lines: string[], start: number): { node: NoteIRNode; next: number } {
+    const first = this.matchListItem(lines[start])!;
+    const items: NoteIRNode[] = [];
+    let i = start;
+
+    while (i < lines.length) {
+      const item = this.matchListItem(lines[i]);
+      if (!item || item.indent < first.indent) break;
+
+      if (item.indent > first.indent) {
+        const parent = items[items.length - 1];
+        const nested = this.parseList(lines, i);
+        parent.children = [...(parent.children || []), nested.node];
+        i = nested.next;
+        continue;
+      }
+
+      // 同じ階層で種類が変わったら別のリストとして扱う
+      if (item.type !== first.type) break;
+
+      items.push({
+        type: first.type,
+        richText: this.parseInline(item.text),
+        ...(item.type === "todoList" ? { attributes: { checked: item.checked } } : {}),
+      });
+      i++;
+    }
+
+    return { node: { type: first.type, children: items }, next: i };
+  }
+
+  private matchListItem(line: string): ListItemMatch | null {
+    // 水平線（* * * など）はリストとみなさない
+    if (HR_PATTERN.test(line.trim())) return null;
+
+    const match = line.match(LIST_ITEM_PATTERN);
+    if (!match || !match[3].trim()) return null;
+
+    const indent = match[1].replace(/\t/g, "    ").length;
+    const text = match[3].trim();
+    if (/^\d/.test(match[2])) {
+      return { indent, type: "numberedList", text };
+    }
+
+    const taskMatch = text.match(TASK_ITEM_PATTERN);
+    if (taskMatch) {
+      return {
+        indent,
+        type: "todoList",
+        text: taskMatch[2].trim(),
+        checked: taskMatch[1] !== " ",
+      };
+    }
+    return { indent, type: "bulletList", text };
+  }
+
+  /**
+   * テーブルの開始行（ヘッダー行＋区切り行）かどうかを判定
+   */
+  private isTableStart(lines: string[], start: number): boolean {
+    const header = lines[start]?.trim();
+    const delimiter = lines[start + 1]?.trim();
+    if (!header || !delimiter || !header.includes("|") || !delimiter.includes("-")) {
+      return false;
+    }
+    if (!TABLE_DELIMITER_PATTERN.test(delimiter)) return false;
+    return this.splitTableRow(header).length === this.splitTableRow(delimiter).length;
+  }
+
+  /**
+   * GFM形式のテーブルを解析（NotionBlockParserと同じ table / tableRow / tableCell 構造）
+   */
+  private parseTable(lines: string[], start: number): { node: NoteIRNode; next: number } {
+    const header = this.splitTableRow(lines[start].trim());
+    const alignments: TableAlignment[] = this.splitTableRow(lines[start + 1].trim()).map((cell) => {
+      if (cell.startsWith(":") && cell.endsWith(":")) return "center";
+      if (cell.endsWith(":")) return "right";
+      if (cell.startsWith(":")) return "left";
+      return null;
+    });
+
+    const toRow = (cells: string[]): NoteIRNode => ({
+      type: "tableRow",
+      children: header.map((_, index) => ({
+        type: "tableCell" as const,
+        richText: this.parseInline(cells[index] || ""),
+      })),
+    });
+
+    const rows: NoteIRNode[] = [toRow(header)];
+    let i = start + 2;
+    while (i < lines.length) {
+      const trimmed = lines[i].trim();
+      if (!trimmed || !trimmed.includes("|")) break;
+      rows.push(toRow(this.splitTableRow(trimmed)));
+      i++;
+    }
+
+    return {
+      node: {
+        type: "table",
+        attributes: { hasColumnHeader: true, hasRowHeader: false, alignments },
+        children: rows,
+      },
+      next: i,
+    };
+  }
+
+  /**
+   * テーブルの行をセルに分割（\| はセル区切りとして扱わない）
+   */
+  private splitTableRow(line: string): string[] {
+    const inner = line.replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+    return inner.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+  }
+
+  /**
+   * 脚注の定義行を取り除き、ラベルごとの本文を記録する
+   * 定義の次の行からインデントされた行は同じ脚注の続きとして扱う
+   */
+  private extractFootnoteDefinitions(lines: string[]): string[] {
+    this.footnoteDefinitions = new Map();
+    this.footnoteOrder = [];
+
+    const remaining: string[] = [];
+    let inCode = false;
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (FENCE_PATTERN.test(line.trim())) {
+        inCode = !inCode;
+      }
+
+      const match = inCode ? null : line.match(FOOTNOTE_DEFINITION_PATTERN);
+      if (!match) {
+        remaining.push(line);
+        i++;
+        continue;
+      }
+
+      const textLines = [match[2].trim()];
+      i++;
+      while (i < lines.length && /^(?: {2,}|\t)\S/.test(lines[i])) {
+        textLines.push(lines[i].trim());
+        i++;
+      }
+      this.footnoteDefinitions.set(match[1], textLines.filter((text) => text).join("\n"));
+    }
+
+    return remaining;
+  }
+
+  private getFootnoteNumber(label: string): number {
+    let index = this.footnoteOrder.indexOf(label);
+    if (index === -1) {
+      this.footnoteOrder.push(label);
+      index = this.footnoteOrder.length - 1;
+    }
+    return index + 1;
+  }
+
+  /**
+   * 参照された脚注を番号順にまとめたノードを作る（参照されていない定義は出力しない）
+   */
+  private buildFootnotes(): NoteIRNode | null {
+    const items: NoteIRNode[] = [];
+    // 脚注本文からの参照で番号が増える場合があるため、長さを毎回確認する
+    for (let index = 0; index < this.footnoteOrder.length; index++) {
+      const text = this.footnoteDefinitions.get(this.footnoteOrder[index]) || "";
+      items.push({ type: "paragraph", richText: this.parseInline(text) });
+    }
+    return items.length > 0 ? { type: "footnotes", children: items } : null;
+  }
+
+  /**
+   * 画像行を解析
+   * キャプションは ![[file|caption]] / ![alt](path) のほか、
+   * 画像の直後の行（または空行を1つ挟んだ *キャプション* 行）からも取得する
+   */
+  private parseImage(lines: string[], start: number): { node: NoteIRNode; next: number } {
+    const image = this.matchImage(lines[start].trim())!;
+    let caption = image.caption;
+    let i = start + 1;
+
+    if (!caption) {
+      const next = lines[i]?.trim();
+      const afterBlank = lines[i + 1]?.trim();
+      if (next && !this.isBlockStart(next)) {
+        caption = this.stripCaptionEmphasis(next);
+        i++;
+      } else if (next === "" && afterBlank && /^\*[^*].*\*$/.test(afterBlank)) {
+        caption = this.stripCaptionEmphasis(afterBlank);
+        i += 2;
+      }
+    }
+
+    return {
+      node: { type: "image", content: image.path, attributes: { caption } },
+      next: i,
+    };
+  }
+
+  private matchImage(line: string): { path: string; caption: string } | null {
+    const obsidianMatch = line.match(OBSIDIAN_IMAGE_PATTERN);
+    if (obsidianMatch) {
+      const option = obsidianMatch[2]?.trim() || "";
+      return {
+        path: obsidianMatch[1].trim(),
+        caption: IMAGE_SIZE_PATTERN.test(option) ? "" : option,
+      };
+    }
+
+    const markdownMatch = line.match(MARKDOWN_IMAGE_PATTERN);
+    if (markdownMatch) {
+      const alt = markdownMatch[1].trim();
+      const imagePath = markdownMatch[2];
+      // ファイル名と同じaltはキャプションとして扱わない
+      const caption = markdownMatch[3] || (alt !== path.basename(imagePath) ? alt : "");
+      return { path: imagePath, caption };
+    }
+
+    return null;
+  }
+
+  private stripCaptionEmphasis(text: string): string {
+    const match = text.match(/^\*([^*].*)\*$/);
+    return (match ? match[1] : text).trim();
+  }
+
+  /**
+   * 空行または別のブロックが始まるまでの行を1つの段落にまとめる
+   */
+  private parseParagraph(lines: string[], start: number): { node: NoteIRNode; next: number } {
+    const paragraphLines: string[] = [lines[start].trim()];
+    let i = start + 1;
+
+    while (i < lines.length) {
+      const trimmed = lines[i].trim();
+      if (!trimmed || this.isBlockStart(trimmed) || this.isTableStart(lines, i)) break;
+      paragraphLines.push(trimmed);
+      i++;
+    }
+
+    return {
+      node: { type: "paragraph", richText: this.parseInline(paragraphLines.join("\n")) },
+      next: i,
+    };
+  }
+
+  private isImageLine(line: string): boolean {
+    return OBSIDIAN_IMAGE_PATTERN.test(line) || MARKDOWN_IMAGE_PATTERN.test(line);
+  }
+
+  /**
+   * 段落以外のブロックの開始行かどうかを判定
+   */
+  private isBlockStart(line: string): boolean {
+    return (
+      HEADING_PATTERN.test(line) ||
+      HR_PATTERN.test(line) ||
+      FENCE_PATTERN.test(line) ||
+      QUOTE_PATTERN.test(line) ||
+      HTML_COMMENT_PATTERN.test(line) ||
+      EMBED_URL_PATTERN.test(line) ||
+      AI_SUMMARY_START_PATTERN.test(line) ||
+      this.matchListItem(line) !== null ||
+      this.isImageLine(line)
+    );
+  }
+}
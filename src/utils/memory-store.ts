@@ -1,51 +1,162 @@
-import fs from "fs";
 import path from "path";
-import { fileURLToPath } from "url";
+import { env } from "../config/environment.js";
+import {
+  StorageBackend,
+  StorageBackendKind,
+  StorageMigrationResult,
+} from "../types/storage-types.js";
+import { JsonFileStorage } from "./json-file-storage.js";
+import { SqliteStorage } from "./sqlite-storage.js";
+import { getAccountNamespace, getDataDir, resolveDataPath } from "./data-dir.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+/**
+ * ストレージに保存される既知のキー（JSON形式時のファイル名）
+ * JSON → SQLite 移行時の対象一覧としても使う
+ */
+export const STORE_FILES = [
+  "memory-data.json",
+  "pdca-history.json",
+  "post-log.json",
+  "interaction-log.json",
+  "agent-log.json",
+  "agent-goal.json",
+  "format-stats.json",
+  "schedule-config.json",
+  "publish-queue.json",
+  "source-mappings.json",
+  "notion-sync.json",
+  "vault-watch.json",
+  "pv-history.json",
+  "creator-catalogues.json",
+  "competitor-history.json",
+] as const;
+
+// データディレクトリごとのストレージ（アカウント名前空間の切り替えに追従する）
+const backends = new Map<string, StorageBackend>();
+
+/**
+ * SQLiteデータベースファイルのパスを返す（相対パスはデータディレクトリ基準）
+ * 絶対パスの場合、名前空間のあるアカウントはファイル名に名前空間を付けた別ファイルを使う
+ * （キーはアカウントで区別しないため、同じファイルを共有すると互いのデータを上書きする）
+ */
+export function getSqlitePath(): string {
+  const sqlitePath = env.NOTE_SQLITE_PATH;
+  const namespace = getAccountNamespace();
+  if (!path.isAbsolute(sqlitePath) || !namespace) {
+    return resolveDataPath(sqlitePath);
+  }
+  const { dir, name, ext } = path.parse(sqlitePath);
+  return path.join(dir, `${name}.${namespace}${ext}`);
+}
+
+/**
+ * 指定種別のストレージを生成する
+ */
+export function createStorageBackend(kind: StorageBackendKind): StorageBackend {
+  return kind === "sqlite" ? new SqliteStorage(getSqlitePath()) : new JsonFileStorage();
+}
 
 /**
- * プロジェクトルート基準のJSONファイルパスを返す
- * src/utils/ → src/ → project root
+ * 環境変数 NOTE_STORAGE_BACKEND に従ったストレージを返す
+ * 同じデータディレクトリに対してはプロセス内で共有する
  */
-function getStorePath(filename: string): string {
-  return path.resolve(__dirname, "../../", filename);
+export function getStorageBackend(): StorageBackend {
+  const dataDir = getDataDir();
+  let backend = backends.get(dataDir);
+  if (!backend) {
+    backend = createStorageBackend(env.NOTE_STORAGE_BACKEND);
+    backends.set(dataDir, backend);
+  }
+  return backend;
 }
 
 /**
  * JSONファイルを読み込む。ファイルが存在しないまたはパースエラー時はデフォルト値を返す
  */
 export function readJsonStore<T>(filename: string, defaultValue: T): T {
-  const filePath = getStorePath(filename);
-  if (!fs.existsSync(filePath)) {
-    return defaultValue;
-  }
-  try {
-    const raw = fs.readFileSync(filePath, "utf-8");
-    return JSON.parse(raw) as T;
-  } catch {
-    return defaultValue;
-  }
+  return getStorageBackend().read(filename, defaultValue);
 }
 
 /**
  * JSONファイルに書き込む
  */
 export function writeJsonStore<T>(filename: string, data: T): void {
-  const filePath = getStorePath(filename);
-  const dir = path.dirname(filePath);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
-  fs.writeFileSync(filePath, JSON.stringify(data, null, 2) + "\n", "utf-8");
+  getStorageBackend().write(filename, data);
 }
 
 /**
  * JSON配列ファイルにエントリを追記する
  */
 export function appendToJsonArray<T>(filename: string, entry: T): void {
-  const current = readJsonStore<T[]>(filename, []);
-  current.push(entry);
-  writeJsonStore(filename, current);
+  getStorageBackend().append(filename, entry);
+}
+
+/**
+ * JSONストアを読み込み、更新関数の結果で置き換える
+ * 読み込みから書き込みまでを排他的に行うため、並行する追記や更新を取りこぼさない
+ */
+export function updateJsonStore<T>(
+  filename: string,
+  defaultValue: T,
+  updater: (current: T) => T
+): T {
+  return getStorageBackend().update(filename, defaultValue, updater);
+}
+
+/**
+ * appendToJsonArray の非同期版
+ * 他プロセスの書き込み中はイベントループを止めずに完了を待つ（非同期の処理ではこちらを使う）
+ */
+export function appendToJsonArrayAsync<T>(filename: string, entry: T): Promise<void> {
+  return getStorageBackend().appendAsync(filename, entry);
+}
+
+/**
+ * updateJsonStore の非同期版
+ * 他プロセスの書き込み中はイベントループを止めずに完了を待つ（非同期の処理ではこちらを使う）
+ */
+export function updateJsonStoreAsync<T>(
+  filename: string,
+  defaultValue: T,
+  updater: (current: T) => T
+): Promise<T> {
+  return getStorageBackend().updateAsync(filename, defaultValue, updater);
+}
+
+/**
+ * 既存のJSONファイルを指定ストレージへ取り込む
+ * 移行先に既にデータがあるキーは force 指定時のみ上書きする
+ */
+export function migrateJsonStores(
+  target: StorageBackend,
+  options: { force?: boolean; keys?: readonly string[] } = {}
+): StorageMigrationResult[] {
+  const source = new JsonFileStorage();
+  const keys = options.keys ?? STORE_FILES;
+  const results: StorageMigrationResult[] = [];
+
+  for (const key of keys) {
+    if (!source.has(key)) {
+      results.push({ key, status: "missing" });
+      continue;
+    }
+    if (target.has(key) && !options.force) {
+      results.push({ key, status: "skipped", reason: "移行先に既にデータがあります" });
+      continue;
+    }
+
+    const data = source.read<unknown>(key, null);
+    if (data === null) {
+      results.push({ key, status: "skipped", reason: "JSONの読み込みに失敗しました" });
+      continue;
+    }
+    target.write(key, data);
+    results.push({
+      key,
+      status: "imported",
+      entries: Array.isArray(data) ? data.length : 1,
+    });
+  }
+
+  return results;
 }
@@ -1,5 +1,10 @@
 import { Page } from "playwright";
-import path from "path";
+import { NoteIRNode, RichTextSpan } from "../types/notion-types.js";
+import { NoteFrontmatter } from "../types/note-types.js";
+import { readNoteFrontmatter, splitFrontmatter } from "./frontmatter.js";
+import { MarkdownParser } from "./markdown-parser.js";
+import { PAYWALL_EDITOR_TEXT } from "./paid-content.js";
+import { formatTableAsText, TASK_CHECKED_MARK, TASK_UNCHECKED_MARK } from "./note-html-renderer.js";
 
 /**
  * Markdownの要素タイプ
@@ -13,7 +18,11 @@ export type MarkdownElementType =
   | "quote" // > 引用
   | "code" // ```コードブロック```
   | "image" // ![alt](path) 画像
-  | "hr"; // --- 区切り線
+  | "hr" // --- 区切り線
+  | "embed" // URLだけの行（埋め込みカード）
+  | "todoList" // - [ ] タスクリスト（☐/☑ 付きの箇条書きとして入力）
+  | "table" // | a | b | テーブル（列を揃えたコードブロックとして入力）
+  | "paywall"; // <!-- paywall --> 有料ライン（目印の段落を入力し、保存後に有料エリアを設定）
 
 /**
  * パースされたMarkdown要素
@@ -30,229 +39,151 @@ export interface MarkdownElement {
  * MarkdownをnoteエディタのUI操作用に解析
  */
 export function parseMarkdown(markdown: string): MarkdownElement[] {
-  const elements: MarkdownElement[] = [];
-  const lines = markdown.split("\n");
-
-  let i = 0;
-  while (i < lines.length) {
-    const line = lines[i];
+  return convertIRToEditorElements(new MarkdownParser().parse(markdown));
+}
 
-    // 空行はスキップ
-    if (line.trim() === "") {
-      i++;
-      continue;
-    }
+/**
+ * IR（中間表現）をnoteエディタのUI操作用の要素に変換
+ * エディタに入力できない装飾はテキストのみを残す
+ */
+export function convertIRToEditorElements(nodes: NoteIRNode[]): MarkdownElement[] {
+  const elements: MarkdownElement[] = [];
 
-    // ai-summaryタグブロックの処理
-    // <!-- ai-summary:start id="img1" ... -->
-    // ![[image.png]]
-    // *キャプションテキスト*
-    // <!-- ai-summary:end id="img1" -->
-    const aiSummaryStartMatch = line.match(/^<!--\s*ai-summary:start\s+id="([^"]+)"/);
-    if (aiSummaryStartMatch) {
-      const blockId = aiSummaryStartMatch[1];
-      i++;
-
-      let imagePath: string | null = null;
-      let caption: string | null = null;
-
-      // ai-summary:end まで読み進める
-      while (i < lines.length && !lines[i].match(/^<!--\s*ai-summary:end/)) {
-        const currentLine = lines[i].trim();
-
-        // 画像行を検出
-        const obsidianImg = currentLine.match(/^!\[\[([^\]|]+)(?:\|[^\]]+)?\]\]$/);
-        const mdImg = currentLine.match(/^!\[([^\]]*)\]\(([^)]+)\)$/);
-
-        if (obsidianImg) {
-          imagePath = obsidianImg[1];
-        } else if (mdImg) {
-          imagePath = mdImg[2];
+  for (const node of nodes) {
+    switch (node.type) {
+      case "heading": {
+        const level = node.attributes?.level || 1;
+        const content = richTextToEditorText(node.richText);
+        if (level <= 2) {
+          elements.push({ type: "heading2", content });
+        } else if (level === 3) {
+          elements.push({ type: "heading3", content });
+        } else {
+          elements.push({ type: "paragraph", content });
         }
+        break;
+      }
 
-        // キャプション行を検出（*で囲まれたテキスト）
-        const captionMatch = currentLine.match(/^\*(.+)\*$/);
-        if (captionMatch) {
-          caption = captionMatch[1].trim();
-        }
+      case "paragraph":
+        elements.push({ type: "paragraph", content: richTextToEditorText(node.richText) });
+        break;
 
-        i++;
-      }
+      case "bulletList":
+      case "numberedList":
+        // エディタでは入れ子のリストを作れないため、子項目も同じリストに並べる
+        elements.push({ type: node.type, content: flattenListItems(node).join("\n") });
+        break;
 
-      // ai-summary:end 行をスキップ
-      if (i < lines.length && lines[i].match(/^<!--\s*ai-summary:end/)) {
-        i++;
-      }
+      case "todoList":
+        elements.push({ type: "todoList", content: flattenListItems(node).join("\n") });
+        break;
+
+      case "table":
+        elements.push({ type: "table", content: formatTableAsText(node) });
+        break;
 
-      // 画像要素を追加
-      if (imagePath) {
+      case "footnotes":
+        elements.push({ type: "hr", content: "" });
+        elements.push({ type: "paragraph", content: "脚注" });
         elements.push({
-          type: "image",
-          content: imagePath,
-          imagePath: imagePath,
-          caption: caption || undefined,
+          type: "numberedList",
+          content: (node.children || [])
+            .map((item) => richTextToEditorText(item.richText).replace(/\n/g, " "))
+            .join("\n"),
         });
-      }
-      continue;
-    }
-
-    // コードブロック
-    if (line.startsWith("```")) {
-      const language = line.slice(3).trim();
-      const codeLines: string[] = [];
-      i++;
-      while (i < lines.length && !lines[i].startsWith("```")) {
-        codeLines.push(lines[i]);
-        i++;
-      }
-      elements.push({
-        type: "code",
-        content: codeLines.join("\n"),
-        language,
-      });
-      i++;
-      continue;
-    }
+        break;
 
-    // 見出し
-    if (line.startsWith("## ")) {
-      elements.push({ type: "heading2", content: line.slice(3).trim() });
-      i++;
-      continue;
-    }
-    if (line.startsWith("### ")) {
-      elements.push({ type: "heading3", content: line.slice(4).trim() });
-      i++;
-      continue;
-    }
+      case "quote":
+      case "callout":
+        elements.push({ type: "quote", content: quoteToEditorText(node) });
+        break;
 
-    // 区切り線
-    if (line.match(/^---+$/)) {
-      elements.push({ type: "hr", content: "" });
-      i++;
-      continue;
-    }
+      case "code":
+        elements.push({
+          type: "code",
+          content: node.content || "",
+          language: node.attributes?.language || "",
+        });
+        break;
 
-    // 引用（複数行対応、スペースなしの形式も対応）
-    // "> text" または ">text" の両方に対応
-    if (line.match(/^>\s?/)) {
-      const quoteLines: string[] = [];
-      while (i < lines.length && lines[i].match(/^>\s?/)) {
-        // ">" の後のスペースを除去してテキストを取得
-        quoteLines.push(lines[i].replace(/^>\s?/, "").trim());
-        i++;
-      }
-      // 空行のみの引用は除外
-      const filteredLines = quoteLines.filter((l) => l.length > 0);
-      if (filteredLines.length > 0) {
-        elements.push({ type: "quote", content: filteredLines.join("\n") });
-      }
-      continue;
-    }
+      case "divider":
+        elements.push({ type: "hr", content: "" });
+        break;
 
-    // 箇条書き
-    if (line.match(/^[-*] /)) {
-      const listItems: string[] = [];
-      while (i < lines.length && lines[i].match(/^[-*] /)) {
-        listItems.push(lines[i].replace(/^[-*] /, "").trim());
-        i++;
-      }
-      elements.push({ type: "bulletList", content: listItems.join("\n") });
-      continue;
-    }
+      case "paywall":
+        elements.push({ type: "paywall", content: PAYWALL_EDITOR_TEXT });
+        break;
 
-    // 番号付きリスト
-    if (line.match(/^\d+\. /)) {
-      const listItems: string[] = [];
-      while (i < lines.length && lines[i].match(/^\d+\. /)) {
-        listItems.push(lines[i].replace(/^\d+\. /, "").trim());
-        i++;
-      }
-      elements.push({ type: "numberedList", content: listItems.join("\n") });
-      continue;
-    }
+      case "image":
+        elements.push({
+          type: "image",
+          content: node.content || "",
+          imagePath: node.content,
+          caption: node.attributes?.caption || undefined,
+        });
+        break;
 
-    // 画像 ![[filename]] または ![alt](path)
-    const obsidianImageMatch = line.match(/^!\[\[([^\]|]+)(?:\|[^\]]+)?\]\]$/);
-    const mdImageMatch = line.match(/^!\[([^\]]*)\]\(([^)]+)\)$/);
-
-    if (obsidianImageMatch) {
-      const imageElement: MarkdownElement = {
-        type: "image",
-        content: obsidianImageMatch[1],
-        imagePath: obsidianImageMatch[1],
-      };
-      elements.push(imageElement);
-      i++;
-
-      // 画像直後の空行を1行だけスキップ
-      if (i < lines.length && lines[i].trim() === "") {
-        i++;
-      }
+      case "bookmark":
+      case "embed":
+        if (node.content) {
+          elements.push({ type: "embed", content: node.content });
+          if (node.attributes?.caption) {
+            elements.push({ type: "paragraph", content: node.attributes.caption });
+          }
+        }
+        break;
 
-      // 次の行がキャプションかチェック
-      if (
-        i < lines.length &&
-        lines[i].trim() &&
-        !lines[i].match(/^#{1,6}\s/) &&
-        !lines[i].match(/^[-*]\s/) &&
-        !lines[i].match(/^\d+\.\s/) &&
-        !lines[i].match(/^>\s/) &&
-        !lines[i].match(/^```/) &&
-        !lines[i].match(/^---+$/) &&
-        !lines[i].match(/^!\[/)
-      ) {
-        // 画像直後のテキスト行をキャプションとして扱う
-        imageElement.caption = lines[i].trim();
-        i++;
-      }
-      continue;
+      case "unsupported":
+        if (node.content) {
+          elements.push({ type: "paragraph", content: node.content });
+        }
+        break;
     }
+  }
 
-    if (mdImageMatch) {
-      const imageElement: MarkdownElement = {
-        type: "image",
-        content: mdImageMatch[1],
-        imagePath: mdImageMatch[2],
-        caption:
-          mdImageMatch[1] && mdImageMatch[1] !== path.basename(mdImageMatch[2])
-            ? mdImageMatch[1]
-            : undefined,
-      };
-      elements.push(imageElement);
-      i++;
-
-      // 画像直後の空行を1行だけスキップ
-      if (i < lines.length && lines[i].trim() === "") {
-        i++;
-      }
+  return elements;
+}
 
-      // 次の行がキャプションかチェック（altテキストがない場合）
-      if (
-        !mdImageMatch[1] &&
-        i < lines.length &&
-        lines[i].trim() &&
-        !lines[i].match(/^#{1,6}\s/) &&
-        !lines[i].match(/^[-*]\s/) &&
-        !lines[i].match(/^\d+\.\s/) &&
-        !lines[i].match(/^>\s/) &&
-        !lines[i].match(/^```/) &&
-        !lines[i].match(/^---+$/) &&
-        !lines[i].match(/^!\[/)
-      ) {
-        // 画像直後のテキスト行をキャプションとして扱う
-        imageElement.caption = lines[i].trim();
-        i++;
-      }
-      continue;
+function flattenListItems(list: NoteIRNode): string[] {
+  const items: string[] = [];
+  for (const item of list.children || []) {
+    const mark =
+      item.type === "todoList"
+        ? `${item.attributes?.checked ? TASK_CHECKED_MARK : TASK_UNCHECKED_MARK} `
+        : "";
+    items.push(mark + richTextToEditorText(item.richText));
+    for (const child of item.children || []) {
+      items.push(...flattenListItems(child));
     }
+  }
+  return items;
+}
 
-    // 通常のテキスト（段落）
-    elements.push({ type: "paragraph", content: line.trim() });
-    i++;
+/**
+ * 引用の本文と入れ子の引用・段落を1つの引用のテキストにする（エディタでは引用を入れ子にできないため）
+ */
+function quoteToEditorText(node: NoteIRNode): string {
+  const icon = node.attributes?.icon ? `${node.attributes.icon} ` : "";
+  const lines = [icon + richTextToEditorText(node.richText)];
+  for (const child of node.children || []) {
+    lines.push(
+      child.type === "quote" || child.type === "callout"
+        ? quoteToEditorText(child)
+        : richTextToEditorText(child.richText)
+    );
   }
+  return lines.filter((line) => line).join("\n");
+}
 
-  return elements;
+/**
+ * リッチテキストをエディタに入力するテキストに変換（リンクはURLを括弧書きで残す）
+ */
+function richTextToEditorText(spans: RichTextSpan[] = []): string {
+  return spans
+    .map((span) =>
+      span.href && span.href !== span.text ? `${span.text} (${span.href})` : span.text
+    )
+    .join("");
 }
 
 /**
@@ -281,8 +212,7 @@ export async function formatToNoteEditor(
         break;
 
       case "paragraph":
-        await page.keyboard.type(element.content);
-        await page.keyboard.press("Enter");
+        await insertParagraph(page, element.content);
         break;
 
       case "bulletList":
@@ -293,6 +223,20 @@ export async function formatToNoteEditor(
         await insertNumberedList(page, element.content.split("\n"));
         break;
 
+      case "embed":
+        await insertEmbed(page, element.content);
+        break;
+
+      case "todoList":
+        // noteエディタにはチェックボックスがないため、☐/☑ 付きの箇条書きとして入力
+        await insertBulletList(page, element.content.split("\n"));
+        break;
+
+      case "table":
+        // noteエディタにはテーブルがないため、列を揃えたコードブロックとして入力
+        await insertCodeBlock(page, element.content);
+        break;
+
       case "quote":
         await insertQuote(page, element.content);
         break;
@@ -332,6 +276,11 @@ export async function formatToNoteEditor(
       case "hr":
         await insertHorizontalRule(page);
         break;
+
+      case "paywall":
+        // エディタから有料ラインは設定できないため、目印の段落だけ入力する
+        await insertParagraph(page, element.content);
+        break;
     }
 
     // 要素間に少し待機
@@ -339,6 +288,20 @@ export async function formatToNoteEditor(
   }
 }
 
+/**
+ * 段落を入力（段落内の改行は Shift+Enter）
+ */
+async function insertParagraph(page: Page, text: string): Promise<void> {
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    await page.keyboard.type(lines[i]);
+    if (i < lines.length - 1) {
+      await page.keyboard.press("Shift+Enter");
+    }
+  }
+  await page.keyboard.press("Enter");
+}
+
 /**
  * 見出しを挿入（「+」メニューから）
  */
@@ -503,6 +466,35 @@ async function insertCodeBlock(page: Page, code: string, language?: string): Pro
   await page.keyboard.press("Enter");
 }
 
+/**
+ * 埋め込みを挿入（「+」メニューの「埋め込み」からURLを入力）
+ */
+async function insertEmbed(page: Page, url: string): Promise<void> {
+  // 「+」ボタンをクリック
+  await clickPlusButton(page);
+
+  // メニューから埋め込みを選択
+  const menuItem = page.locator('[role="menuitem"]:has-text("埋め込み")').first();
+
+  try {
+    await menuItem.waitFor({ state: "visible", timeout: 3000 });
+    await menuItem.click();
+    await page.waitForTimeout(500);
+  } catch (e) {
+    // フォールバック: メニューを閉じてから、URLだけの行として入力（エディタ側でカード化される）
+    await page.keyboard.press("Escape");
+    await page.waitForTimeout(300);
+    await page.keyboard.type(url);
+    await page.keyboard.press("Enter");
+    return;
+  }
+
+  // URL入力欄に入力して確定し、カードの読み込みを待つ
+  await page.keyboard.type(url);
+  await page.keyboard.press("Enter");
+  await page.waitForTimeout(2000);
+}
+
 /**
  * 区切り線を挿入
  */
@@ -587,5 +579,28 @@ export function removeTitle(markdown: string): string {
  * Frontmatterを除去
  */
 export function removeFrontmatter(markdown: string): string {
-  return markdown.replace(/^---\n[\s\S]*?\n---\n?/, "");
+  return splitFrontmatter(markdown).content;
+}
+
+/**
+ * Markdown記事
+ */
+export interface MarkdownArticle {
+  title: string;
+  body: string; // Frontmatterとタイトル行を除いた本文
+  frontmatter: NoteFrontmatter;
+}
+
+/**
+ * Markdown記事をFrontmatter・タイトル・本文に分ける
+ * タイトルは Frontmatter の title を優先し、なければ # 見出しから取る
+ */
+export function parseMarkdownArticle(markdown: string): MarkdownArticle {
+  const { data, content } = splitFrontmatter(markdown);
+  const frontmatter = readNoteFrontmatter(data);
+  return {
+    title: frontmatter.title || extractTitle(content),
+    body: removeTitle(content.trimStart()).trim(),
+    frontmatter,
+  };
 }
@@ -0,0 +1,80 @@
+import { noteApiRequest } from "./api-client.js";
+import { MarkdownParser } from "./markdown-parser.js";
+import { detectEmbedService } from "./note-html-renderer.js";
+import { API_ENDPOINTS } from "../config/api-config.js";
+import { NoteIRNode } from "../types/notion-types.js";
+
+/**
+ * noteの埋め込みカード用のキーを扱うユーティリティ
+ *
+ * 本文HTMLの埋め込みカード（figure embedded-service）は、noteが記事ごとに発行する
+ * embedded-content-key がないと表示されない。エディタでURLを貼り付けたときと同じAPIで
+ * 記事を作成した後にキーを発行し、NoteHtmlRenderer の embedKeys に渡して出力する。
+ */
+
+export interface EmbedKeyResult {
+  // 埋め込みURL → 発行されたキー
+  keys: Map<string, string>;
+  warnings: string[];
+}
+
+/**
+ * Markdown中の埋め込み（URLだけの行）のURLを出現順に重複なく返す
+ */
+export function collectEmbedUrls(markdown: string): string[] {
+  const urls: string[] = [];
+  const visit = (nodes: NoteIRNode[]) => {
+    for (const node of nodes) {
+      if (node.type === "embed" && node.content && !urls.includes(node.content)) {
+        urls.push(node.content);
+      }
+      visit(node.children || []);
+    }
+  };
+  visit(new MarkdownParser().parse(markdown));
+  return urls;
+}
+
+/**
+ * 記事に埋め込むURLごとにキーを発行する（現在のアカウントで実行）
+ * 記事IDは数値IDと記事キーのどちらでもよい（発行には記事キーを使うため、記事情報から取得する）
+ * 発行に失敗したURLはキーなしとし、レンダラーはリンクの段落として出力する
+ */
+export async function issueEmbedKeys(urls: string[], noteId: string): Promise<EmbedKeyResult> {
+  const result: EmbedKeyResult = { keys: new Map(), warnings: [] };
+  if (urls.length === 0) {
+    return result;
+  }
+
+  const noteInfo = await noteApiRequest(`/v3/notes/${noteId}`, "GET", null, true);
+  const noteKey = String(noteInfo.data?.key || noteId);
+
+  for (const url of urls) {
+    const params = new URLSearchParams({
+      url,
+      service: detectEmbedService(url),
+      embeddable_key: noteKey,
+      embeddable_type: "Note",
+    });
+    try {
+      const data = await noteApiRequest(
+        `${API_ENDPOINTS.EMBED}?${params.toString()}`,
+        "GET",
+        null,
+        true
+      );
+      const key = data.data?.key;
+      if (!key) {
+        throw new Error("キーが返されませんでした");
+      }
+      result.keys.set(url, String(key));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.warnings.push(
+        `埋め込みカードを作成できないため、リンクにしました: ${url}（${message}）`
+      );
+    }
+  }
+
+  return result;
+}
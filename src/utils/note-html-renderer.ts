@@ -0,0 +1,317 @@
+import { NoteIRNode, RichTextSpan, TableAlignment } from "../types/notion-types.js";
+import { PAYWALL_MARKER } from "./paid-content.js";
+
+/**
+ * IR（中間表現）をnote.com用HTMLに変換するレンダラー
+ *
+ * note.com変換ルール：
+ * - 見出しレベル1, 2 → 大見出し (h2)
+ * - 見出しレベル3 → 小見出し (h3)
+ * - 見出しレベル4〜6 → 強調 (strong)
+ * - 箇条書き → ul/li、番号付きリスト → ol/li（入れ子は li 内に出力）
+ * - コードブロック → pre/code
+ * - 引用・コールアウト → blockquote（入れ子の引用は blockquote 内に出力）
+ * - タスクリスト → ☐/☑ を先頭に付けた ul/li
+ * - テーブル → 列を揃えた pre/code（noteはtableタグに対応していないため）
+ * - 埋め込み・ブックマーク → noteの埋め込みカード（figure embedded-service）
+ *   （カードの表示にはnoteが発行するキーが必要。キーがないURLはリンクだけの段落にする）
+ * - 脚注 → 本文の [n] から末尾の脚注一覧へのリンクと、脚注から本文へ戻るリンク
+ * - 有料ライン → <!-- paywall -->（投稿時に splitPaidBody で無料部分と有料部分に分ける）
+ * - 段落内の改行 → <br>
+ *
+ * テキスト中のHTMLはエスケープせずそのまま出力する（本文に埋め込まれたタグを保持するため）。
+ * コードのみエスケープする。
+ */
+
+export interface NoteHtmlRenderOptions {
+  // 画像ノードの出力を差し替える（未指定時は figure/img を出力）
+  renderImage?: (node: NoteIRNode) => string;
+  // 埋め込みURL → noteが発行した埋め込みカードのキー（issueEmbedKeys で発行する）
+  embedKeys?: Map<string, string>;
+}
+
+export const TASK_UNCHECKED_MARK = "☐";
+export const TASK_CHECKED_MARK = "☑";
+
+export class NoteHtmlRenderer {
+  // 本文から参照済みの脚注番号（戻りリンク用のidは最初の参照にだけ付ける）
+  private renderedFootnotes = new Set<number>();
+
+  constructor(private options: NoteHtmlRenderOptions = {}) {}
+
+  /**
+   * IRノードの配列をHTMLに変換
+   */
+  render(nodes: NoteIRNode[]): string {
+    this.renderedFootnotes = new Set();
+    return nodes.map((node) => this.renderNode(node)).join("");
+  }
+
+  /**
+   * 個別のIRノードをHTMLに変換
+   */
+  private renderNode(node: NoteIRNode): string {
+    switch (node.type) {
+      case "heading":
+        return this.renderHeading(node);
+
+      case "paragraph":
+        return `<p>${this.renderRichText(node.richText)}</p>`;
+
+      case "bulletList":
+        return this.renderList(node, "ul");
+
+      case "numberedList":
+        return this.renderList(node, "ol");
+
+      case "todoList":
+        return this.renderList(node, "ul");
+
+      case "table":
+        return `<pre><code>${escapeHtml(formatTableAsText(node))}</code></pre>`;
+
+      case "footnotes":
+        return this.renderFootnotes(node);
+
+      case "code":
+        return `<pre><code>${escapeHtml(node.content || "")}</code></pre>`;
+
+      case "quote":
+      case "callout":
+        return this.renderQuote(node);
+
+      case "divider":
+        return "<hr>";
+
+      case "paywall":
+        return PAYWALL_MARKER;
+
+      case "image":
+        return this.renderImage(node);
+
+      case "bookmark":
+      case "embed":
+        return this.renderEmbed(node);
+
+      case "unsupported":
+        return node.content ? `<p>${node.content}</p>` : "";
+
+      default:
+        return "";
+    }
+  }
+
+  private renderHeading(node: NoteIRNode): string {
+    const level = node.attributes?.level || 1;
+    const text = this.renderRichText(node.richText);
+
+    if (level <= 2) return `<h2>${text}</h2>`;
+    if (level === 3) return `<h3>${text}</h3>`;
+    return `<p><strong>${text}</strong></p>`;
+  }
+
+  private renderQuote(node: NoteIRNode): string {
+    const icon = node.type === "callout" && node.attributes?.icon ? `${node.attributes.icon} ` : "";
+    const nested = (node.children || []).map((child) => this.renderNode(child)).join("");
+    return `<blockquote>${icon}${this.renderRichText(node.richText)}${nested}</blockquote>`;
+  }
+
+  private renderList(node: NoteIRNode, tag: "ul" | "ol"): string {
+    const items = (node.children || []).map((item) => {
+      const nested = (item.children || []).map((child) => this.renderNode(child)).join("");
+      const mark =
+        item.type === "todoList"
+          ? `${item.attributes?.checked ? TASK_CHECKED_MARK : TASK_UNCHECKED_MARK} `
+          : "";
+      return `<li>${mark}${this.renderRichText(item.richText)}${nested}</li>`;
+    });
+    return `<${tag}>${items.join("")}</${tag}>`;
+  }
+
+  private renderFootnotes(node: NoteIRNode): string {
+    const items = (node.children || []).map((item, index) => {
+      const number = index + 1;
+      return `<li id="fn-${number}">${this.renderRichText(item.richText)} <a href="#fnref-${number}">↩</a></li>`;
+    });
+    return `<hr><p><strong>脚注</strong></p><ol>${items.join("")}</ol>`;
+  }
+
+  private renderEmbed(node: NoteIRNode): string {
+    const url = node.content || "";
+    if (!url) return "";
+
+    const src = escapeHtml(url);
+    const caption = node.attributes?.caption ? `<p>${escapeHtml(node.attributes.caption)}</p>` : "";
+    const key = this.options.embedKeys?.get(url);
+    if (!key) {
+      return `<p><a href="${src}">${src}</a></p>${caption}`;
+    }
+
+    const service = detectEmbedService(url);
+    return `<figure embedded-service="${service}" data-src="${src}" embedded-content-key="${escapeHtml(key)}" contenteditable="false"></figure>${caption}`;
+  }
+
+  private renderImage(node: NoteIRNode): string {
+    if (this.options.renderImage) {
+      return this.options.renderImage(node);
+    }
+
+    const src = escapeHtml(node.content || "");
+    const caption = node.attributes?.caption || "";
+    return `<figure><img src="${src}" alt="" width="620" height="auto"><figcaption>${caption}</figcaption></figure>`;
+  }
+
+  /**
+   * リッチテキストをHTMLに変換
+   */
+  renderRichText(spans: RichTextSpan[] = []): string {
+    return spans
+      .map((span) => {
+        if (span.footnote) {
+          return this.renderFootnoteReference(span.footnote);
+        }
+
+        let html = span.annotations.code
+          ? `<code>${escapeHtml(span.text)}</code>`
+          : span.text.replace(/\n/g, "<br>");
+
+        if (span.annotations.strikethrough) {
+          html = `<del>${html}</del>`;
+        }
+        if (span.annotations.italic) {
+          html = `<em>${html}</em>`;
+        }
+        if (span.annotations.bold) {
+          html = `<strong>${html}</strong>`;
+        }
+        if (span.href) {
+          html = `<a href="${escapeHtml(span.href)}">${html}</a>`;
+        }
+        return html;
+      })
+      .join("");
+  }
+
+  private renderFootnoteReference(number: number): string {
+    const link = `<a href="#fn-${number}">[${number}]</a>`;
+    if (this.renderedFootnotes.has(number)) {
+      return link;
+    }
+    this.renderedFootnotes.add(number);
+    return `<a id="fnref-${number}" href="#fn-${number}">[${number}]</a>`;
+  }
+}
+
+/**
+ * URLからnoteの埋め込みサービス種別を判定
+ */
+export function detectEmbedService(url: string): string {
+  let host: string;
+  try {
+    host = new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "external-article";
+  }
+
+  if (host === "youtube.com" || host === "m.youtube.com" || host === "youtu.be") {
+    return "youtube";
+  }
+  if (host === "twitter.com" || host === "x.com") {
+    return "twitter";
+  }
+  if (host === "note.com" || host.endsWith(".note.com")) {
+    return "note";
+  }
+  return "external-article";
+}
+
+/**
+ * リッチテキストのスパン列をプレーンテキストに変換
+ */
+export function richTextToPlainText(spans: RichTextSpan[] = []): string {
+  return spans.map((span) => span.text).join("");
+}
+
+/**
+ * テーブルノードを列幅を揃えたテキストに変換（全角文字は幅2として数える。列の揃えは区切り行の : で残す）
+ */
+export function formatTableAsText(node: NoteIRNode): string {
+  const rows = (node.children || []).map((row) =>
+    (row.children || []).map((cell) => richTextToPlainText(cell.richText).replace(/\n/g, " "))
+  );
+  if (rows.length === 0) return "";
+
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const alignments = node.attributes?.alignments || [];
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.max(1, ...rows.map((row) => getDisplayWidth(row[column] || "")))
+  );
+
+  const formatRow = (row: string[]) =>
+    `| ${widths.map((width, column) => padCell(row[column] || "", width, alignments[column] ?? null)).join(" | ")} |`;
+
+  const lines = rows.map(formatRow);
+  if (node.attributes?.hasColumnHeader) {
+    const delimiters = widths.map((width, column) =>
+      formatDelimiter(width + 2, alignments[column] ?? null)
+    );
+    lines.splice(1, 0, `|${delimiters.join("|")}|`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 区切り行のセル（揃えの指定は Markdown と同じ : で残す）
+ */
+function formatDelimiter(width: number, alignment: TableAlignment): string {
+  if (alignment === "center") return `:${"-".repeat(width - 2)}:`;
+  if (alignment === "right") return `${"-".repeat(width - 1)}:`;
+  if (alignment === "left") return `:${"-".repeat(width - 1)}`;
+  return "-".repeat(width);
+}
+
+function padCell(text: string, width: number, alignment: TableAlignment): string {
+  const space = width - getDisplayWidth(text);
+  if (alignment === "right") {
+    return " ".repeat(space) + text;
+  }
+  if (alignment === "center") {
+    const left = Math.floor(space / 2);
+    return " ".repeat(left) + text + " ".repeat(space - left);
+  }
+  return text + " ".repeat(space);
+}
+
+/**
+ * 等幅フォントでの表示幅を返す（CJK・全角・絵文字は幅2）
+ */
+function getDisplayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) || 0;
+    const isWide =
+      (code >= 0x1100 && code <= 0x115f) ||
+      (code >= 0x2e80 && code <= 0xa4cf) ||
+      (code >= 0xac00 && code <= 0xd7a3) ||
+      (code >= 0xf900 && code <= 0xfaff) ||
+      (code >= 0xfe30 && code <= 0xfe4f) ||
+      (code >= 0xff00 && code <= 0xff60) ||
+      (code >= 0xffe0 && code <= 0xffe6) ||
+      (code >= 0x1f300 && code <= 0x1faff) ||
+      (code >= 0x20000 && code <= 0x3fffd);
+    width += isWide ? 2 : 1;
+  }
+  return width;
+}
+
+/**
+ * HTMLエスケープ
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
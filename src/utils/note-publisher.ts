@@ -0,0 +1,177 @@
+import { noteApiRequest } from "./api-client.js";
+import { buildAuthHeaders } from "./auth.js";
+import { getNoteUserId } from "./account-context.js";
+import { addNoteToMagazines, buildPaidFields, splitPaidBody } from "./paid-content.js";
+import { NoteApiResponse } from "../types/api-types.js";
+import { NotePaidSettings } from "../types/note-types.js";
+
+export interface PublishOverrides {
+  title?: string;
+  body?: string;
+  tags?: string[];
+  paid?: NotePaidSettings;
+}
+
+export interface PublishResult {
+  data: NoteApiResponse;
+  noteUrl: string;
+  warnings: string[];
+}
+
+/**
+ * 公開前の記事情報（下書きの内容）を取得する
+ */
+export async function fetchDraftNote(noteId: string): Promise<any> {
+  const params = new URLSearchParams({
+    draft: "true",
+    draft_reedit: "false",
+    ts: Date.now().toString(),
+  });
+
+  const noteData = await noteApiRequest(
+    `/v3/notes/${noteId}?${params.toString()}`,
+    "GET",
+    null,
+    true
+  );
+  return noteData.data || {};
+}
+
+/**
+ * 下書きの本文を保存する（fields には有料設定などの追加項目を指定）
+ */
+export async function saveDraftNote(
+  noteId: string,
+  title: string,
+  body: string,
+  fields: Record<string, unknown> = {}
+): Promise<NoteApiResponse> {
+  const headers = buildAuthHeaders();
+  headers["content-type"] = "application/json";
+  headers["origin"] = "https://editor.note.com";
+  headers["referer"] = "https://editor.note.com/";
+  headers["x-requested-with"] = "XMLHttpRequest";
+
+  return noteApiRequest(
+    `/v1/text_notes/draft_save?id=${noteId}&is_temp_saved=true`,
+    "POST",
+    {
+      body,
+      body_length: body.length,
+      name: title || "無題",
+      index: false,
+      is_lead_form: false,
+      ...fields,
+    },
+    true,
+    headers
+  );
+}
+
+export interface NoteUpdate {
+  title: string;
+  body: string;
+  tags?: string[];
+  // 省略時は記事の現在の状態（下書き・公開）を維持する
+  status?: "draft" | "published";
+  // 有料設定などの追加項目
+  fields?: Record<string, unknown>;
+}
+
+/**
+ * 既存の記事の内容を置き換える（記事IDは数値IDと記事キーのどちらでもよい）
+ */
+export async function updateNote(noteId: string, update: NoteUpdate): Promise<NoteApiResponse> {
+  // 更新APIは数値IDで指定するため、記事情報から数値IDと現在の状態を取得する
+  const noteInfo = await noteApiRequest(`/v3/notes/${noteId}`, "GET", null, true);
+  const note = noteInfo.data || {};
+  const numericId = String(note.id || noteId);
+
+  const postData = {
+    title: update.title,
+    body: update.body,
+    status: update.status ?? (note.status === "published" ? "published" : "draft"),
+    tags: update.tags || [],
+    ...update.fields,
+  };
+
+  return noteApiRequest(`/v1/text_notes/${numericId}`, "PUT", postData, true, buildAuthHeaders());
+}
+
+/**
+ * 公開済みの記事であれば記事URLを返す（下書きの場合は null）
+ */
+export async function fetchPublishedNoteUrl(noteId: string): Promise<string | null> {
+  const noteInfo = await noteApiRequest(`/v3/notes/${noteId}`, "GET", null, true);
+  const note = noteInfo.data || {};
+  if (note.status !== "published") {
+    return null;
+  }
+  return note.note_url || `https://note.com/${getNoteUserId()}/n/${note.key || noteId}`;
+}
+
+/**
+ * 保存済みの下書きに有料設定を反映する
+ * エディタで入力した有料ラインの目印は本文から取り除き、その位置を有料ラインにする
+ */
+export async function applyPaidSettingsToDraft(
+  noteId: string,
+  title: string,
+  paid: NotePaidSettings
+): Promise<string[]> {
+  const note = await fetchDraftNote(noteId);
+  const body: string = note.body || note.noteDraft?.body || "";
+  if (!body) {
+    throw new Error(`下書きの本文を取得できないため、有料設定を反映できませんでした: ${noteId}`);
+  }
+
+  const paidBody = splitPaidBody(body);
+  await saveDraftNote(
+    String(note.id || noteId),
+    title,
+    paidBody ? paidBody.body : body,
+    buildPaidFields(paid, paidBody)
+  );
+  return addNoteToMagazines(noteId, paid.magazines);
+}
+
+/**
+ * 下書き状態の記事を公開する（現在のアカウントで実行）
+ * 未指定の項目は下書きの内容を引き継ぐ。currentNote 未指定時は記事情報を取得する
+ * 本文に有料ラインがあれば、その位置で無料部分と有料部分に分けて公開する
+ */
+export async function publishDraftNote(
+  noteId: string,
+  overrides: PublishOverrides = {},
+  currentNote?: any
+): Promise<PublishResult> {
+  const note = currentNote ?? (await fetchDraftNote(noteId));
+  const body = overrides.body || note.body;
+  const paidBody = body ? splitPaidBody(body) : null;
+  const paid = overrides.paid || {};
+
+  const postData = {
+    title: overrides.title || note.title,
+    body: paidBody ? paidBody.body : body,
+    status: "published",
+    tags: overrides.tags || note.tags || [],
+    publish_at: null,
+    eyecatch_image: note.eyecatch_image || null,
+    price: note.price || 0,
+    is_magazine_note: note.is_magazine_note || false,
+    // 下書きに保存済みの有料ラインを引き継ぐ
+    ...(note.separator ? { separator: note.separator } : {}),
+    ...buildPaidFields(paid, paidBody),
+  };
+
+  const data = await noteApiRequest(`/v3/notes/${noteId}/publish`, "POST", postData, true);
+  console.error(`公開成功: ${JSON.stringify(data, null, 2)}`);
+
+  const warnings = await addNoteToMagazines(noteId, paid.magazines);
+
+  return {
+    data,
+    noteUrl: data.data?.url || `https://note.com/${getNoteUserId()}/n/${noteId}`,
+    warnings,
+  };
+}
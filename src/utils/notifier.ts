@@ -0,0 +1,130 @@
+import fetch from "node-fetch";
+import { env } from "../config/environment.js";
+import { ReportFormat } from "../types/analytics-types.js";
+
+/**
+ * レポートをWebhook経由で外部サービス（Slack, Discord, Telegram等）に送信するユーティリティ
+ */
+
+export const REPORT_FORMATS: [ReportFormat, ...ReportFormat[]] = [
+  "slack",
+  "discord",
+  "telegram",
+  "generic",
+];
+
+export interface ReportMessage {
+  title: string;
+  body: string;
+  // 省略時は環境変数 WEBHOOK_URL
+  webhookUrl?: string;
+  format: ReportFormat;
+}
+
+/**
+ * 送信先が設定されているかどうか
+ */
+export function isReportConfigured(format: ReportFormat, webhookUrl?: string): boolean {
+  if (format === "telegram") {
+    return Boolean(env.TELEGRAM_BOT_TOKEN && env.TELEGRAM_CHAT_ID);
+  }
+  return Boolean(webhookUrl || env.WEBHOOK_URL);
+}
+
+/**
+ * 環境変数 WEBHOOK_FORMAT の送信フォーマット（不正な値は generic）
+ */
+export function getDefaultReportFormat(): ReportFormat {
+  return (REPORT_FORMATS as string[]).includes(env.WEBHOOK_FORMAT)
+    ? (env.WEBHOOK_FORMAT as ReportFormat)
+    : "generic";
+}
+
+/**
+ * レポートを送信し、送信先（TelegramはAPI名）を返す。設定不足・送信失敗はエラー
+ */
+export async function sendReport({
+  title,
+  body,
+  webhookUrl,
+  format,
+}: ReportMessage): Promise<string> {
+  const url = webhookUrl || env.WEBHOOK_URL;
+  if (!url && format !== "telegram") {
+    throw new Error(
+      "Webhook URLが設定されていません。webhookUrlパラメータを指定するか、環境変数WEBHOOK_URLを設定してください。"
+    );
+  }
+
+  let payload: any;
+  let targetUrl = url || "";
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  switch (format) {
+    case "slack":
+      payload = {
+        text: `*${title}*\n${body}`,
+        blocks: [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `*${title}*\n\n${body}`,
+            },
+          },
+        ],
+      };
+      break;
+
+    case "discord":
+      payload = {
+        content: title,
+        embeds: [
+          {
+            title,
+            description: body.slice(0, 4096),
+          },
+        ],
+      };
+      break;
+
+    case "telegram": {
+      const botToken = env.TELEGRAM_BOT_TOKEN;
+      const chatId = env.TELEGRAM_CHAT_ID;
+      if (!botToken || !chatId) {
+        throw new Error(
+          "Telegram設定が不足しています。環境変数TELEGRAM_BOT_TOKENとTELEGRAM_CHAT_IDを設定してください。"
+        );
+      }
+      targetUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
+      payload = {
+        chat_id: chatId,
+        text: `*${title}*\n\n${body}`,
+        parse_mode: "Markdown",
+      };
+      break;
+    }
+
+    case "generic":
+    default:
+      payload = { title, body };
+      break;
+  }
+
+  const response = await fetch(targetUrl, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new Error(
+      `Webhook送信に失敗しました: ${response.status} ${response.statusText} - ${errorText}`
+    );
+  }
+
+  return format === "telegram" ? "Telegram API" : targetUrl;
+}
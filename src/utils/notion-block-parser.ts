@@ -1,11 +1,41 @@
-import { NotionBlock, NoteIRNode, RichTextSpan } from "../types/notion-types.js";
+import {
+  NotionBlock,
+  NoteIRNode,
+  RichTextSpan,
+  UnsupportedBlockReport,
+} from "../types/notion-types.js";
 import { BLOCK_CONFIG } from "../config/notion-config.js";
 
+/**
+ * 子ブロックを含めたブロック数を数える
+ */
+export function countBlocks(blocks: NotionBlock[]): number {
+  return blocks.reduce((count, block) => count + 1 + countBlocks(block.children || []), 0);
+}
+
 export class NotionBlockParser {
+  private unsupportedBlocks: UnsupportedBlockReport[] = [];
+
   /**
    * Notionブロックの配列をIR（中間表現）に変換
+   * 変換できなかったブロックは getUnsupportedBlocks() で取得できる
    */
   parseBlocks(blocks: NotionBlock[]): NoteIRNode[] {
+    this.unsupportedBlocks = [];
+    return this.parseBlockList(blocks);
+  }
+
+  /**
+   * 直前の parseBlocks で変換できなかった（内容の一部を転載できなかった）ブロック
+   */
+  getUnsupportedBlocks(): UnsupportedBlockReport[] {
+    return [...this.unsupportedBlocks];
+  }
+
+  /**
+   * ブロックの配列をIRに変換（子ブロックの変換にも使う）
+   */
+  private parseBlockList(blocks: NotionBlock[]): NoteIRNode[] {
     const nodes: NoteIRNode[] = [];
     let i = 0;
 
@@ -81,32 +111,80 @@ export class NotionBlockParser {
         return this.parseEmbed(block);
 
       case "toggle":
-        // toggleは引用として扱う
-        return this.parseQuote(block);
+        return {
+          type: "toggle",
+          richText: this.parseRichText(block.toggle?.rich_text || []),
+          children: this.parseChildren(block),
+        };
 
-      case "child_page":
-        // 子ページはスキップ
-        if (BLOCK_CONFIG.UNSUPPORTED_BLOCK_WARNING) {
-          console.warn(`Skipping unsupported block: ${block.type} (child_page)`);
-        }
-        return { type: "unsupported", content: "[Child Page]" };
+      case "column_list":
+        return { type: "columnList", children: this.parseChildren(block) };
+
+      case "column":
+        return { type: "column", children: this.parseChildren(block) };
+
+      case "synced_block":
+        return { type: "syncedBlock", children: this.parseChildren(block) };
+
+      case "equation":
+        return { type: "equation", content: block.equation?.expression || "" };
+
+      case "link_to_page":
+        return this.parseLinkToPage(block);
+
+      case "video":
+        return this.parseMedia(block, "video");
+
+      case "file":
+      case "pdf":
+      case "audio":
+        return this.parseMedia(block, "file");
+
+      case "child_page": {
+        // 子ページは別のページのため、タイトルだけ残す
+        const title = block.child_page?.title || "";
+        this.reportUnsupported(block, "子ページの内容は取り込みません（タイトルのみ残します）");
+        return { type: "unsupported", content: title ? `[Child Page: ${title}]` : "[Child Page]" };
+      }
 
       case "child_database":
         // 子データベースはスキップ
-        if (BLOCK_CONFIG.UNSUPPORTED_BLOCK_WARNING) {
-          console.warn(`Skipping unsupported block: ${block.type} (child_database)`);
-        }
+        this.reportUnsupported(block, "子データベースは取り込めません");
         return { type: "unsupported", content: "[Database]" };
 
       default:
         // 未対応ブロック
-        if (BLOCK_CONFIG.UNSUPPORTED_BLOCK_WARNING) {
-          console.warn(`Unsupported block type: ${block.type}`);
-        }
+        this.reportUnsupported(block, "未対応のブロックです");
         return { type: "unsupported", content: `[Unsupported: ${block.type}]` };
     }
   }
 
+  /**
+   * 子ブロックをIRに変換（取得できなかった子ブロックは報告する）
+   */
+  private parseChildren(block: NotionBlock): NoteIRNode[] {
+    if (block.children_truncated) {
+      this.reportUnsupported(
+        block,
+        `入れ子が${BLOCK_CONFIG.MAX_RECURSION_DEPTH}階層を超えるため、子ブロックを取り込んでいません`
+      );
+    }
+    if (block.children_error) {
+      this.reportUnsupported(block, `子ブロックを取得できませんでした: ${block.children_error}`);
+    }
+    return block.children ? this.parseBlockList(block.children) : [];
+  }
+
+  /**
+   * 変換できなかったブロックを記録する
+   */
+  private reportUnsupported(block: NotionBlock, reason: string): void {
+    this.unsupportedBlocks.push({ id: block.id, type: block.type, reason });
+    if (BLOCK_CONFIG.UNSUPPORTED_BLOCK_WARNING) {
+      console.warn(`Unsupported block: ${block.type} (${block.id}): ${reason}`);
+    }
+  }
+
   /**
    * 段落を解析
    */
@@ -115,6 +193,7 @@ export class NotionBlockParser {
     return {
       type: "paragraph",
       richText,
+      children: this.parseChildren(block),
     };
   }
 
@@ -127,6 +206,8 @@ export class NotionBlockParser {
       type: "heading",
       attributes: { level },
       richText,
+      // トグル見出しの中身
+      children: this.parseChildren(block),
     };
   }
 
@@ -138,6 +219,7 @@ export class NotionBlockParser {
     return {
       type: listType,
       richText,
+      children: this.parseChildren(block),
     };
   }
 
@@ -150,6 +232,7 @@ export class NotionBlockParser {
       type: "todoList",
       attributes: { checked: block.to_do?.checked || false },
       richText,
+      children: this.parseChildren(block),
     };
   }
 
@@ -173,6 +256,7 @@ export class NotionBlockParser {
     return {
       type: "quote",
       richText,
+      children: this.parseChildren(block),
     };
   }
 
@@ -194,6 +278,7 @@ export class NotionBlockParser {
       type: "callout",
       attributes: { icon: iconText },
       richText,
+      children: this.parseChildren(block),
     };
   }
 
@@ -232,6 +317,7 @@ export class NotionBlockParser {
         hasColumnHeader: block.table?.has_column_header || false,
         hasRowHeader: block.table?.has_row_header || false,
       },
+      children: this.parseChildren(block),
     };
   }
 
@@ -279,6 +365,44 @@ export class NotionBlockParser {
     };
   }
 
+  /**
+   * ページへのリンクを解析（リンク先はNotionのURLにする）
+   */
+  private parseLinkToPage(block: NotionBlock): NoteIRNode {
+    const link = block.link_to_page;
+    const id: string = link?.page_id || link?.database_id || link?.block_id || "";
+    return {
+      type: "linkToPage",
+      content: id ? `https://www.notion.so/${id.replace(/-/g, "")}` : "",
+    };
+  }
+
+  /**
+   * 動画・ファイル（PDF・音声を含む）を解析
+   * Notionにアップロードされたものは一時URLのため、noteに転載できないことを報告する
+   */
+  private parseMedia(block: NotionBlock, type: "video" | "file"): NoteIRNode {
+    const media = block[block.type];
+    const hosted = media?.type === "file";
+    const url: string = (hosted ? media?.file?.url : media?.external?.url) || "";
+    const caption = media?.caption?.map((t: any) => t.plain_text).join("") || "";
+    const name: string =
+      media?.name || decodeURIComponent(url.split("?")[0].split("/").pop() || "");
+
+    if (hosted) {
+      this.reportUnsupported(
+        block,
+        "Notionにアップロードされたファイルはnoteに転載できないため、位置だけ残します"
+      );
+    }
+
+    return {
+      type,
+      content: url,
+      attributes: { caption, hosted, name },
+    };
+  }
+
   /**
    * リッチテキストを解析
    */
@@ -288,7 +412,11 @@ export class NotionBlockParser {
     }
 
     return richText.map((text) => ({
-      text: text.plain_text || "",
+      // 数式はnoteの数式記法にする
+      text:
+        text.type === "equation"
+          ? `$\${${text.equation?.expression || text.plain_text || ""}}$$`
+          : text.plain_text || "",
       annotations: {
         bold: text.annotations?.bold || false,
         italic: text.annotations?.italic || false,
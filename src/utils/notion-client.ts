@@ -6,7 +6,12 @@ import {
   NotionImage,
   ListPagesParams,
 } from "../types/notion-types.js";
-import { NOTION_API_VERSION, RATE_LIMIT_CONFIG, IMAGE_CONFIG } from "../config/notion-config.js";
+import {
+  NOTION_API_VERSION,
+  RATE_LIMIT_CONFIG,
+  IMAGE_CONFIG,
+  BLOCK_CONFIG,
+} from "../config/notion-config.js";
 import { env } from "../config/environment.js";
 
 export class NotionClient {
@@ -106,9 +111,14 @@ export class NotionClient {
   }
 
   /**
-   * ブロックを再帰的に取得
+   * ブロックを取得（recursive 指定時は子ブロックを children に入れ子で取得）
+   * 入れ子が BLOCK_CONFIG.MAX_RECURSION_DEPTH に達したブロックは子を取得せず children_truncated を付ける
    */
-  async getBlocks(blockId: string, recursive: boolean = true): Promise<NotionBlock[]> {
+  async getBlocks(
+    blockId: string,
+    recursive: boolean = true,
+    depth: number = 0
+  ): Promise<NotionBlock[]> {
     try {
       const blocks: NotionBlock[] = [];
       let cursor: string | undefined;
@@ -125,12 +135,10 @@ export class NotionClient {
         for (const block of response.results) {
           // Type guard to ensure we have a block object
           if ("type" in block && "has_children" in block) {
-            blocks.push(block as NotionBlock);
-
-            // 子ブロックがあれば再帰的に取得
-            if (recursive && block.has_children) {
-              const childBlocks = await this.getBlocks(block.id, true);
-              blocks.push(...childBlocks);
+            const notionBlock = block as NotionBlock;
+            blocks.push(notionBlock);
+            if (recursive) {
+              await this.attachChildren(notionBlock, depth + 1);
             }
           }
         }
@@ -145,6 +153,36 @@ export class NotionClient {
     }
   }
 
+  /**
+   * 子ブロックを取得して children に入れる
+   * 子ページ・子データベースは別のページのため取得しない
+   * 同期ブロックの複製は元ブロックの子を取得する（元ページへのアクセス権がない場合は children_error）
+   */
+  private async attachChildren(block: NotionBlock, depth: number): Promise<void> {
+    if (block.type === "child_page" || block.type === "child_database") {
+      return;
+    }
+
+    const syncedFrom: string | undefined = block.synced_block?.synced_from?.block_id;
+    if (!block.has_children && !syncedFrom) {
+      return;
+    }
+    if (depth >= BLOCK_CONFIG.MAX_RECURSION_DEPTH) {
+      block.children_truncated = true;
+      return;
+    }
+
+    if (syncedFrom) {
+      try {
+        block.children = await this.getBlocks(syncedFrom, true, depth);
+      } catch (error: any) {
+        block.children_error = error.message;
+      }
+      return;
+    }
+    block.children = await this.getBlocks(block.id, true, depth);
+  }
+
   /**
    * データベースをクエリ
    */
@@ -203,6 +241,46 @@ export class NotionClient {
     }
   }
 
+  /**
+   * データベースのプロパティ定義（プロパティ名 → 型）を取得
+   */
+  async getDatabaseProperties(databaseId: string): Promise<Record<string, string>> {
+    try {
+      const database = await this.retryWithBackoff(() =>
+        this.client.databases.retrieve({ database_id: databaseId })
+      );
+
+      const properties: Record<string, string> = {};
+      for (const [name, property] of Object.entries(database.properties)) {
+        properties[name] = property.type;
+      }
+      return properties;
+    } catch (error: any) {
+      this.handleError(error, "Failed to get database");
+      throw error;
+    }
+  }
+
+  /**
+   * ページのプロパティを更新し、更新後の最終編集日時を返す
+   */
+  async updatePageProperties(
+    pageId: string,
+    properties: Record<string, any>
+  ): Promise<{ last_edited_time?: string }> {
+    try {
+      const page = await this.retryWithBackoff(() =>
+        this.client.pages.update({ page_id: pageId, properties })
+      );
+      return {
+        last_edited_time: "last_edited_time" in page ? page.last_edited_time : undefined,
+      };
+    } catch (error: any) {
+      this.handleError(error, "Failed to update page properties");
+      throw error;
+    }
+  }
+
   /**
    * 画像をダウンロード
    */
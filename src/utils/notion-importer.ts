@@ -0,0 +1,256 @@
+import { NotionClient } from "./notion-client.js";
+import { NotionBlockParser, countBlocks } from "./notion-block-parser.js";
+import { NotionToNoteFormatter } from "./notion-to-note-formatter.js";
+import { NoteImageUploader, ImageData } from "./note-image-uploader.js";
+import { hasAuth } from "./auth.js";
+import { getNoteUserId } from "./account-context.js";
+import { noteApiRequest } from "./api-client.js";
+import { updateNote } from "./note-publisher.js";
+import { convertMarkdownToNoteHtml } from "./markdown-converter.js";
+import { collectEmbedUrls, issueEmbedKeys } from "./note-embeds.js";
+import { FrontmatterValue } from "./frontmatter.js";
+import {
+  addNoteToMagazines,
+  buildPaidFields,
+  readPaidSettings,
+  splitPaidBody,
+  validatePaidSettings,
+} from "./paid-content.js";
+import {
+  computeContentHash,
+  detectSourceChange,
+  findSourceMapping,
+  saveSourceMapping,
+} from "./source-mapping.js";
+import { ImportResult } from "../types/notion-types.js";
+
+/**
+ * Notionページをnote.comにインポートする
+ * 以前インポートしたページは同じ記事を更新し、内容が変わっていなければ何もしない
+ */
+export async function importNotionToNote(
+  notionClient: NotionClient,
+  blockParser: NotionBlockParser,
+  formatter: NotionToNoteFormatter,
+  pageId: string,
+  tags: string[],
+  saveAsDraft: boolean,
+  force: boolean = false
+): Promise<ImportResult> {
+  const result: ImportResult = {
+    success: false,
+    stats: {
+      total_blocks: 0,
+      converted_blocks: 0,
+      skipped_blocks: 0,
+      images_total: 0,
+      images_success: 0,
+      images_failed: 0,
+    },
+    warnings: [],
+  };
+
+  try {
+    // note.comの認証チェック
+    if (!hasAuth()) {
+      throw new Error("note.comの認証情報が不足しています。");
+    }
+
+    // ページ情報とブロックを取得
+    const page = await notionClient.getPage(pageId);
+    const blocks = await notionClient.getBlocks(page.id, true);
+    result.stats.total_blocks = countBlocks(blocks);
+
+    // IRに変換（変換できなかったブロックは警告として返す）
+    const irNodes = blockParser.parseBlocks(blocks);
+    const unsupportedBlocks = blockParser.getUnsupportedBlocks();
+    result.stats.skipped_blocks = unsupportedBlocks.length;
+    result.stats.converted_blocks = result.stats.total_blocks - unsupportedBlocks.length;
+    if (unsupportedBlocks.length > 0) {
+      result.unsupported_blocks = unsupportedBlocks;
+      result.warnings.push(
+        ...unsupportedBlocks.map(
+          (block) => `Unsupported block ${block.type} (${block.id}): ${block.reason}`
+        )
+      );
+    }
+
+    // Markdownに変換
+    formatter.resetImageCounter();
+    const markdown = formatter.formatToMarkdown(irNodes);
+
+    // 前回インポートした内容と比べる（画像は連番のファイル名で比べるため、署名付きURLの変化は無視される）
+    const paidProperties = readPaidProperties(page.properties);
+    const contentHash = computeContentHash(page.title, markdown, tags, paidProperties);
+    const snapshot = `# ${page.title}\n\n${markdown.trim()}`;
+    const change = detectSourceChange(findSourceMapping("notion", page.id), contentHash, snapshot);
+
+    if (change.status === "unchanged" && !force) {
+      result.success = true;
+      result.status = "unchanged";
+      result.note_id = change.mapping?.noteId;
+      return result;
+    }
+
+    // 画像参照を抽出（入れ子のブロック内の画像を含む）
+    const imageReferences = formatter.extractImageReferences(markdown);
+    const imageSources = formatter.getImageSources();
+    result.stats.images_total = imageReferences.length;
+
+    // 画像をダウンロードしてBase64に変換
+    const images: ImageData[] = [];
+
+    for (const ref of imageReferences) {
+      try {
+        // 画像参照のファイル名から元の画像URLを取得
+        const imageUrl = imageSources.get(ref);
+
+        if (imageUrl) {
+          const { buffer, mimeType } = await notionClient.downloadImage(imageUrl);
+          const base64 = buffer.toString("base64");
+
+          images.push({
+            fileName: ref,
+            base64,
+            mimeType,
+          });
+
+          result.stats.images_success++;
+        }
+      } catch (error: any) {
+        result.stats.images_failed++;
+        result.warnings.push(`Failed to download image ${ref}: ${error.message}`);
+      }
+    }
+
+    // 画像をアップロード
+    const uploadedImages = await NoteImageUploader.uploadImages(images);
+
+    // note用HTMLに変換（画像はアップロード済みのURLに置換し、埋め込みはキーがあればカードにする）
+    const renderBody = (embedKeys?: Map<string, string>) =>
+      convertMarkdownToNoteHtml(markdown, {
+        renderImage: (node) => {
+          const url = uploadedImages.get(node.content || "");
+          return url ? `<figure><img src="${url}"></figure>` : "";
+        },
+        embedKeys,
+      });
+
+    // ページのプロパティの有料設定と、本文中の有料ライン
+    const paid = readPaidSettings(paidProperties);
+    const hasPaywall = splitPaidBody(renderBody()) !== null;
+    validatePaidSettings(paid, hasPaywall);
+
+    // 送信する本文と有料設定（有料ラインの位置はname属性で送るため、描画した本文ごとに求める）
+    const buildContent = (body: string) => {
+      const paidBody = splitPaidBody(body);
+      return {
+        content: { title: page.title, body: paidBody ? paidBody.body : body, tags: tags },
+        fields: buildPaidFields(paid, paidBody),
+      };
+    };
+
+    // 埋め込みカードのキーは記事ごとに発行する（以前インポートした記事はその記事で発行）
+    const embedUrls = collectEmbedUrls(markdown);
+    const existing = change.mapping;
+    let embedKeys: Map<string, string> | undefined;
+    if (existing) {
+      const embeds = await issueEmbedKeys(embedUrls, existing.noteId);
+      result.warnings.push(...embeds.warnings);
+      embedKeys = embeds.keys;
+    }
+    const { content, fields } = buildContent(renderBody(embedKeys));
+
+    // note.comに投稿（以前インポートした記事は内容を置き換える。公開済みの記事は公開のまま）
+    const response = existing
+      ? await updateNote(existing.noteId, {
+          ...content,
+          status: saveAsDraft ? undefined : "published",
+          fields,
+        })
+      : await noteApiRequest(
+          "/v3/notes",
+          "POST",
+          {
+            ...content,
+            status: saveAsDraft ? "draft" : "published",
+            ...fields,
+          },
+          true
+        );
+
+    // 新規作成した記事は、作成後に発行したキーで埋め込みをカードにした本文に置き換える
+    if (!existing && embedUrls.length > 0 && response.data?.key) {
+      const embeds = await issueEmbedKeys(embedUrls, response.data.key);
+      result.warnings.push(...embeds.warnings);
+      if (embeds.keys.size > 0) {
+        const rendered = buildContent(renderBody(embeds.keys));
+        await updateNote(response.data.key, { ...rendered.content, fields: rendered.fields });
+      }
+    }
+
+    result.success = true;
+    result.status = existing ? "updated" : "created";
+    result.diff = change.diff;
+    result.note_id = existing ? existing.noteId : response.data?.id;
+    if (Object.keys(paid).length > 0 || hasPaywall) {
+      result.paid = paid;
+    }
+    if (result.note_id) {
+      // マガジンは前回までに追加済みのものを除いて追加する（追加に失敗したマガジンは次回再試行）
+      const noteKey = response.data?.key || String(result.note_id);
+      const magazines = [...(existing?.magazines || [])];
+      for (const magazineKey of paid.magazines || []) {
+        if (magazines.includes(magazineKey)) continue;
+        const warnings = await addNoteToMagazines(noteKey, [magazineKey]);
+        result.warnings.push(...warnings);
+        if (warnings.length === 0) magazines.push(magazineKey);
+      }
+      saveSourceMapping({
+        kind: "notion",
+        sourceId: page.id,
+        noteId: String(result.note_id),
+        noteUrl: response.data?.key
+          ? `https://note.com/${getNoteUserId()}/n/${response.data.key}`
+          : existing?.noteUrl,
+        contentHash,
+        title: page.title,
+        snapshot,
+        magazines: magazines.length > 0 ? magazines : undefined,
+      });
+    }
+
+    return result;
+  } catch (error: any) {
+    result.error = error.message || error;
+    return result;
+  }
+}
+
+/**
+ * Notionページのプロパティから有料設定（price / membershipOnly / magazine）を読み取る
+ */
+function readPaidProperties(properties: Record<string, any>): Record<string, FrontmatterValue> {
+  const data: Record<string, FrontmatterValue> = {};
+
+  const price = properties.price;
+  if (price?.type === "number" && typeof price.number === "number") {
+    data.price = price.number;
+  }
+
+  const membershipOnly = properties.membershipOnly;
+  if (membershipOnly?.type === "checkbox") {
+    data.membershipOnly = membershipOnly.checkbox === true;
+  }
+
+  const magazine = properties.magazine;
+  if (magazine?.type === "multi_select") {
+    data.magazine = magazine.multi_select.map((option: any) => option.name);
+  } else if (magazine?.type === "select" && magazine.select) {
+    data.magazine = magazine.select.name;
+  } else if (magazine?.type === "rich_text") {
+    data.magazine = magazine.rich_text.map((text: any) => text.plain_text).join("");
+  }
+
+  return data;
+}
@@ -0,0 +1,333 @@
+import { readJsonStore, updateJsonStore, updateJsonStoreAsync } from "./memory-store.js";
+import { listAccountProfiles, runWithAccount } from "./account-context.js";
+import { NotionClient } from "./notion-client.js";
+import { NotionBlockParser } from "./notion-block-parser.js";
+import { NotionToNoteFormatter } from "./notion-to-note-formatter.js";
+import { importNotionToNote } from "./notion-importer.js";
+import { findSourceMapping } from "./source-mapping.js";
+import { listPublications } from "./publish-queue.js";
+import { fetchAllStats } from "./analytics-helpers.js";
+import {
+  NotePublishStatus,
+  NotionPage,
+  NotionSyncConfig,
+  NotionSyncedPage,
+  NotionSyncProperties,
+  NotionSyncResult,
+} from "../types/notion-types.js";
+
+/**
+ * Notionデータベース（編集カレンダー）とnote記事の双方向同期
+ *
+ * - ステータスプロパティが readyValue のページを取り込み、記事を作成・更新する
+ * - 取り込んだページに記事URL・公開状態・PV・スキ数を書き戻す
+ *
+ * 同期先の列がデータベースにない項目は書き戻さない。
+ */
+
+const NOTION_SYNC_FILE = "notion-sync.json";
+
+export const DEFAULT_NOTION_SYNC_PROPERTIES: NotionSyncProperties = {
+  status: "Status",
+  noteUrl: "note URL",
+  publishStatus: "note Status",
+  pv: "PV",
+  likes: "Likes",
+};
+
+export const DEFAULT_NOTION_SYNC_CRON = "*/30 * * * *";
+
+// 同期中のアカウント（同じアカウントの同期を重ねて実行しない）
+const syncingAccounts = new Set<string>();
+
+export type NotionSyncConfigInput = Partial<
+  Omit<NotionSyncConfig, "properties" | "pages" | "lastSyncAt" | "lastResult">
+> & {
+  properties?: Partial<NotionSyncProperties>;
+};
+
+/**
+ * 現在のアカウントの同期設定を返す（未設定の場合は null）
+ */
+export function getNotionSyncConfig(): NotionSyncConfig | null {
+  return readJsonStore<NotionSyncConfig | null>(NOTION_SYNC_FILE, null);
+}
+
+/**
+ * 同期設定を保存する（未指定の項目は現在の設定・既定値を引き継ぐ）
+ */
+export function saveNotionSyncConfig(input: NotionSyncConfigInput): NotionSyncConfig {
+  let result: NotionSyncConfig | undefined;
+
+  updateJsonStore<NotionSyncConfig | null>(NOTION_SYNC_FILE, null, (current) => {
+    const databaseId = input.databaseId ?? current?.databaseId;
+    if (!databaseId) {
+      throw new Error("databaseId を指定してください");
+    }
+
+    const config: NotionSyncConfig = {
+      databaseId,
+      readyValue: input.readyValue ?? current?.readyValue ?? "Ready",
+      importedValue:
+        input.importedValue !== undefined
+          ? input.importedValue || undefined
+          : current?.importedValue,
+      properties: {
+        ...DEFAULT_NOTION_SYNC_PROPERTIES,
+        ...current?.properties,
+        ...input.properties,
+      },
+      tags: input.tags ?? current?.tags ?? [],
+      saveAsDraft: input.saveAsDraft ?? current?.saveAsDraft ?? true,
+      cron: input.cron ?? current?.cron ?? DEFAULT_NOTION_SYNC_CRON,
+      enabled: input.enabled ?? current?.enabled ?? true,
+      // 別のデータベースに切り替えた場合は同期済みページをリセットする
+      pages: current?.databaseId === databaseId ? current.pages : {},
+      lastSyncAt: current?.lastSyncAt,
+      lastResult: current?.lastResult,
+    };
+    result = config;
+    return config;
+  });
+
+  return result!;
+}
+
+/**
+ * 現在のアカウントのNotionデータベースを同期する
+ */
+export async function runNotionSync(): Promise<NotionSyncResult> {
+  const config = getNotionSyncConfig();
+  if (!config) {
+    throw new Error("Notion同期が設定されていません（configure-notion-sync で設定してください）");
+  }
+
+  const client = new NotionClient();
+  const schema = await client.getDatabaseProperties(config.databaseId);
+  const result: NotionSyncResult = {
+    imported: 0,
+    updated: 0,
+    unchanged: 0,
+    failed: 0,
+    statsUpdated: 0,
+    errors: [],
+  };
+  const pages = { ...config.pages };
+
+  // 1. 公開準備ができたページを取り込む
+  for (const page of await queryReadyPages(client, config, schema)) {
+    const synced = pages[page.id];
+    if (synced?.lastEditedTime === page.last_edited_time) {
+      result.unchanged++;
+      continue;
+    }
+
+    try {
+      const imported = await importNotionToNote(
+        client,
+        new NotionBlockParser(),
+        new NotionToNoteFormatter(),
+        page.id,
+        config.tags,
+        config.saveAsDraft
+      );
+      if (!imported.success || !imported.note_id) {
+        throw new Error(imported.error || "記事IDを取得できませんでした");
+      }
+
+      const noteId = String(imported.note_id);
+      const next: NotionSyncedPage = {
+        ...synced,
+        noteId,
+        noteUrl: findSourceMapping("notion", page.id)?.noteUrl ?? synced?.noteUrl,
+        publishStatus: synced?.publishStatus ?? (config.saveAsDraft ? "draft" : "published"),
+        syncedAt: new Date().toISOString(),
+      };
+      const values: Record<string, string | number | undefined> = {
+        [config.properties.noteUrl]: next.noteUrl,
+        [config.properties.publishStatus]: next.publishStatus,
+      };
+      if (config.importedValue) {
+        values[config.properties.status] = config.importedValue;
+      }
+      next.lastEditedTime =
+        (await writeProperties(client, page.id, schema, values)) ?? page.last_edited_time;
+      pages[page.id] = next;
+
+      if (imported.status === "created") result.imported++;
+      else if (imported.status === "updated") result.updated++;
+      else result.unchanged++;
+    } catch (error) {
+      result.failed++;
+      result.errors.push(`${page.title} (${page.id}): ${errorMessage(error)}`);
+    }
+  }
+
+  // 2. 取り込み済みのページに公開状態・PV・スキ数を書き戻す
+  if (Object.keys(pages).length > 0) {
+    const stats = await fetchAllStats("all");
+    const scheduled = new Set(listPublications("pending").map((entry) => entry.noteId));
+
+    for (const [pageId, synced] of Object.entries(pages)) {
+      const stat = stats.find(
+        (item) => item.noteId === synced.noteId || item.key === synced.noteId
+      );
+      const publishStatus: NotePublishStatus = stat
+        ? "published"
+        : scheduled.has(synced.noteId)
+          ? "scheduled"
+          : "draft";
+      const noteUrl =
+        stat?.key && stat.user ? `https://note.com/${stat.user}/n/${stat.key}` : synced.noteUrl;
+      const pv = stat?.readCount ?? 0;
+      const likes = stat?.likeCount ?? 0;
+
+      if (
+        synced.publishStatus === publishStatus &&
+        synced.noteUrl === noteUrl &&
+        synced.pv === pv &&
+        synced.likes === likes
+      ) {
+        continue;
+      }
+
+      try {
+        const lastEditedTime = await writeProperties(client, pageId, schema, {
+          [config.properties.noteUrl]: noteUrl,
+          [config.properties.publishStatus]: publishStatus,
+          [config.properties.pv]: pv,
+          [config.properties.likes]: likes,
+        });
+        pages[pageId] = {
+          ...synced,
+          noteUrl,
+          publishStatus,
+          pv,
+          likes,
+          lastEditedTime: lastEditedTime ?? synced.lastEditedTime,
+          syncedAt: new Date().toISOString(),
+        };
+        result.statsUpdated++;
+      } catch (error) {
+        result.failed++;
+        result.errors.push(`${pageId}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  await updateJsonStoreAsync<NotionSyncConfig | null>(NOTION_SYNC_FILE, null, (current) =>
+    current
+      ? { ...current, pages, lastSyncAt: new Date().toISOString(), lastResult: result }
+      : current
+  );
+
+  return result;
+}
+
+/**
+ * 指定アカウントのNotionデータベースを同期する（内蔵スケジューラから呼ばれる）
+ * 同じアカウントの前回の同期が終わっていない場合は何もしない（null を返す）
+ */
+export async function runNotionSyncForAccount(account: string): Promise<NotionSyncResult | null> {
+  if (syncingAccounts.has(account)) {
+    return null;
+  }
+
+  syncingAccounts.add(account);
+  try {
+    return await runWithAccount(account, () => runNotionSync());
+  } finally {
+    syncingAccounts.delete(account);
+  }
+}
+
+/**
+ * 同期が有効なアカウントと同期設定の一覧を返す
+ */
+export function listEnabledNotionSyncs(): { account: string; config: NotionSyncConfig }[] {
+  return listAccountProfiles().flatMap((profile) => {
+    const config = runWithAccount(profile.name, () => getNotionSyncConfig());
+    return config?.enabled ? [{ account: profile.name, config }] : [];
+  });
+}
+
+/**
+ * ステータスプロパティが readyValue のページをすべて取得する
+ */
+async function queryReadyPages(
+  client: NotionClient,
+  config: NotionSyncConfig,
+  schema: Record<string, string>
+): Promise<NotionPage[]> {
+  const statusType = schema[config.properties.status];
+  if (statusType !== "status" && statusType !== "select") {
+    throw new Error(
+      `ステータスプロパティ「${config.properties.status}」がデータベースにないか、ステータス・セレクト型ではありません`
+    );
+  }
+
+  const pages: NotionPage[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await client.queryDatabase({
+      database_id: config.databaseId,
+      page_size: 100,
+      start_cursor: cursor,
+      filter: {
+        property: config.properties.status,
+        [statusType]: { equals: config.readyValue },
+      },
+    });
+    pages.push(...response.pages);
+    cursor = response.next_cursor;
+  } while (cursor);
+
+  return pages;
+}
+
+/**
+ * プロパティの型に合わせて値を書き込み、更新後のページの最終編集日時を返す
+ * データベースにない列と、値が undefined の項目は書き込まない
+ */
+async function writeProperties(
+  client: NotionClient,
+  pageId: string,
+  schema: Record<string, string>,
+  values: Record<string, string | number | undefined>
+): Promise<string | undefined> {
+  const properties: Record<string, any> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined || !schema[name]) continue;
+    const property = toPropertyValue(schema[name], value);
+    if (property) {
+      properties[name] = property;
+    }
+  }
+
+  if (Object.keys(properties).length === 0) {
+    return undefined;
+  }
+  const page = await client.updatePageProperties(pageId, properties);
+  return page.last_edited_time;
+}
+
+function toPropertyValue(type: string, value: string | number): Record<string, any> | null {
+  switch (type) {
+    case "url":
+      return { url: String(value) };
+    case "number":
+      return { number: Number(value) };
+    case "select":
+      return { select: { name: String(value) } };
+    case "status":
+      return { status: { name: String(value) } };
+    case "rich_text":
+      return { rich_text: [{ type: "text", text: { content: String(value) } }] };
+    default:
+      return null;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,7 +1,10 @@
 import { NoteIRNode, RichTextSpan } from "../types/notion-types.js";
+import { PAYWALL_MARKER } from "./paid-content.js";
 
 export class NotionToNoteFormatter {
   private imageCounter = 0;
+  // 画像参照のファイル名 → 元の画像URL
+  private imageSources = new Map<string, string>();
 
   /**
    * IRノードの配列をMarkdownに変換
@@ -25,10 +28,10 @@ export class NotionToNoteFormatter {
   private nodeToMarkdown(node: NoteIRNode, depth: number = 0): string {
     switch (node.type) {
       case "heading":
-        return this.headingToMarkdown(node);
+        return this.withChildren(this.headingToMarkdown(node), node);
 
       case "paragraph":
-        return this.paragraphToMarkdown(node);
+        return this.withChildren(this.paragraphToMarkdown(node), node);
 
       case "bulletList":
         return this.bulletListToMarkdown(node, depth);
@@ -48,6 +51,25 @@ export class NotionToNoteFormatter {
       case "callout":
         return this.calloutToMarkdown(node);
 
+      case "toggle":
+        return this.toggleToMarkdown(node);
+
+      case "columnList":
+      case "column":
+      case "syncedBlock":
+        // 段組み・同期ブロックは中身を順に並べる
+        return this.formatToMarkdown(node.children || []);
+
+      case "equation":
+        return `$\${${node.content || ""}}$$`;
+
+      case "linkToPage":
+        return node.content ? `[リンク先のNotionページ](${node.content})` : "";
+
+      case "video":
+      case "file":
+        return this.mediaToMarkdown(node);
+
       case "divider":
         return "---";
 
@@ -69,6 +91,9 @@ export class NotionToNoteFormatter {
       case "embed":
         return this.embedToMarkdown(node);
 
+      case "paywall":
+        return PAYWALL_MARKER;
+
       case "unsupported":
         return node.content || "";
 
@@ -159,6 +184,13 @@ export class NotionToNoteFormatter {
       const indent = "  ".repeat(depth);
       const checkbox = checked ? "- [x]" : "- [ ]";
       lines.push(`${indent}${checkbox} ${text}`);
+
+      // 子要素（ネストしたリスト）を処理
+      if (item.children && item.children.length > 0) {
+        for (const child of item.children) {
+          lines.push(this.nodeToMarkdown(child, depth + 1));
+        }
+      }
     }
 
     return lines.join("\n");
@@ -178,10 +210,10 @@ export class NotionToNoteFormatter {
    * 引用を変換
    */
   private quoteToMarkdown(node: NoteIRNode): string {
-    const text = this.richTextToMarkdown(node.richText || []);
+    const text = this.withChildren(this.richTextToMarkdown(node.richText || []), node);
     const lines = text.split("\n");
 
-    return lines.map((line) => `> ${line}`).join("\n");
+    return lines.map((line) => (line ? `> ${line}` : ">")).join("\n");
   }
 
   /**
@@ -190,8 +222,48 @@ export class NotionToNoteFormatter {
   private calloutToMarkdown(node: NoteIRNode): string {
     const icon = node.attributes?.icon || "";
     const text = this.richTextToMarkdown(node.richText || []);
+    const children = this.formatToMarkdown(node.children || []);
+    const childLines = children ? ["", ...children.split("\n")] : [];
+
+    return [`> ${icon} ${text}`, ...childLines.map((line) => (line ? `> ${line}` : ">"))].join(
+      "\n"
+    );
+  }
+
+  /**
+   * トグルを変換（noteには折りたたみがないため、見出し部分を太字にして中身を続ける）
+   */
+  private toggleToMarkdown(node: NoteIRNode): string {
+    const summary = this.richTextToMarkdown(node.richText || []);
+    return this.withChildren(summary ? `**${summary}**` : "", node);
+  }
+
+  /**
+   * 動画・ファイルを変換
+   * 外部URLの動画はURLだけの行（埋め込みカード）、ファイルはリンクにする
+   * Notionにアップロードされたものは転載できないため、位置がわかる目印だけ残す
+   */
+  private mediaToMarkdown(node: NoteIRNode): string {
+    const url = node.content || "";
+    const caption = node.attributes?.caption || "";
+    const name = node.attributes?.name || "";
+    const label = node.type === "video" ? "動画" : "ファイル";
 
-    return `> ${icon} ${text}`;
+    if (node.attributes?.hosted || !url) {
+      return `[${label}: ${caption || name}]`;
+    }
+    if (node.type === "video") {
+      return caption ? `${url}\n\n${caption}` : url;
+    }
+    return `[${caption || name || url}](${url})`;
+  }
+
+  /**
+   * ブロックの後ろに子ブロックの内容を続ける
+   */
+  private withChildren(markdown: string, node: NoteIRNode): string {
+    const children = this.formatToMarkdown(node.children || []);
+    return [markdown, children].filter(Boolean).join("\n\n");
   }
 
   /**
@@ -204,13 +276,14 @@ export class NotionToNoteFormatter {
     // 一意のファイル名を生成
     this.imageCounter++;
     const filename = `image${this.imageCounter}${this.getImageExtension(url)}`;
+    this.imageSources.set(filename, url);
 
     // Obsidian形式の画像参照
     let markdown = `![[${filename}]]`;
 
-    // キャプションがある場合は付加
+    // キャプションがある場合は次の行に付加（画像直後の行はキャプションとして扱われる）
     if (caption) {
-      markdown += ` ${caption}`;
+      markdown += `\n${caption}`;
     }
 
     return markdown;
@@ -220,8 +293,17 @@ export class NotionToNoteFormatter {
    * テーブルを変換
    */
   private tableToMarkdown(node: NoteIRNode): string {
-    // テーブルは子要素（tableRow）で処理される
-    return "";
+    const rows = (node.children || []).filter((child) => child.type === "tableRow");
+    if (rows.length === 0) {
+      return "";
+    }
+
+    // Markdownのテーブルは先頭行がヘッダーになるため、列見出しがなくても先頭行を使う
+    const columnCount = Math.max(...rows.map((row) => row.children?.length || 0), 1);
+    const separator = `| ${Array(columnCount).fill("---").join(" | ")} |`;
+    const lines = rows.map((row) => this.tableRowToMarkdown(row));
+
+    return [lines[0], separator, ...lines.slice(1)].join("\n");
   }
 
   /**
@@ -242,22 +324,20 @@ export class NotionToNoteFormatter {
   }
 
   /**
-   * ブックマークを変換
+   * ブックマークを変換（URLだけの行にしてnoteの埋め込みカードにする）
    */
   private bookmarkToMarkdown(node: NoteIRNode): string {
     const url = node.content || "";
-    const caption = node.attributes?.caption || url;
+    const caption = node.attributes?.caption || "";
 
-    return `[${caption}](${url})`;
+    return caption ? `${url}\n\n${caption}` : url;
   }
 
   /**
-   * 埋め込みを変換
+   * 埋め込みを変換（URLだけの行にしてnoteの埋め込みカードにする）
    */
   private embedToMarkdown(node: NoteIRNode): string {
-    const url = node.content || "";
-
-    return `[${url}](${url})`;
+    return node.content || "";
   }
 
   /**
@@ -329,10 +409,18 @@ export class NotionToNoteFormatter {
     return references;
   }
 
+  /**
+   * 変換した画像の参照ファイル名と元の画像URLの対応
+   */
+  getImageSources(): Map<string, string> {
+    return new Map(this.imageSources);
+  }
+
   /**
    * 画像カウンターをリセット
    */
   resetImageCounter(): void {
     this.imageCounter = 0;
+    this.imageSources.clear();
   }
 }
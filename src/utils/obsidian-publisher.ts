@@ -0,0 +1,757 @@
+import fs from "fs";
+import path from "path";
+import { chromium, Browser, Locator, Page } from "playwright";
+import { getCurrentAccountProfile, getNoteUserId } from "./account-context.js";
+import {
+  parseMarkdown,
+  formatToNoteEditor,
+  parseMarkdownArticle,
+} from "./note-editor-formatter.js";
+import { enqueuePublication, resolvePublishAt } from "./publish-queue.js";
+import { applyPaidSettingsToDraft } from "./note-publisher.js";
+import { writeFrontmatterFields } from "./frontmatter.js";
+import { toPaidSettings, validatePaidSettings } from "./paid-content.js";
+import {
+  computeContentHash,
+  computeFileHash,
+  detectSourceChange,
+  findSourceMapping,
+  findSourceMappingByNoteId,
+  saveSourceMapping,
+} from "./source-mapping.js";
+import { resolveObsidianMarkdown, VaultLink } from "./obsidian-vault.js";
+import {
+  NoteFrontmatter,
+  NotePaidSettings,
+  PublishQueueEntry,
+  SourceDiff,
+  SourceMapping,
+} from "../types/note-types.js";
+
+/**
+ * Obsidianの記事をnoteエディタのUI操作で公開するパイプライン
+ *
+ * publish-from-obsidian / publish-from-obsidian-remote ツールと、保管庫の監視（vault-watcher）から使う。
+ */
+
+export interface PublishObsidianFileOptions {
+  markdownPath: string;
+  imageBasePath?: string;
+  tags?: string[];
+  headless?: boolean;
+  saveAsDraft?: boolean;
+  publishAt?: string;
+  force?: boolean;
+  vaultRoot?: string;
+}
+
+export interface ObsidianPublishResult {
+  success: boolean;
+  status?: "created" | "updated" | "unchanged";
+  error?: string;
+  message?: string;
+  title?: string;
+  noteId?: string;
+  noteUrl?: string;
+  editUrl?: string;
+  updated?: boolean;
+  diff?: SourceDiff;
+  scheduled?: PublishQueueEntry;
+  paid?: NotePaidSettings & { paywall: boolean };
+  promoText?: string;
+  links?: VaultLink[];
+  embeds?: string[];
+  warnings?: string[];
+  missingImages?: string[];
+  imageCount?: number;
+  images?: string[];
+  tags?: string[];
+  hint?: string;
+  note?: string;
+}
+
+/**
+ * 現在のカーソル位置に画像を挿入
+ */
+export async function insertImageAtCurrentPosition(
+  page: Page,
+  bodyBox: any,
+  imagePath: string
+): Promise<void> {
+  // 新しいパラグラフを作成
+  await page.keyboard.press("Enter");
+  await page.keyboard.press("Enter");
+  await page.waitForTimeout(500);
+
+  // 本文エリアの位置を再取得
+  const bodyBoxHandle = await bodyBox.boundingBox();
+
+  // 「+」ボタンを探す（本文エリアの左側）
+  const allBtns = await page.$$("button");
+  let plusBtnFound = false;
+
+  for (const btn of allBtns) {
+    const box = await btn.boundingBox();
+    if (!box) continue;
+
+    // 条件: 本文エリアの左側（x - 100 ~ x）、本文エリア内（y ~ y + 200）、幅60以下
+    if (
+      bodyBoxHandle &&
+      box.x > bodyBoxHandle.x - 100 &&
+      box.x < bodyBoxHandle.x &&
+      box.y > bodyBoxHandle.y &&
+      box.y < bodyBoxHandle.y + bodyBoxHandle.height &&
+      box.width < 60
+    ) {
+      await page.mouse.move(box.x + box.width / 2, box.y + box.height / 2);
+      await page.waitForTimeout(300);
+      await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
+      plusBtnFound = true;
+      await page.waitForTimeout(1500);
+      break;
+    }
+  }
+
+  // フォールバック: 本文エリアの左側を直接クリック
+  if (!plusBtnFound && bodyBoxHandle) {
+    const plusX = bodyBoxHandle.x - 30;
+    const plusY = bodyBoxHandle.y + 50;
+    await page.mouse.click(plusX, plusY);
+    await page.waitForTimeout(1500);
+    plusBtnFound = true;
+  }
+
+  if (!plusBtnFound) {
+    throw new Error("「+」ボタンが見つかりません");
+  }
+
+  // 「画像」メニュー項目をクリック
+  const imageMenuItem = page.locator('[role="menuitem"]:has-text("画像")').first();
+
+  const [chooser] = await Promise.all([
+    page.waitForEvent("filechooser", { timeout: 10000 }),
+    imageMenuItem.click(),
+  ]);
+
+  // ファイルを設定
+  await chooser.setFiles(imagePath);
+  await page.waitForTimeout(3000);
+
+  // トリミングダイアログがあれば保存
+  const dialog = page.locator('div[role="dialog"]');
+  try {
+    await dialog.waitFor({ state: "visible", timeout: 5000 });
+    const saveBtn = dialog.locator('button:has-text("保存")').first();
+    await saveBtn.waitFor({ state: "visible", timeout: 5000 });
+    await saveBtn.click();
+    await dialog.waitFor({ state: "hidden", timeout: 10000 }).catch(() => {});
+    await page.waitForTimeout(3000);
+  } catch (e) {}
+}
+
+async function setEyecatchImage(page: Page, imagePath: string): Promise<void> {
+  const selectors = [
+    'button[aria-label="画像を追加"]',
+    'button:has-text("画像を追加")',
+    'button[aria-label*="画像をアップロード"]',
+    'button:has-text("画像をアップロード")',
+    'button[aria-label*="アイキャッチ"]',
+    'button[aria-label*="サムネ"]',
+    'button[aria-label*="カバー"]',
+    '[role="button"][aria-label*="画像"]',
+    '[role="button"][aria-label*="アイキャッチ"]',
+    '[role="button"][aria-label*="サムネ"]',
+    '[role="button"][aria-label*="カバー"]',
+  ];
+
+  const uploadMenuSelector =
+    '[role="menuitem"]:has-text("画像をアップロード"), [role="option"]:has-text("画像をアップロード"), button:has-text("画像をアップロード"), div:has-text("画像をアップロード"):not(:has(*:has-text("画像をアップロード")))';
+  const fallbackMenuSelector =
+    '[role="menuitem"]:has-text("画像"), [role="option"]:has-text("画像"), button:has-text("画像"), div:has-text("画像"):not(:has(*:has-text("画像")))';
+
+  const openMenuAndGetFileChooser = async (): Promise<any | null> => {
+    const uploadMenuItem = page.locator(uploadMenuSelector).first();
+    const fallbackMenuItem = page.locator(fallbackMenuSelector).first();
+
+    let menuItem = uploadMenuItem;
+    try {
+      await menuItem.waitFor({ state: "visible", timeout: 5000 });
+    } catch {
+      menuItem = fallbackMenuItem;
+      try {
+        await menuItem.waitFor({ state: "visible", timeout: 5000 });
+      } catch {
+        await page.keyboard.press("Escape").catch(() => {});
+        return null;
+      }
+    }
+
+    try {
+      const [fc] = await Promise.all([
+        page.waitForEvent("filechooser", { timeout: 10000 }),
+        menuItem.click(),
+      ]);
+      return fc;
+    } catch {
+      return null;
+    }
+  };
+
+  let chooser: any = null;
+
+  for (const selector of selectors) {
+    const btn = page.locator(selector).first();
+    try {
+      await btn.waitFor({ state: "visible", timeout: 3000 });
+    } catch (e) {
+      continue;
+    }
+
+    await btn.click().catch(() => {});
+    await page.waitForTimeout(500);
+
+    chooser = await openMenuAndGetFileChooser();
+    if (chooser) {
+      break;
+    }
+  }
+
+  if (!chooser) {
+    const bodyBox = page.locator('div[contenteditable="true"][role="textbox"]').first();
+    const bodyBoxHandle = await bodyBox.boundingBox();
+    if (bodyBoxHandle) {
+      const candidates = await page.$$('button, [role="button"]');
+      for (const el of candidates) {
+        const box = await el.boundingBox();
+        if (!box) continue;
+
+        if (box.y >= bodyBoxHandle.y) continue;
+        if (box.y < Math.max(bodyBoxHandle.y - 500, 0)) continue;
+        if (box.x < bodyBoxHandle.x || box.x > bodyBoxHandle.x + bodyBoxHandle.width) continue;
+        if (box.width > 160 || box.height > 160) continue;
+
+        await page.mouse.move(box.x + box.width / 2, box.y + box.height / 2);
+        await page.waitForTimeout(200);
+        await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
+        await page.waitForTimeout(500);
+
+        chooser = await openMenuAndGetFileChooser();
+        if (chooser) {
+          break;
+        }
+
+        await page.keyboard.press("Escape").catch(() => {});
+      }
+
+      if (!chooser) {
+        const x = bodyBoxHandle.x + bodyBoxHandle.width / 2;
+        const y = Math.max(bodyBoxHandle.y - 120, 20);
+        await page.mouse.click(x, y).catch(() => {});
+        await page.waitForTimeout(500);
+        chooser = await openMenuAndGetFileChooser();
+      }
+    }
+  }
+
+  if (!chooser) {
+    throw new Error("アイキャッチ画像の追加ボタンが見つかりません");
+  }
+
+  await chooser.setFiles(imagePath);
+  await page.waitForTimeout(3000);
+
+  const dialog = page.locator('div[role="dialog"]');
+  try {
+    await dialog.waitFor({ state: "visible", timeout: 5000 });
+    const saveBtn = dialog.locator('button:has-text("保存")').first();
+    await saveBtn.waitFor({ state: "visible", timeout: 5000 });
+    await saveBtn.click();
+    await dialog.waitFor({ state: "hidden", timeout: 10000 }).catch(() => {});
+    await page.waitForTimeout(3000);
+  } catch (e) {
+    // トリミングダイアログなし
+  }
+}
+
+async function waitForFirstVisibleLocator(
+  page: Page,
+  selectors: string[],
+  timeoutMs: number
+): Promise<Locator> {
+  const perSelectorTimeout = Math.max(Math.floor(timeoutMs / selectors.length), 3000);
+  let lastError: Error | undefined;
+
+  for (const selector of selectors) {
+    const locator = page.locator(selector).first();
+    try {
+      await locator.waitFor({ state: "visible", timeout: perSelectorTimeout });
+      return locator;
+    } catch (error) {
+      lastError = error as Error;
+    }
+  }
+
+  throw new Error(
+    `タイトル入力欄が見つかりませんでした: ${selectors.join(", ")}\n${lastError?.message || ""}`
+  );
+}
+
+export async function fillNoteTitle(page: Page, title: string): Promise<void> {
+  const titleSelectors = [
+    'textarea[placeholder*="タイトル"]',
+    'input[placeholder*="タイトル"]',
+    'textarea[aria-label*="タイトル"]',
+    'input[aria-label*="タイトル"]',
+    '[data-testid*="title"] textarea',
+    '[data-testid*="title"] input',
+    '[contenteditable="true"][data-placeholder*="タイトル"]',
+    'h1[contenteditable="true"]',
+    "textarea",
+    'input[type="text"]',
+  ];
+
+  const titleArea = await waitForFirstVisibleLocator(page, titleSelectors, 30000);
+  await titleArea.click();
+  try {
+    await titleArea.fill(title);
+  } catch {
+    const modifier = process.platform === "darwin" ? "Meta" : "Control";
+    await page.keyboard.press(`${modifier}+A`);
+    await page.keyboard.press("Backspace");
+    await page.keyboard.type(title);
+  }
+}
+
+/**
+ * 本文を全選択して削除する（既存記事を入力し直すとき）
+ */
+async function clearNoteBody(page: Page): Promise<void> {
+  const bodyBox = page.locator('div[contenteditable="true"][role="textbox"]').first();
+  await bodyBox.waitFor({ state: "visible" });
+  await bodyBox.click();
+  const modifier = process.platform === "darwin" ? "Meta" : "Control";
+  await page.keyboard.press(`${modifier}+A`);
+  await page.keyboard.press("Backspace");
+  await page.waitForTimeout(500);
+}
+
+/**
+ * Playwrightでnoteエディタに記事を作成
+ * noteId を指定した場合は既存記事の編集ページを開き、タイトルと本文を入力し直す
+ */
+export async function createNoteWithPlaywright(
+  title: string,
+  markdown: string,
+  imageBasePath: string,
+  options: {
+    headless?: boolean;
+    saveAsDraft?: boolean;
+    noteId?: string;
+    eyecatchPath?: string;
+  } = {}
+): Promise<{ success: boolean; noteUrl?: string; error?: string }> {
+  const { headless = true, saveAsDraft = true, noteId, eyecatchPath } = options;
+
+  const { email: NOTE_EMAIL, password: NOTE_PASSWORD } = getCurrentAccountProfile();
+
+  if (!NOTE_EMAIL || !NOTE_PASSWORD) {
+    return { success: false, error: "NOTE_EMAILとNOTE_PASSWORDが設定されていません" };
+  }
+
+  let browser: Browser | null = null;
+
+  try {
+    browser = await chromium.launch({
+      headless,
+      slowMo: 100,
+    });
+
+    const context = await browser.newContext({
+      viewport: { width: 1280, height: 900 },
+      locale: "ja-JP",
+    });
+
+    const page = await context.newPage();
+    page.setDefaultTimeout(60000);
+
+    // ログイン
+    await page.goto("https://note.com/login", { waitUntil: "networkidle" });
+    await page.waitForTimeout(2000);
+
+    const inputs = await page.$$('input:not([type="hidden"])');
+    if (inputs.length >= 2) {
+      await inputs[0].fill(NOTE_EMAIL);
+      await inputs[1].fill(NOTE_PASSWORD);
+    }
+
+    await page.click('button:has-text("ログイン")');
+    await page.waitForURL((url) => !url.href.includes("/login"), { timeout: 30000 });
+
+    // 新規記事作成（noteId指定時は既存記事の編集）
+    const editorUrl = noteId
+      ? `https://editor.note.com/notes/${noteId}/edit/`
+      : "https://editor.note.com/new";
+    await page.goto(editorUrl, { waitUntil: "domcontentloaded" });
+    await page.waitForTimeout(3000);
+
+    // タイトル入力
+    await fillNoteTitle(page, title);
+    if (noteId) {
+      await clearNoteBody(page);
+    }
+
+    // Markdownを解析
+    const elements = parseMarkdown(markdown);
+
+    let bodyElements = elements;
+    let eyecatchImagePath: string | null = null;
+    let eyecatchCaption: string | null = null;
+
+    // アイキャッチ画像の指定がなければ、本文の最初の画像をアイキャッチにする
+    const eyecatchIndex = eyecatchPath
+      ? -1
+      : elements.findIndex((element) => element.type === "image" && Boolean(element.imagePath));
+    if (eyecatchPath) {
+      eyecatchImagePath = path.isAbsolute(eyecatchPath)
+        ? eyecatchPath
+        : path.join(imageBasePath, eyecatchPath);
+    } else if (eyecatchIndex !== -1) {
+      const eyecatchElement = elements[eyecatchIndex];
+      const imagePath = eyecatchElement.imagePath!;
+      eyecatchImagePath = imagePath.startsWith("/")
+        ? imagePath
+        : path.join(imageBasePath, imagePath);
+      eyecatchCaption = eyecatchElement.caption || null;
+
+      bodyElements = [...elements.slice(0, eyecatchIndex), ...elements.slice(eyecatchIndex + 1)];
+    }
+
+    if (eyecatchImagePath) {
+      if (noteId) {
+        // 既存記事ではアイキャッチ設定済みの場合があるため、差し替えに失敗しても続行する
+        await setEyecatchImage(page, eyecatchImagePath).catch((error) =>
+          console.error(`アイキャッチ画像の差し替えをスキップ: ${error.message}`)
+        );
+      } else {
+        await setEyecatchImage(page, eyecatchImagePath);
+      }
+
+      // アイキャッチ画像にキャプションがあれば本文の先頭に追加
+      if (eyecatchCaption) {
+        await page.waitForTimeout(500);
+        const bodyBox = page.locator('div[contenteditable="true"][role="textbox"]').first();
+        await bodyBox.click();
+        await page.keyboard.type(eyecatchCaption);
+        await page.keyboard.press("Enter");
+        await page.keyboard.press("Enter");
+      }
+    }
+
+    // エディタに書式付きで入力
+    await formatToNoteEditor(page, bodyElements, imageBasePath, insertImageAtCurrentPosition);
+
+    // 下書き保存
+    if (saveAsDraft) {
+      const saveBtn = page.locator('button:has-text("下書き保存")').first();
+      await saveBtn.waitFor({ state: "visible" });
+      if (await saveBtn.isEnabled()) {
+        await saveBtn.click();
+        await page.waitForTimeout(3000);
+      }
+    }
+
+    const noteUrl = page.url();
+
+    return { success: true, noteUrl };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  } finally {
+    if (browser) {
+      await browser.close();
+    }
+  }
+}
+
+/**
+ * 予約公開日時を決める（引数を優先し、公開済みの記事ではFrontmatterの publishAt を使わない）
+ */
+export function resolveScheduledAt(
+  publishAt: string | undefined,
+  frontmatter: NoteFrontmatter
+): string | undefined {
+  const value = publishAt ?? (frontmatter.publishedAt ? undefined : frontmatter.publishAt);
+  return value ? resolvePublishAt(value) : undefined;
+}
+
+/**
+ * エディタで保存した記事に有料設定・予約公開を反映し、Frontmatterに書き戻す記事IDとURLを返す
+ */
+export async function finishObsidianNote(
+  editorUrl: string | undefined,
+  options: {
+    title: string;
+    frontmatter: NoteFrontmatter;
+    tags?: string[];
+    paid?: NotePaidSettings;
+    scheduledAt?: string;
+    sourcePath?: string;
+    // 前回の反映から内容が変わっていない（有料設定は反映済み）
+    contentUnchanged?: boolean;
+  }
+): Promise<{
+  noteKey?: string;
+  noteUrl?: string;
+  scheduled?: PublishQueueEntry;
+  warnings: string[];
+}> {
+  const { title, frontmatter, tags, paid, scheduledAt, sourcePath, contentUnchanged } = options;
+  const noteKey = editorUrl?.match(/\/notes\/(n[0-9a-z]+)/)?.[1] || frontmatter.noteId;
+  if (!noteKey) {
+    if (paid || scheduledAt) {
+      throw new Error(
+        `下書きは作成しましたが、記事IDを取得できないため有料設定・予約を反映できませんでした: ${editorUrl}`
+      );
+    }
+    return { warnings: ["記事IDを取得できないため、Frontmatterに書き戻せませんでした"] };
+  }
+
+  const warnings =
+    paid && !contentUnchanged ? await applyPaidSettingsToDraft(noteKey, title, paid) : [];
+  const scheduled = scheduledAt
+    ? enqueuePublication({
+        noteId: noteKey,
+        publishAt: scheduledAt,
+        source: "publish-from-obsidian",
+        title,
+        tags,
+        paid: paid ? { price: paid.price, membershipOnly: paid.membershipOnly } : undefined,
+        sourcePath,
+      })
+    : undefined;
+
+  return {
+    noteKey,
+    noteUrl: frontmatter.noteUrl || `https://note.com/${getNoteUserId()}/n/${noteKey}`,
+    scheduled,
+    warnings,
+  };
+}
+
+/**
+ * 即時公開した場合にFrontmatterへ書き戻す公開日時（下書き保存・公開済みの記事の更新では書き戻さない）
+ */
+export function publishedAtToWrite(
+  saveAsDraft: boolean,
+  frontmatter: NoteFrontmatter
+): string | undefined {
+  return saveAsDraft || frontmatter.publishedAt ? undefined : new Date().toISOString();
+}
+
+/**
+ * Obsidian記事に対応する公開済みの記事を対応表から探す
+ * Frontmatterの noteId で別の記事を指定している場合は対応表を使わない
+ */
+export function findObsidianMapping(
+  sourceId: string | undefined,
+  noteId: string | undefined
+): SourceMapping | undefined {
+  const mapping =
+    (sourceId ? findSourceMapping("obsidian", sourceId) : undefined) ??
+    (noteId ? findSourceMappingByNoteId("obsidian", noteId) : undefined);
+  return mapping && (!noteId || mapping.noteId === noteId) ? mapping : undefined;
+}
+
+/**
+ * 差分表示用に保存する本文（タイトル行 + 本文）
+ */
+export function toSnapshot(title: string, body: string): string {
+  return `# ${title}\n\n${body.trim()}`;
+}
+
+/**
+ * ObsidianのMarkdownファイルをnoteに公開する
+ * 前回の反映から内容が変わっていなければ記事は更新しない（force で強制）
+ * 画像が見つからない場合は success: false を返し、それ以外の失敗はエラーを投げる
+ */
+export async function publishObsidianFile(
+  options: PublishObsidianFileOptions
+): Promise<ObsidianPublishResult> {
+  const {
+    markdownPath,
+    imageBasePath,
+    tags,
+    headless = false,
+    publishAt,
+    force,
+    vaultRoot,
+  } = options;
+  let saveAsDraft = options.saveAsDraft ?? true;
+
+  // ファイル存在確認
+  if (!fs.existsSync(markdownPath)) {
+    throw new Error(`ファイルが見つかりません: ${markdownPath}`);
+  }
+
+  const markdown = fs.readFileSync(markdownPath, "utf-8");
+  const basePath = imageBasePath || path.dirname(markdownPath);
+
+  // Frontmatter・タイトル・本文に分ける（引数の指定はFrontmatterより優先）
+  const article = parseMarkdownArticle(markdown);
+  const { title, frontmatter } = article;
+  const articleTags = tags ?? frontmatter.tags;
+  const scheduledAt = resolveScheduledAt(publishAt, frontmatter);
+
+  // 内部リンク・埋め込みを保管庫を参照して展開する（埋め込み先の変更も差分として扱われる）
+  const vault = await resolveObsidianMarkdown(article.body, {
+    sourcePath: markdownPath,
+    vaultRoot,
+  });
+  const body = vault.markdown;
+  const paid = toPaidSettings(frontmatter);
+
+  // Markdownを解析して画像を確認
+  const elements = parseMarkdown(body);
+  const imageElements = elements.filter((e) => e.type === "image");
+
+  // 有料設定・予約公開はAPIで下書きに反映するため、下書きとして保存する
+  const hasPaywall = elements.some((e) => e.type === "paywall");
+  validatePaidSettings(paid, hasPaywall);
+  const hasPaid = hasPaywall || Object.keys(paid).length > 0;
+  if (scheduledAt || hasPaid) {
+    saveAsDraft = true;
+  }
+
+  // 画像の存在確認（Frontmatterのアイキャッチ画像を含む）
+  const imagePaths = imageElements.map((img) => img.imagePath || "");
+  if (frontmatter.eyecatch) {
+    imagePaths.push(frontmatter.eyecatch);
+  }
+  const imageInfo = imagePaths.map((imagePath) => {
+    const fullPath = imagePath.startsWith("/") ? imagePath : path.join(basePath, imagePath);
+    return {
+      fileName: imagePath,
+      localPath: fullPath,
+      exists: fs.existsSync(fullPath),
+    };
+  });
+
+  const missingImages = imageInfo.filter((i) => !i.exists);
+  if (missingImages.length > 0) {
+    return {
+      success: false,
+      error: "画像ファイルが見つかりません",
+      missingImages: missingImages.map((i) => i.fileName),
+      hint: "imageBasePathを確認してください",
+    };
+  }
+
+  // 前回反映した内容と比べる（記事IDはFrontmatterを優先し、なければ対応表から探す）
+  const sourcePath = path.resolve(markdownPath);
+  const mapping = findObsidianMapping(sourcePath, frontmatter.noteId);
+  const target: NoteFrontmatter = {
+    ...frontmatter,
+    noteId: frontmatter.noteId ?? mapping?.noteId,
+    noteUrl: frontmatter.noteUrl ?? mapping?.noteUrl,
+  };
+  const contentHash = computeContentHash(
+    title,
+    body.trim(),
+    articleTags,
+    paid,
+    frontmatter.eyecatch,
+    imageInfo.map((i) => computeFileHash(i.localPath))
+  );
+  const snapshot = toSnapshot(title, body);
+  const change = detectSourceChange(mapping, contentHash, snapshot);
+
+  if (change.status === "unchanged" && !force) {
+    const finished = await finishObsidianNote(undefined, {
+      title,
+      frontmatter: target,
+      tags: articleTags,
+      paid: hasPaid ? paid : undefined,
+      scheduledAt,
+      sourcePath,
+      contentUnchanged: true,
+    });
+    return {
+      success: true,
+      status: "unchanged",
+      message: finished.scheduled
+        ? `内容に変更がないため記事は更新せず、公開を予約しました（${finished.scheduled.publishAt}）`
+        : "前回の反映から内容が変わっていないため、記事の更新をスキップしました",
+      title,
+      noteId: finished.noteKey,
+      noteUrl: finished.noteUrl,
+      scheduled: finished.scheduled,
+      hint: "強制的に更新する場合は force: true を指定してください",
+    };
+  }
+
+  // Playwrightで記事を作成（公開済みの記事があれば同じ記事を更新）
+  const result = await createNoteWithPlaywright(title, body, basePath, {
+    headless,
+    saveAsDraft,
+    noteId: target.noteId,
+    eyecatchPath: frontmatter.eyecatch,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  const finished = await finishObsidianNote(result.noteUrl, {
+    title,
+    frontmatter: target,
+    tags: articleTags,
+    paid: hasPaid ? paid : undefined,
+    scheduledAt,
+    sourcePath,
+  });
+
+  // 記事IDとURLをFrontmatterと対応表に保存し、再実行時は同じ記事を更新する
+  if (finished.noteKey) {
+    writeFrontmatterFields(markdownPath, {
+      noteId: finished.noteKey,
+      noteUrl: finished.noteUrl,
+      publishedAt: publishedAtToWrite(saveAsDraft, frontmatter),
+    });
+    saveSourceMapping({
+      kind: "obsidian",
+      sourceId: sourcePath,
+      noteId: finished.noteKey,
+      noteUrl: finished.noteUrl,
+      contentHash,
+      title,
+      snapshot,
+    });
+  }
+
+  return {
+    success: true,
+    status: target.noteId ? "updated" : "created",
+    message: finished.scheduled
+      ? `下書きを${target.noteId ? "更新" : "作成"}し、公開を予約しました（${finished.scheduled.publishAt}）`
+      : target.noteId
+        ? "既存の記事を更新しました"
+        : saveAsDraft
+          ? "下書きを作成しました"
+          : "記事を作成しました",
+    title,
+    noteId: finished.noteKey,
+    noteUrl: finished.noteUrl,
+    editUrl: result.noteUrl,
+    updated: Boolean(target.noteId),
+    diff: change.diff,
+    scheduled: finished.scheduled,
+    paid: hasPaid ? { ...paid, paywall: hasPaywall } : undefined,
+    promoText: frontmatter.promoText,
+    links: vault.links,
+    embeds: vault.embeds,
+    warnings: [...vault.warnings, ...finished.warnings],
+    imageCount: imageElements.length,
+    images: imageInfo.map((i) => i.fileName),
+    tags: articleTags || [],
+    note: "エディタのUI操作で書式（見出し、リスト、引用など）を適用しました",
+  };
+}
@@ -0,0 +1,565 @@
+import fs from "fs";
+import path from "path";
+import { env } from "../config/environment.js";
+import { hasAuth } from "./auth.js";
+import { readNoteFrontmatter, splitFrontmatter } from "./frontmatter.js";
+import { fetchPublishedNoteUrl } from "./note-publisher.js";
+import { findSourceMapping } from "./source-mapping.js";
+
+/**
+ * Obsidianの保管庫（Vault）を参照して、Obsidian独自の記法を通常のMarkdownに展開するリゾルバ
+ *
+ * - ![[ノート]] / ![[ノート#見出し]] / ![[ノート#^ブロックID]]：埋め込み先の内容を展開する
+ * - [[ノート]] / [[ノート|表示名]]：リンク先が公開済みなら記事URLへのリンク、未公開なら表示テキストにする
+ * - ![[画像.png]]：保管庫内のファイルを探し、絶対パスに置き換える
+ * - %%コメント%% と行末のブロックID（^id）は取り除く
+ *
+ * コードブロック・インラインコードの中は変換しない。
+ * コールアウト・ハイライトは MarkdownParser が扱う。
+ */
+
+// 埋め込みを展開する深さの上限
+const MAX_EMBED_DEPTH = 5;
+
+const NOTE_EXTENSION = ".md";
+const IGNORED_DIRECTORIES = new Set(["node_modules"]);
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+/;
+const EMBED_LINE_PATTERN = /^!\[\[([^\]\n]+)\]\]$/;
+// インラインコードは変換しないため、内部リンク・コメントと同じパターンで読み飛ばす
+const WIKILINK_PATTERN = /(`+)[^`\n]*?\1|(!?)\[\[([^\]\n]+)\]\]/g;
+const COMMENT_PATTERN = /(`+)[^`\n]*?\1|%%[\s\S]*?%%/g;
+const BLOCK_ID_PATTERN = /(?:^|\s+)\^([A-Za-z0-9-]+)\s*$/;
+const MARKDOWN_IMAGE_PATTERN = /!\[([^\]]*)\]\(([^)\s]+)((?:\s+"[^"]*")?)\)/g;
+
+export interface VaultLink {
+  target: string;
+  text: string;
+  // リンク先のノートのパス（見つからない場合は undefined）
+  path?: string;
+  // 公開済みの記事URL（未公開の場合は undefined）
+  url?: string;
+}
+
+export interface VaultResolveResult {
+  markdown: string;
+  links: VaultLink[];
+  // 展開した埋め込みノートのパス
+  embeds: string[];
+  warnings: string[];
+}
+
+export interface ObsidianVaultResolverOptions {
+  vaultRoot?: string;
+  // 記事が公開済みなら記事URLを返す（未指定時はFrontmatterの publishedAt と noteUrl だけで判断する）
+  lookupPublishedUrl?: (noteId: string) => Promise<string | null>;
+}
+
+interface WikiTarget {
+  name: string;
+  subpath?: string;
+  alias?: string;
+}
+
+/**
+ * ファイルを含む保管庫のルート（.obsidian フォルダのあるディレクトリ）を探す
+ */
+export function findVaultRoot(filePath: string): string | undefined {
+  let dir = path.dirname(path.resolve(filePath));
+  while (true) {
+    if (fs.existsSync(path.join(dir, ".obsidian"))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * 保管庫のルートを決める（引数 → OBSIDIAN_VAULT_PATH → ファイルの親ディレクトリの順）
+ */
+export function resolveVaultRoot(vaultRoot?: string, filePath?: string): string | undefined {
+  const root =
+    vaultRoot || env.OBSIDIAN_VAULT_PATH || (filePath ? findVaultRoot(filePath) : undefined);
+  if (!root) {
+    return undefined;
+  }
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new Error(`Obsidianの保管庫が見つかりません: ${root}`);
+  }
+  return path.resolve(root);
+}
+
+/**
+ * 記事の本文を保管庫を参照して展開する（ツールから使う場合の入口）
+ * 認証情報があれば、リンク先の記事が公開済みかどうかをnoteに問い合わせる
+ */
+export async function resolveObsidianMarkdown(
+  markdown: string,
+  options: { sourcePath?: string; vaultRoot?: string } = {}
+): Promise<VaultResolveResult> {
+  const resolver = new ObsidianVaultResolver({
+    vaultRoot: resolveVaultRoot(options.vaultRoot, options.sourcePath),
+    lookupPublishedUrl: hasAuth() ? fetchPublishedNoteUrl : undefined,
+  });
+  return resolver.resolve(markdown, options.sourcePath);
+}
+
+export class ObsidianVaultResolver {
+  private readonly vaultRoot?: string;
+  private files: string[] | null = null;
+  // ノートのパス → 公開済みの記事URL（未公開は null）
+  private publishedUrls = new Map<string, string | null>();
+
+  constructor(private readonly options: ObsidianVaultResolverOptions = {}) {
+    this.vaultRoot = options.vaultRoot ? path.resolve(options.vaultRoot) : undefined;
+  }
+
+  /**
+   * Markdownを展開する（sourcePath は相対パスの基準と、自身への埋め込みの検出に使う）
+   */
+  async resolve(markdown: string, sourcePath?: string): Promise<VaultResolveResult> {
+    const result: VaultResolveResult = { markdown: "", links: [], embeds: [], warnings: [] };
+    const source = sourcePath ? path.resolve(sourcePath) : undefined;
+    result.markdown = await this.transform(markdown, source, source ? [source] : [], result);
+    return result;
+  }
+
+  private async transform(
+    markdown: string,
+    sourcePath: string | undefined,
+    stack: string[],
+    result: VaultResolveResult
+  ): Promise<string> {
+    const output: string[] = [];
+
+    for (const chunk of splitCodeBlocks(markdown)) {
+      if (chunk.code) {
+        output.push(chunk.text);
+        continue;
+      }
+
+      const lines = chunk.text
+        .replace(COMMENT_PATTERN, (match) => (match.startsWith("`") ? match : ""))
+        .split("\n");
+      const transformed: string[] = [];
+      for (const line of lines) {
+        // 1行に埋め込みだけを書いた行は、埋め込み先の内容に置き換える
+        const embedMatch = line.trim().match(EMBED_LINE_PATTERN);
+        const embedTarget = embedMatch ? parseWikiTarget(embedMatch[1]) : null;
+        if (embedTarget && !this.isAttachment(embedTarget, sourcePath)) {
+          const embedded = await this.embedNote(embedTarget, sourcePath, stack, result);
+          // 展開できない場合は表示テキストだけ残す
+          transformed.push(embedded ?? linkText(embedTarget));
+          continue;
+        }
+
+        const replaced = await replaceAsync(line, WIKILINK_PATTERN, (match) =>
+          match[1] !== undefined
+            ? Promise.resolve(match[0])
+            : this.replaceWikilink(match[3], match[2] === "!", sourcePath, stack, result)
+        );
+        transformed.push(replaced.replace(BLOCK_ID_PATTERN, ""));
+      }
+      output.push(transformed.join("\n"));
+    }
+
+    return output.join("\n");
+  }
+
+  /**
+   * 行内の [[...]] / ![[...]] を置き換える
+   */
+  private async replaceWikilink(
+    raw: string,
+    embed: boolean,
+    sourcePath: string | undefined,
+    stack: string[],
+    result: VaultResolveResult
+  ): Promise<string> {
+    const target = parseWikiTarget(raw);
+
+    if (embed) {
+      if (this.isAttachment(target, sourcePath)) {
+        return this.replaceAttachment(raw, target, sourcePath, stack);
+      }
+      // 行内のノートの埋め込みは展開できないため、リンクとして扱う
+      result.warnings.push(`行内のノートの埋め込みはリンクとして扱いました: ![[${raw}]]`);
+    }
+
+    const text = linkText(target);
+    if (!target.name) {
+      // 同じノート内の見出し・ブロックへのリンク
+      result.links.push({ target: raw, text });
+      return text;
+    }
+
+    const notePath = this.findNote(target.name, sourcePath);
+    if (!notePath) {
+      result.links.push({ target: raw, text });
+      result.warnings.push(`リンク先のノートが見つかりません: [[${raw}]]`);
+      return text;
+    }
+
+    const url = await this.getPublishedUrl(notePath, result);
+    result.links.push({ target: raw, text, path: notePath, url: url ?? undefined });
+    return url ? `[${text}](${url})` : text;
+  }
+
+  /**
+   * ノートの埋め込みを展開する（展開できない場合は null）
+   */
+  private async embedNote(
+    target: WikiTarget,
+    sourcePath: string | undefined,
+    stack: string[],
+    result: VaultResolveResult
+  ): Promise<string | null> {
+    const label = `![[${target.name}${target.subpath ? `#${target.subpath}` : ""}]]`;
+    const notePath = target.name ? this.findNote(target.name, sourcePath) : sourcePath;
+    if (!notePath) {
+      result.warnings.push(`埋め込み先のノートが見つかりません: ${label}`);
+      return null;
+    }
+    if (stack.includes(notePath) && (target.name || !target.subpath)) {
+      result.warnings.push(`埋め込みが循環しているため展開しませんでした: ${label}`);
+      return null;
+    }
+    if (stack.length > MAX_EMBED_DEPTH) {
+      result.warnings.push(
+        `埋め込みの深さが上限（${MAX_EMBED_DEPTH}）を超えたため展開しませんでした: ${label}`
+      );
+      return null;
+    }
+
+    let content: string | null = splitFrontmatter(fs.readFileSync(notePath, "utf-8")).content;
+    if (target.subpath) {
+      content = target.subpath.startsWith("^")
+        ? extractBlock(content, target.subpath.slice(1))
+        : extractSection(content, target.subpath);
+      if (content === null) {
+        result.warnings.push(`埋め込み先の見出し・ブロックが見つかりません: ${label}`);
+        return null;
+      }
+    }
+
+    if (!result.embeds.includes(notePath)) {
+      result.embeds.push(notePath);
+    }
+    const embedded = rewriteRelativeImages(content.trim(), path.dirname(notePath));
+    return this.transform(embedded, notePath, [...stack, notePath], result);
+  }
+
+  /**
+   * 画像などの添付ファイルの埋め込みを絶対パスにする
+   * 元のノートからの相対パスで見つかる場合はそのまま残す
+   */
+  private replaceAttachment(
+    raw: string,
+    target: WikiTarget,
+    sourcePath: string | undefined,
+    stack: string[]
+  ): string {
+    const filePath = this.findFile(target.name, sourcePath);
+    const isRootNote = stack.length <= 1;
+    if (
+      !filePath ||
+      (isRootNote && sourcePath && isRelativeTo(filePath, sourcePath, target.name))
+    ) {
+      return `![[${raw}]]`;
+    }
+    const options = raw.slice(raw.indexOf("|") === -1 ? raw.length : raw.indexOf("|"));
+    return `![[${filePath}${options}]]`;
+  }
+
+  private isAttachment(target: WikiTarget, sourcePath: string | undefined): boolean {
+    const extension = path.extname(target.name).toLowerCase();
+    if (!extension || extension === NOTE_EXTENSION) {
+      return false;
+    }
+    // 「v1.2 リリース」のように拡張子に見えるノート名はノートとして扱う
+    return !this.findNote(target.name, sourcePath) || !!this.findFile(target.name, sourcePath);
+  }
+
+  private findNote(name: string, sourcePath: string | undefined): string | undefined {
+    const fileName = name.toLowerCase().endsWith(NOTE_EXTENSION)
+      ? name
+      : `${name}${NOTE_EXTENSION}`;
+    return this.findFile(fileName, sourcePath);
+  }
+
+  /**
+   * リンク先のファイルを探す
+   * ノートからの相対パス → 保管庫ルートからのパス → 保管庫内の同名ファイルの順に探し、
+   * 同名ファイルが複数ある場合はノートと同じフォルダ、パスの短いものを優先する
+   */
+  private findFile(target: string, sourcePath: string | undefined): string | undefined {
+    const normalized = target.replace(/\\/g, "/").replace(/^\/+/, "");
+    if (!normalized) {
+      return undefined;
+    }
+
+    if (sourcePath) {
+      const relative = path.resolve(path.dirname(sourcePath), normalized);
+      if (isFile(relative)) {
+        return relative;
+      }
+    }
+    if (!this.vaultRoot) {
+      return undefined;
+    }
+
+    const fromRoot = path.join(this.vaultRoot, normalized);
+    if (isFile(fromRoot)) {
+      return fromRoot;
+    }
+
+    const wanted = normalized.toLowerCase();
+    const sourceDir = sourcePath ? path.dirname(sourcePath) : undefined;
+    return this.getFiles()
+      .filter((file) => {
+        const relative = toPosixPath(path.relative(this.vaultRoot!, file)).toLowerCase();
+        return relative === wanted || relative.endsWith(`/${wanted}`);
+      })
+      .sort(
+        (a, b) =>
+          Number(path.dirname(b) === sourceDir) - Number(path.dirname(a) === sourceDir) ||
+          a.length - b.length
+      )[0];
+  }
+
+  /**
+   * 保管庫内のファイル一覧（.obsidian などの隠しフォルダは除く）
+   */
+  private getFiles(): string[] {
+    if (this.files) {
+      return this.files;
+    }
+
+    const files: string[] = [];
+    const walk = (dir: string) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.name.startsWith(".")) continue;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.has(entry.name)) walk(fullPath);
+        } else if (entry.isFile()) {
+          files.push(fullPath);
+        }
+      }
+    };
+    if (this.vaultRoot) {
+      walk(this.vaultRoot);
+    }
+    this.files = files;
+    return files;
+  }
+
+  /**
+   * リンク先のノートが公開済みなら記事URLを返す
+   * Frontmatterの publishedAt と noteUrl があればそれを使い、なければ記事IDでnoteに問い合わせる
+   */
+  private async getPublishedUrl(
+    notePath: string,
+    result: VaultResolveResult
+  ): Promise<string | null> {
+    if (this.publishedUrls.has(notePath)) {
+      return this.publishedUrls.get(notePath)!;
+    }
+
+    let url: string | null = null;
+    try {
+      const frontmatter = readNoteFrontmatter(
+        splitFrontmatter(fs.readFileSync(notePath, "utf-8")).data
+      );
+      const noteId = frontmatter.noteId ?? findSourceMapping("obsidian", notePath)?.noteId;
+      if (frontmatter.publishedAt && frontmatter.noteUrl) {
+        url = frontmatter.noteUrl;
+      } else if (noteId && this.options.lookupPublishedUrl) {
+        url = await this.options.lookupPublishedUrl(noteId);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.warnings.push(`リンク先の公開状態を確認できませんでした（${notePath}）: ${message}`);
+    }
+
+    this.publishedUrls.set(notePath, url);
+    return url;
+  }
+}
+
+/**
+ * [[ノート#見出し|表示名]] を分解する（表の中の \| による区切りにも対応）
+ */
+function parseWikiTarget(raw: string): WikiTarget {
+  const pipe = raw.indexOf("|");
+  const link = (pipe === -1 ? raw : raw.slice(0, pipe)).replace(/\\$/, "");
+  const alias = pipe === -1 ? undefined : raw.slice(pipe + 1).trim();
+  const hash = link.indexOf("#");
+  return {
+    name: (hash === -1 ? link : link.slice(0, hash)).trim(),
+    subpath: hash === -1 ? undefined : link.slice(hash + 1).trim() || undefined,
+    alias: alias || undefined,
+  };
+}
+
+/**
+ * リンクの表示テキスト（表示名 → ノート名 > 見出し の順）
+ */
+function linkText(target: WikiTarget): string {
+  if (target.alias) {
+    return target.alias;
+  }
+  const name = path.basename(target.name, NOTE_EXTENSION);
+  const subpath = target.subpath?.replace(/^\^/, "").split("#").pop();
+  if (!name) {
+    return subpath ?? "";
+  }
+  return subpath ? `${name} > ${subpath}` : name;
+}
+
+/**
+ * 見出しから、同じかより上位の見出しの手前までを取り出す（ノート#見出1#見出2 は最後の見出しを使う）
+ */
+function extractSection(content: string, subpath: string): string | null {
+  const heading = normalizeHeading(subpath.split("#").pop() || "");
+  const lines = content.split(/\r?\n/);
+  let start = -1;
+  let level = 0;
+  let fence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) fence = !fence;
+    if (fence) continue;
+
+    const match = lines[i].match(HEADING_PATTERN);
+    if (!match) continue;
+    if (start === -1) {
+      if (normalizeHeading(match[2]) === heading) {
+        start = i;
+        level = match[1].length;
+      }
+    } else if (match[1].length <= level) {
+      return lines.slice(start, i).join("\n");
+    }
+  }
+
+  return start === -1 ? null : lines.slice(start).join("\n");
+}
+
+/**
+ * ブロックID（^id）の付いたブロックを取り出す
+ * リスト項目は項目と子項目、段落は段落全体、単独行のIDは直前のブロックを対象にする
+ */
+function extractBlock(content: string, blockId: string): string | null {
+  const lines = content.split(/\r?\n/);
+  const index = lines.findIndex((line) => line.match(BLOCK_ID_PATTERN)?.[1] === blockId);
+  if (index === -1) {
+    return null;
+  }
+
+  const listMatch = lines[index].match(LIST_ITEM_PATTERN);
+  if (listMatch) {
+    let end = index + 1;
+    while (
+      end < lines.length &&
+      lines[end].trim() !== "" &&
+      (lines[end].match(/^\s*/)?.[0].length ?? 0) > listMatch[1].length
+    ) {
+      end++;
+    }
+    return lines.slice(index, end).join("\n");
+  }
+
+  const blockEnd = lines[index].trim().startsWith("^") ? index - 1 : index;
+  let start = blockEnd;
+  while (start > 0 && lines[start - 1].trim() !== "") start--;
+  let end = index + 1;
+  while (end < lines.length && lines[end].trim() !== "") end++;
+  return lines.slice(start, Math.max(end, blockEnd + 1)).join("\n");
+}
+
+/**
+ * 埋め込み先のノートの相対パスの画像を、埋め込み先のノートを基準とした絶対パスにする
+ */
+function rewriteRelativeImages(markdown: string, baseDir: string): string {
+  return markdown.replace(MARKDOWN_IMAGE_PATTERN, (match, alt, src, title) =>
+    /^(?:[a-z]+:)?\/\//i.test(src) || path.isAbsolute(src)
+      ? match
+      : `![${alt}](${path.resolve(baseDir, decodeURI(src))}${title})`
+  );
+}
+
+/**
+ * Markdownをコードブロックとそれ以外に分ける
+ */
+function splitCodeBlocks(markdown: string): { text: string; code: boolean }[] {
+  const chunks: { text: string; code: boolean }[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  const flush = (code: boolean) => {
+    if (current.length > 0) chunks.push({ text: current.join("\n"), code });
+    current = [];
+  };
+
+  for (const line of markdown.split("\n")) {
+    const match = line.match(FENCE_PATTERN);
+    if (!fence && match) {
+      flush(false);
+      fence = match[1];
+      current.push(line);
+    } else if (fence && match && match[1][0] === fence[0] && match[1].length >= fence.length) {
+      current.push(line);
+      flush(true);
+      fence = null;
+    } else {
+      current.push(line);
+    }
+  }
+  flush(fence !== null);
+
+  return chunks;
+}
+
+async function replaceAsync(
+  text: string,
+  pattern: RegExp,
+  replacer: (match: RegExpMatchArray) => Promise<string>
+): Promise<string> {
+  let output = "";
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    output += text.slice(last, match.index) + (await replacer(match));
+    last = match.index! + match[0].length;
+  }
+  return output + text.slice(last);
+}
+
+function normalizeHeading(text: string): string {
+  return text
+    .replace(/[*_`=~]/g, "")
+    .trim()
+    .toLowerCase();
+}
+
+function isRelativeTo(filePath: string, sourcePath: string, target: string): boolean {
+  return path.resolve(path.dirname(sourcePath), target) === filePath;
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
@@ -0,0 +1,165 @@
+import { noteApiRequest } from "./api-client.js";
+import { FrontmatterValue, readNoteFrontmatter } from "./frontmatter.js";
+import { NoteFrontmatter, NotePaidSettings } from "../types/note-types.js";
+
+/**
+ * 有料記事の設定（有料ライン・価格・メンバーシップ限定・マガジン）を扱うユーティリティ
+ *
+ * Markdownでの指定方法：
+ * - 本文中の <!-- paywall --> だけの行 → ここから下を有料エリアにする
+ * - Frontmatter の price → 価格（円、0 は無料）
+ * - Frontmatter の membershipOnly → メンバーシップ限定で公開する
+ * - Frontmatter の magazine → 記事を追加するマガジンのキー（配列で複数指定可）
+ */
+
+// Markdown・HTML中の有料ラインの記法
+export const PAYWALL_MARKER = "<!-- paywall -->";
+export const PAYWALL_MARKER_PATTERN = /^<!--\s*paywall\s*-->$/i;
+
+// エディタ入力時に有料ラインの位置として入力するテキスト（保存後に本文から取り除く）
+export const PAYWALL_EDITOR_TEXT = "【ここから有料】";
+
+// noteで有料記事に設定できる価格（円）
+const MIN_PRICE = 100;
+const MAX_PRICE = 50000;
+
+// 本文HTML中の有料ライン（HTMLコメント、またはエディタで入力した段落）
+const PAYWALL_HTML_PATTERN = new RegExp(
+  `<!--\\s*paywall\\s*-->|<p\\b[^>]*>\\s*(?:&lt;!--\\s*paywall\\s*--&gt;|${PAYWALL_EDITOR_TEXT})\\s*</p>`,
+  "i"
+);
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "meta", "link"]);
+
+export interface PaidBody {
+  // 有料ラインを取り除いた本文
+  body: string;
+  freeBody: string;
+  payBody: string;
+  // 有料ライン直前のブロック要素のname属性（有料ラインの位置としてnoteに送る）
+  separator: string | null;
+}
+
+/**
+ * Frontmatterの値から有料設定を読み取る
+ */
+export function readPaidSettings(data: Record<string, FrontmatterValue>): NotePaidSettings {
+  return toPaidSettings(readNoteFrontmatter(data));
+}
+
+/**
+ * 公開メタデータから有料設定の項目を取り出す
+ */
+export function toPaidSettings({
+  price,
+  membershipOnly,
+  magazines,
+}: NoteFrontmatter): NotePaidSettings {
+  const settings: NotePaidSettings = {};
+  if (price !== undefined) settings.price = price;
+  if (membershipOnly !== undefined) settings.membershipOnly = membershipOnly;
+  if (magazines) settings.magazines = magazines;
+  return settings;
+}
+
+/**
+ * 有料設定の妥当性を確認する（不正な場合はエラー）
+ */
+export function validatePaidSettings(settings: NotePaidSettings, hasPaywall: boolean): void {
+  const price = settings.price ?? 0;
+  if (price !== 0 && (!Number.isInteger(price) || price < MIN_PRICE || price > MAX_PRICE)) {
+    throw new Error(`priceは0または${MIN_PRICE}〜${MAX_PRICE}円の整数で指定してください: ${price}`);
+  }
+  if (hasPaywall && price === 0 && !settings.membershipOnly) {
+    throw new Error(
+      `有料ライン（${PAYWALL_MARKER}）を使う場合は price または membershipOnly を指定してください`
+    );
+  }
+}
+
+/**
+ * 本文HTMLを有料ラインで無料部分と有料部分に分ける（有料ラインがない場合は null）
+ */
+export function splitPaidBody(html: string): PaidBody | null {
+  const match = html.match(PAYWALL_HTML_PATTERN);
+  if (!match || match.index === undefined) {
+    return null;
+  }
+
+  const freeBody = html.slice(0, match.index).trim();
+  const payBody = html.slice(match.index + match[0].length).trim();
+  return {
+    body: freeBody + payBody,
+    freeBody,
+    payBody,
+    separator: findLastTopLevelName(freeBody),
+  };
+}
+
+/**
+ * 有料設定をnote APIの下書き保存・公開リクエストの項目に変換する
+ */
+export function buildPaidFields(
+  settings: NotePaidSettings,
+  paidBody: PaidBody | null
+): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  if (settings.price !== undefined) {
+    fields.price = settings.price;
+  }
+  if (settings.membershipOnly !== undefined) {
+    fields.limited = settings.membershipOnly;
+  }
+  if (paidBody) {
+    fields.separator = paidBody.separator;
+    fields.free_body = paidBody.freeBody;
+    fields.pay_body = paidBody.payBody;
+  }
+  return fields;
+}
+
+/**
+ * 記事をマガジンに追加する
+ * 追加できなかったマガジンは例外にせず、警告メッセージとして返す
+ */
+export async function addNoteToMagazines(
+  noteKey: string,
+  magazines: string[] = []
+): Promise<string[]> {
+  const warnings: string[] = [];
+  for (const magazineKey of magazines) {
+    try {
+      await noteApiRequest(`/v1/our/magazines/${magazineKey}/notes`, "POST", { id: noteKey }, true);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      warnings.push(`マガジン ${magazineKey} への追加に失敗しました: ${message}`);
+    }
+  }
+  return warnings;
+}
+
+/**
+ * HTML中のトップレベル要素のうち、最後の要素のname属性を返す
+ */
+function findLastTopLevelName(html: string): string | null {
+  const tagPattern = /<(\/?)(\w+)([^>]*)>/g;
+  let depth = 0;
+  let lastName: string | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(html)) !== null) {
+    const [, closing, tag, attrs] = match;
+    if (closing) {
+      depth = Math.max(0, depth - 1);
+      continue;
+    }
+    if (depth === 0) {
+      const name = attrs.match(/\sname="([^"]+)"/);
+      lastName = name ? name[1] : lastName;
+    }
+    if (!VOID_TAGS.has(tag.toLowerCase()) && !attrs.trim().endsWith("/")) {
+      depth++;
+    }
+  }
+
+  return lastName;
+}
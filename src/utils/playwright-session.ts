@@ -1,29 +1,29 @@
 import { chromium, ChromiumBrowser, BrowserContext, Locator, Page } from "playwright";
-import { env } from "../config/environment.js";
 import { setActiveSessionCookie, setActiveUserKey, setActiveXsrfToken } from "./auth.js";
+import { ensureDataDir, resolveDataPath } from "./data-dir.js";
+import { getCurrentAccountProfile } from "./account-context.js";
 import path from "path";
-import os from "os";
 import fs from "fs";
 import { fileURLToPath } from "url";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// ブラウザストレージ状態ファイルのパス
-const STORAGE_STATE_PATH = path.join(os.tmpdir(), "note-playwright-state.json");
+// ブラウザストレージ状態ファイル名（アカウント別データディレクトリに保存）
+const STORAGE_STATE_FILE = "playwright-state.json";
 
 /**
  * 保存済みのストレージ状態ファイルのパスを取得
  */
 export function getStorageStatePath(): string {
-  return STORAGE_STATE_PATH;
+  return resolveDataPath(STORAGE_STATE_FILE);
 }
 
 /**
  * ストレージ状態ファイルが存在するか確認
  */
 export function hasStorageState(): boolean {
-  return fs.existsSync(STORAGE_STATE_PATH);
+  return fs.existsSync(getStorageStatePath());
 }
 
 export interface PlaywrightSessionOptions {
@@ -104,6 +104,7 @@ async function waitForFirstVisibleLocator(
 
 /**
  * ブラウザのCookieからセッション情報を抽出し、process.env・auth.ts・.envファイルに保存する
+ * process.env と .env への反映はプライマリアカウントのみ（他アカウントはメモリとストレージ状態に保持）
  */
 async function extractAndSaveCookies(
   context: BrowserContext,
@@ -119,22 +120,23 @@ async function extractAndSaveCookies(
   const xsrfCookie = cookies.find((c) => c.name === "XSRF-TOKEN");
   const gqlAuthCookie = cookies.find((c) => c.name === "note_gql_auth_token");
   const concatenatedCookies = cookies.map((c) => `${c.name}=${c.value}`).join("; ");
+  const isPrimary = getCurrentAccountProfile().isPrimary;
 
-  // auth.tsのグローバル状態に設定
+  // auth.tsのアカウント別セッションに設定
   const sessionValue = `_note_session_v5=${sessionCookie.value}`;
   setActiveSessionCookie(sessionValue);
-  process.env.NOTE_SESSION_V5 = sessionCookie.value;
+  if (isPrimary) process.env.NOTE_SESSION_V5 = sessionCookie.value;
 
   let xsrfDecoded: string | null = null;
   if (xsrfCookie) {
     xsrfDecoded = decodeURIComponent(xsrfCookie.value);
     setActiveXsrfToken(xsrfDecoded);
-    process.env.NOTE_XSRF_TOKEN = xsrfDecoded;
+    if (isPrimary) process.env.NOTE_XSRF_TOKEN = xsrfDecoded;
   }
 
   const gqlAuthToken = gqlAuthCookie?.value || null;
 
-  process.env.NOTE_ALL_COOKIES = concatenatedCookies;
+  if (isPrimary) process.env.NOTE_ALL_COOKIES = concatenatedCookies;
 
   // ユーザーID取得（失敗しても続行）
   let userKey: string | null = null;
@@ -153,17 +155,20 @@ async function extractAndSaveCookies(
     });
     if (userKey) {
       setActiveUserKey(userKey);
-      process.env.NOTE_USER_ID = userKey;
+      if (isPrimary) process.env.NOTE_USER_ID = userKey;
     }
   } catch {
     // ユーザー情報取得は必須ではない
   }
 
   // .envファイルに書き戻し
-  persistCookiesToEnvFile(sessionCookie.value, xsrfDecoded, concatenatedCookies);
+  if (isPrimary) {
+    persistCookiesToEnvFile(sessionCookie.value, xsrfDecoded, concatenatedCookies);
+  }
 
   // ストレージ状態を保存
-  await context.storageState({ path: STORAGE_STATE_PATH });
+  ensureDataDir();
+  await context.storageState({ path: getStorageStatePath() });
 
   return {
     sessionCookie: sessionValue,
@@ -234,7 +239,8 @@ function persistCookiesToEnvFile(
 export async function refreshSessionWithPlaywright(
   options?: PlaywrightSessionOptions
 ): Promise<SessionCookieResult> {
-  const hasCredentials = env.NOTE_EMAIL && env.NOTE_PASSWORD;
+  const profile = getCurrentAccountProfile();
+  const hasCredentials = profile.email && profile.password;
   const merged = { ...DEFAULT_OPTIONS, ...(options || {}) };
 
   let browser: ChromiumBrowser | null = null;
@@ -269,8 +275,8 @@ export async function refreshSessionWithPlaywright(
       // --- 自動ログイン ---
       const inputs = await page.$$('input:not([type="hidden"])');
       if (inputs.length >= 2) {
-        await inputs[0].fill(env.NOTE_EMAIL);
-        await inputs[1].fill(env.NOTE_PASSWORD);
+        await inputs[0].fill(profile.email);
+        await inputs[1].fill(profile.password);
       } else {
         const emailLocator = await waitForFirstVisibleLocator(
           page,
@@ -283,7 +289,7 @@ export async function refreshSessionWithPlaywright(
           ],
           merged.navigationTimeoutMs
         );
-        await emailLocator.fill(env.NOTE_EMAIL);
+        await emailLocator.fill(profile.email);
 
         const passwordLocator = await waitForFirstVisibleLocator(
           page,
@@ -294,7 +300,7 @@ export async function refreshSessionWithPlaywright(
           ],
           merged.navigationTimeoutMs
         );
-        await passwordLocator.fill(env.NOTE_PASSWORD);
+        await passwordLocator.fill(profile.password);
       }
 
       // ログインボタンクリック
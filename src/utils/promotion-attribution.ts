@@ -0,0 +1,244 @@
+import { readJsonStore } from "./memory-store.js";
+import { getFormatRanking } from "./engagement-analyzer.js";
+import {
+  computeDeltas,
+  daysBetween,
+  median,
+  readPvHistory,
+  shiftDateKey,
+  toDateKey,
+} from "./pv-history.js";
+import {
+  FormatStats,
+  PostLogEntry,
+  PromotionAttribution,
+  PromotionAttributionReport,
+  PromotionAttributionSummary,
+  PvHistory,
+  PvHistoryArticle,
+} from "../types/analytics-types.js";
+
+/**
+ * SNS宣伝（投稿ログ）と記事のPV増分の紐付け
+ *
+ * 投稿日からの計測期間（windowDays）のPV増分を、投稿前の1日あたりPV増分（中央値）から
+ * 見込んだ値と比較し、その差を投稿による推定PV増分とする。
+ * PVは日次スナップショット（pv-history）から求めるため、記録のない期間の投稿は推定できない。
+ */
+
+const POST_LOG_FILE = "post-log.json";
+
+// フォーマット名のない投稿の集計キー
+const UNSPECIFIED_FORMAT = "未指定";
+
+export interface AttributionOptions {
+  // 直近何日分の投稿を対象にするか
+  days?: number;
+  // 投稿日から何日間をPV増分の計測期間にするか
+  windowDays?: number;
+  // 投稿前の何日間を比較の基準にするか
+  baselineDays?: number;
+}
+
+/**
+ * 投稿の宣伝対象の記事を特定する（本文の記事URLを優先し、なければタイトルで照合）
+ */
+function findArticle(
+  post: PostLogEntry,
+  articles: PvHistoryArticle[]
+): PvHistoryArticle | undefined {
+  const keys = Array.from(post.text.matchAll(/\/n\/(n[0-9a-z]+)/g), (match) => match[1]);
+  const byKey = articles.find((article) => article.key && keys.includes(article.key));
+  if (byKey) return byKey;
+
+  const title = post.articleTitle?.trim();
+  if (!title) return undefined;
+  return (
+    articles.find((article) => article.title === title) ||
+    articles.find(
+      (article) => article.title && (title.includes(article.title) || article.title.includes(title))
+    )
+  );
+}
+
+/**
+ * 記事の宣伝を目的とした投稿か（記事タイトルまたはnoteの記事URLを含む）
+ */
+function isPromotionPost(post: PostLogEntry): boolean {
+  return Boolean(post.articleTitle) || /note\.com\/[^/\s]+\/n\//.test(post.text);
+}
+
+function engagementOf(post: PostLogEntry): number | undefined {
+  return post.metrics
+    ? post.metrics.likes + post.metrics.retweets + post.metrics.replies
+    : undefined;
+}
+
+/**
+ * 投稿1件の計測期間のPV増分を推定する（按分前）
+ */
+function attributePost(
+  post: PostLogEntry,
+  article: PvHistoryArticle,
+  windowDays: number,
+  baselineDays: number
+): PromotionAttribution {
+  const base: PromotionAttribution = {
+    postId: post.id,
+    timestamp: post.timestamp,
+    platform: post.platform,
+    type: post.type,
+    format: post.format,
+    articleTitle: post.articleTitle || article.title,
+    noteId: article.noteId,
+    status: "insufficient_history",
+    engagement: engagementOf(post),
+  };
+
+  const postDate = toDateKey(new Date(post.timestamp));
+  const windowEnd = shiftDateKey(postDate, windowDays - 1);
+  const snapshots = article.snapshots;
+
+  // 計測期間の前日以前・最終日以降のスナップショット
+  const start = [...snapshots].reverse().find((s) => s.date < postDate);
+  const end = snapshots.find((s) => s.date >= windowEnd);
+  if (!end) {
+    return { ...base, status: windowEnd >= toDateKey() ? "pending" : "insufficient_history" };
+  }
+  if (!start) {
+    return base;
+  }
+
+  const baselineRates = computeDeltas(snapshots)
+    .filter(
+      (point) =>
+        point.days !== null &&
+        point.days > 0 &&
+        point.date <= start.date &&
+        daysBetween(point.date, start.date) < baselineDays
+    )
+    .map((point) => point.readDelta! / point.days!);
+  if (baselineRates.length === 0) {
+    return base;
+  }
+
+  const baselineRate = median(baselineRates);
+  const observedRate = (end.readCount - start.readCount) / daysBetween(start.date, end.date);
+  const observedReads = Math.round(observedRate * windowDays);
+  const expectedReads = Math.round(baselineRate * windowDays);
+
+  return {
+    ...base,
+    status: "attributed",
+    baselineDailyReads: Math.round(baselineRate * 10) / 10,
+    observedReads,
+    expectedReads,
+    uplift: observedReads - expectedReads,
+  };
+}
+
+/**
+ * 推定結果をキーごとに集計する（平均PV増分の降順）
+ */
+function summarize(
+  attributions: PromotionAttribution[],
+  keyOf: (attribution: PromotionAttribution) => string
+): PromotionAttributionSummary[] {
+  const groups = new Map<string, PromotionAttribution[]>();
+  for (const attribution of attributions) {
+    const key = keyOf(attribution);
+    groups.set(key, [...(groups.get(key) || []), attribution]);
+  }
+
+  return Array.from(groups, ([key, group]) => {
+    const attributed = group.filter((a) => a.status === "attributed");
+    const totalUplift = attributed.reduce((sum, a) => sum + (a.uplift || 0), 0);
+    const engagements = group
+      .map((a) => a.engagement)
+      .filter((value): value is number => value !== undefined);
+    return {
+      key,
+      posts: group.length,
+      attributedPosts: attributed.length,
+      totalUplift,
+      avgUplift:
+        attributed.length > 0 ? Math.round((totalUplift / attributed.length) * 10) / 10 : 0,
+      avgEngagement:
+        engagements.length > 0
+          ? Math.round((engagements.reduce((sum, v) => sum + v, 0) / engagements.length) * 10) / 10
+          : null,
+    };
+  }).sort((a, b) => b.avgUplift - a.avgUplift || b.attributedPosts - a.attributedPosts);
+}
+
+/**
+ * SNS宣伝ごとの推定PV増分を算出し、プラットフォーム・投稿フォーマット・投稿形式別に集計する
+ */
+export function analyzePromotionAttribution(
+  options: AttributionOptions = {},
+  history: PvHistory = readPvHistory(),
+  formatStats: FormatStats[] = getFormatRanking()
+): PromotionAttributionReport {
+  const days = options.days ?? 30;
+  const windowDays = options.windowDays ?? 3;
+  const baselineDays = options.baselineDays ?? 7;
+
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - days);
+  const posts = readJsonStore<PostLogEntry[]>(POST_LOG_FILE, [])
+    .filter((post) => post.timestamp >= cutoff.toISOString() && isPromotionPost(post))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const articles = Object.values(history.articles);
+
+  const attributions = posts.map((post): PromotionAttribution => {
+    const article = findArticle(post, articles);
+    if (!article) {
+      return {
+        postId: post.id,
+        timestamp: post.timestamp,
+        platform: post.platform,
+        type: post.type,
+        format: post.format,
+        articleTitle: post.articleTitle,
+        status: "unmatched",
+        engagement: engagementOf(post),
+      };
+    }
+    return attributePost(post, article, windowDays, baselineDays);
+  });
+
+  // 同じ記事の投稿が計測期間内に重なる場合は、推定PV増分を投稿数で按分する
+  for (const attribution of attributions) {
+    if (attribution.status !== "attributed") continue;
+    const date = toDateKey(new Date(attribution.timestamp));
+    const overlapping = attributions.filter(
+      (other) =>
+        other !== attribution &&
+        other.noteId === attribution.noteId &&
+        Math.abs(daysBetween(date, toDateKey(new Date(other.timestamp)))) < windowDays
+    ).length;
+    if (overlapping > 0) {
+      attribution.uplift = Math.round(attribution.uplift! / (overlapping + 1));
+      attribution.sharedWith = overlapping;
+    }
+  }
+
+  const byFormat = summarize(attributions, (a) => a.format || UNSPECIFIED_FORMAT).map((summary) => {
+    const stats = formatStats.find((s) => s.formatName === summary.key);
+    return stats
+      ? { ...summary, avgEngagementRate: stats.avgEngagementRate, formatStatus: stats.status }
+      : summary;
+  });
+
+  return {
+    analyzedAt: new Date().toISOString(),
+    windowDays,
+    baselineDays,
+    totalPosts: attributions.length,
+    attributedPosts: attributions.filter((a) => a.status === "attributed").length,
+    byPlatform: summarize(attributions, (a) => a.platform),
+    byFormat,
+    byType: summarize(attributions, (a) => a.type),
+    posts: attributions,
+  };
+}
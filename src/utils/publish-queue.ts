@@ -0,0 +1,291 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import { readJsonStore, updateJsonStore } from "./memory-store.js";
+import { getCurrentAccountName, listAccountProfiles, runWithAccount } from "./account-context.js";
+import { getXStrategy } from "./x-strategy-reader.js";
+import { publishDraftNote } from "./note-publisher.js";
+import { writeFrontmatterFields } from "./frontmatter.js";
+import {
+  NotePaidSettings,
+  PublishQueueEntry,
+  PublishQueueSource,
+  PublishQueueStatus,
+} from "../types/note-types.js";
+
+const PUBLISH_QUEUE_FILE = "publish-queue.json";
+
+// 公開に失敗した場合の最大試行回数（超えたら failed にする）
+const MAX_PUBLISH_ATTEMPTS = 3;
+
+// 公開処理中のまま残ったエントリを再試行待ちとみなすまでの時間（公開中にプロセスが終了した場合）
+const PUBLISHING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// publishAt に指定できる、次のゴールデンアワーを表すキーワード
+export const NEXT_GOLDEN_HOUR = "next-golden-hour";
+
+let draining = false;
+
+export interface EnqueuePublicationInput {
+  noteId: string;
+  publishAt: string;
+  source: PublishQueueSource;
+  title?: string;
+  tags?: string[];
+  paid?: NotePaidSettings;
+  sourcePath?: string;
+}
+
+export interface DrainResult {
+  published: number;
+  failed: number;
+  retrying: number;
+}
+
+/**
+ * 予約公開日時の指定をISO文字列に変換する
+ * ISO 8601形式の日時、または next-golden-hour（XStrategy.goldenHours の次の時刻）を受け付ける
+ */
+export function resolvePublishAt(input: string, now: Date = new Date()): string {
+  if (input === NEXT_GOLDEN_HOUR) {
+    const hours = [...getXStrategy().goldenHours].sort((a, b) => a - b);
+    if (hours.length === 0) {
+      throw new Error("XStrategyにゴールデンアワーが設定されていません");
+    }
+    const target = new Date(now);
+    const nextHour = hours.find((hour) => hour > now.getHours());
+    if (nextHour === undefined) {
+      target.setDate(target.getDate() + 1);
+      target.setHours(hours[0], 0, 0, 0);
+    } else {
+      target.setHours(nextHour, 0, 0, 0);
+    }
+    return target.toISOString();
+  }
+
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(
+      `publishAtの形式が不正です: ${input}（ISO 8601形式または ${NEXT_GOLDEN_HOUR} を指定してください）`
+    );
+  }
+  if (date.getTime() < now.getTime() - 60 * 1000) {
+    throw new Error(`過去の日時は指定できません: ${input}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * 現在のアカウントの公開キューに記事を登録する
+ * 同じ記事の予約が既にある場合は公開日時を更新する
+ */
+export function enqueuePublication(input: EnqueuePublicationInput): PublishQueueEntry {
+  const now = new Date().toISOString();
+  let result: PublishQueueEntry | undefined;
+
+  updateJsonStore<PublishQueueEntry[]>(PUBLISH_QUEUE_FILE, [], (queue) => {
+    const existing = queue.find(
+      (entry) => entry.noteId === input.noteId && entry.status === "pending"
+    );
+    if (existing) {
+      existing.publishAt = input.publishAt;
+      existing.source = input.source;
+      if (input.title !== undefined) existing.title = input.title;
+      if (input.tags !== undefined) existing.tags = input.tags;
+      if (input.paid !== undefined) existing.paid = input.paid;
+      if (input.sourcePath !== undefined) existing.sourcePath = input.sourcePath;
+      existing.updatedAt = now;
+      result = { ...existing };
+      return queue;
+    }
+
+    const entry: PublishQueueEntry = {
+      id: randomUUID(),
+      account: getCurrentAccountName(),
+      noteId: input.noteId,
+      title: input.title,
+      tags: input.tags,
+      publishAt: input.publishAt,
+      status: "pending",
+      source: input.source,
+      paid: input.paid,
+      sourcePath: input.sourcePath,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    result = { ...entry };
+    return [...queue, entry];
+  });
+
+  return result!;
+}
+
+/**
+ * 現在のアカウントの公開キューを公開日時順に返す
+ */
+export function listPublications(status?: PublishQueueStatus): PublishQueueEntry[] {
+  return readJsonStore<PublishQueueEntry[]>(PUBLISH_QUEUE_FILE, [])
+    .filter((entry) => !status || entry.status === status)
+    .sort((a, b) => a.publishAt.localeCompare(b.publishAt));
+}
+
+/**
+ * キュー内のエントリを更新する。見つからない場合はエラー
+ */
+function updatePublication(
+  id: string,
+  update: (entry: PublishQueueEntry) => void
+): PublishQueueEntry {
+  let result: PublishQueueEntry | undefined;
+  updateJsonStore<PublishQueueEntry[]>(PUBLISH_QUEUE_FILE, [], (queue) => {
+    const entry = queue.find((candidate) => candidate.id === id);
+    if (entry) {
+      update(entry);
+      entry.updatedAt = new Date().toISOString();
+      result = { ...entry };
+    }
+    return queue;
+  });
+
+  if (!result) {
+    throw new Error(`予約公開が見つかりません: ${id}`);
+  }
+  return result;
+}
+
+/**
+ * 予約公開の日時を変更する（失敗したエントリは再試行待ちに戻す）
+ */
+export function reschedulePublication(id: string, publishAt: string): PublishQueueEntry {
+  return updatePublication(id, (entry) => {
+    if (entry.status !== "pending" && entry.status !== "failed") {
+      throw new Error(`${entry.status} の予約は変更できません: ${id}`);
+    }
+    entry.publishAt = publishAt;
+    entry.status = "pending";
+    entry.attempts = 0;
+    delete entry.lastError;
+  });
+}
+
+/**
+ * 予約公開を取り消す（記事は下書きのまま残る）
+ */
+export function cancelPublication(id: string): PublishQueueEntry {
+  return updatePublication(id, (entry) => {
+    if (entry.status !== "pending" && entry.status !== "failed") {
+      throw new Error(`${entry.status} の予約は取り消せません: ${id}`);
+    }
+    entry.status = "cancelled";
+  });
+}
+
+/**
+ * 公開するエントリを公開処理中にする（取り消し済み・他のプロセスが処理中の場合は null）
+ */
+function claimPublication(id: string, now: Date): PublishQueueEntry | null {
+  let claimed: PublishQueueEntry | null = null;
+  updateJsonStore<PublishQueueEntry[]>(PUBLISH_QUEUE_FILE, [], (queue) => {
+    const entry = queue.find((candidate) => candidate.id === id);
+    const abandoned =
+      entry?.status === "publishing" &&
+      now.getTime() - new Date(entry.updatedAt).getTime() > PUBLISHING_TIMEOUT_MS;
+    if (entry && (entry.status === "pending" || abandoned)) {
+      entry.status = "publishing";
+      entry.updatedAt = now.toISOString();
+      claimed = { ...entry };
+    }
+    return queue;
+  });
+  return claimed;
+}
+
+/**
+ * 現在のアカウントで公開日時を過ぎた記事を公開する
+ * 各エントリは公開直前に公開処理中にし、その時点で予約中でなくなったエントリは公開しない
+ */
+export async function drainPublishQueue(now: Date = new Date()): Promise<DrainResult> {
+  const result: DrainResult = { published: 0, failed: 0, retrying: 0 };
+  const due = listPublications()
+    .filter((entry) => entry.status === "pending" || entry.status === "publishing")
+    .filter((entry) => new Date(entry.publishAt).getTime() <= now.getTime());
+
+  for (const { id } of due) {
+    const entry = claimPublication(id, new Date());
+    if (!entry) continue;
+
+    try {
+      const { noteUrl, warnings } = await publishDraftNote(entry.noteId, {
+        title: entry.title,
+        tags: entry.tags,
+        paid: entry.paid,
+      });
+      updatePublication(entry.id, (target) => {
+        target.status = "published";
+        target.attempts += 1;
+        target.noteUrl = noteUrl;
+        target.publishedAt = new Date().toISOString();
+        delete target.lastError;
+      });
+      result.published++;
+      console.error(`[publish-queue] ${entry.noteId} を公開しました`);
+      warnings.forEach((warning) => console.error(`[publish-queue] ${warning}`));
+      if (entry.sourcePath) {
+        writeBackPublication(entry.sourcePath, noteUrl);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const updated = updatePublication(entry.id, (target) => {
+        target.attempts += 1;
+        target.lastError = message;
+        target.status = target.attempts >= MAX_PUBLISH_ATTEMPTS ? "failed" : "pending";
+      });
+      if (updated.status === "failed") {
+        result.failed++;
+      } else {
+        result.retrying++;
+      }
+      console.error(`[publish-queue] ${entry.noteId} の公開に失敗しました: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 公開結果を元のMarkdownファイルのFrontmatterに書き戻す（失敗しても公開は成功扱い）
+ */
+function writeBackPublication(sourcePath: string, noteUrl: string): void {
+  try {
+    if (fs.existsSync(sourcePath)) {
+      writeFrontmatterFields(sourcePath, { noteUrl, publishedAt: new Date().toISOString() });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[publish-queue] ${sourcePath} への書き戻しに失敗しました: ${message}`);
+  }
+}
+
+/**
+ * 全アカウントの公開キューを処理する（内蔵スケジューラから定期的に呼ばれる）
+ * 前回の処理が終わっていない場合は何もしない
+ */
+export async function drainAllPublishQueues(): Promise<DrainResult> {
+  const total: DrainResult = { published: 0, failed: 0, retrying: 0 };
+  if (draining) {
+    return total;
+  }
+
+  draining = true;
+  try {
+    for (const profile of listAccountProfiles()) {
+      const result = await runWithAccount(profile.name, () => drainPublishQueue());
+      total.published += result.published;
+      total.failed += result.failed;
+      total.retrying += result.retrying;
+    }
+  } finally {
+    draining = false;
+  }
+  return total;
+}
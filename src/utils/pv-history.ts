@@ -0,0 +1,279 @@
+import { readJsonStore, updateJsonStore } from "./memory-store.js";
+import { getNoteUserId } from "./account-context.js";
+import {
+  AccountSnapshot,
+  PvHistory,
+  PvHistoryArticle,
+  PvHistoryPoint,
+  PvSnapshot,
+  PvSpike,
+  TrendData,
+} from "../types/analytics-types.js";
+
+/**
+ * 記事ごとのPV・スキ・コメント数の日次スナップショット（時系列）
+ *
+ * スナップショットは1日1件で、同じ日に再取得した場合は上書きする。
+ * 値は取得時点の累計なので、日ごとの増分は前回のスナップショットとの差で求める。
+ */
+
+const PV_HISTORY_FILE = "pv-history.json";
+
+// 保持するスナップショットの日数（これより古いものは記録時に削除する）
+const MAX_HISTORY_DAYS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PvStatInput {
+  noteId: string;
+  title: string;
+  key: string;
+  user: string;
+  readCount: number;
+  likeCount: number;
+  commentCount: number;
+}
+
+export interface SpikeOptions {
+  // 直近何日分のスナップショットを対象にするか
+  days?: number;
+  // 直前期間の中央値の何倍でスパイクとみなすか
+  threshold?: number;
+  // スパイクとみなす1日あたりPV増分の下限
+  minDailyReads?: number;
+  // 中央値を求める直前期間の日数
+  baselineDays?: number;
+}
+
+/**
+ * Date をローカル日付の YYYY-MM-DD に変換する
+ */
+export function toDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 2つの YYYY-MM-DD の日数差（to - from）
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * YYYY-MM-DD を days 日ずらす
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * 現在のアカウントのPV時系列を返す
+ */
+export function readPvHistory(): PvHistory {
+  return readJsonStore<PvHistory>(PV_HISTORY_FILE, { articles: {} });
+}
+
+/**
+ * 記事ごと・アカウント全体のスナップショットを記録する（同じ日付のスナップショットは上書き）
+ */
+export function recordPvSnapshot(
+  stats: PvStatInput[],
+  account: Omit<AccountSnapshot, "date"> = {},
+  date: string = toDateKey()
+): { date: string; articles: number } {
+  const cutoff = shiftDateKey(date, -MAX_HISTORY_DAYS);
+
+  updateJsonStore<PvHistory>(PV_HISTORY_FILE, { articles: {} }, (history) => {
+    for (const stat of stats) {
+      if (!stat.noteId) continue;
+
+      const article: PvHistoryArticle = history.articles[stat.noteId] || {
+        noteId: stat.noteId,
+        title: stat.title,
+        key: stat.key,
+        user: stat.user,
+        snapshots: [],
+      };
+      article.title = stat.title || article.title;
+      article.key = stat.key || article.key;
+      article.user = stat.user || article.user;
+
+      const snapshot: PvSnapshot = {
+        date,
+        readCount: stat.readCount,
+        likeCount: stat.likeCount,
+        commentCount: stat.commentCount,
+      };
+      article.snapshots = [
+        ...article.snapshots.filter((s) => s.date !== date && s.date >= cutoff),
+        snapshot,
+      ].sort((a, b) => a.date.localeCompare(b.date));
+
+      history.articles[stat.noteId] = article;
+    }
+
+    if (account.followerCount !== undefined || account.memberCount !== undefined) {
+      history.account = [
+        ...(history.account || []).filter((s) => s.date !== date && s.date >= cutoff),
+        { date, ...account },
+      ].sort((a, b) => a.date.localeCompare(b.date));
+    }
+    history.lastSnapshotAt = new Date().toISOString();
+    return history;
+  });
+
+  return { date, articles: stats.filter((s) => s.noteId).length };
+}
+
+/**
+ * アカウント全体の値の増分（from 日の前日時点から to 日時点まで。記録がない場合は null）
+ */
+export function getAccountDelta(
+  field: "followerCount" | "memberCount",
+  from: string,
+  to: string,
+  history: PvHistory = readPvHistory()
+): number | null {
+  const snapshots = (history.account || []).filter((s) => s[field] !== undefined);
+  const start = [...snapshots].reverse().find((s) => s.date < from);
+  const end = [...snapshots].reverse().find((s) => s.date <= to);
+  if (!start || !end || end.date < from) {
+    return null;
+  }
+  return end[field]! - start[field]!;
+}
+
+/**
+ * 記事のURL
+ */
+export function getArticleUrl(article: Pick<PvHistoryArticle, "key" | "user">): string {
+  const username = article.user || getNoteUserId() || "unknown";
+  return `https://note.com/${username}/n/${article.key}`;
+}
+
+/**
+ * スナップショットに前回からの増分を付ける
+ */
+export function computeDeltas(snapshots: PvSnapshot[]): PvHistoryPoint[] {
+  return snapshots.map((snapshot, index) => {
+    const previous = index > 0 ? snapshots[index - 1] : null;
+    return {
+      ...snapshot,
+      days: previous ? daysBetween(previous.date, snapshot.date) : null,
+      readDelta: previous ? snapshot.readCount - previous.readCount : null,
+      likeDelta: previous ? snapshot.likeCount - previous.likeCount : null,
+      commentDelta: previous ? snapshot.commentCount - previous.commentCount : null,
+    };
+  });
+}
+
+/**
+ * 記事のPV推移を返す（days 日前以降のスナップショット。未記録の記事は null）
+ */
+export function getArticlePvHistory(
+  noteId: string,
+  days: number,
+  history: PvHistory = readPvHistory()
+): { article: PvHistoryArticle; points: PvHistoryPoint[] } | null {
+  const article = history.articles[noteId];
+  if (!article || article.snapshots.length === 0) {
+    return null;
+  }
+
+  // 期間の最初の点にも増分を付けるため、期間直前のスナップショットも含めて計算する
+  const latest = article.snapshots[article.snapshots.length - 1].date;
+  const from = shiftDateKey(latest, -days);
+  const points = computeDeltas(article.snapshots).filter((point) => point.date > from);
+  return { article, points };
+}
+
+/**
+ * 日次スナップショットから記事のトレンドを判定する
+ * 直近7日間の1日あたりPV増分を、その前（最大21日間）の1日あたりPV増分と比較する。
+ * 比較に必要な期間のスナップショットがない場合は null
+ */
+export function computeHistoryTrend(snapshots: PvSnapshot[]): TrendData["trend"] | null {
+  if (snapshots.length < 3) return null;
+
+  const latest = snapshots[snapshots.length - 1];
+  const weekAgo = [...snapshots].reverse().find((s) => daysBetween(s.date, latest.date) >= 7);
+  const base = snapshots.find((s) => daysBetween(s.date, latest.date) <= 28);
+  if (!weekAgo || !base || daysBetween(base.date, weekAgo.date) < 7) {
+    return null;
+  }
+
+  const recentRate =
+    (latest.readCount - weekAgo.readCount) / daysBetween(weekAgo.date, latest.date);
+  const previousRate = (weekAgo.readCount - base.readCount) / daysBetween(base.date, weekAgo.date);
+
+  if (previousRate > 0) {
+    const ratio = recentRate / previousRate;
+    if (ratio > 1.2) return "rising";
+    if (ratio < 0.8) return "declining";
+    return "stable";
+  }
+  return recentRate > 0 ? "rising" : "stable";
+}
+
+/**
+ * 中央値（空の場合は0）
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * 直近のPV増分が直前期間の中央値を大きく上回った日を検出する
+ */
+export function detectPvSpikes(
+  options: SpikeOptions = {},
+  history: PvHistory = readPvHistory()
+): PvSpike[] {
+  const days = options.days ?? 7;
+  const threshold = options.threshold ?? 3;
+  const minDailyReads = options.minDailyReads ?? 10;
+  const baselineDays = options.baselineDays ?? 14;
+  const today = toDateKey();
+  const spikes: PvSpike[] = [];
+
+  for (const article of Object.values(history.articles)) {
+    const points = computeDeltas(article.snapshots).filter(
+      (point) => point.days !== null && point.days > 0 && point.readDelta !== null
+    );
+
+    for (const point of points) {
+      if (daysBetween(point.date, today) >= days) continue;
+
+      const dailyReads = point.readDelta! / point.days!;
+      if (dailyReads < minDailyReads) continue;
+
+      const baselinePoints = points.filter((p) => {
+        const before = daysBetween(p.date, point.date);
+        return before > 0 && before <= baselineDays;
+      });
+      // 比較できる直前期間がない記事（記録を始めたばかり）は判定しない
+      if (baselinePoints.length === 0) continue;
+      const baseline = median(baselinePoints.map((p) => p.readDelta! / p.days!));
+      if (baseline > 0 && dailyReads < baseline * threshold) continue;
+
+      spikes.push({
+        noteId: article.noteId,
+        title: article.title,
+        url: getArticleUrl(article),
+        date: point.date,
+        readDelta: point.readDelta!,
+        dailyReads: Math.round(dailyReads * 10) / 10,
+        baseline: Math.round(baseline * 10) / 10,
+        ratio: baseline > 0 ? Math.round((dailyReads / baseline) * 10) / 10 : null,
+      });
+    }
+  }
+
+  return spikes.sort((a, b) => b.date.localeCompare(a.date) || b.dailyReads - a.dailyReads);
+}
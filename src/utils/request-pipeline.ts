@@ -0,0 +1,268 @@
+import fetch, { RequestInit, Response } from "node-fetch";
+import { env } from "../config/environment.js";
+import { HostRequestMetrics, RetryReason } from "../types/api-types.js";
+
+// 再試行してもリクエストが重複実行されないメソッド
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+// バックオフ再試行の対象とするサーバーエラー
+const RETRYABLE_SERVER_STATUSES = new Set([500, 502, 503, 504]);
+
+export interface RequestPipelineOptions {
+  // 非冪等メソッド（POST等）でもタイムアウト・通信エラー・5xxを再試行するか（429は常に再試行）
+  retryNonIdempotent?: boolean;
+  timeoutMs?: number;
+}
+
+/**
+ * トークンバケット方式のレートリミッター
+ * トークンが足りない場合は前借りし、必要な待機時間を返す（呼び出し順に待機が積み上がる）
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly ratePerSec: number,
+    private readonly capacity: number
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * トークンを1つ取得し、取得可能になるまでの待機時間（ms）を返す
+   */
+  reserve(): number {
+    if (this.ratePerSec <= 0) {
+      return 0;
+    }
+    const now = Date.now();
+    const elapsedSec = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSec * this.ratePerSec);
+    this.lastRefill = now;
+    this.tokens -= 1;
+    if (this.tokens >= 0) {
+      return 0;
+    }
+    return Math.ceil((-this.tokens / this.ratePerSec) * 1000);
+  }
+}
+
+/**
+ * NOTE_API_HOST_RATE_LIMITS（例: "note.com=2:5,editor.note.com=1:3"）を解釈する
+ * 値は「1秒あたりのリクエスト数:バースト数」
+ */
+function parseHostRateLimits(value: string): Map<string, { ratePerSec: number; burst: number }> {
+  const limits = new Map<string, { ratePerSec: number; burst: number }>();
+  for (const entry of value.split(",")) {
+    const [host, spec] = entry.split("=").map((part) => part?.trim());
+    if (!host || !spec) continue;
+    const [rate, burst] = spec.split(":");
+    const ratePerSec = parseFloat(rate);
+    if (Number.isNaN(ratePerSec)) {
+      console.error(`[request] NOTE_API_HOST_RATE_LIMITS の値を解釈できません: ${entry}`);
+      continue;
+    }
+    const parsedBurst = parseInt(burst ?? "", 10);
+    limits.set(host, {
+      ratePerSec,
+      burst: Number.isNaN(parsedBurst) ? env.NOTE_API_RATE_LIMIT_BURST : parsedBurst,
+    });
+  }
+  return limits;
+}
+
+const hostRateLimits = parseHostRateLimits(env.NOTE_API_HOST_RATE_LIMITS);
+const buckets = new Map<string, TokenBucket>();
+const metrics = new Map<string, HostRequestMetrics>();
+
+function getBucket(host: string): TokenBucket {
+  let bucket = buckets.get(host);
+  if (!bucket) {
+    const limit = hostRateLimits.get(host) ?? {
+      ratePerSec: env.NOTE_API_RATE_LIMIT_PER_SEC,
+      burst: env.NOTE_API_RATE_LIMIT_BURST,
+    };
+    bucket = new TokenBucket(limit.ratePerSec, Math.max(1, limit.burst));
+    buckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+function getHostMetrics(host: string): HostRequestMetrics {
+  let hostMetrics = metrics.get(host);
+  if (!hostMetrics) {
+    hostMetrics = {
+      host,
+      requests: 0,
+      attempts: 0,
+      successes: 0,
+      failures: 0,
+      retries: 0,
+      retriesByReason: { rate_limited: 0, server_error: 0, timeout: 0, network_error: 0 },
+      timeouts: 0,
+      statusCounts: {},
+      throttledMs: 0,
+      backoffMs: 0,
+      lastError: null,
+      lastErrorAt: null,
+    };
+    metrics.set(host, hostMetrics);
+  }
+  return hostMetrics;
+}
+
+function recordFailure(hostMetrics: HostRequestMetrics, message: string): void {
+  hostMetrics.failures++;
+  hostMetrics.lastError = message;
+  hostMetrics.lastErrorAt = new Date().toISOString();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Retry-After ヘッダー（秒数 or HTTP日付）を待機時間（ms）に変換する
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * 指数バックオフ（ジッター付き）の待機時間を返す
+ */
+function backoffDelay(attempt: number): number {
+  const exponential = env.NOTE_API_RETRY_BASE_MS * 2 ** attempt;
+  const capped = Math.min(env.NOTE_API_RETRY_MAX_MS, exponential);
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+/**
+ * レート制限・タイムアウト・再試行付きでfetchする
+ * - ホストごとのトークンバケットで送信間隔を制御
+ * - 429 は Retry-After（なければ指数バックオフ）に従って再試行
+ * - 5xx・タイムアウト・通信エラーは冪等メソッドのみ再試行
+ * 再試行し尽くした場合は最後のレスポンスを返す（ステータスの扱いは呼び出し側）
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RequestPipelineOptions = {}
+): Promise<Response> {
+  const host = new URL(url).host;
+  const method = (init.method || "GET").toUpperCase();
+  const retryable = options.retryNonIdempotent || IDEMPOTENT_METHODS.has(method);
+  const timeoutMs = options.timeoutMs ?? env.NOTE_API_TIMEOUT_MS;
+  const maxRetries = Math.max(0, env.NOTE_API_MAX_RETRIES);
+  const hostMetrics = getHostMetrics(host);
+  hostMetrics.requests++;
+
+  for (let attempt = 0; ; attempt++) {
+    const throttleMs = getBucket(host).reserve();
+    if (throttleMs > 0) {
+      hostMetrics.throttledMs += throttleMs;
+      await sleep(throttleMs);
+    }
+
+    hostMetrics.attempts++;
+    const controller = new AbortController();
+    const timer = timeoutMs > 0 ? setTimeout(() => controller.abort(), timeoutMs) : null;
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      const reason: RetryReason = timedOut ? "timeout" : "network_error";
+      const message = timedOut
+        ? `リクエストがタイムアウトしました（${timeoutMs}ms）: ${method} ${url}`
+        : `通信エラー: ${error instanceof Error ? error.message : String(error)}`;
+      if (timedOut) hostMetrics.timeouts++;
+
+      if (retryable && attempt < maxRetries) {
+        const delay = backoffDelay(attempt);
+        hostMetrics.retries++;
+        hostMetrics.retriesByReason[reason]++;
+        hostMetrics.backoffMs += delay;
+        console.error(
+          `[request] ${message} — ${delay}ms後に再試行します（${attempt + 1}/${maxRetries}）`
+        );
+        await sleep(delay);
+        continue;
+      }
+      recordFailure(hostMetrics, message);
+      throw timedOut ? new Error(message) : error;
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+
+    const status = response.status;
+    hostMetrics.statusCounts[status] = (hostMetrics.statusCounts[status] ?? 0) + 1;
+
+    const rateLimited = status === 429;
+    const serverError = RETRYABLE_SERVER_STATUSES.has(status) && retryable;
+    if ((rateLimited || serverError) && attempt < maxRetries) {
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      const delay = Math.min(env.NOTE_API_RETRY_MAX_MS, retryAfter ?? backoffDelay(attempt));
+      const reason: RetryReason = rateLimited ? "rate_limited" : "server_error";
+      hostMetrics.retries++;
+      hostMetrics.retriesByReason[reason]++;
+      hostMetrics.backoffMs += delay;
+      console.error(
+        `[request] ${method} ${url} が ${status} を返しました — ${delay}ms後に再試行します（${attempt + 1}/${maxRetries}）`
+      );
+      // 接続を再利用できるようにボディを読み捨てる
+      await response.text().catch(() => undefined);
+      await sleep(delay);
+      continue;
+    }
+
+    if (response.ok) {
+      hostMetrics.successes++;
+    } else {
+      recordFailure(hostMetrics, `${method} ${url}: ${status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * ホストごとのリクエスト統計を返す
+ */
+export function getRequestMetrics(): HostRequestMetrics[] {
+  return Array.from(metrics.values()).map((hostMetrics) => ({
+    ...hostMetrics,
+    retriesByReason: { ...hostMetrics.retriesByReason },
+    statusCounts: { ...hostMetrics.statusCounts },
+  }));
+}
+
+/**
+ * リクエスト統計をリセットする
+ */
+export function resetRequestMetrics(): void {
+  metrics.clear();
+}
+
+/**
+ * 現在のリクエスト制御設定を返す
+ */
+export function getRequestPolicy() {
+  return {
+    ratePerSec: env.NOTE_API_RATE_LIMIT_PER_SEC,
+    burst: env.NOTE_API_RATE_LIMIT_BURST,
+    hostRateLimits: Object.fromEntries(hostRateLimits),
+    maxRetries: env.NOTE_API_MAX_RETRIES,
+    retryBaseMs: env.NOTE_API_RETRY_BASE_MS,
+    retryMaxMs: env.NOTE_API_RETRY_MAX_MS,
+    timeoutMs: env.NOTE_API_TIMEOUT_MS,
+  };
+}
@@ -0,0 +1,270 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { env } from "../config/environment.js";
+import { CACHE_TTL_RULES } from "../config/api-config.js";
+import { CacheEntrySummary, CacheStats, NoteApiResponse } from "../types/api-types.js";
+import {
+  getAccountProfile,
+  getCurrentAccountName,
+  listAccountProfiles,
+} from "./account-context.js";
+import { getDataDir } from "./data-dir.js";
+
+// キャッシュファイルの保存先（アカウント別データディレクトリ内）
+const CACHE_DIR_NAME = "api-cache";
+
+interface CacheEntry {
+  account: string;
+  endpoint: string;
+  storedAt: number;
+  expiresAt: number;
+  data: NoteApiResponse;
+}
+
+export interface CachePurgeOptions {
+  account?: string;
+  // このプレフィックスで始まるエンドポイントのみ削除
+  endpointPrefix?: string;
+  // 期限切れのエントリのみ削除
+  expiredOnly?: boolean;
+}
+
+const memoryCache = new Map<string, CacheEntry>();
+const stats: Omit<CacheStats, "mode" | "memoryEntries"> = {
+  memoryHits: 0,
+  diskHits: 0,
+  misses: 0,
+  bypasses: 0,
+  stores: 0,
+  invalidations: 0,
+};
+
+function cacheKey(account: string, endpoint: string): string {
+  return `${account}|${endpoint}`;
+}
+
+function getCacheDir(account: string): string {
+  return path.join(getDataDir(getAccountProfile(account).namespace), CACHE_DIR_NAME);
+}
+
+function getCacheFilePath(account: string, endpoint: string): string {
+  const hash = createHash("sha1").update(cacheKey(account, endpoint)).digest("hex");
+  return path.join(getCacheDir(account), `${hash}.json`);
+}
+
+function readCacheFile(filePath: string): CacheEntry | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as CacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+function removeFile(filePath: string): void {
+  try {
+    fs.unlinkSync(filePath);
+  } catch {
+    // 既に削除済み
+  }
+}
+
+function listCacheFiles(account: string): string[] {
+  const dir = getCacheDir(account);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => path.join(dir, name));
+}
+
+function rememberInMemory(key: string, entry: CacheEntry): void {
+  // 挿入順を最近使った順として扱い、上限を超えたら古いものから捨てる
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  while (memoryCache.size > Math.max(1, env.NOTE_API_CACHE_MAX_ENTRIES)) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest === undefined) break;
+    memoryCache.delete(oldest);
+  }
+}
+
+/**
+ * エンドポイントのキャッシュTTL（秒）を返す。キャッシュ対象外の場合は null
+ */
+export function getCacheTtlSeconds(endpoint: string): number | null {
+  if (env.NOTE_API_CACHE_MODE === "off") {
+    return null;
+  }
+  const rule = CACHE_TTL_RULES.find((candidate) => candidate.pattern.test(endpoint));
+  return rule ? rule.ttlSeconds : null;
+}
+
+/**
+ * 現在のアカウントのキャッシュからレスポンスを取得する（期限切れ・未登録は null）
+ */
+export function getCachedResponse(endpoint: string): NoteApiResponse | null {
+  const account = getCurrentAccountName();
+  const key = cacheKey(account, endpoint);
+  const now = Date.now();
+
+  const memoryEntry = memoryCache.get(key);
+  if (memoryEntry && memoryEntry.expiresAt > now) {
+    stats.memoryHits++;
+    rememberInMemory(key, memoryEntry);
+    return structuredClone(memoryEntry.data);
+  }
+
+  if (env.NOTE_API_CACHE_MODE === "disk") {
+    const filePath = getCacheFilePath(account, endpoint);
+    const diskEntry = fs.existsSync(filePath) ? readCacheFile(filePath) : null;
+    if (diskEntry && diskEntry.endpoint === endpoint && diskEntry.expiresAt > now) {
+      stats.diskHits++;
+      rememberInMemory(key, diskEntry);
+      return structuredClone(diskEntry.data);
+    }
+  }
+
+  stats.misses++;
+  return null;
+}
+
+/**
+ * キャッシュを読まずにAPIを呼んだことを記録する
+ */
+export function recordCacheBypass(): void {
+  stats.bypasses++;
+}
+
+/**
+ * 現在のアカウントのキャッシュにレスポンスを保存する
+ */
+export function storeCachedResponse(
+  endpoint: string,
+  data: NoteApiResponse,
+  ttlSeconds: number
+): void {
+  const account = getCurrentAccountName();
+  const storedAt = Date.now();
+  const entry: CacheEntry = {
+    account,
+    endpoint,
+    storedAt,
+    expiresAt: storedAt + ttlSeconds * 1000,
+    data: structuredClone(data),
+  };
+  rememberInMemory(cacheKey(account, endpoint), entry);
+  stats.stores++;
+
+  if (env.NOTE_API_CACHE_MODE === "disk") {
+    const filePath = getCacheFilePath(account, endpoint);
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(entry), "utf-8");
+      fs.renameSync(tmpPath, filePath);
+    } catch (error) {
+      removeFile(tmpPath);
+      if (env.DEBUG) {
+        console.error(`[cache] キャッシュファイルの保存に失敗しました: ${filePath}`, error);
+      }
+    }
+  }
+}
+
+/**
+ * キャッシュエントリを削除する
+ * @returns 削除したエントリ数（メモリとディスクの合計）
+ */
+export function purgeCache(options: CachePurgeOptions = {}): number {
+  const now = Date.now();
+  const matches = (entry: Pick<CacheEntry, "account" | "endpoint" | "expiresAt">) =>
+    (!options.account || entry.account === options.account) &&
+    (!options.endpointPrefix || entry.endpoint.startsWith(options.endpointPrefix)) &&
+    (!options.expiredOnly || entry.expiresAt <= now);
+
+  let removed = 0;
+  for (const [key, entry] of memoryCache) {
+    if (matches(entry)) {
+      memoryCache.delete(key);
+      removed++;
+    }
+  }
+
+  const accounts = options.account
+    ? [getAccountProfile(options.account).name]
+    : listAccountProfiles().map((profile) => profile.name);
+  for (const account of accounts) {
+    for (const filePath of listCacheFiles(account)) {
+      const entry = readCacheFile(filePath);
+      // 読めないファイルは壊れているため削除する
+      if (!entry || matches(entry)) {
+        removeFile(filePath);
+        removed++;
+      }
+    }
+  }
+  return removed;
+}
+
+/**
+ * 現在のアカウントのキャッシュを無効化する（更新系リクエストの成功後に呼ぶ）
+ */
+export function invalidateAccountCache(): void {
+  if (env.NOTE_API_CACHE_MODE === "off") {
+    return;
+  }
+  const removed = purgeCache({ account: getCurrentAccountName() });
+  if (removed > 0) {
+    stats.invalidations++;
+  }
+}
+
+/**
+ * キャッシュエントリの一覧を返す（メモリとディスクの両方）
+ */
+export function listCacheEntries(account?: string): CacheEntrySummary[] {
+  const now = Date.now();
+  const toSummary = (entry: CacheEntry, tier: "memory" | "disk"): CacheEntrySummary => ({
+    account: entry.account,
+    endpoint: entry.endpoint,
+    tier,
+    storedAt: new Date(entry.storedAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+    expired: entry.expiresAt <= now,
+    sizeBytes: Buffer.byteLength(JSON.stringify(entry.data)),
+  });
+
+  const summaries: CacheEntrySummary[] = [];
+  for (const entry of memoryCache.values()) {
+    if (!account || entry.account === account) {
+      summaries.push(toSummary(entry, "memory"));
+    }
+  }
+
+  const accounts = account
+    ? [getAccountProfile(account).name]
+    : listAccountProfiles().map((profile) => profile.name);
+  for (const name of accounts) {
+    for (const filePath of listCacheFiles(name)) {
+      const entry = readCacheFile(filePath);
+      if (entry) {
+        summaries.push(toSummary(entry, "disk"));
+      }
+    }
+  }
+  return summaries.sort((a, b) => b.storedAt.localeCompare(a.storedAt));
+}
+
+/**
+ * キャッシュの利用統計を返す
+ */
+export function getCacheStats(): CacheStats {
+  return {
+    mode: env.NOTE_API_CACHE_MODE,
+    memoryEntries: memoryCache.size,
+    ...stats,
+  };
+}
@@ -1,13 +1,29 @@
 import cron from "node-cron";
 import fetch from "node-fetch";
-import { readJsonStore, writeJsonStore } from "./memory-store.js";
+import { readJsonStore, updateJsonStoreAsync } from "./memory-store.js";
 import { ScheduleEntry } from "../types/analytics-types.js";
 import { runAgentCycle } from "./agent-runner.js";
+import { drainAllPublishQueues } from "./publish-queue.js";
+import { listEnabledNotionSyncs, runNotionSyncForAccount } from "./notion-sync.js";
+import { takeAllPvSnapshots } from "./analytics-helpers.js";
+import { env } from "../config/environment.js";
 
 const SCHEDULE_FILE = "schedule-config.json";
 
-// アクティブなcronジョブを管理
+// 予約公開キューを処理する内蔵ジョブ（毎分、全アカウントのキューを確認）
+const PUBLISH_QUEUE_JOB_ID = "publish-queue";
+const PUBLISH_QUEUE_CRON = "* * * * *";
+
+// Notionデータベース同期の内蔵ジョブ（アカウントごとに notion-sync:<アカウント名>）
+const NOTION_SYNC_JOB_PREFIX = "notion-sync:";
+
+// 記事ごとのPVを日次で記録する内蔵ジョブ（環境変数 PV_SNAPSHOT_CRON、off で無効）
+const PV_SNAPSHOT_JOB_ID = "pv-snapshot";
+
+// アクティブなcronジョブを管理（schedule-config.json のスケジュール）
 const activeJobs = new Map<string, cron.ScheduledTask>();
+// 内蔵ジョブ（予約公開・Notion同期・PVスナップショット）。スケジューラの起動中は常に登録される
+const builtInJobs = new Map<string, cron.ScheduledTask>();
 
 let mcpBaseUrl = "http://127.0.0.1:3000";
 
@@ -81,12 +97,13 @@ async function executeScheduledTool(schedule: ScheduleEntry): Promise<void> {
 
   // lastRunを更新
   try {
-    const schedules = readJsonStore<ScheduleEntry[]>(SCHEDULE_FILE, []);
-    const idx = schedules.findIndex((s) => s.id === schedule.id);
-    if (idx !== -1) {
-      schedules[idx].lastRun = new Date().toISOString();
-      writeJsonStore(SCHEDULE_FILE, schedules);
-    }
+    await updateJsonStoreAsync<ScheduleEntry[]>(SCHEDULE_FILE, [], (schedules) => {
+      const target = schedules.find((s) => s.id === schedule.id);
+      if (target) {
+        target.lastRun = new Date().toISOString();
+      }
+      return schedules;
+    });
   } catch {
     // lastRun更新失敗は無視
   }
@@ -126,6 +143,94 @@ function stopJob(id: string): void {
   }
 }
 
+/**
+ * 予約公開キューの処理ジョブを開始
+ */
+function startPublishQueueJob(): void {
+  const task = cron.schedule(PUBLISH_QUEUE_CRON, () => {
+    drainAllPublishQueues()
+      .then((result) => {
+        if (result.published > 0 || result.failed > 0) {
+          console.error(
+            `[scheduler] 予約公開: ${result.published}件公開, ${result.failed}件失敗, ${result.retrying}件再試行待ち`
+          );
+        }
+      })
+      .catch((error) => {
+        console.error(
+          "[scheduler] 予約公開キューの処理エラー:",
+          error instanceof Error ? error.message : error
+        );
+      });
+  });
+  builtInJobs.set(PUBLISH_QUEUE_JOB_ID, task);
+}
+
+/**
+ * Notion同期が有効なアカウントごとに同期ジョブを開始
+ */
+function startNotionSyncJobs(): void {
+  for (const { account, config } of listEnabledNotionSyncs()) {
+    if (!cron.validate(config.cron)) {
+      console.error(`[scheduler] 無効なcron式: ${config.cron} (Notion同期: ${account})`);
+      continue;
+    }
+
+    const task = cron.schedule(config.cron, () => {
+      runNotionSyncForAccount(account)
+        .then((result) => {
+          if (result && (result.imported > 0 || result.updated > 0 || result.failed > 0)) {
+            console.error(
+              `[scheduler] Notion同期 (${account}): ${result.imported}件取り込み, ${result.updated}件更新, ${result.failed}件失敗`
+            );
+          }
+        })
+        .catch((error) => {
+          console.error(
+            `[scheduler] Notion同期 (${account}) エラー:`,
+            error instanceof Error ? error.message : error
+          );
+        });
+    });
+    builtInJobs.set(`${NOTION_SYNC_JOB_PREFIX}${account}`, task);
+  }
+}
+
+/**
+ * PVスナップショットの記録ジョブを開始
+ */
+function startPvSnapshotJob(): void {
+  if (env.PV_SNAPSHOT_CRON === "off") return;
+  if (!cron.validate(env.PV_SNAPSHOT_CRON)) {
+    console.error(`[scheduler] 無効なcron式: ${env.PV_SNAPSHOT_CRON} (PVスナップショット)`);
+    return;
+  }
+
+  const task = cron.schedule(env.PV_SNAPSHOT_CRON, () => {
+    takeAllPvSnapshots()
+      .then((results) => {
+        for (const result of results) {
+          if (result.error) {
+            console.error(
+              `[scheduler] PVスナップショット (${result.account}) 失敗: ${result.error}`
+            );
+          } else {
+            console.error(
+              `[scheduler] PVスナップショット (${result.account}): ${result.articles}件記録`
+            );
+          }
+        }
+      })
+      .catch((error) => {
+        console.error(
+          "[scheduler] PVスナップショットの記録エラー:",
+          error instanceof Error ? error.message : error
+        );
+      });
+  });
+  builtInJobs.set(PV_SNAPSHOT_JOB_ID, task);
+}
+
 /**
  * 全スケジュールを読み込んでcronジョブを開始
  */
@@ -153,6 +258,10 @@ export function startAllSchedules(): { started: number; skipped: number } {
     console.error(`[scheduler] ${started}件のスケジュールを開始`);
   }
 
+  startPublishQueueJob();
+  startNotionSyncJobs();
+  startPvSnapshotJob();
+
   return { started, skipped };
 }
 
@@ -160,10 +269,12 @@ export function startAllSchedules(): { started: number; skipped: number } {
  * 全cronジョブを停止
  */
 export function stopAllSchedules(): number {
-  const count = activeJobs.size;
-  for (const [id, task] of activeJobs) {
-    task.stop();
-    activeJobs.delete(id);
+  const count = activeJobs.size + builtInJobs.size;
+  for (const jobs of [activeJobs, builtInJobs]) {
+    for (const [id, task] of jobs) {
+      task.stop();
+      jobs.delete(id);
+    }
   }
   return count;
 }
@@ -177,15 +288,19 @@ export function reloadSchedules(): { started: number; skipped: number } {
 
 /**
  * アクティブなジョブの状態を取得
+ * running・activeJobs はスケジュール（schedule-config.json）のジョブだけを数え、
+ * 内蔵ジョブ（予約公開など）は builtInJobs に分けて返す
  */
 export function getSchedulerStatus(): {
   running: boolean;
   activeJobCount: number;
   activeJobs: string[];
+  builtInJobs: string[];
 } {
   return {
     running: activeJobs.size > 0,
     activeJobCount: activeJobs.size,
     activeJobs: Array.from(activeJobs.keys()),
+    builtInJobs: Array.from(builtInJobs.keys()),
   };
 }
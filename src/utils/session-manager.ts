@@ -0,0 +1,199 @@
+import { env } from "../config/environment.js";
+import { SessionRefreshResult, SessionSource, SessionStatus } from "../types/account-types.js";
+import { getAccountProfile, getCurrentAccountName } from "./account-context.js";
+import { clearActiveSession, hasActiveSession, loginToNote } from "./auth.js";
+import { refreshSessionWithPlaywright } from "./playwright-session.js";
+
+// 同じセッションで再度 401/403 が返った場合に再ログインを控える時間
+const SESSION_REFRESH_COOLDOWN_MS = 60_000;
+
+interface SessionState {
+  // セッションが更新されるたびに増える世代番号（リクエスト送信時の世代と比較する）
+  generation: number;
+  source: SessionSource | null;
+  establishedAt: number | null;
+  refreshCount: number;
+  consecutiveFailures: number;
+  lastRefresh: SessionRefreshResult | null;
+  // refreshSession で更新を試みた時刻（起動時の取得の記録は含めない。再ログインを控える判定に使う）
+  lastAttemptAt: number | null;
+  inFlight: Promise<boolean> | null;
+}
+
+const sessionStates = new Map<string, SessionState>();
+
+function getState(account: string): SessionState {
+  let state = sessionStates.get(account);
+  if (!state) {
+    state = {
+      generation: 0,
+      source: null,
+      establishedAt: null,
+      refreshCount: 0,
+      consecutiveFailures: 0,
+      lastRefresh: null,
+      lastAttemptAt: null,
+      inFlight: null,
+    };
+    sessionStates.set(account, state);
+  }
+  return state;
+}
+
+function recordResult(state: SessionState, result: SessionRefreshResult): void {
+  state.lastRefresh = result;
+  if (result.success) {
+    state.generation++;
+    state.source = result.source;
+    state.establishedAt = Date.parse(result.at);
+    state.refreshCount++;
+    state.consecutiveFailures = 0;
+  } else {
+    state.consecutiveFailures++;
+  }
+}
+
+/**
+ * 現在のアカウントのセッション世代番号を返す
+ * リクエスト送信前に控えておき、認証エラー時に refreshSessionAfterAuthError へ渡す
+ */
+export function getSessionGeneration(): number {
+  return getState(getCurrentAccountName()).generation;
+}
+
+/**
+ * セッションの取得を記録する（起動時のPlaywright取得や.envのCookie採用など）
+ */
+export function recordSessionEstablished(source: SessionSource, reason: string): void {
+  recordResult(getState(getCurrentAccountName()), {
+    success: true,
+    source,
+    reason,
+    at: new Date().toISOString(),
+    durationMs: 0,
+  });
+}
+
+/**
+ * セッション取得の失敗を記録する
+ */
+export function recordSessionFailure(reason: string, error: unknown): void {
+  recordResult(getState(getCurrentAccountName()), {
+    success: false,
+    source: null,
+    reason,
+    at: new Date().toISOString(),
+    durationMs: 0,
+    error: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * 現在のアカウントのセッションを更新する
+ * loginToNote を試し、失敗した場合は Playwright（headless）で再取得する
+ * 同じアカウントの更新が実行中の場合はその結果を待つ（single-flight）
+ */
+export function refreshSession(reason: string): Promise<boolean> {
+  const account = getCurrentAccountName();
+  const state = getState(account);
+  if (state.inFlight) {
+    return state.inFlight;
+  }
+
+  const profile = getAccountProfile(account);
+  const run = async (): Promise<boolean> => {
+    const startedAt = Date.now();
+    let source: SessionSource | null = null;
+    let error: string | undefined;
+
+    if (!profile.email || !profile.password) {
+      error = "メールアドレスまたはパスワードが設定されていないため、セッションを更新できません";
+    } else {
+      console.error(`🔄 アカウント「${account}」のセッションを更新します（理由: ${reason}）`);
+      clearActiveSession();
+      if (await loginToNote()) {
+        source = "login";
+      } else {
+        try {
+          await refreshSessionWithPlaywright({ headless: true, navigationTimeoutMs: 45_000 });
+          source = "playwright";
+        } catch (playwrightError) {
+          error =
+            playwrightError instanceof Error ? playwrightError.message : String(playwrightError);
+        }
+      }
+    }
+
+    state.lastAttemptAt = Date.now();
+    recordResult(state, {
+      success: source !== null,
+      source,
+      reason,
+      at: new Date().toISOString(),
+      durationMs: Date.now() - startedAt,
+      error,
+    });
+
+    if (source) {
+      console.error(`✅ アカウント「${account}」のセッションを更新しました（${source}）`);
+    } else {
+      console.error(`❌ アカウント「${account}」のセッション更新に失敗しました: ${error}`);
+    }
+    return source !== null;
+  };
+
+  state.inFlight = run().finally(() => {
+    state.inFlight = null;
+  });
+  return state.inFlight;
+}
+
+/**
+ * 認証エラー（401/403）を受けたリクエストのためにセッションを更新する
+ * - 送信後に他のリクエストがセッションを更新済みなら、更新せずに再試行を許可する
+ * - 直近に更新を試みたばかり（成功・失敗とも）の場合は、権限不足とみなして更新しない
+ *   （起動時のセッション取得は更新の試行に含めないため、起動直後の認証エラーでも更新する）
+ * @returns 元のリクエストを再試行してよい場合は true
+ */
+export async function refreshSessionAfterAuthError(
+  usedGeneration: number,
+  reason: string
+): Promise<boolean> {
+  const state = getState(getCurrentAccountName());
+  if (state.inFlight) {
+    return state.inFlight;
+  }
+  if (state.generation !== usedGeneration) {
+    return true;
+  }
+  if (state.lastAttemptAt !== null) {
+    const elapsed = Date.now() - state.lastAttemptAt;
+    if (elapsed < SESSION_REFRESH_COOLDOWN_MS) {
+      if (env.DEBUG) {
+        console.error(`Session refresh skipped: last refresh was ${elapsed}ms ago`);
+      }
+      return false;
+    }
+  }
+  return refreshSession(reason);
+}
+
+/**
+ * 指定アカウントのセッション状態を返す
+ */
+export function getSessionStatus(account: string): SessionStatus {
+  const profile = getAccountProfile(account);
+  const state = getState(profile.name);
+  const hasSession = hasActiveSession(profile.name) || profile.sessionV5 !== "";
+  return {
+    account: profile.name,
+    hasSession,
+    source: state.source ?? (profile.sessionV5 ? "env" : null),
+    establishedAt: state.establishedAt ? new Date(state.establishedAt).toISOString() : null,
+    ageSeconds: state.establishedAt ? Math.floor((Date.now() - state.establishedAt) / 1000) : null,
+    refreshCount: state.refreshCount,
+    consecutiveFailures: state.consecutiveFailures,
+    refreshing: state.inFlight !== null,
+    lastRefresh: state.lastRefresh,
+  };
+}
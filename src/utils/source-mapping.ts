@@ -0,0 +1,207 @@
+import { createHash, randomUUID } from "crypto";
+import fs from "fs";
+import { readJsonStore, updateJsonStore } from "./memory-store.js";
+import { SourceChangeStatus, SourceDiff, SourceKind, SourceMapping } from "../types/note-types.js";
+
+/**
+ * 記事の元原稿（Obsidianのファイル・Notionのページ）とnote記事の対応を管理するユーティリティ
+ *
+ * 公開時に内容のハッシュと本文のスナップショットを保存しておき、再実行時は
+ * - 対応する記事がなければ新規作成
+ * - ハッシュが同じなら何もしない
+ * - ハッシュが変わっていれば既存の記事を更新し、前回との差分を報告する
+ */
+
+const SOURCE_MAPPINGS_FILE = "source-mappings.json";
+
+// 差分として返す変更行の上限
+const MAX_DIFF_LINES = 50;
+
+// 行単位のLCSを計算する上限（行数の積）。超えた場合は変更範囲をまとめて置き換えとみなす
+const MAX_LCS_CELLS = 4_000_000;
+
+export interface SaveSourceMappingInput {
+  kind: SourceKind;
+  sourceId: string;
+  noteId: string;
+  noteUrl?: string;
+  contentHash: string;
+  title: string;
+  snapshot: string;
+  magazines?: string[];
+}
+
+export interface SourceChange {
+  status: SourceChangeStatus;
+  mapping?: SourceMapping;
+  diff?: SourceDiff;
+}
+
+/**
+ * 内容のハッシュを計算する（値はJSONとして連結してハッシュ化する）
+ */
+export function computeContentHash(...parts: unknown[]): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    hash.update(JSON.stringify(part ?? null));
+    hash.update("\n");
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * ファイルの内容のハッシュを計算する（画像の差し替えの検出用）
+ */
+export function computeFileHash(filePath: string): string {
+  return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+/**
+ * 現在のアカウントの対応表を返す
+ */
+export function listSourceMappings(kind?: SourceKind): SourceMapping[] {
+  return readJsonStore<SourceMapping[]>(SOURCE_MAPPINGS_FILE, []).filter(
+    (mapping) => !kind || mapping.kind === kind
+  );
+}
+
+/**
+ * 元原稿に対応する記事を探す
+ */
+export function findSourceMapping(kind: SourceKind, sourceId: string): SourceMapping | undefined {
+  return listSourceMappings(kind).find((mapping) => mapping.sourceId === sourceId);
+}
+
+/**
+ * 記事IDから対応を探す（ファイルを移動した場合など、元原稿のIDが変わったとき用）
+ */
+export function findSourceMappingByNoteId(
+  kind: SourceKind,
+  noteId: string
+): SourceMapping | undefined {
+  return listSourceMappings(kind).find((mapping) => mapping.noteId === noteId);
+}
+
+/**
+ * 元原稿と記事の対応を保存する
+ * 同じ元原稿、または同じ記事の対応が既にあれば置き換える
+ */
+export function saveSourceMapping(input: SaveSourceMappingInput): SourceMapping {
+  const now = new Date().toISOString();
+  let result: SourceMapping | undefined;
+
+  updateJsonStore<SourceMapping[]>(SOURCE_MAPPINGS_FILE, [], (mappings) => {
+    const existing = mappings.find(
+      (mapping) =>
+        mapping.kind === input.kind &&
+        (mapping.sourceId === input.sourceId || mapping.noteId === input.noteId)
+    );
+    const mapping: SourceMapping = {
+      id: existing?.id ?? randomUUID(),
+      ...input,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    result = mapping;
+    return [...mappings.filter((candidate) => candidate !== existing), mapping];
+  });
+
+  return result!;
+}
+
+/**
+ * 前回反映した内容と比べて、新規・変更なし・変更ありを判定する
+ */
+export function detectSourceChange(
+  mapping: SourceMapping | undefined,
+  contentHash: string,
+  snapshot: string
+): SourceChange {
+  if (!mapping) {
+    return { status: "new" };
+  }
+  if (mapping.contentHash === contentHash) {
+    return { status: "unchanged", mapping };
+  }
+  return { status: "changed", mapping, diff: diffSnapshots(mapping.snapshot, snapshot) };
+}
+
+/**
+ * 2つのテキストの行単位の差分を返す
+ */
+export function diffSnapshots(before: string, after: string): SourceDiff {
+  const oldLines = before.split(/\r?\n/);
+  const newLines = after.split(/\r?\n/);
+
+  // 先頭と末尾の共通部分は差分計算から除く
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const changes = diffLines(oldLines.slice(start, oldEnd), newLines.slice(start, newEnd));
+  return {
+    added: changes.filter((line) => line.startsWith("+")).length,
+    removed: changes.filter((line) => line.startsWith("-")).length,
+    changes: changes.slice(0, MAX_DIFF_LINES),
+    truncated: changes.length > MAX_DIFF_LINES,
+  };
+}
+
+/**
+ * LCSで行の追加・削除を求める（空行の変更は除く）
+ */
+function diffLines(oldLines: string[], newLines: string[]): string[] {
+  const removed = (line: string) => `- ${line}`;
+  const added = (line: string) => `+ ${line}`;
+
+  if (oldLines.length * newLines.length > MAX_LCS_CELLS) {
+    return [...oldLines.map(removed), ...newLines.map(added)].filter(isMeaningful);
+  }
+
+  // lengths[i][j] = oldLines[i..] と newLines[j..] のLCSの長さ
+  const lengths: Uint32Array[] = Array.from(
+    { length: oldLines.length + 1 },
+    () => new Uint32Array(newLines.length + 1)
+  );
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      i++;
+      j++;
+    } else if (
+      i < oldLines.length &&
+      (j === newLines.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      changes.push(removed(oldLines[i++]));
+    } else {
+      changes.push(added(newLines[j++]));
+    }
+  }
+  return changes.filter(isMeaningful);
+}
+
+function isMeaningful(line: string): boolean {
+  return line.slice(2).trim() !== "";
+}
@@ -0,0 +1,150 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import type BetterSqlite3 from "better-sqlite3";
+import { StorageBackend } from "../types/storage-types.js";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * better-sqlite3 は optionalDependencies のため、SQLiteバックエンド選択時のみ読み込む
+ */
+function loadDatabaseConstructor(): typeof BetterSqlite3 {
+  try {
+    return require("better-sqlite3") as typeof BetterSqlite3;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `SQLiteストレージを利用するには better-sqlite3 が必要です（npm install better-sqlite3）: ${message}`
+    );
+  }
+}
+
+/**
+ * 組み込みSQLiteに保存するストレージ
+ * - 配列はエントリ単位で行を持つため、追記はINSERT1回で完結する
+ * - WALモード + busy_timeout で複数プロセスからの同時書き込みを直列化する
+ */
+export class SqliteStorage implements StorageBackend {
+  readonly kind = "sqlite" as const;
+  private db: BetterSqlite3.Database;
+
+  constructor(dbPath: string) {
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const Database = loadDatabaseConstructor();
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 5000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        key TEXT PRIMARY KEY,
+        kind TEXT NOT NULL CHECK (kind IN ('value', 'array')),
+        value TEXT,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS array_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_array_items_key ON array_items (key, id);
+    `);
+  }
+
+  read<T>(key: string, defaultValue: T): T {
+    const doc = this.db.prepare("SELECT kind, value FROM documents WHERE key = ?").get(key) as
+      | { kind: string; value: string | null }
+      | undefined;
+    if (!doc) {
+      return defaultValue;
+    }
+
+    try {
+      if (doc.kind === "array") {
+        const rows = this.db
+          .prepare("SELECT value FROM array_items WHERE key = ? ORDER BY id")
+          .all(key) as { value: string }[];
+        return rows.map((row) => JSON.parse(row.value)) as T;
+      }
+      return doc.value === null ? defaultValue : (JSON.parse(doc.value) as T);
+    } catch {
+      return defaultValue;
+    }
+  }
+
+  write<T>(key: string, data: T): void {
+    const now = new Date().toISOString();
+    const replace = this.db.transaction(() => {
+      this.db.prepare("DELETE FROM array_items WHERE key = ?").run(key);
+      if (Array.isArray(data)) {
+        this.db
+          .prepare(
+            "INSERT OR REPLACE INTO documents (key, kind, value, updated_at) VALUES (?, 'array', NULL, ?)"
+          )
+          .run(key, now);
+        const insert = this.db.prepare("INSERT INTO array_items (key, value) VALUES (?, ?)");
+        for (const item of data) {
+          insert.run(key, JSON.stringify(item));
+        }
+      } else {
+        this.db
+          .prepare(
+            "INSERT OR REPLACE INTO documents (key, kind, value, updated_at) VALUES (?, 'value', ?, ?)"
+          )
+          .run(key, JSON.stringify(data), now);
+      }
+    });
+    replace.immediate();
+  }
+
+  append<T>(key: string, entry: T): void {
+    const now = new Date().toISOString();
+    const appendEntry = this.db.transaction(() => {
+      const doc = this.db.prepare("SELECT kind FROM documents WHERE key = ?").get(key) as
+        | { kind: string }
+        | undefined;
+      if (doc && doc.kind !== "array") {
+        throw new Error(`${key} は配列ではないため追記できません`);
+      }
+      this.db
+        .prepare(
+          "INSERT OR REPLACE INTO documents (key, kind, value, updated_at) VALUES (?, 'array', NULL, ?)"
+        )
+        .run(key, now);
+      this.db
+        .prepare("INSERT INTO array_items (key, value) VALUES (?, ?)")
+        .run(key, JSON.stringify(entry));
+    });
+    appendEntry.immediate();
+  }
+
+  update<T>(key: string, defaultValue: T, updater: (current: T) => T): T {
+    const readModifyWrite = this.db.transaction(() => {
+      const next = updater(this.read(key, defaultValue));
+      this.write(key, next);
+      return next;
+    });
+    return readModifyWrite.immediate();
+  }
+
+  // SQLiteはファイルロックを使わない（書き込みの待機は busy_timeout に任せる）ため、同期版と同じ
+  async appendAsync<T>(key: string, entry: T): Promise<void> {
+    this.append(key, entry);
+  }
+
+  async updateAsync<T>(key: string, defaultValue: T, updater: (current: T) => T): Promise<T> {
+    return this.update(key, defaultValue, updater);
+  }
+
+  has(key: string): boolean {
+    return this.db.prepare("SELECT 1 FROM documents WHERE key = ?").get(key) !== undefined;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,442 @@
+import fs from "fs";
+import path from "path";
+import { env } from "../config/environment.js";
+import { readJsonStore, updateJsonStore, updateJsonStoreAsync } from "./memory-store.js";
+import { getCurrentAccountName, listAccountProfiles, runWithAccount } from "./account-context.js";
+import { parseFrontmatter, writeFrontmatterFields } from "./frontmatter.js";
+import { publishObsidianFile } from "./obsidian-publisher.js";
+import { getDefaultReportFormat, isReportConfigured, sendReport } from "./notifier.js";
+import {
+  VaultPublishFlag,
+  VaultWatchConfig,
+  VaultWatchedFile,
+  VaultWatchStatus,
+} from "../types/note-types.js";
+
+/**
+ * Obsidianの保管庫を監視し、Frontmatterに publish フラグを付けたノートを自動で処理するサービス
+ *
+ * - publish: draft → 下書きとして保存する
+ * - publish: ready → 下書き保存後に公開キューに登録する（publishAt があればその日時、なければすぐ）
+ *
+ * 処理結果はFrontmatterの publishStatus / publishError に書き戻し、Webhookで通知する。
+ * publish の値が変わったとき（失敗した場合はファイルを編集したとき）だけ再処理する。
+ */
+
+const VAULT_WATCH_FILE = "vault-watch.json";
+
+// 保存が続いている間は処理しない（Obsidianは編集中も自動保存するため）
+const DEBOUNCE_MS = 3000;
+
+const PUBLISH_FLAGS: VaultPublishFlag[] = ["draft", "ready"];
+
+const STATUS_LABELS: Record<VaultWatchStatus, string> = {
+  drafted: "下書きを作成しました",
+  updated: "記事を更新しました",
+  scheduled: "公開を予約しました",
+  unchanged: "内容に変更はありません",
+  failed: "処理に失敗しました",
+};
+
+interface ActiveWatcher {
+  folder: string;
+  watcher: fs.FSWatcher;
+  timers: Map<string, NodeJS.Timeout>;
+}
+
+// 監視中のアカウント → ウォッチャー
+const activeWatchers = new Map<string, ActiveWatcher>();
+
+// 監視サービスが起動しているか（監視対象がなくても、設定の変更時に監視を始めるため）
+let serviceRunning = false;
+
+// アカウントごとの処理待ち（ブラウザ操作を重ねて実行しない）
+const processingChains = new Map<string, Promise<void>>();
+
+export type VaultWatchConfigInput = Partial<
+  Omit<VaultWatchConfig, "notify" | "files" | "lastScanAt">
+> & {
+  notify?: Partial<VaultWatchConfig["notify"]>;
+};
+
+export interface VaultScanResult {
+  checked: number;
+  processed: number;
+  failed: number;
+  results: { path: string; status: VaultWatchStatus; noteUrl?: string; error?: string }[];
+}
+
+/**
+ * 現在のアカウントの監視設定を返す（未設定の場合は null）
+ */
+export function getVaultWatchConfig(): VaultWatchConfig | null {
+  return readJsonStore<VaultWatchConfig | null>(VAULT_WATCH_FILE, null);
+}
+
+/**
+ * 監視設定を保存する（未指定の項目は現在の設定・既定値を引き継ぐ）
+ */
+export function saveVaultWatchConfig(input: VaultWatchConfigInput): VaultWatchConfig {
+  let result: VaultWatchConfig | undefined;
+
+  updateJsonStore<VaultWatchConfig | null>(VAULT_WATCH_FILE, null, (current) => {
+    const folder = input.folder ?? current?.folder ?? env.OBSIDIAN_VAULT_PATH;
+    if (!folder) {
+      throw new Error("folder を指定するか、環境変数 OBSIDIAN_VAULT_PATH を設定してください");
+    }
+    const resolved = path.resolve(folder);
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+      throw new Error(`監視するフォルダが見つかりません: ${resolved}`);
+    }
+
+    const config: VaultWatchConfig = {
+      folder: resolved,
+      vaultRoot: input.vaultRoot !== undefined ? input.vaultRoot || undefined : current?.vaultRoot,
+      enabled: input.enabled ?? current?.enabled ?? true,
+      notify: {
+        format: input.notify?.format ?? current?.notify.format ?? getDefaultReportFormat(),
+        webhookUrl:
+          input.notify?.webhookUrl !== undefined
+            ? input.notify.webhookUrl || undefined
+            : current?.notify.webhookUrl,
+      },
+      // 別のフォルダに切り替えた場合は処理済みのファイルをリセットする
+      files: current?.folder === resolved ? current.files : {},
+      lastScanAt: current?.lastScanAt,
+    };
+    result = config;
+    return config;
+  });
+
+  return result!;
+}
+
+/**
+ * Frontmatterの publish フラグを読み取る（draft / ready 以外は null）
+ */
+export function readPublishFlag(data: Record<string, unknown>): VaultPublishFlag | null {
+  const value = typeof data.publish === "string" ? data.publish.trim().toLowerCase() : "";
+  return PUBLISH_FLAGS.find((flag) => flag === value) ?? null;
+}
+
+/**
+ * 現在のアカウントの監視フォルダ内のノートをすべて確認し、フラグの付いたノートを処理する
+ */
+export async function scanVaultFolder(): Promise<VaultScanResult> {
+  const config = getVaultWatchConfig();
+  if (!config) {
+    throw new Error("保管庫の監視が設定されていません（configure-vault-watch で設定してください）");
+  }
+
+  const result: VaultScanResult = { checked: 0, processed: 0, failed: 0, results: [] };
+  for (const filePath of listMarkdownFiles(config.folder)) {
+    result.checked++;
+    const processed = await processVaultFile(filePath);
+    if (processed) {
+      result.processed++;
+      if (processed.status === "failed") result.failed++;
+      result.results.push({
+        path: filePath,
+        status: processed.status,
+        noteUrl: processed.noteUrl,
+        error: processed.error,
+      });
+    }
+  }
+
+  await updateJsonStoreAsync<VaultWatchConfig | null>(VAULT_WATCH_FILE, null, (current) =>
+    current ? { ...current, lastScanAt: new Date().toISOString() } : current
+  );
+  return result;
+}
+
+/**
+ * 現在のアカウントの監視フォルダを確認する（監視による処理と重ならないよう順番待ちする）
+ */
+export function runVaultScan(): Promise<VaultScanResult> {
+  return enqueue(getCurrentAccountName(), () => scanVaultFolder());
+}
+
+/**
+ * ノートを1件処理する（処理が不要な場合は null）
+ */
+export async function processVaultFile(filePath: string): Promise<VaultWatchedFile | null> {
+  const config = getVaultWatchConfig();
+  if (!config || !fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const data = parseFrontmatter(fs.readFileSync(filePath, "utf-8"));
+  const flag = readPublishFlag(data);
+  const previous = config.files[filePath];
+  if (!flag) {
+    // フラグを外したノートは記録を消し、次にフラグを付けたときに再処理する
+    if (previous) saveWatchedFile(filePath, null);
+    return null;
+  }
+
+  const mtimeMs = fs.statSync(filePath).mtimeMs;
+  if (
+    previous &&
+    previous.flag === flag &&
+    (previous.status !== "failed" || previous.mtimeMs === mtimeMs)
+  ) {
+    return null;
+  }
+
+  let status: VaultWatchStatus;
+  let title = path.basename(filePath, ".md");
+  let noteId: string | undefined;
+  let noteUrl: string | undefined;
+  let error: string | undefined;
+
+  try {
+    // ready は公開キューに登録する（公開済みの記事は更新だけ行う）
+    const publishAt =
+      flag === "ready" && !data.publishedAt
+        ? typeof data.publishAt === "string" && data.publishAt
+          ? data.publishAt
+          : new Date().toISOString()
+        : undefined;
+    const published = await publishObsidianFile({
+      markdownPath: filePath,
+      vaultRoot: config.vaultRoot,
+      headless: true,
+      saveAsDraft: true,
+      publishAt,
+    });
+
+    title = published.title ?? title;
+    noteId = published.noteId;
+    noteUrl = published.noteUrl;
+    if (!published.success) {
+      status = "failed";
+      error = [published.error, ...(published.missingImages ?? [])].join(": ");
+    } else if (published.scheduled) {
+      status = "scheduled";
+    } else {
+      status =
+        published.status === "unchanged"
+          ? "unchanged"
+          : published.status === "updated"
+            ? "updated"
+            : "drafted";
+    }
+  } catch (caught) {
+    status = "failed";
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  writeFrontmatterFields(filePath, { publishStatus: status, publishError: error ?? null });
+
+  const record: VaultWatchedFile = {
+    flag,
+    status,
+    mtimeMs: fs.statSync(filePath).mtimeMs,
+    noteId: noteId ?? previous?.noteId,
+    noteUrl: noteUrl ?? previous?.noteUrl,
+    error,
+    processedAt: new Date().toISOString(),
+  };
+  saveWatchedFile(filePath, record);
+
+  console.error(
+    `[vault-watcher] ${filePath}: ${STATUS_LABELS[status]}${error ? `（${error}）` : ""}`
+  );
+  await notify(config, filePath, title, record);
+  return record;
+}
+
+/**
+ * 監視が有効なアカウントごとにフォルダの監視を開始する（起動時に一度フォルダ全体を確認する）
+ */
+export function startVaultWatchers(): { started: number } {
+  closeWatchers();
+  serviceRunning = true;
+
+  let started = 0;
+  for (const profile of listAccountProfiles()) {
+    const account = profile.name;
+    const config = runWithAccount(account, () => getVaultWatchConfig());
+    if (!config?.enabled) continue;
+
+    if (!fs.existsSync(config.folder)) {
+      console.error(
+        `[vault-watcher] 監視するフォルダが見つかりません: ${config.folder} (${account})`
+      );
+      continue;
+    }
+
+    const timers = new Map<string, NodeJS.Timeout>();
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(config.folder, { recursive: true }, (_event, fileName) => {
+        if (!fileName || !fileName.toString().endsWith(".md")) return;
+        const filePath = path.join(config.folder, fileName.toString());
+        if (isHiddenPath(config.folder, filePath)) return;
+
+        clearTimeout(timers.get(filePath));
+        timers.set(
+          filePath,
+          setTimeout(() => {
+            timers.delete(filePath);
+            enqueue(account, () => processVaultFile(filePath)).catch((error) =>
+              logError(account, error)
+            );
+          }, DEBOUNCE_MS)
+        );
+      });
+    } catch (error) {
+      // 再帰的な監視に対応していない環境（Node.js 20未満のLinuxなど）や、権限のないフォルダ
+      console.error(
+        `[vault-watcher] フォルダを監視できません: ${config.folder} (${account}):`,
+        error instanceof Error ? error.message : error
+      );
+      continue;
+    }
+    watcher.on("error", (error) => {
+      console.error(`[vault-watcher] 監視エラー (${account}):`, error.message);
+    });
+
+    activeWatchers.set(account, { folder: config.folder, watcher, timers });
+    enqueue(account, () => scanVaultFolder()).catch((error) => logError(account, error));
+    started++;
+  }
+
+  if (started > 0) {
+    console.error(`[vault-watcher] ${started}件のフォルダの監視を開始`);
+  }
+  return { started };
+}
+
+/**
+ * すべての監視を停止する
+ */
+export function stopVaultWatchers(): number {
+  serviceRunning = false;
+  return closeWatchers();
+}
+
+function closeWatchers(): number {
+  const count = activeWatchers.size;
+  for (const [account, active] of activeWatchers) {
+    active.watcher.close();
+    active.timers.forEach((timer) => clearTimeout(timer));
+    activeWatchers.delete(account);
+  }
+  return count;
+}
+
+/**
+ * 監視の状態を取得
+ */
+export function getVaultWatcherStatus(): {
+  running: boolean;
+  watching: { account: string; folder: string }[];
+} {
+  return {
+    running: serviceRunning,
+    watching: Array.from(activeWatchers.entries()).map(([account, active]) => ({
+      account,
+      folder: active.folder,
+    })),
+  };
+}
+
+/**
+ * アカウントの処理待ちに追加する（前の処理が終わってから実行する）
+ */
+function enqueue<T>(account: string, task: () => Promise<T>): Promise<T> {
+  const previous = processingChains.get(account) ?? Promise.resolve();
+  const run = previous.then(() => runWithAccount(account, task));
+  processingChains.set(
+    account,
+    run.then(
+      () => undefined,
+      () => undefined
+    )
+  );
+  return run;
+}
+
+function logError(account: string, error: unknown): void {
+  console.error(
+    `[vault-watcher] 処理エラー (${account}):`,
+    error instanceof Error ? error.message : error
+  );
+}
+
+function saveWatchedFile(filePath: string, record: VaultWatchedFile | null): void {
+  updateJsonStore<VaultWatchConfig | null>(VAULT_WATCH_FILE, null, (current) => {
+    if (!current) return current;
+    const files = { ...current.files };
+    if (record) {
+      files[filePath] = record;
+    } else {
+      delete files[filePath];
+    }
+    return { ...current, files };
+  });
+}
+
+/**
+ * 処理結果をWebhookで通知する（送信先が未設定なら何もしない。失敗しても処理は成功扱い）
+ */
+async function notify(
+  config: VaultWatchConfig,
+  filePath: string,
+  title: string,
+  record: VaultWatchedFile
+): Promise<void> {
+  if (
+    record.status === "unchanged" ||
+    !isReportConfigured(config.notify.format, config.notify.webhookUrl)
+  ) {
+    return;
+  }
+
+  const lines = [
+    `${STATUS_LABELS[record.status]}: ${title}`,
+    `ファイル: ${path.relative(config.folder, filePath)}`,
+  ];
+  if (record.noteUrl) lines.push(`記事: ${record.noteUrl}`);
+  if (record.error) lines.push(`エラー: ${record.error}`);
+
+  try {
+    await sendReport({
+      title: record.status === "failed" ? "Obsidian自動公開: 失敗" : "Obsidian自動公開",
+      body: lines.join("\n"),
+      webhookUrl: config.notify.webhookUrl,
+      format: config.notify.format,
+    });
+  } catch (error) {
+    console.error(
+      "[vault-watcher] 通知の送信に失敗しました:",
+      error instanceof Error ? error.message : error
+    );
+  }
+}
+
+/**
+ * フォルダ内のMarkdownファイル（.obsidian などの隠しフォルダは除く）
+ */
+function listMarkdownFiles(folder: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+    if (entry.name.startsWith(".")) continue;
+    const fullPath = path.join(folder, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listMarkdownFiles(fullPath));
+    } else if (entry.isFile() && entry.name.endsWith(".md")) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+function isHiddenPath(folder: string, filePath: string): boolean {
+  return path
+    .relative(folder, filePath)
+    .split(path.sep)
+    .some((segment) => segment.startsWith("."));
+}
@@ -1,5 +1,5 @@
 import { XStrategy } from "../types/analytics-types.js";
-import { readJsonStore } from "./memory-store.js";
+import { readJsonFile } from "./json-file-storage.js";
 
 const X_STRATEGY_FILE = "x-strategy.json";
 
@@ -148,7 +148,8 @@ export const DEFAULT_X_STRATEGY: XStrategy = {
 /**
  * X運用戦略を読み込む
  * x-strategy.json が存在しない場合はデフォルト値を返す
+ * 利用者が手で編集する設定ファイルのため、ストレージ種別に関わらずファイルから読む
  */
 export function getXStrategy(): XStrategy {
-  return readJsonStore<XStrategy>(X_STRATEGY_FILE, DEFAULT_X_STRATEGY);
+  return readJsonFile<XStrategy>(X_STRATEGY_FILE, DEFAULT_X_STRATEGY);
 }
@@ -0,0 +1,99 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { startFakeNoteApi } from "../build/fake-api/server.js";
+import { FIXTURE_CREDENTIALS } from "../build/fake-api/fixtures.js";
+
+/**
+ * フェイクAPIに対してツールを呼び出すテスト
+ *
+ * 空いているポートでフェイクAPIを起動し、NOTE_API_BASE_URL を向けてから
+ * ツールのモジュールを読み込む（設定は読み込み時に環境変数から決まるため）。
+ * ツールは McpServer の代わりに、登録されたハンドラーを集めるだけのオブジェクトに登録する。
+ */
+
+let api;
+let dataDir;
+const handlers = new Map();
+
+async function callTool(name, args) {
+  const handler = handlers.get(name);
+  assert.ok(handler, `ツールが登録されていません: ${name}`);
+  const result = await handler(args);
+  assert.ok(!result.isError, `${name} がエラーを返しました: ${result.content[0].text}`);
+  return JSON.parse(result.content[0].text);
+}
+
+before(async () => {
+  api = await startFakeNoteApi({ port: 0 });
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "note-mcp-fake-api-"));
+
+  Object.assign(process.env, {
+    NOTE_API_BASE_URL: api.baseUrl,
+    NOTE_EMAIL: FIXTURE_CREDENTIALS.email,
+    NOTE_PASSWORD: FIXTURE_CREDENTIALS.password,
+    NOTE_USER_ID: "fixture_writer",
+    // .env のセッションを使わず、フェイクAPIにログインさせる
+    NOTE_SESSION_V5: "",
+    NOTE_XSRF_TOKEN: "",
+    NOTE_DATA_DIR: dataDir,
+  });
+
+  const server = { tool: (name, _description, _schema, handler) => handlers.set(name, handler) };
+  const { registerSearchTools } = await import("../build/tools/search-tools.js");
+  const { registerNoteTools } = await import("../build/tools/note-tools.js");
+  const { registerUserTools } = await import("../build/tools/user-tools.js");
+  registerSearchTools(server);
+  registerNoteTools(server);
+  registerUserTools(server);
+});
+
+after(async () => {
+  await api?.close();
+  if (dataDir) fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test("search-notes: フィクスチャの記事を検索できる", async () => {
+  const result = await callTool("search-notes", {
+    query: "タイトル",
+    size: 10,
+    start: 0,
+    sort: "hot",
+  });
+
+  assert.ok(result.total >= 1);
+  assert.ok(result.notes.some((note) => note.title === "読まれるタイトルの付け方"));
+  assert.ok(api.requests.some((request) => request.path.startsWith("/api/v3/searches")));
+});
+
+test("post-draft-note: 下書きを作成し本文を保存する", async () => {
+  const result = await callTool("post-draft-note", {
+    title: "フェイクAPIの下書き",
+    body: "<p>下書きの本文</p>",
+    tags: ["テスト"],
+  });
+
+  assert.equal(result.success, true);
+  const note = api.state.notes.find((item) => String(item.id) === String(result.noteId));
+  assert.ok(note, "作成した下書きがフェイクAPIにありません");
+  assert.equal(note.status, "draft");
+  assert.equal(note.name, "フェイクAPIの下書き");
+  assert.equal(note.body, "<p>下書きの本文</p>");
+});
+
+test("get-stats: 自分の記事のPV統計を取得する", async () => {
+  const result = await callTool("get-stats", { filter: "all", page: 1, sort: "pv" });
+
+  const writer = api.state.users.find((user) => user.urlname === "fixture_writer");
+  const ownNotes = api.state.notes.filter(
+    (note) => note.status === "published" && note.userId === writer.id
+  );
+  assert.ok(result.data.note_stats.length > 0);
+  assert.ok(result.data.note_stats.every((stat) => stat.user.urlname === "fixture_writer"));
+  assert.equal(
+    result.data.total_pv,
+    ownNotes.reduce((sum, note) => sum + note.readCount, 0)
+  );
+});
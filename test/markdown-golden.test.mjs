@@ -0,0 +1,139 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { convertMarkdownToNoteHtml } from "../build/utils/markdown-converter.js";
+import { collectEmbedUrls } from "../build/utils/note-embeds.js";
+import { parseMarkdown, parseMarkdownArticle } from "../build/utils/note-editor-formatter.js";
+import { NotionToNoteFormatter } from "../build/utils/notion-to-note-formatter.js";
+import { ObsidianVaultResolver } from "../build/utils/obsidian-vault.js";
+import { convertObsidianToNoteHtml } from "../build/tools/obsidian-tools.js";
+
+/**
+ * Markdown変換のゴールデンファイルテスト
+ *
+ * test/fixtures 以下の入力を変換し、同じ名前の期待値と比較する。
+ * - markdown/<名前>.md → <名前>.html（convertMarkdownToNoteHtml。埋め込みには固定のキーを渡す）と
+ *   <名前>.editor.json（Playwrightでのエディタ入力用の要素。parseMarkdown）
+ * - obsidian/<名前>.md → <名前>.html（obsidian/vault を保管庫として展開し、convertObsidianToNoteHtml）
+ * - notion/<名前>.ir.json → <名前>.md（NotionToNoteFormatter）と <名前>.html（そのMarkdownを変換。
+ *   埋め込みのキーは渡さず、キーがない場合のリンク出力を確認する）
+ * HTMLはUUID属性を固定値に置き換えて比較する。
+ *
+ * 変換ルールを意図して変えた場合や、フィクスチャを追加した場合は
+ * UPDATE_GOLDEN=1 npm test で期待値を書き出し、差分を確認してからコミットする。
+ */
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+const MARKDOWN_DIR = path.join(FIXTURE_DIR, "markdown");
+const OBSIDIAN_DIR = path.join(FIXTURE_DIR, "obsidian");
+const VAULT_DIR = path.join(OBSIDIAN_DIR, "vault");
+const NOTION_DIR = path.join(FIXTURE_DIR, "notion");
+const UPDATE = process.env.UPDATE_GOLDEN === "1";
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}/g;
+
+/**
+ * 実行ごとに変わるUUIDを固定値にし、ブロック要素ごとに改行して差分を読みやすくする
+ */
+function normalizeHtml(html) {
+  return (
+    html
+      .replace(UUID_PATTERN, "UUID")
+      .replace(/(<\/(?:p|h1|h2|h3|ul|ol|li|blockquote|pre|figure)>|<hr>)/g, "$1\n")
+      .replace(/\n{2,}/g, "\n")
+      .trimEnd() + "\n"
+  );
+}
+
+/**
+ * 期待値と比較する（UPDATE_GOLDEN=1 の場合は期待値を書き出す）
+ */
+function assertGolden(dir, file, actual) {
+  const goldenPath = path.join(dir, file);
+  if (UPDATE) {
+    fs.writeFileSync(goldenPath, actual);
+    return;
+  }
+  if (!fs.existsSync(goldenPath)) {
+    assert.fail(
+      `期待値がありません: ${path.relative(FIXTURE_DIR, goldenPath)}（UPDATE_GOLDEN=1 npm test で作成してください）`
+    );
+  }
+  assert.equal(actual, fs.readFileSync(goldenPath, "utf-8"), `${file} と一致しません`);
+}
+
+function listFixtures(dir, extension) {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(extension))
+    .map((file) => file.slice(0, -extension.length))
+    .sort();
+}
+
+function readFixture(dir, file) {
+  return fs.readFileSync(path.join(dir, file), "utf-8");
+}
+
+/**
+ * 投稿時と同じく、Frontmatterとタイトル行を除いた本文を取り出す
+ */
+function articleBody(markdown) {
+  return parseMarkdownArticle(markdown).body;
+}
+
+for (const name of listFixtures(MARKDOWN_DIR, ".md")) {
+  test(`markdown: ${name}`, () => {
+    const body = articleBody(readFixture(MARKDOWN_DIR, `${name}.md`));
+
+    // 投稿時にnoteが発行するキーの代わりに、出現順の固定値を使う
+    const embedKeys = new Map(collectEmbedUrls(body).map((url, index) => [url, `emb${index + 1}`]));
+    const html = convertMarkdownToNoteHtml(body, { embedKeys });
+
+    assertGolden(MARKDOWN_DIR, `${name}.html`, normalizeHtml(html));
+    assertGolden(
+      MARKDOWN_DIR,
+      `${name}.editor.json`,
+      JSON.stringify(parseMarkdown(body), null, 2) + "\n"
+    );
+  });
+}
+
+for (const name of listFixtures(OBSIDIAN_DIR, ".md")) {
+  test(`obsidian: ${name}`, async () => {
+    const body = articleBody(readFixture(OBSIDIAN_DIR, `${name}.md`));
+    // 公開済みかどうかはnoteに問い合わせず、リンク先のFrontmatterだけで判断する
+    const resolver = new ObsidianVaultResolver({ vaultRoot: VAULT_DIR });
+    const vault = await resolver.resolve(body, path.join(OBSIDIAN_DIR, `${name}.md`));
+    const { html } = convertObsidianToNoteHtml(vault.markdown, OBSIDIAN_DIR);
+
+    assertGolden(OBSIDIAN_DIR, `${name}.html`, normalizeHtml(html));
+  });
+}
+
+for (const name of listFixtures(NOTION_DIR, ".ir.json")) {
+  test(`notion: ${name}`, () => {
+    const nodes = JSON.parse(readFixture(NOTION_DIR, `${name}.ir.json`));
+    const markdown = new NotionToNoteFormatter().formatToMarkdown(nodes);
+
+    assertGolden(NOTION_DIR, `${name}.md`, markdown.trimEnd() + "\n");
+    assertGolden(NOTION_DIR, `${name}.html`, normalizeHtml(convertMarkdownToNoteHtml(markdown)));
+  });
+}
+
+test("frontmatter: 公開メタデータを読み取り本文から除く", () => {
+  const { title, body, frontmatter } = parseMarkdownArticle(
+    readFixture(MARKDOWN_DIR, "frontmatter.md")
+  );
+
+  assert.equal(title, "Frontmatterのタイトル");
+  assert.deepEqual(frontmatter.tags, ["markdown", "テスト"]);
+  assert.equal(frontmatter.price, 300);
+  assert.deepEqual(frontmatter.magazines, ["magazine-a", "magazine-b"]);
+  // 値のない項目は未指定として扱う
+  assert.equal(frontmatter.noteId, undefined);
+  assert.equal(frontmatter.publishAt, undefined);
+  assert.ok(!body.includes("title:"));
+  assert.ok(!body.startsWith("# "));
+});